@@ -1,14 +1,21 @@
 // packages/backend/src/routes/api.ts
+import { timingSafeEqual } from "crypto";
+
 import { generateShortId } from "@pades-poc/shared";
-import { Router } from "express";
+import express, { Router } from "express";
 
 import { padesBackendLogger, logPAdES } from "../logger";
 import { CMSService } from "../services/cms-service";
-import { fromBase64, toBase64 } from "../services/crypto-utils";
+import { fromBase64, sha256, toBase64 } from "../services/crypto-utils";
 import { dumpPdfObjects, extractCmsDer, parseCmsSummary } from "../services/debug-service";
+import { LTVService } from "../services/ltv-service";
 import { MockHSMService } from "../services/mock-hsm-service";
+import { MockTSAService } from "../services/mock-tsa-service";
 import { PDFService } from "../services/pdf-service";
 import { PKCS11Service } from "../services/pkcs11-service";
+import { generatePdfValidationReport } from "../services/report/pdf-report";
+import { getReportSealer } from "../services/report/report-sealer";
+import { buildXmlValidationReport } from "../services/report/xml-report";
 import { SignatureService } from "../services/signature-service";
 import { VerificationService } from "../services/verification-service";
 
@@ -20,13 +27,22 @@ import type {
   PresignResponse,
   FinalizeRequest,
   FinalizeResponse,
+  ExtendRequest,
+  ExtendResponse,
   VerificationRequest,
   VerificationResponse,
+  VerificationReportFormat,
+  VerificationReportResponse,
   GenerateDemoPDFRequest,
   GenerateDemoPDFResponse,
+  MockSignRequest,
   MockSignResponse,
+  MockRevokeRequest,
+  MockRevokeResponse,
   LogEntry,
   BaseApiResponse,
+  PAdESLevel,
+  PKCS11SigningRequest,
 } from "@pades-poc/shared";
 
 export const router = Router();
@@ -34,8 +50,12 @@ export const router = Router();
 // Initialize services
 const pdfService = new PDFService();
 const mockHSM = new MockHSMService();
+const mockTSA = new MockTSAService(mockHSM, {
+  clockSkewMs: Number(process.env.MOCK_TSA_CLOCK_SKEW_MS) || 0,
+});
 const signatureService = new SignatureService();
 const cmsService = new CMSService();
+const ltvService = new LTVService();
 
 // PKCS#11 service (initialized on-demand)
 let pkcs11Service: PKCS11Service | null = null;
@@ -70,6 +90,31 @@ void mockHSM.ready
     logPAdES(e);
   });
 
+// Init Mock TSA (certificate issued by the Mock HSM root once it is ready)
+void mockTSA.ready.catch((error) => {
+  const e = padesBackendLogger.createLogEntry(
+    "error",
+    "backend",
+    `Mock TSA init failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+  );
+  logPAdES(e);
+});
+
+// Error of the "as of" date of a verification request (none when absent or valid)
+const checkValidationTime = (value: string | undefined): string | undefined => {
+  if (value === undefined) return undefined;
+  const time = new Date(value);
+  if (Number.isNaN(time.getTime())) return `validationTime is not a valid date: ${value}`;
+  if (time.getTime() > Date.now()) return "validationTime cannot be in the future";
+  return undefined;
+};
+
+// Whether an Authorization header carries `token` as bearer token (constant-time comparison)
+const isBearerToken = (header: string | undefined, token: string): boolean => {
+  const provided = /^Bearer (.+)$/.exec(header ?? "")?.[1] ?? "";
+  return timingSafeEqual(sha256(Buffer.from(provided)), sha256(Buffer.from(token)));
+};
+
 // Helper to both log and collect entries
 const pushAndLog = (logs: LogEntry[], entry: LogEntry): void => {
   logs.push(entry);
@@ -193,6 +238,8 @@ router.post("/pdf/prepare", async (req, res) => {
         {
           preparedSize: Buffer.from(result.preparedPdfBase64, "base64").length,
           byteRange: result.byteRange,
+          digestAlgorithm: result.digestAlgorithm,
+          signatureFieldName: result.fieldName,
         },
       ),
     );
@@ -202,6 +249,8 @@ router.post("/pdf/prepare", async (req, res) => {
       preparedPdfBase64: result.preparedPdfBase64,
       byteRange: result.byteRange,
       messageDigestB64: result.messageDigestB64,
+      digestAlgorithm: result.digestAlgorithm,
+      signatureFieldName: result.fieldName,
       logs,
     };
     res.json(response);
@@ -228,6 +277,7 @@ router.post("/pdf/prepare", async (req, res) => {
       preparedPdfBase64: "",
       byteRange: [0, 0, 0, 0],
       messageDigestB64: "",
+      digestAlgorithm: request.config?.digestAlgorithm ?? "SHA-256",
       logs,
     };
     res.status(500).json(response);
@@ -256,6 +306,7 @@ router.post("/pdf/presign", async (req, res) => {
       workflowId,
       {
         messageDigestPresent: !!request.messageDigestB64,
+        digestAlgorithm: request.digestAlgorithm ?? "SHA-256",
         certPresent: !!request.signerCertPem,
         isCPSWorkflow,
         certLength: request.signerCertPem?.length || 0,
@@ -320,7 +371,11 @@ router.post("/pdf/presign", async (req, res) => {
 
     const serviceLogs: LogEntry[] = [];
     const result = signatureService.buildSignedAttributes(
-      { messageDigest, signerCertPem: request.signerCertPem },
+      {
+        messageDigest,
+        signerCertPem: request.signerCertPem,
+        digestAlgorithm: request.digestAlgorithm,
+      },
       serviceLogs,
     );
 
@@ -405,13 +460,20 @@ router.post("/pdf/finalize", async (req, res) => {
       workflowId,
       {
         byteRange: request.byteRange,
+        signatureFieldName: request.signatureFieldName,
         signaturePresent: !!request.signatureB64,
         certPresent: !!request.signerCertPem,
         signatureAlgorithm: request.signatureAlgorithmOid,
+        digestAlgorithm: request.digestAlgorithm,
+        signatureLevel: request.signatureLevel,
       },
     ),
   );
 
+  // Explicit level wins; otherwise keep the legacy withTimestamp switch (B-B vs B-T)
+  const requestedLevel: PAdESLevel =
+    request.signatureLevel ?? (request.withTimestamp === false ? "B-B" : "B-T");
+
   try {
     if (!request.preparedPdfBase64) {
       const response: FinalizeResponse & { logs: LogEntry[] } = {
@@ -455,17 +517,69 @@ router.post("/pdf/finalize", async (req, res) => {
         signerCertPem: request.signerCertPem,
         certificateChainPem: request.certificateChainPem,
         signatureAlgorithmOid: request.signatureAlgorithmOid,
-        withTimestamp: request.withTimestamp !== false, // default true; allow B-B if explicitly false
+        digestAlgorithm: request.digestAlgorithm,
+        withTimestamp: requestedLevel !== "B-B",
+        timestampFailurePolicy: request.timestampFailurePolicy,
       },
       serviceLogs,
     );
 
     serviceLogs.forEach((l) => pushAndLog(logs, l));
 
-    const signedPdfBytes = pdfService.embedCmsIntoPdf(
+    if (cmsResult.timestampInfo) {
+      pushAndLog(
+        logs,
+        padesBackendLogger.logWorkflowStep(
+          "info",
+          "backend",
+          "finalize",
+          `Signature timestamp issued by ${cmsResult.timestampInfo.tsaUrl}`,
+          workflowId,
+          { ...cmsResult.timestampInfo },
+        ),
+      );
+    }
+
+    let signedPdfBytes = pdfService.embedCmsIntoPdf(
       new Uint8Array(preparedPdfBytes),
       new Uint8Array(cmsResult.cmsDer),
+      undefined,
+      request.signatureFieldName,
     );
+    let signatureLevel: PAdESLevel = cmsResult.isTimestamped ? "B-T" : "B-B";
+
+    if (requestedLevel === "B-LT" || requestedLevel === "B-LTA") {
+      if (!cmsResult.isTimestamped) {
+        pushAndLog(
+          logs,
+          padesBackendLogger.logWorkflowStep(
+            "warning",
+            "backend",
+            "finalize",
+            `${requestedLevel} requested but the signature has no timestamp: DSS added on top of B-B`,
+            workflowId,
+          ),
+        );
+      }
+
+      const ltvLogs: LogEntry[] = [];
+      const extended = await ltvService.extend(
+        signedPdfBytes,
+        {
+          targetLevel: requestedLevel,
+          timestampFailurePolicy: request.timestampFailurePolicy,
+          revocationData: {
+            ocspResponses: request.revocationData?.ocspResponsesB64?.map(fromBase64),
+            crls: request.revocationData?.crlsB64?.map(fromBase64),
+          },
+        },
+        ltvLogs,
+      );
+      ltvLogs.forEach((l) => pushAndLog(logs, l));
+
+      signedPdfBytes = extended.pdfBytes;
+      signatureLevel = extended.signatureLevel;
+    }
 
     pushAndLog(
       logs,
@@ -479,6 +593,8 @@ router.post("/pdf/finalize", async (req, res) => {
           finalPdfSize: signedPdfBytes.length,
           cmsSize: cmsResult.cmsDer.length,
           estimatedCmsSize: cmsResult.estimatedSize,
+          signatureLevel,
+          tsaUrl: cmsResult.timestampInfo?.tsaUrl,
         },
       ),
     );
@@ -486,6 +602,8 @@ router.post("/pdf/finalize", async (req, res) => {
     const response: FinalizeResponse & { logs: LogEntry[] } = {
       success: true,
       signedPdfBase64: toBase64(Buffer.from(signedPdfBytes)),
+      signatureLevel,
+      signatureTimestamp: cmsResult.timestampInfo,
       logs,
     };
     res.json(response);
@@ -516,6 +634,107 @@ router.post("/pdf/finalize", async (req, res) => {
   }
 });
 
+// Extend (B-T → B-LT → B-LTA)
+router.post("/pdf/extend", async (req, res) => {
+  const request = req.body as ExtendRequest;
+  const workflowId = generateShortId();
+  const logs: LogEntry[] = [];
+
+  pushAndLog(
+    logs,
+    padesBackendLogger.logWorkflowStep(
+      "info",
+      "backend",
+      "extend",
+      "PDF extension requested",
+      workflowId,
+      { targetLevel: request.targetLevel, timestampUrl: request.timestampUrl },
+    ),
+  );
+
+  try {
+    if (!request.pdfBase64 || (request.targetLevel !== "B-LT" && request.targetLevel !== "B-LTA")) {
+      const response: ExtendResponse & { logs: LogEntry[] } = {
+        success: false,
+        error: {
+          code: "MISSING_PARAMETER",
+          message: 'pdfBase64 and targetLevel ("B-LT" or "B-LTA") are required',
+          timestamp: new Date().toISOString(),
+        },
+        extendedPdfBase64: "",
+        logs,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const serviceLogs: LogEntry[] = [];
+    const result = await ltvService.extend(
+      new Uint8Array(fromBase64(request.pdfBase64)),
+      {
+        targetLevel: request.targetLevel,
+        timestampUrl: request.timestampUrl,
+        timestampFailurePolicy: request.timestampFailurePolicy,
+        revocationData: {
+          ocspResponses: request.revocationData?.ocspResponsesB64?.map(fromBase64),
+          crls: request.revocationData?.crlsB64?.map(fromBase64),
+        },
+      },
+      serviceLogs,
+    );
+    serviceLogs.forEach((l) => pushAndLog(logs, l));
+
+    pushAndLog(
+      logs,
+      padesBackendLogger.logWorkflowStep(
+        "success",
+        "backend",
+        "extend",
+        `PDF extended to ${result.signatureLevel}`,
+        workflowId,
+        {
+          extendedPdfSize: result.pdfBytes.length,
+          signatureCount: result.signatureCount,
+        },
+      ),
+    );
+
+    const response: ExtendResponse & { logs: LogEntry[] } = {
+      success: true,
+      extendedPdfBase64: toBase64(Buffer.from(result.pdfBytes)),
+      signatureLevel: result.signatureLevel,
+      signatureCount: result.signatureCount,
+      documentTimestamp: result.documentTimestamp,
+      logs,
+    };
+    res.json(response);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : "Unknown error";
+    pushAndLog(
+      logs,
+      padesBackendLogger.logWorkflowStep(
+        "error",
+        "backend",
+        "extend",
+        `PDF extension failed: ${msg}`,
+        workflowId,
+      ),
+    );
+
+    const response: ExtendResponse & { logs: LogEntry[] } = {
+      success: false,
+      error: {
+        code: "EXTEND_FAILED",
+        message: msg,
+        timestamp: new Date().toISOString(),
+      },
+      extendedPdfBase64: "",
+      logs,
+    };
+    res.status(500).json(response);
+  }
+});
+
 // Verify
 router.post("/pdf/verify", async (req, res) => {
   const request = req.body as VerificationRequest;
@@ -531,13 +750,38 @@ router.post("/pdf/verify", async (req, res) => {
       "verify",
       "PDF verification requested",
       workflowId,
-      { pdfSize },
+      { pdfSize, validationTime: request.validationTime },
     ),
   );
 
+  const validationTimeError = checkValidationTime(request.validationTime);
+  if (validationTimeError) {
+    const response: VerificationResponse & { logs: LogEntry[] } = {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message: validationTimeError,
+        timestamp: new Date().toISOString(),
+      },
+      result: {
+        isCryptographicallyValid: false,
+        isPAdESCompliant: false,
+        isTimestamped: false,
+        signatureLevel: "UNKNOWN",
+        reasons: [validationTimeError],
+      },
+      logs,
+    };
+    res.status(400).json(response);
+    return;
+  }
+
   try {
     const verificationService = new VerificationService();
-    const verificationResult = await verificationService.verify({ pdfBase64: request.pdfBase64 });
+    const verificationResult = await verificationService.verify(
+      { pdfBase64: request.pdfBase64 },
+      { validationTime: request.validationTime ? new Date(request.validationTime) : undefined },
+    );
 
     verificationResult.logs.forEach((l) => pushAndLog(logs, l));
 
@@ -554,6 +798,7 @@ router.post("/pdf/verify", async (req, res) => {
           signatureLevel: verificationResult.signatureLevel,
           isTimestamped: verificationResult.isTimestamped,
           signerCN: verificationResult.signerCN,
+          signatureCount: verificationResult.signatures?.length ?? 0,
           reasonCount: verificationResult.reasons.length,
         },
       ),
@@ -570,6 +815,8 @@ router.post("/pdf/verify", async (req, res) => {
         signingTime: verificationResult.signingTime,
         timestampTime: verificationResult.timestampTime,
         reasons: verificationResult.reasons,
+        signatures: verificationResult.signatures,
+        validationReport: verificationResult.validationReport,
       },
       logs,
     };
@@ -607,6 +854,117 @@ router.post("/pdf/verify", async (req, res) => {
   }
 });
 
+// Validation report of a PDF: ETSI TS 119 102-2 XML, sealed PDF or JSON
+const REPORT_FORMATS: VerificationReportFormat[] = ["xml", "pdf", "json"];
+
+router.post("/pdf/verify/report", async (req, res) => {
+  const request = (req.body ?? {}) as Partial<VerificationRequest>;
+  const format = (req.query.format ?? "json") as VerificationReportFormat;
+  const workflowId = generateShortId();
+  const logs: LogEntry[] = [];
+
+  const fail = (status: number, code: string, message: string) => {
+    const response: BaseApiResponse & { logs: LogEntry[] } = {
+      success: false,
+      error: { code, message, timestamp: new Date().toISOString() },
+      logs,
+    };
+    res.status(status).json(response);
+  };
+
+  if (!REPORT_FORMATS.includes(format)) {
+    fail(400, "INVALID_REQUEST", `format must be one of ${REPORT_FORMATS.join(", ")}`);
+    return;
+  }
+  if (!request.pdfBase64) {
+    fail(400, "MISSING_PARAMETER", "pdfBase64 is required");
+    return;
+  }
+  const validationTimeError = checkValidationTime(request.validationTime);
+  if (validationTimeError) {
+    fail(400, "INVALID_REQUEST", validationTimeError);
+    return;
+  }
+
+  const pdfBytes = fromBase64(request.pdfBase64);
+  pushAndLog(
+    logs,
+    padesBackendLogger.logWorkflowStep(
+      "info",
+      "backend",
+      "verify",
+      "Validation report requested",
+      workflowId,
+      { pdfSize: pdfBytes.length, format, validationTime: request.validationTime },
+    ),
+  );
+
+  try {
+    const verificationService = new VerificationService();
+    const verificationResult = await verificationService.verify(
+      { pdfBase64: request.pdfBase64 },
+      { validationTime: request.validationTime ? new Date(request.validationTime) : undefined },
+    );
+    verificationResult.logs.forEach((l) => pushAndLog(logs, l));
+    const logGenerated = () =>
+      pushAndLog(
+        logs,
+        padesBackendLogger.logWorkflowStep(
+          "success",
+          "backend",
+          "verify",
+          `Validation report generated (${format})`,
+          workflowId,
+          { signatureCount: verificationResult.signatures?.length ?? 0 },
+        ),
+      );
+
+    if (format === "xml") {
+      const xml = buildXmlValidationReport(verificationResult, { pdfBytes });
+      logGenerated();
+      res.type("application/xml").attachment("validation-report.xml").send(xml);
+    } else if (format === "pdf") {
+      const report = await generatePdfValidationReport(verificationResult, { pdfBytes });
+      const sealed = await getReportSealer(mockHSM).seal(report, logs);
+      logGenerated();
+      res.type("application/pdf").attachment("validation-report.pdf").send(Buffer.from(sealed));
+    } else {
+      const response: VerificationReportResponse & { logs: LogEntry[] } = {
+        success: true,
+        result: {
+          isCryptographicallyValid: verificationResult.isCryptographicallyValid,
+          isPAdESCompliant: verificationResult.isPAdESCompliant,
+          isTimestamped: verificationResult.isTimestamped,
+          signatureLevel: verificationResult.signatureLevel,
+          signerCN: verificationResult.signerCN,
+          signingTime: verificationResult.signingTime,
+          timestampTime: verificationResult.timestampTime,
+          reasons: verificationResult.reasons,
+          signatures: verificationResult.signatures,
+          validationReport: verificationResult.validationReport,
+        },
+        documentDigest: sha256(pdfBytes).toString("base64"),
+        logs,
+      };
+      logGenerated();
+      res.json(response);
+    }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : "Unknown error";
+    pushAndLog(
+      logs,
+      padesBackendLogger.logWorkflowStep(
+        "error",
+        "backend",
+        "verify",
+        `Validation report failed: ${msg}`,
+        workflowId,
+      ),
+    );
+    fail(500, "REPORT_FAILED", msg);
+  }
+});
+
 // Provide DC parameter to frontend
 router.get("/icanopee/dc-parameter", (req, res) => {
   const workflowId = generateShortId();
@@ -720,7 +1078,11 @@ router.get("/mock/cert", (req, res) => {
 
 // Mock sign
 router.post("/mock/sign", async (req, res) => {
-  const { toBeSignedB64 } = req.body as { toBeSignedB64: string };
+  const {
+    toBeSignedB64,
+    signatureAlgorithmOid: requestedAlgorithmOid,
+    digestAlgorithm,
+  } = req.body as MockSignRequest;
   const workflowId = generateShortId();
   const logs: LogEntry[] = [];
 
@@ -768,16 +1130,22 @@ router.post("/mock/sign", async (req, res) => {
       return;
     }
 
-    const signatureB64 = await mockHSM.signBase64(toBeSignedB64);
+    const signatureB64 = await mockHSM.signBase64(
+      toBeSignedB64,
+      requestedAlgorithmOid,
+      digestAlgorithm,
+    );
     const signerCertPem = mockHSM.getSignerCertificatePem();
     const certificateChainPem = mockHSM.getCertificateChainPem(false);
+    const signatureAlgorithmOid =
+      requestedAlgorithmOid ?? mockHSM.getSignatureAlgorithmOid(digestAlgorithm);
 
     pushAndLog(
       logs,
       padesBackendLogger.createLogEntry("success", "mock-hsm", "Mock sign success", {
         workflowId,
         signatureSize: Buffer.from(signatureB64, "base64").length,
-        algorithm: "RSA-SHA256",
+        signatureAlgorithmOid,
       }),
     );
 
@@ -786,7 +1154,7 @@ router.post("/mock/sign", async (req, res) => {
       signatureB64,
       signerCertPem,
       certificateChainPem,
-      signatureAlgorithmOid: "1.2.840.113549.1.1.11",
+      signatureAlgorithmOid,
       logs,
     };
     res.json(response);
@@ -815,6 +1183,182 @@ router.post("/mock/sign", async (req, res) => {
   }
 });
 
+// Mock TSA: RFC 3161 over HTTP (DER TimeStampReq in, DER TimeStampResp out)
+router.post(
+  "/mock/tsa",
+  express.raw({ type: "application/timestamp-query", limit: "64kb" }),
+  async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(415).json({
+        success: false,
+        error: {
+          code: "INVALID_REQUEST",
+          message: "Expected an application/timestamp-query body",
+          timestamp: new Date().toISOString(),
+        },
+      });
+      return;
+    }
+
+    try {
+      if (!mockTSA.isInitialized()) await mockTSA.ready;
+      const responseDer = await mockTSA.respond(req.body);
+      res.type("application/timestamp-reply").send(responseDer);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Unknown error";
+      logPAdES(padesBackendLogger.createLogEntry("error", "mock-hsm", `Mock TSA failed: ${msg}`));
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "TIMESTAMP_REQUEST_FAILED",
+          message: msg,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  },
+);
+
+// Mock OCSP responder (RFC 6960 over HTTP POST) for certificates of the mock CAs
+router.post(
+  "/mock/ocsp",
+  express.raw({ type: "application/ocsp-request", limit: "64kb" }),
+  async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(415).json({
+        success: false,
+        error: {
+          code: "INVALID_REQUEST",
+          message: "Expected an application/ocsp-request body",
+          timestamp: new Date().toISOString(),
+        },
+      });
+      return;
+    }
+
+    try {
+      if (!mockHSM.isInitialized()) await mockHSM.ready;
+      const responseDer = await mockHSM.respondOcsp(req.body);
+      res.type("application/ocsp-response").send(responseDer);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Unknown error";
+      logPAdES(padesBackendLogger.createLogEntry("error", "mock-hsm", `Mock OCSP failed: ${msg}`));
+      res.status(500).json({
+        success: false,
+        error: { code: "INTERNAL_ERROR", message: msg, timestamp: new Date().toISOString() },
+      });
+    }
+  },
+);
+
+// Mock CRLs: intermediate.crl covers the signer, root.crl the intermediate CA and the mock TSA
+router.get("/mock/crl/:ca.crl", async (req, res) => {
+  const { ca } = req.params;
+  if (ca !== "root" && ca !== "intermediate") {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message: `Unknown mock CA: ${ca}`,
+        timestamp: new Date().toISOString(),
+      },
+    });
+    return;
+  }
+
+  try {
+    if (!mockHSM.isInitialized()) await mockHSM.ready;
+    const crlDer = await mockHSM.getCrlDer(ca);
+    res.type("application/pkix-crl").send(crlDer);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : "Unknown error";
+    logPAdES(padesBackendLogger.createLogEntry("error", "mock-hsm", `Mock CRL failed: ${msg}`));
+    res.status(500).json({
+      success: false,
+      error: { code: "INTERNAL_ERROR", message: msg, timestamp: new Date().toISOString() },
+    });
+  }
+});
+
+// Admin: revoke a mock certificate (reported by the mock OCSP responder and CRLs). Disabled
+// unless MOCK_ADMIN_TOKEN is set; callers send it as "Authorization: Bearer <token>".
+router.post("/mock/admin/revoke", async (req, res) => {
+  const { serialNumber, reason } = (req.body ?? {}) as MockRevokeRequest;
+  const workflowId = generateShortId();
+  const logs: LogEntry[] = [];
+
+  const adminToken = process.env.MOCK_ADMIN_TOKEN;
+  if (!adminToken || !isBearerToken(req.headers.authorization, adminToken)) {
+    pushAndLog(
+      logs,
+      padesBackendLogger.createLogEntry("warning", "mock-hsm", "Mock revocation refused", {
+        workflowId,
+        reason: adminToken ? "invalid token" : "MOCK_ADMIN_TOKEN not set",
+      }),
+    );
+    const response: BaseApiResponse & { logs: LogEntry[] } = {
+      success: false,
+      error: {
+        code: adminToken ? "UNAUTHORIZED" : "ADMIN_DISABLED",
+        message: adminToken
+          ? "A valid admin bearer token is required"
+          : "Mock administration is disabled: set MOCK_ADMIN_TOKEN",
+        timestamp: new Date().toISOString(),
+      },
+      logs,
+    };
+    res.status(adminToken ? 401 : 403).json(response);
+    return;
+  }
+
+  pushAndLog(
+    logs,
+    padesBackendLogger.createLogEntry("info", "mock-hsm", "Mock certificate revocation requested", {
+      workflowId,
+      serialNumber,
+      reason,
+    }),
+  );
+
+  try {
+    if (!mockHSM.isInitialized()) await mockHSM.ready;
+    const entry = mockHSM.revokeCertificate(
+      serialNumber ?? mockHSM.getCertificateInfo().serialNumber,
+      reason,
+    );
+
+    pushAndLog(
+      logs,
+      padesBackendLogger.createLogEntry("success", "mock-hsm", "Mock certificate revoked", {
+        workflowId,
+        ...entry,
+      }),
+    );
+
+    const response: MockRevokeResponse & { logs: LogEntry[] } = {
+      success: true,
+      ...entry,
+      logs,
+    };
+    res.json(response);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : "Unknown error";
+    pushAndLog(
+      logs,
+      padesBackendLogger.createLogEntry("error", "mock-hsm", `Mock revocation failed: ${msg}`, {
+        workflowId,
+      }),
+    );
+
+    const response: BaseApiResponse & { logs: LogEntry[] } = {
+      success: false,
+      error: { code: "INVALID_REQUEST", message: msg, timestamp: new Date().toISOString() },
+      logs,
+    };
+    res.status(400).json(response);
+  }
+});
+
 // DEBUG: dump PDF objects
 router.post("/debug/pdf-objects", (req, res) => {
   try {
@@ -979,12 +1523,8 @@ router.post("/pkcs11/certificates", async (req, res) => {
 
 // PKCS#11: Sign data (replaces the problematic Icanopee string API)
 router.post("/pkcs11/sign", async (req, res) => {
-  const { slotId, pin, dataToSignB64, certificateFilter } = req.body as {
-    slotId: number;
-    pin: string;
-    dataToSignB64: string; // DER(signedAttributes) in base64
-    certificateFilter?: { label?: string; subject?: string };
-  };
+  const { slotId, pin, dataToSignB64, certificateFilter, signatureAlgorithmOid, digestAlgorithm } =
+    req.body as PKCS11SigningRequest;
 
   const workflowId = generateShortId();
   const logs: LogEntry[] = [];
@@ -1026,7 +1566,15 @@ router.post("/pkcs11/sign", async (req, res) => {
     );
 
     const pkcs11 = getPKCS11Service();
-    const result = await pkcs11.findAndSign(dataToSign, slotId, pin, certificateFilter, logs);
+    const result = await pkcs11.findAndSign(
+      dataToSign,
+      slotId,
+      pin,
+      certificateFilter,
+      signatureAlgorithmOid,
+      digestAlgorithm,
+      logs,
+    );
 
     pushAndLog(
       logs,
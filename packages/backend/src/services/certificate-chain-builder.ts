@@ -2,7 +2,10 @@
  * Certificate Chain Builder Service
  *
  * Automatically builds complete certificate chains by parsing AIA (Authority Information Access)
- * extensions and fetching intermediate certificates from CA issuers.
+ * extensions and fetching intermediate certificates from CA issuers. A fetched certificate is
+ * kept only when its name, key identifier and key match the certificate it should have issued.
+ * Issuers are looked up in the certificate store (pre-seeded intermediates, cache of the
+ * downloaded certificates) before any download; see certificate-store.ts for offline mode.
  */
 
 import * as asn1js from "asn1js";
@@ -10,6 +13,15 @@ import { Certificate } from "pkijs";
 
 import { logPAdES, padesBackendLogger } from "../logger";
 
+import {
+  getAuthorityKeyIdentifier,
+  getSubjectKeyIdentifier,
+  namesMatch,
+} from "./certificate-path-builder";
+import { getCertificateStore } from "./certificate-store";
+import { parseCertificates } from "./pki-utils";
+
+import type { CertificateStore, StoredCertificate } from "./certificate-store";
 import type { LogEntry } from "@pades-poc/shared";
 
 export interface ChainBuildResult {
@@ -24,10 +36,16 @@ export interface ChainBuildResult {
 export class CertificateChainBuilder {
   private readonly maxChainLength: number;
   private readonly fetchTimeout: number;
+  private readonly certificateStore: CertificateStore;
 
-  constructor(maxChainLength = 10, fetchTimeoutMs = 10000) {
+  constructor(
+    maxChainLength = 10,
+    fetchTimeoutMs = 10000,
+    certificateStore: CertificateStore = getCertificateStore(),
+  ) {
     this.maxChainLength = maxChainLength;
     this.fetchTimeout = fetchTimeoutMs;
+    this.certificateStore = certificateStore;
   }
 
   /**
@@ -75,75 +93,13 @@ export class CertificateChainBuilder {
           break;
         }
 
-        // Extract AIA extension
-        const aiaUrls = this.extractAIAUrls(currentCert);
-        if (aiaUrls.length === 0) {
-          logs?.push({
-            timestamp: new Date().toISOString(),
-            level: "warning",
-            source: "backend",
-            message: "No AIA extension found, chain building incomplete",
-            context: {
-              chainLength,
-              currentSubject: this.getSubjectCN(currentCert),
-            },
-          });
-          break;
-        }
-
-        // Try to fetch issuer certificate from AIA URLs
-        let issuerCertPem: string | null = null;
-        for (const aiaUrl of aiaUrls) {
-          try {
-            issuerCertPem = await this.fetchCertificateFromAIA(aiaUrl, logs);
-            if (issuerCertPem) {
-              logs?.push({
-                timestamp: new Date().toISOString(),
-                level: "success",
-                source: "backend",
-                message: "Successfully fetched issuer certificate from AIA",
-                context: {
-                  aiaUrl,
-                  chainLength: chainLength + 1,
-                },
-              });
-              break;
-            }
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : "Unknown error";
-            errors.push(`Failed to fetch from AIA URL ${aiaUrl}: ${errorMsg}`);
-            logs?.push({
-              timestamp: new Date().toISOString(),
-              level: "warning",
-              source: "backend",
-              message: "Failed to fetch certificate from AIA URL",
-              context: {
-                aiaUrl,
-                error: errorMsg,
-              },
-            });
-          }
-        }
-
-        if (!issuerCertPem) {
-          errors.push(`Could not fetch issuer certificate for chain position ${chainLength + 1}`);
-          break;
-        }
-
-        // Verify the issuer certificate is valid
-        const issuerCert = this.parseCertificate(issuerCertPem);
-        if (!issuerCert) {
-          errors.push(`Invalid issuer certificate fetched from AIA at position ${chainLength + 1}`);
-          break;
-        }
-
-        // Verify this certificate actually issued the current one
-        if (!this.verifiesIssuer(currentCert, issuerCert)) {
-          errors.push(
-            `Fetched certificate does not verify as issuer at position ${chainLength + 1}`,
-          );
-          break;
-        }
+        // Intermediate store and cache first, then the AIA URLs
+        const issuer =
+          (await this.findStoredIssuer(currentCert, logs)) ??
+          (await this.fetchIssuer(currentCert, chainLength, errors, logs));
+        if (!issuer) break;
+        const issuerCertPem = issuer.pem;
+        const issuerCert = issuer.certificate;
 
         // Add to chain and continue
         certificateChain.push(issuerCertPem);
@@ -203,6 +159,116 @@ export class CertificateChainBuilder {
     }
   }
 
+  /**
+   * Issuer from the intermediate store or the cache of downloaded certificates
+   */
+  private async findStoredIssuer(
+    cert: Certificate,
+    logs?: LogEntry[],
+  ): Promise<StoredCertificate | null> {
+    for (const candidate of await this.certificateStore.findIssuers(cert)) {
+      if (await this.verifiesIssuer(cert, candidate.certificate)) {
+        logs?.push({
+          timestamp: new Date().toISOString(),
+          level: "debug",
+          source: "backend",
+          message: "Issuer certificate found in the certificate store",
+          context: {
+            subject: this.getSubjectCN(cert),
+            issuerSubject: this.getSubjectCN(candidate.certificate),
+            source: candidate.source,
+          },
+        });
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Issuer from the AIA URLs. A CA renewed under the same name may publish several
+   * certificates: only the one matching the key identifier and signature is the issuer.
+   */
+  private async fetchIssuer(
+    cert: Certificate,
+    chainLength: number,
+    errors: string[],
+    logs?: LogEntry[],
+  ): Promise<StoredCertificate | null> {
+    const aiaUrls = this.extractAIAUrls(cert);
+    if (aiaUrls.length === 0) {
+      if (this.certificateStore.offline) {
+        errors.push(this.missingOfflineIssuer(cert));
+      }
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: "warning",
+        source: "backend",
+        message: "No AIA extension found, chain building incomplete",
+        context: {
+          chainLength,
+          currentSubject: this.getSubjectCN(cert),
+        },
+      });
+      return null;
+    }
+
+    for (const aiaUrl of aiaUrls) {
+      try {
+        const fetched = await this.fetchCertificateFromAIA(aiaUrl, logs);
+        if (!fetched) continue;
+
+        if (!(await this.verifiesIssuer(cert, fetched.certificate))) {
+          errors.push(
+            `Certificate fetched from ${aiaUrl} did not issue ${this.getSubjectCN(cert)}`,
+          );
+          continue;
+        }
+        const candidate =
+          fetched.stored ?? (await this.certificateStore.add(aiaUrl, fetched.certificate));
+
+        logs?.push({
+          timestamp: new Date().toISOString(),
+          level: "success",
+          source: "backend",
+          message: "Successfully fetched issuer certificate from AIA",
+          context: {
+            aiaUrl,
+            chainLength: chainLength + 1,
+          },
+        });
+        return candidate;
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : "Unknown error";
+        errors.push(`Failed to fetch from AIA URL ${aiaUrl}: ${errorMsg}`);
+        logs?.push({
+          timestamp: new Date().toISOString(),
+          level: "warning",
+          source: "backend",
+          message: "Failed to fetch certificate from AIA URL",
+          context: {
+            aiaUrl,
+            error: errorMsg,
+          },
+        });
+      }
+    }
+
+    errors.push(
+      this.certificateStore.offline
+        ? this.missingOfflineIssuer(cert)
+        : `Could not fetch issuer certificate for chain position ${chainLength + 1}`,
+    );
+    return null;
+  }
+
+  private missingOfflineIssuer(cert: Certificate): string {
+    return (
+      `Offline mode: issuer "${this.getDNString(cert.issuer)}" of ${this.getSubjectCN(cert)} ` +
+      "is neither in the intermediate store nor in the certificate cache"
+    );
+  }
+
   /**
    * Parse PEM certificate to PKI.js Certificate object
    */
@@ -293,9 +359,35 @@ export class CertificateChainBuilder {
   }
 
   /**
-   * Fetch certificate from AIA URL
+   * Certificate of an AIA URL: from the cache (`stored`), else downloaded (never in offline
+   * mode). The caller caches a download once it verified as the issuer.
    */
-  private async fetchCertificateFromAIA(url: string, logs?: LogEntry[]): Promise<string | null> {
+  private async fetchCertificateFromAIA(
+    url: string,
+    logs?: LogEntry[],
+  ): Promise<{ certificate: Certificate; stored?: StoredCertificate } | null> {
+    const cached = await this.certificateStore.getByUrl(url);
+    if (cached) {
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: "debug",
+        source: "backend",
+        message: "Using cached AIA certificate",
+        context: { url },
+      });
+      return { certificate: cached.certificate, stored: cached };
+    }
+    if (this.certificateStore.offline) {
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: "warning",
+        source: "backend",
+        message: "Offline mode: AIA certificate not downloaded",
+        context: { url },
+      });
+      return null;
+    }
+
     try {
       logs?.push({
         timestamp: new Date().toISOString(),
@@ -322,28 +414,9 @@ export class CertificateChainBuilder {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const contentType = response.headers.get("content-type") || "";
-      const arrayBuffer = await response.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-
-      // Handle DER format (most common for AIA)
-      if (
-        contentType.includes("application/pkix-cert") ||
-        contentType.includes("application/x-x509-ca-cert")
-      ) {
-        return this.derToPem(buffer);
-      }
-
-      // Handle PEM format
-      if (contentType.includes("application/x-pem-file") || contentType.includes("text/plain")) {
-        const pemContent = buffer.toString("utf8");
-        if (pemContent.includes("-----BEGIN CERTIFICATE-----")) {
-          return pemContent;
-        }
-      }
-
-      // Try to parse as DER by default
-      return this.derToPem(buffer);
+      // DER (application/pkix-cert, the most common for AIA) or PEM
+      const [certificate] = parseCertificates(Buffer.from(await response.arrayBuffer()));
+      return { certificate };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : "Unknown error";
       logs?.push({
@@ -358,22 +431,18 @@ export class CertificateChainBuilder {
   }
 
   /**
-   * Convert DER to PEM format
-   */
-  private derToPem(derBuffer: Buffer): string {
-    const b64 = derBuffer.toString("base64");
-    const pem = b64.match(/.{1,64}/g)?.join("\n") || b64;
-    return `-----BEGIN CERTIFICATE-----\n${pem}\n-----END CERTIFICATE-----`;
-  }
-
-  /**
-   * Verify that issuerCert issued subjectCert
+   * Verify that issuerCert issued subjectCert: names, key identifiers and signature
    */
-  private verifiesIssuer(subjectCert: Certificate, issuerCert: Certificate): boolean {
+  private async verifiesIssuer(
+    subjectCert: Certificate,
+    issuerCert: Certificate,
+  ): Promise<boolean> {
+    if (!namesMatch(issuerCert.subject, subjectCert.issuer)) return false;
+    const authorityKeyId = getAuthorityKeyIdentifier(subjectCert);
+    const subjectKeyId = getSubjectKeyIdentifier(issuerCert);
+    if (authorityKeyId && subjectKeyId && authorityKeyId !== subjectKeyId) return false;
     try {
-      const subjectIssuerDN = this.getDNString(subjectCert.issuer);
-      const issuerSubjectDN = this.getDNString(issuerCert.subject);
-      return subjectIssuerDN === issuerSubjectDN;
+      return await subjectCert.verify(issuerCert);
     } catch {
       return false;
     }
@@ -123,6 +123,29 @@ describe("CertificateChainValidator", () => {
       expect(result.certificates[0]?.keyUsage).toContain("digitalSignature");
     });
 
+    it("should evaluate validity periods at the validation time", async () => {
+      const { fromBER } = await import("asn1js");
+      const { Certificate } = await import("pkijs");
+
+      const parseCert = (pem: string) => {
+        const b64 = pem.replace(/-----(BEGIN|END) [^-]+-----/g, "").replace(/\s+/g, "");
+        return new Certificate({ schema: fromBER(Buffer.from(b64, "base64")).result });
+      };
+
+      const signerCert = parseCert(mockHSM.getSignerCertificatePem());
+      const certificates = [signerCert, ...mockHSM.getCertificateChainPem(true).map(parseCert)];
+      const afterExpiry = new Date(signerCert.notAfter.value.getTime() + 24 * 60 * 60 * 1000);
+
+      const result = await validator.validateChain(certificates, signerCert, [], afterExpiry);
+
+      expect(result.isValid).toBe(false);
+      expect(result.validationTime).toEqual(afterExpiry);
+      expect(result.certificates[0]).toMatchObject({ isValidNow: true, isValidAtTime: false });
+      expect(result.reasons).toContain(
+        `Certificate ${result.certificates[0].subject} is not valid on ${afterExpiry.toISOString()} (expired or not yet valid)`,
+      );
+    });
+
     it("should handle maximum chain length limits", async () => {
       const signerCertPem = mockHSM.getSignerCertificatePem();
       const chainPems = mockHSM.getCertificateChainPem(true);
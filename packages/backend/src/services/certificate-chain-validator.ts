@@ -2,7 +2,14 @@
  * Certificate Chain Validation Service for PAdES verification
  *
  * Validates certificate chains according to X.509 standards and PAdES requirements.
- * Uses PKI.js for certificate parsing and WebCrypto for signature verification.
+ * Uses PKI.js for certificate parsing and WebCrypto for signature verification, and
+ * checks the revocation status of every non-root certificate over OCSP, with CRLs as fallback.
+ * A chain is trusted only when it reaches an anchor of the trust store (signer or TSA set).
+ * The path is built over every candidate issuer and checked against RFC 5280 §6.1
+ * (basic constraints, name constraints, certificate policies, critical extensions).
+ *
+ * Validity periods and revocation are evaluated at a validation time (default now): the
+ * verifier passes the signature time-stamp to validate a signature as it was when it was made.
  */
 
 import * as asn1js from "asn1js";
@@ -10,10 +17,17 @@ import { Certificate } from "pkijs";
 
 import { logPAdES, padesBackendLogger } from "../logger";
 
-import type { LogEntry } from "@pades-poc/shared";
+import { buildCertificatePaths } from "./certificate-path-builder";
+import { validateCertificatePath } from "./certificate-path-validation";
+import { CRLClient } from "./crl-client";
+import { OCSPClient } from "./ocsp-client";
+import { createTrustAnchor, getTrustStore } from "./trust-store";
+
+import type { TrustAnchor, TrustPurpose, TrustStore } from "./trust-store";
+import type { LogEntry, TrustAnchorSummary } from "@pades-poc/shared";
 
 export interface ChainValidationOptions {
-  /** Check certificate validity periods against current time */
+  /** Check certificate validity periods against the validation time */
   checkValidityPeriod?: boolean;
   /** Verify certificate signatures up the chain */
   verifySignatures?: boolean;
@@ -21,8 +35,42 @@ export interface ChainValidationOptions {
   checkKeyUsage?: boolean;
   /** Maximum chain length to prevent infinite loops */
   maxChainLength?: number;
-  /** Trusted root certificates (if empty, accepts self-signed chains) */
+  /** Trusted certificates in addition to the trust store anchors */
   trustedRoots?: Certificate[];
+  /** Trust store (default: the one configured by TRUST_STORE_SIGNER / TRUST_STORE_TSA) */
+  trustStore?: TrustStore;
+  /** Anchor set of the trust store the chain must reach */
+  trustPurpose?: TrustPurpose;
+  /** Check revocation status of non-root certificates (OCSP, then CRL) */
+  checkRevocation?: boolean;
+  /** Certificate policy OIDs acceptable for the chain (default any policy) */
+  acceptablePolicies?: string[];
+  /** The chain must be valid for one of the acceptable policies */
+  requireExplicitPolicy?: boolean;
+}
+
+/** Revocation data stored in the document (DSS /OCSPs and /CRLs), checked before going online */
+export interface EmbeddedRevocationData {
+  ocspResponses: Buffer[]; // DER OCSPResponse
+  crls: Buffer[]; // DER CertificateList
+}
+
+export type RevocationStatus = "good" | "revoked" | "unknown";
+
+export interface RevocationInfo {
+  status: RevocationStatus;
+  source?: "ocsp" | "crl";
+  revocationTime?: Date;
+  /** CRLReason name (RFC 5280 §5.3.1), e.g. "keyCompromise" */
+  revocationReason?: string;
+  thisUpdate?: Date;
+  nextUpdate?: Date;
+  responderUrl?: string;
+  crlUrl?: string;
+  /** Read from the validation data stored in the document (DSS) */
+  embedded?: boolean;
+  /** Why the status could not be determined */
+  reason?: string;
 }
 
 export interface CertificateInfo {
@@ -33,7 +81,13 @@ export interface CertificateInfo {
   validTo: Date;
   keyUsage: string[];
   isValidNow: boolean;
+  /** Within its validity period at the validation time */
+  isValidAtTime: boolean;
   isSelfSigned: boolean;
+  /** Set when the signature was checked against the issuer certificate */
+  signatureValid?: boolean;
+  /** Set when revocation checking is enabled (not for the root) */
+  revocation?: RevocationInfo;
 }
 
 export interface ChainValidationResult {
@@ -41,16 +95,24 @@ export interface ChainValidationResult {
   chainLength: number;
   certificates: CertificateInfo[];
   trustedChain: boolean;
+  /** Anchor the chain reached (set when trustedChain) */
+  trustAnchor?: TrustAnchorSummary;
   reasons: string[];
   rootCertificate?: CertificateInfo;
+  /** Time validity periods and revocation were evaluated at */
+  validationTime: Date;
 }
 
-const DEFAULT_OPTIONS: Required<ChainValidationOptions> = {
+const DEFAULT_OPTIONS: Omit<Required<ChainValidationOptions>, "trustStore"> = {
   checkValidityPeriod: true,
   verifySignatures: true,
   checkKeyUsage: true,
   maxChainLength: 10,
   trustedRoots: [],
+  trustPurpose: "signer",
+  checkRevocation: true,
+  acceptablePolicies: [],
+  requireExplicitPolicy: false,
 };
 
 /**
@@ -58,23 +120,33 @@ const DEFAULT_OPTIONS: Required<ChainValidationOptions> = {
  */
 export class CertificateChainValidator {
   private options: Required<ChainValidationOptions>;
+  private ocspClient: OCSPClient;
+  private crlClient: CRLClient;
 
   constructor(options: ChainValidationOptions = {}) {
-    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+      trustStore: options.trustStore ?? getTrustStore(),
+    };
+    this.ocspClient = new OCSPClient();
+    this.crlClient = new CRLClient();
   }
 
   /**
-   * Validate a certificate chain from a CMS SignedData structure
+   * Validate a certificate chain from a CMS SignedData structure at `validationTime`.
+   * Revocation data embedded in the document is tried before OCSP and CRL downloads.
    */
   async validateChain(
     certificates: Certificate[],
     signerCert: Certificate,
     logs?: LogEntry[],
+    validationTime: Date = new Date(),
+    embedded?: EmbeddedRevocationData,
   ): Promise<ChainValidationResult> {
     const reasons: string[] = [];
     const certInfos: CertificateInfo[] = [];
     let isValid = true;
-    let trustedChain = false;
 
     // Enhanced diagnostic logging for CPS certificate debugging
     const signerSubject = this.getSubjectCN(signerCert);
@@ -93,6 +165,7 @@ export class CertificateChainValidator {
         signerSerial,
         signerValidFrom: signerCert.notBefore.value.toISOString(),
         signerValidTo: signerCert.notAfter.value.toISOString(),
+        validationTime: validationTime.toISOString(),
         certificateDetails: certificates.map((cert, idx) => ({
           index: idx,
           subject: this.getSubjectCN(cert),
@@ -104,10 +177,27 @@ export class CertificateChainValidator {
       },
     });
 
-    // Build ordered chain starting from signer certificate
-    const orderedChain = this.buildOrderedChain(certificates, signerCert);
+    // Candidate paths over every possible issuer (embedded certificates and anchors): the first
+    // one passing the RFC 5280 checks with verified signatures is validated, anchored first
+    const candidates = await buildCertificatePaths(signerCert, certificates, {
+      anchors: this.getAnchors().map((anchor) => anchor.certificate),
+      maxLength: this.options.maxChainLength,
+      validationTime,
+    });
+    const checked = candidates.map((path) => ({
+      path,
+      check: validateCertificatePath(path.certificates, {
+        endsAtAnchor: path.complete,
+        acceptablePolicies: this.options.acceptablePolicies,
+        requireExplicitPolicy: this.options.requireExplicitPolicy,
+      }),
+    }));
+    const usable = checked.filter(
+      ({ path, check }) => check.errors.length === 0 && path.signaturesVerified,
+    );
+    const selected = usable.find(({ path }) => path.endsAtAnchor) ?? usable[0] ?? checked[0];
 
-    if (orderedChain.length === 0) {
+    if (!selected) {
       reasons.push("Unable to build certificate chain");
       return {
         isValid: false,
@@ -115,9 +205,28 @@ export class CertificateChainValidator {
         certificates: [],
         trustedChain: false,
         reasons,
+        validationTime,
       };
     }
 
+    const orderedChain = selected.path.certificates;
+    logs?.push({
+      timestamp: new Date().toISOString(),
+      level: "debug",
+      source: "backend",
+      message: "Certification path selected",
+      context: {
+        candidatePaths: candidates.length,
+        path: orderedChain.map((cert) => this.getSubjectCN(cert)),
+        complete: selected.path.complete,
+        validPolicies: selected.check.validPolicies,
+      },
+    });
+    if (selected.check.errors.length > 0) {
+      reasons.push(...selected.check.errors);
+      isValid = false;
+    }
+
     if (orderedChain.length > this.options.maxChainLength) {
       reasons.push(
         `Certificate chain too long (${orderedChain.length} > ${this.options.maxChainLength})`,
@@ -129,14 +238,17 @@ export class CertificateChainValidator {
     for (let i = 0; i < orderedChain.length; i++) {
       const cert = orderedChain[i];
       const isRoot = i === orderedChain.length - 1;
-      const issuerCert = isRoot ? cert : orderedChain[i + 1]; // Self-signed if root
-
-      const certInfo = this.extractCertificateInfo(cert);
+      const certInfo = this.extractCertificateInfo(cert, validationTime);
       certInfos.push(certInfo);
 
+      // Self-signed root, or unknown when the chain is incomplete
+      const issuerCert = !isRoot ? orderedChain[i + 1] : certInfo.isSelfSigned ? cert : undefined;
+
       // Check validity period
-      if (this.options.checkValidityPeriod && !certInfo.isValidNow) {
-        reasons.push(`Certificate ${certInfo.subject} is not valid (expired or not yet valid)`);
+      if (this.options.checkValidityPeriod && !certInfo.isValidAtTime) {
+        reasons.push(
+          `Certificate ${certInfo.subject} is not valid on ${validationTime.toISOString()} (expired or not yet valid)`,
+        );
         isValid = false;
       }
 
@@ -154,33 +266,73 @@ export class CertificateChainValidator {
         }
       }
 
-      // Verify signature (except for trusted roots)
-      if (this.options.verifySignatures && !this.isTrustedRoot(cert)) {
+      // Trust anchors are trusted as such: no signature or revocation check
+      const isAnchor = !!this.findTrustAnchor(cert);
+
+      // Verify signature (an incomplete chain is reported as untrusted instead)
+      if (this.options.verifySignatures && !isAnchor && issuerCert) {
         try {
           const signatureValid = await this.verifyCertificateSignature(cert, issuerCert);
+          certInfo.signatureValid = signatureValid;
           if (!signatureValid) {
             reasons.push(`Certificate ${certInfo.subject} has invalid signature`);
             isValid = false;
           }
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : "Unknown error";
+          certInfo.signatureValid = false;
           reasons.push(`Failed to verify certificate signature: ${errorMsg}`);
           isValid = false;
         }
       }
+
+      // Check revocation (roots are trusted as such)
+      if (this.options.checkRevocation && !certInfo.isSelfSigned && !isAnchor) {
+        const revocation: RevocationInfo = issuerCert
+          ? await this.checkRevocation(cert, issuerCert, validationTime, embedded, logs)
+          : { status: "unknown", reason: "Issuer certificate not available" };
+        certInfo.revocation = revocation;
+
+        // A revocation after the validation time does not affect the chain at that time
+        const { revocationTime } = revocation;
+        if (revocation.status === "revoked" && revocationTime && revocationTime > validationTime) {
+          logs?.push({
+            timestamp: new Date().toISOString(),
+            level: "info",
+            source: "backend",
+            message: `Certificate ${certInfo.subject} was revoked after the validation time`,
+            context: {
+              revocationTime: revocationTime.toISOString(),
+              validationTime: validationTime.toISOString(),
+            },
+          });
+        } else if (revocation.status === "revoked") {
+          const when = revocationTime?.toISOString() ?? "unknown date";
+          const why = revocation.revocationReason ? ` (${revocation.revocationReason})` : "";
+          reasons.push(`Certificate ${certInfo.subject} was revoked on ${when}${why}`);
+          isValid = false;
+        }
+      }
     }
 
-    // Check if chain ends with a trusted root
-    const rootCert = orderedChain[orderedChain.length - 1];
-    if (this.options.trustedRoots.length > 0) {
-      trustedChain = this.isTrustedRoot(rootCert);
-      if (!trustedChain) {
+    // Trust: the certificate closest to the signer that is an anchor
+    const anchor = orderedChain
+      .map((cert) => this.findTrustAnchor(cert))
+      .find((a): a is TrustAnchor => !!a);
+    const trustedChain = !!anchor;
+    if (!trustedChain) {
+      if (this.getAnchors().length > 0) {
         reasons.push("Certificate chain does not end with a trusted root certificate");
         isValid = false;
+      } else {
+        // Nothing to anchor to: the chain is reported untrusted, not invalid
+        logs?.push({
+          timestamp: new Date().toISOString(),
+          level: "warning",
+          source: "backend",
+          message: `No ${this.options.trustPurpose} trust anchor configured: chain is not trusted`,
+        });
       }
-    } else {
-      // Accept self-signed chains when no trusted roots provided
-      trustedChain = this.extractCertificateInfo(rootCert).isSelfSigned;
     }
 
     logs?.push({
@@ -191,6 +343,7 @@ export class CertificateChainValidator {
       context: {
         chainLength: orderedChain.length,
         trustedChain,
+        trustAnchor: anchor?.subject,
         reasonCount: reasons.length,
       },
     });
@@ -200,62 +353,64 @@ export class CertificateChainValidator {
       chainLength: orderedChain.length,
       certificates: certInfos,
       trustedChain,
+      trustAnchor: anchor && {
+        subject: anchor.subject,
+        fingerprint: anchor.fingerprint,
+        source: anchor.source,
+        trustedService: anchor.trustedService,
+      },
       reasons,
       rootCertificate: certInfos[certInfos.length - 1],
+      validationTime,
     };
   }
 
   /**
-   * Build an ordered certificate chain from available certificates
+   * Embedded data first, then OCSP; the CRL answers when OCSP is unavailable or inconclusive
    */
-  private buildOrderedChain(certificates: Certificate[], signerCert: Certificate): Certificate[] {
-    const chain: Certificate[] = [signerCert];
-    const remaining = certificates.filter((cert) => cert !== signerCert);
-
-    let currentCert = signerCert;
-
-    // Build chain by following issuer relationships
-    while (chain.length < this.options.maxChainLength) {
-      if (this.extractCertificateInfo(currentCert).isSelfSigned) {
-        break; // Reached self-signed root
-      }
-
-      // Find issuer certificate
-      const issuer = remaining.find((cert) => this.isIssuerOf(cert, currentCert));
-      if (!issuer) {
-        break; // No issuer found, chain ends here
-      }
-
-      chain.push(issuer);
-      currentCert = issuer;
-
-      // Remove from remaining to prevent cycles
-      const issuerIndex = remaining.indexOf(issuer);
-      remaining.splice(issuerIndex, 1);
+  private async checkRevocation(
+    cert: Certificate,
+    issuerCert: Certificate,
+    validationTime: Date,
+    embedded: EmbeddedRevocationData | undefined,
+    logs?: LogEntry[],
+  ): Promise<RevocationInfo> {
+    if (embedded) {
+      const { ocspResponses, crls } = embedded;
+      const storedOcsp = await this.ocspClient.checkEmbedded(
+        ocspResponses,
+        cert,
+        issuerCert,
+        validationTime,
+        logs,
+      );
+      if (storedOcsp.status !== "unknown") return storedOcsp;
+      const storedCrl = await this.crlClient.checkEmbedded(
+        crls,
+        cert,
+        issuerCert,
+        validationTime,
+        logs,
+      );
+      if (storedCrl.status !== "unknown") return storedCrl;
     }
 
-    return chain;
-  }
+    const ocsp = await this.ocspClient.check(cert, issuerCert, logs);
+    if (ocsp.status !== "unknown") return ocsp;
 
-  /**
-   * Check if cert1 is the issuer of cert2
-   */
-  private isIssuerOf(issuerCandidate: Certificate, subjectCert: Certificate): boolean {
-    try {
-      // Compare issuer DN of subject with subject DN of issuer candidate
-      const subjectIssuerDN = this.getDNString(subjectCert.issuer);
-      const candidateSubjectDN = this.getDNString(issuerCandidate.subject);
+    const crl = await this.crlClient.check(cert, issuerCert, logs);
+    if (crl.status !== "unknown") return crl;
 
-      return subjectIssuerDN === candidateSubjectDN;
-    } catch {
-      return false;
-    }
+    return { status: "unknown", reason: `OCSP: ${ocsp.reason}; CRL: ${crl.reason}` };
   }
 
   /**
    * Extract certificate information for validation
    */
-  private extractCertificateInfo(cert: Certificate): CertificateInfo {
+  private extractCertificateInfo(
+    cert: Certificate,
+    validationTime: Date = new Date(),
+  ): CertificateInfo {
     const subject = this.getDNString(cert.subject);
     const issuer = this.getDNString(cert.issuer);
     const serialNumber = Buffer.from(cert.serialNumber.valueBlock.valueHex).toString("hex");
@@ -263,6 +418,7 @@ export class CertificateChainValidator {
     const validTo = cert.notAfter.value;
     const now = new Date();
     const isValidNow = now >= validFrom && now <= validTo;
+    const isValidAtTime = validationTime >= validFrom && validationTime <= validTo;
     const isSelfSigned = subject === issuer;
 
     // Extract key usage from extensions
@@ -333,6 +489,7 @@ export class CertificateChainValidator {
       validTo,
       keyUsage,
       isValidNow,
+      isValidAtTime,
       isSelfSigned,
     };
   }
@@ -353,30 +510,31 @@ export class CertificateChainValidator {
   }
 
   /**
-   * Check if certificate is in trusted roots list
+   * Trust store anchors of the validator purpose, then the explicit trusted roots
    */
-  private isTrustedRoot(cert: Certificate): boolean {
-    if (this.options.trustedRoots.length === 0) {
-      return true; // Accept any root when no trusted roots configured
-    }
-
-    return this.options.trustedRoots.some((trustedRoot) => {
-      try {
-        const certFingerprint = this.getCertificateFingerprint(cert);
-        const trustedFingerprint = this.getCertificateFingerprint(trustedRoot);
-        return certFingerprint === trustedFingerprint;
-      } catch {
-        return false;
-      }
-    });
+  private getAnchors(): TrustAnchor[] {
+    return [
+      ...this.options.trustStore.getAnchors(this.options.trustPurpose),
+      ...this.options.trustedRoots.map((cert) => createTrustAnchor(cert, "trustedRoots")),
+    ];
   }
 
   /**
-   * Get certificate fingerprint for comparison
+   * Anchor identical to the certificate, if any
    */
-  private getCertificateFingerprint(cert: Certificate): string {
-    const certDer = cert.toSchema().toBER(false);
-    return Buffer.from(certDer).toString("hex");
+  private findTrustAnchor(cert: Certificate): TrustAnchor | undefined {
+    try {
+      const fromStore = this.options.trustStore.findAnchor(cert, this.options.trustPurpose);
+      if (fromStore) return fromStore;
+
+      const der = Buffer.from(cert.toSchema().toBER(false));
+      const trustedRoot = this.options.trustedRoots.find(
+        (root) => Buffer.compare(Buffer.from(root.toSchema().toBER(false)), der) === 0,
+      );
+      return trustedRoot && createTrustAnchor(trustedRoot, "trustedRoots");
+    } catch {
+      return undefined; // Certificate that cannot be encoded
+    }
   }
 
   /**
@@ -0,0 +1,233 @@
+/**
+ * Certification path building (RFC 4158)
+ *
+ * Paths go from the target certificate up to a trust anchor, found by depth-first search
+ * with backtracking: every certificate whose subject matches the issuer name is a candidate
+ * issuer (cross-certificates, renewed CAs sharing a name, as in the IGC-Santé hierarchy).
+ * Candidates whose subject key identifier contradicts the authority key identifier are
+ * discarded; the others are tried by likelihood: key identifier match, signature verifying,
+ * validity at the validation time, trust anchor.
+ *
+ * The builder only proposes paths; the validator checks them (RFC 5280 §6.1, revocation)
+ * and keeps the first one that validates.
+ */
+
+import { AuthorityKeyIdentifier } from "pkijs";
+
+import type { Certificate, RelativeDistinguishedNames } from "pkijs";
+
+const SUBJECT_KEY_IDENTIFIER_OID = "2.5.29.14";
+const AUTHORITY_KEY_IDENTIFIER_OID = "2.5.29.35";
+
+/** Bound on the explored paths, against combinatorial explosion with cross-certificates */
+const DEFAULT_MAX_PATHS = 50;
+/** Bound on the search steps, since incomplete branches never count against maxPaths */
+const DEFAULT_MAX_VISITS = 500;
+
+export interface PathBuildingOptions {
+  /** Certificates a path can end at */
+  anchors: Certificate[];
+  /** Maximum number of certificates in a path, target and anchor included */
+  maxLength: number;
+  /** Time candidates are ranked by validity at */
+  validationTime: Date;
+  /** Maximum number of complete paths proposed */
+  maxPaths?: number;
+  /** Maximum number of partial paths explored, complete or not */
+  maxVisits?: number;
+}
+
+export interface CandidatePath {
+  /** Target first, up to the last issuer found */
+  certificates: Certificate[];
+  /** Ends at a trust anchor or a self-signed certificate */
+  complete: boolean;
+  /** Ends at one of the anchors */
+  endsAtAnchor: boolean;
+  /** Every certificate signature verified with the next certificate key */
+  signaturesVerified: boolean;
+}
+
+interface Candidate {
+  certificate: Certificate;
+  isAnchor: boolean;
+  keyIdMatches: boolean;
+  signatureVerifies: boolean;
+  validAtTime: boolean;
+}
+
+/**
+ * Candidate paths for `target`, most likely first. When no path reaches an anchor or a
+ * self-signed certificate, the longest partial path is proposed instead. Issuers of a
+ * certificate are ranked, and their signatures checked, once per call.
+ */
+export async function buildCertificatePaths(
+  target: Certificate,
+  pool: Certificate[],
+  options: PathBuildingOptions,
+): Promise<CandidatePath[]> {
+  const maxPaths = options.maxPaths ?? DEFAULT_MAX_PATHS;
+  const maxVisits = options.maxVisits ?? DEFAULT_MAX_VISITS;
+  const anchorKeys = new Set(options.anchors.map(certificateKey));
+  const certificates = dedupe([...pool, ...options.anchors]);
+  const paths: CandidatePath[] = [];
+  let longestPartial: CandidatePath | undefined;
+  const issuers = new Map<string, Candidate[]>(); // certificate key → ranked issuers
+  let visits = 0;
+
+  const visit = async (path: Certificate[], verified: boolean): Promise<void> => {
+    if (paths.length >= maxPaths || visits >= maxVisits) return;
+    visits++;
+    const current = path[path.length - 1];
+    const endsAtAnchor = anchorKeys.has(certificateKey(current));
+    if (endsAtAnchor || isSelfSigned(current)) {
+      paths.push({
+        certificates: path,
+        complete: true,
+        endsAtAnchor,
+        signaturesVerified: verified,
+      });
+      return;
+    }
+
+    let candidates: Candidate[] = [];
+    if (path.length < options.maxLength) {
+      const key = certificateKey(current);
+      candidates =
+        issuers.get(key) ??
+        (await rankIssuers(current, certificates, anchorKeys, options.validationTime));
+      issuers.set(key, candidates);
+    }
+    const inPath = new Set(path.map(certificateKey));
+    let extended = false;
+    for (const candidate of candidates) {
+      if (inPath.has(certificateKey(candidate.certificate))) continue;
+      extended = true;
+      await visit([...path, candidate.certificate], verified && candidate.signatureVerifies);
+    }
+
+    if (!extended && (!longestPartial || path.length > longestPartial.certificates.length)) {
+      longestPartial = {
+        certificates: path,
+        complete: false,
+        endsAtAnchor: false,
+        signaturesVerified: verified,
+      };
+    }
+  };
+
+  await visit([target], true);
+  return paths.length > 0 ? paths : longestPartial ? [longestPartial] : [];
+}
+
+/**
+ * Certificates that may have issued `cert`: subject matching its issuer name and no key
+ * identifier mismatch, most likely first
+ */
+async function rankIssuers(
+  cert: Certificate,
+  certificates: Certificate[],
+  anchorKeys: Set<string>,
+  validationTime: Date,
+): Promise<Candidate[]> {
+  const authorityKeyId = getAuthorityKeyIdentifier(cert);
+  const candidates: Candidate[] = [];
+  for (const issuer of certificates) {
+    if (issuer === cert || !namesMatch(issuer.subject, cert.issuer)) continue;
+    const subjectKeyId = getSubjectKeyIdentifier(issuer);
+    if (authorityKeyId && subjectKeyId && authorityKeyId !== subjectKeyId) continue;
+
+    candidates.push({
+      certificate: issuer,
+      isAnchor: anchorKeys.has(certificateKey(issuer)),
+      keyIdMatches: !!authorityKeyId && authorityKeyId === subjectKeyId,
+      signatureVerifies: await verifiesWith(cert, issuer),
+      validAtTime:
+        validationTime >= issuer.notBefore.value && validationTime <= issuer.notAfter.value,
+    });
+  }
+
+  const score = (c: Candidate) =>
+    (c.signatureVerifies ? 8 : 0) +
+    (c.keyIdMatches ? 4 : 0) +
+    (c.validAtTime ? 2 : 0) +
+    (c.isAnchor ? 1 : 0);
+  return candidates.sort((a, b) => score(b) - score(a));
+}
+
+async function verifiesWith(cert: Certificate, issuer: Certificate): Promise<boolean> {
+  try {
+    return await cert.verify(issuer);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Name comparison of RFC 5280 §7.1, simplified: same attributes in the same order, values
+ * compared case-insensitively with internal whitespace collapsed
+ */
+export function namesMatch(a: RelativeDistinguishedNames, b: RelativeDistinguishedNames): boolean {
+  const aKey = nameKey(a);
+  const bKey = nameKey(b);
+  return aKey.length === bKey.length && aKey.every((rdn, i) => rdn === bKey[i]);
+}
+
+/** Normalized attributes of a name, in order */
+export function nameKey(name: RelativeDistinguishedNames): string[] {
+  return name.typesAndValues.map((tv) => {
+    const value = String(tv.value.valueBlock.value ?? "");
+    return `${tv.type}=${value.trim().replace(/\s+/g, " ").toLowerCase()}`;
+  });
+}
+
+/** Subject and issuer names match (RFC 5280 §6.1: self-issued) */
+export function isSelfIssued(cert: Certificate): boolean {
+  return namesMatch(cert.subject, cert.issuer);
+}
+
+/** Self-issued and not contradicted by its key identifiers */
+function isSelfSigned(cert: Certificate): boolean {
+  if (!isSelfIssued(cert)) return false;
+  const authorityKeyId = getAuthorityKeyIdentifier(cert);
+  const subjectKeyId = getSubjectKeyIdentifier(cert);
+  return !authorityKeyId || !subjectKeyId || authorityKeyId === subjectKeyId;
+}
+
+/** Subject key identifier, hex */
+export function getSubjectKeyIdentifier(cert: Certificate): string | undefined {
+  const ext = cert.extensions?.find((e) => e.extnID === SUBJECT_KEY_IDENTIFIER_OID);
+  if (!ext) return undefined;
+  const parsed = ext.parsedValue as { valueBlock?: { valueHexView?: Uint8Array } } | undefined;
+  const bytes = parsed?.valueBlock?.valueHexView;
+  return bytes ? Buffer.from(bytes).toString("hex") : undefined;
+}
+
+/** Key identifier of the authority key identifier extension, hex */
+export function getAuthorityKeyIdentifier(cert: Certificate): string | undefined {
+  const ext = cert.extensions?.find((e) => e.extnID === AUTHORITY_KEY_IDENTIFIER_OID);
+  if (!(ext?.parsedValue instanceof AuthorityKeyIdentifier)) return undefined;
+  const keyIdentifier = ext.parsedValue.keyIdentifier;
+  return keyIdentifier
+    ? Buffer.from(keyIdentifier.valueBlock.valueHexView).toString("hex")
+    : undefined;
+}
+
+function certificateKey(cert: Certificate): string {
+  try {
+    return Buffer.from(cert.toSchema().toBER(false)).toString("base64");
+  } catch {
+    const serial = Buffer.from(cert.serialNumber.valueBlock.valueHexView).toString("hex");
+    return `${serial}:${nameKey(cert.issuer).join(",")}`;
+  }
+}
+
+function dedupe(certificates: Certificate[]): Certificate[] {
+  const seen = new Set<string>();
+  return certificates.filter((cert) => {
+    const key = certificateKey(cert);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,343 @@
+import * as asn1js from "asn1js";
+import {
+  AltName,
+  Certificate,
+  CertificatePolicies,
+  Extension,
+  GeneralName,
+  GeneralSubtree,
+  NameConstraints,
+  PolicyInformation,
+  PolicyMapping,
+  PolicyMappings,
+} from "pkijs";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.stubEnv("LOG_LEVEL", "error");
+
+import { CertificateChainValidator } from "./certificate-chain-validator";
+import { buildCertificatePaths } from "./certificate-path-builder";
+import { validateCertificatePath } from "./certificate-path-validation";
+import { issueCert } from "./test-pki";
+
+import type { TestCert } from "./test-pki";
+
+const POLICY_A = "1.2.250.1.71.1.1";
+const POLICY_B = "1.2.250.1.71.1.2";
+
+function policies(...oids: string[]): Extension {
+  return new Extension({
+    extnID: "2.5.29.32",
+    extnValue: new CertificatePolicies({
+      certificatePolicies: oids.map(
+        (policyIdentifier) => new PolicyInformation({ policyIdentifier }),
+      ),
+    })
+      .toSchema()
+      .toBER(false),
+  });
+}
+
+function dnsNames(...names: string[]): Extension {
+  return new Extension({
+    extnID: "2.5.29.17",
+    extnValue: new AltName({ altNames: names.map((value) => new GeneralName({ type: 2, value })) })
+      .toSchema()
+      .toBER(false),
+  });
+}
+
+describe("Certification path building and validation", () => {
+  let root: TestCert;
+
+  beforeAll(async () => {
+    root = await issueCert("Test Root", { ca: true });
+  });
+
+  describe("buildCertificatePaths", () => {
+    it("should backtrack over renewed CAs sharing a name", async () => {
+      const previousCA = await issueCert("Test CA", { issuer: root, ca: true });
+      const renewedCA = await issueCert("Test CA", { issuer: root, ca: true });
+      const leaf = await issueCert("Test Signer", {
+        issuer: renewedCA,
+        withoutAuthorityKeyId: true,
+      });
+
+      const paths = await buildCertificatePaths(
+        leaf.cert,
+        [leaf.cert, previousCA.cert, renewedCA.cert],
+        {
+          anchors: [root.cert],
+          maxLength: 10,
+          validationTime: new Date(),
+        },
+      );
+
+      expect(paths).toHaveLength(2);
+      expect(paths[0].certificates).toEqual([leaf.cert, renewedCA.cert, root.cert]);
+      expect(paths[0]).toMatchObject({
+        complete: true,
+        endsAtAnchor: true,
+        signaturesVerified: true,
+      });
+      expect(paths[1].signaturesVerified).toBe(false);
+    });
+
+    it("should discard issuers whose key identifier does not match", async () => {
+      const previousCA = await issueCert("Test CA", { issuer: root, ca: true });
+      const renewedCA = await issueCert("Test CA", { issuer: root, ca: true });
+      const leaf = await issueCert("Test Signer", { issuer: renewedCA });
+
+      const paths = await buildCertificatePaths(leaf.cert, [previousCA.cert, renewedCA.cert], {
+        anchors: [root.cert],
+        maxLength: 10,
+        validationTime: new Date(),
+      });
+
+      expect(paths).toHaveLength(1);
+      expect(paths[0].certificates[1]).toBe(renewedCA.cert);
+    });
+
+    it("should reach another anchor through a cross-certificate", async () => {
+      const otherRoot = await issueCert("Other Root", { ca: true });
+      const crossCert = await issueCert("Test Root", {
+        issuer: otherRoot,
+        subject: root,
+        ca: true,
+      });
+      const ca = await issueCert("Test CA", { issuer: root, ca: true });
+      const leaf = await issueCert("Test Signer", { issuer: ca });
+
+      const paths = await buildCertificatePaths(leaf.cert, [ca.cert, crossCert.cert, root.cert], {
+        anchors: [otherRoot.cert],
+        maxLength: 10,
+        validationTime: new Date(),
+      });
+
+      const anchored = paths.find((path) => path.endsAtAnchor);
+      expect(anchored?.certificates).toEqual([leaf.cert, ca.cert, crossCert.cert, otherRoot.cert]);
+      expect(anchored?.signaturesVerified).toBe(true);
+    });
+
+    it("should propose the longest partial path without anchor", async () => {
+      const ca = await issueCert("Test CA", { issuer: root, ca: true });
+      const leaf = await issueCert("Test Signer", { issuer: ca });
+
+      const paths = await buildCertificatePaths(leaf.cert, [ca.cert], {
+        anchors: [],
+        maxLength: 10,
+        validationTime: new Date(),
+      });
+
+      expect(paths).toHaveLength(1);
+      expect(paths[0]).toMatchObject({ complete: false, certificates: [leaf.cert, ca.cert] });
+    });
+
+    it("should bound the search in a mesh of cross-certified CAs", async () => {
+      // Every CA key certified by every other one: thousands of paths, none to an anchor
+      const keys = await Promise.all([1, 2, 3, 4].map(() => issueCert("Mesh CA", { ca: true })));
+      const mesh = await Promise.all(
+        keys.flatMap((subject) =>
+          keys
+            .filter((issuer) => issuer !== subject)
+            .map((issuer) => issueCert("Mesh CA", { issuer, subject, ca: true })),
+        ),
+      );
+      const leaf = await issueCert("Test Signer", { issuer: keys[0] });
+      const pool = mesh.map((m) => m.cert);
+      const verify = vi.spyOn(Certificate.prototype, "verify");
+      const build = (maxVisits?: number) =>
+        buildCertificatePaths(leaf.cert, pool, {
+          anchors: [],
+          maxLength: 10,
+          validationTime: new Date(),
+          maxVisits,
+        });
+
+      const paths = await build();
+      expect(paths).toHaveLength(1);
+      expect(paths[0].complete).toBe(false);
+      // Each issuer signature is checked once, whatever the number of paths through it
+      const checked = verify.mock.calls.map(
+        ([issuer], i) =>
+          `${pool.indexOf(verify.mock.contexts[i] as Certificate)}:${pool.indexOf(issuer!)}`,
+      );
+      expect(new Set(checked).size).toBe(checked.length);
+
+      // Two steps rank the issuers of the leaf and of one mesh certificate (3 candidates each)
+      verify.mockClear();
+      await build(2);
+      expect(verify).toHaveBeenCalledTimes(6);
+      verify.mockRestore();
+    });
+  });
+
+  describe("validateCertificatePath", () => {
+    it("should accept a conforming path", async () => {
+      const ca = await issueCert("Test CA", { issuer: root, ca: { pathLen: 0 } });
+      const leaf = await issueCert("Test Signer", { issuer: ca });
+
+      const result = validateCertificatePath([leaf.cert, ca.cert, root.cert], {
+        endsAtAnchor: true,
+      });
+
+      expect(result.errors).toEqual([]);
+    });
+
+    it("should enforce basicConstraints cA and pathLenConstraint", async () => {
+      const ca = await issueCert("Test CA", { issuer: root, ca: { pathLen: 0 } });
+      const subCA = await issueCert("Test Sub CA", { issuer: ca, ca: true });
+      const notCA = await issueCert("Test End Entity", { issuer: subCA });
+      const leaf = await issueCert("Test Signer", { issuer: notCA });
+
+      const result = validateCertificatePath(
+        [leaf.cert, notCA.cert, subCA.cert, ca.cert, root.cert],
+        {
+          endsAtAnchor: true,
+        },
+      );
+
+      expect(result.errors).toContain(
+        "Certificate Test End Entity: path length constraint exceeded",
+      );
+      expect(result.errors).toContain(
+        "Certificate Test End Entity issues certificates but is not a CA (basicConstraints cA)",
+      );
+    });
+
+    it("should enforce name constraints", async () => {
+      const constraints = new Extension({
+        extnID: "2.5.29.30",
+        critical: true,
+        extnValue: new NameConstraints({
+          permittedSubtrees: [
+            new GeneralSubtree({ base: new GeneralName({ type: 2, value: "sante.fr" }) }),
+          ],
+        })
+          .toSchema()
+          .toBER(false),
+      });
+      const ca = await issueCert("Test CA", { issuer: root, ca: true, extensions: [constraints] });
+      const inside = await issueCert("Inside", {
+        issuer: ca,
+        extensions: [dnsNames("www.sante.fr")],
+      });
+      const outside = await issueCert("Outside", {
+        issuer: ca,
+        extensions: [dnsNames("sante.com")],
+      });
+
+      const insideResult = validateCertificatePath([inside.cert, ca.cert, root.cert], {
+        endsAtAnchor: true,
+      });
+      const outsideResult = validateCertificatePath([outside.cert, ca.cert, root.cert], {
+        endsAtAnchor: true,
+      });
+
+      expect(insideResult.errors).toEqual([]);
+      expect(outsideResult.errors).toEqual([
+        "Certificate Outside: sante.com is outside the permitted name subtrees",
+      ]);
+    });
+
+    it("should process certificate policies and policy mappings", async () => {
+      const mapping = new Extension({
+        extnID: "2.5.29.33",
+        extnValue: new PolicyMappings({
+          mappings: [
+            new PolicyMapping({ issuerDomainPolicy: POLICY_A, subjectDomainPolicy: POLICY_B }),
+          ],
+        })
+          .toSchema()
+          .toBER(false),
+      });
+      const ca = await issueCert("Test CA", {
+        issuer: root,
+        ca: true,
+        extensions: [policies(POLICY_A)],
+      });
+      const mappingCA = await issueCert("Mapping CA", {
+        issuer: root,
+        ca: true,
+        extensions: [policies(POLICY_A), mapping],
+      });
+      const leafA = await issueCert("Signer A", { issuer: ca, extensions: [policies(POLICY_A)] });
+      const leafB = await issueCert("Signer B", { issuer: ca, extensions: [policies(POLICY_B)] });
+      const mappedLeaf = await issueCert("Signer mapped", {
+        issuer: mappingCA,
+        extensions: [policies(POLICY_B)],
+      });
+      const options = {
+        endsAtAnchor: true,
+        acceptablePolicies: [POLICY_A],
+        requireExplicitPolicy: true,
+      };
+
+      const resultA = validateCertificatePath([leafA.cert, ca.cert, root.cert], options);
+      const resultB = validateCertificatePath([leafB.cert, ca.cert, root.cert], options);
+      const mapped = validateCertificatePath([mappedLeaf.cert, mappingCA.cert, root.cert], options);
+
+      expect(resultA).toEqual({ errors: [], validPolicies: [POLICY_A] });
+      expect(resultB.errors).toEqual([
+        "Certificate Signer B: no certificate policy is valid for the path",
+      ]);
+      expect(mapped).toEqual({ errors: [], validPolicies: [POLICY_A] });
+    });
+
+    it("should reject unrecognized critical extensions", async () => {
+      const unknown = new Extension({
+        extnID: "1.2.3.4.5",
+        critical: true,
+        extnValue: new asn1js.Null().toBER(false),
+      });
+      const leaf = await issueCert("Test Signer", { issuer: root, extensions: [unknown] });
+
+      const result = validateCertificatePath([leaf.cert, root.cert], { endsAtAnchor: true });
+
+      expect(result.errors).toEqual([
+        "Certificate Test Signer has an unrecognized critical extension 1.2.3.4.5",
+      ]);
+    });
+  });
+
+  describe("CertificateChainValidator", () => {
+    it("should validate the path through the CA that issued the signer", async () => {
+      const previousCA = await issueCert("Test CA", { issuer: root, ca: true });
+      const renewedCA = await issueCert("Test CA", { issuer: root, ca: true });
+      const leaf = await issueCert("Test Signer", {
+        issuer: renewedCA,
+        withoutAuthorityKeyId: true,
+      });
+      const validator = new CertificateChainValidator({
+        trustedRoots: [root.cert],
+        checkRevocation: false,
+        checkKeyUsage: false,
+      });
+
+      const result = await validator.validateChain(
+        [leaf.cert, previousCA.cert, renewedCA.cert],
+        leaf.cert,
+      );
+
+      expect(result.reasons).toEqual([]);
+      expect(result).toMatchObject({ isValid: true, trustedChain: true, chainLength: 3 });
+      expect(result.certificates[1].signatureValid).toBe(true);
+    });
+
+    it("should report path constraint violations", async () => {
+      const ca = await issueCert("Test CA", { issuer: root, ca: { pathLen: 0 } });
+      const subCA = await issueCert("Test Sub CA", { issuer: ca, ca: true });
+      const leaf = await issueCert("Test Signer", { issuer: subCA });
+      const validator = new CertificateChainValidator({
+        trustedRoots: [root.cert],
+        checkRevocation: false,
+        checkKeyUsage: false,
+      });
+
+      const result = await validator.validateChain([leaf.cert, subCA.cert, ca.cert], leaf.cert);
+
+      expect(result.isValid).toBe(false);
+      expect(result.reasons).toContain("Certificate Test Sub CA: path length constraint exceeded");
+    });
+  });
+});
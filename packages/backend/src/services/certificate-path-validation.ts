@@ -0,0 +1,491 @@
+/**
+ * Certification path validation (RFC 5280 §6.1)
+ *
+ * The checks that depend on the path as a whole, run from the trust anchor down to the
+ * target: basicConstraints cA and pathLenConstraint, keyCertSign, name constraints,
+ * certificate policies with policy mappings and policy constraints, and unrecognized critical
+ * extensions. Signatures, validity periods and revocation are checked per certificate by the
+ * chain validator.
+ *
+ * The trust anchor is not part of the processed path (§6.1.1): its own constraints do not
+ * apply. Name constraints are enforced for the directoryName, rfc822Name, dNSName and
+ * iPAddress forms.
+ */
+
+import * as asn1js from "asn1js";
+import {
+  AltName,
+  BasicConstraints,
+  CertificatePolicies,
+  NameConstraints,
+  PolicyConstraints,
+  PolicyMappings,
+} from "pkijs";
+
+import { isSelfIssued, nameKey } from "./certificate-path-builder";
+
+import type { Certificate, GeneralName, RelativeDistinguishedNames } from "pkijs";
+
+export const ANY_POLICY = "2.5.29.32.0";
+
+const EXTENSION_OIDS = {
+  keyUsage: "2.5.29.15",
+  subjectAltName: "2.5.29.17",
+  basicConstraints: "2.5.29.19",
+  nameConstraints: "2.5.29.30",
+  certificatePolicies: "2.5.29.32",
+  policyMappings: "2.5.29.33",
+  policyConstraints: "2.5.29.36",
+  inhibitAnyPolicy: "2.5.29.54",
+};
+
+/** Extensions this validator (or the services using the certificate) process */
+const RECOGNIZED_EXTENSIONS = new Set([
+  ...Object.values(EXTENSION_OIDS),
+  "2.5.29.14", // subjectKeyIdentifier
+  "2.5.29.18", // issuerAltName
+  "2.5.29.31", // cRLDistributionPoints
+  "2.5.29.35", // authorityKeyIdentifier
+  "2.5.29.37", // extKeyUsage (checked by the timestamp validator)
+  "1.3.6.1.5.5.7.1.1", // authorityInfoAccess
+  "1.3.6.1.5.5.7.1.3", // qcStatements
+  "1.3.6.1.5.5.7.48.1.5", // id-pkix-ocsp-nocheck
+]);
+
+const EMAIL_ADDRESS_OID = "1.2.840.113549.1.9.1";
+
+/** GeneralName forms with name constraints support */
+const NAME_FORMS = { rfc822Name: 1, dNSName: 2, directoryName: 4, iPAddress: 7 } as const;
+
+type NameForm = (typeof NAME_FORMS)[keyof typeof NAME_FORMS];
+
+/** A name or a subtree base in comparable form */
+interface ComparableName {
+  form: NameForm;
+  /** rfc822Name and dNSName, lowercased */
+  text?: string;
+  /** directoryName attributes */
+  rdns?: string[];
+  /** iPAddress: address followed by its mask (full mask for a name) */
+  ip?: Uint8Array;
+}
+
+export interface PathValidationOptions {
+  /** The last certificate is the trust anchor, or a root: it is not processed */
+  endsAtAnchor: boolean;
+  /** user-initial-policy-set: policy OIDs acceptable to the verifier (default any policy) */
+  acceptablePolicies?: string[];
+  /** initial-explicit-policy: the path must be valid for an acceptable policy */
+  requireExplicitPolicy?: boolean;
+}
+
+export interface PathValidationResult {
+  errors: string[];
+  /** Policies the path is valid for, in the anchor policy domain (anyPolicy when unconstrained) */
+  validPolicies: string[];
+}
+
+interface PolicyNode {
+  validPolicy: string;
+  expectedPolicies: Set<string>;
+  parent?: PolicyNode;
+  children: PolicyNode[];
+}
+
+/** valid_policy_tree by depth; null once no policy is valid */
+type PolicyTree = PolicyNode[][] | null;
+
+/**
+ * Validate `path` (target first) against the RFC 5280 path processing rules
+ */
+export function validateCertificatePath(
+  path: Certificate[],
+  options: PathValidationOptions,
+): PathValidationResult {
+  const errors: string[] = [];
+  const certs = [...path].reverse().slice(options.endsAtAnchor ? 1 : 0);
+  const n = certs.length;
+
+  // §6.1.2 initialization
+  let tree: PolicyTree = [
+    [{ validPolicy: ANY_POLICY, expectedPolicies: new Set([ANY_POLICY]), children: [] }],
+  ];
+  let explicitPolicy = options.requireExplicitPolicy ? 0 : n + 1;
+  let inhibitAnyPolicy = n + 1;
+  let policyMapping = n + 1;
+  let maxPathLength = n;
+  let permitted = new Map<NameForm, ComparableName[]>();
+  const excluded = new Map<NameForm, ComparableName[]>();
+  let policyFailed = false;
+
+  for (let i = 1; i <= n; i++) {
+    const cert = certs[i - 1];
+    const isLast = i === n;
+    const selfIssued = isSelfIssued(cert);
+    const label = describe(cert);
+
+    // §6.1.3 (b)(c) name constraints (self-issued intermediates are exempt)
+    if (isLast || !selfIssued) {
+      for (const name of namesOf(cert)) {
+        const allowed = permitted.get(name.form);
+        if (allowed && !allowed.some((base) => isWithin(name, base))) {
+          errors.push(`${label}: ${formatName(name)} is outside the permitted name subtrees`);
+        }
+        if (excluded.get(name.form)?.some((base) => isWithin(name, base))) {
+          errors.push(`${label}: ${formatName(name)} is within an excluded name subtree`);
+        }
+      }
+    }
+
+    // §6.1.3 (d)(e)(f) certificate policies
+    const policies = getExtension(
+      cert,
+      EXTENSION_OIDS.certificatePolicies,
+      CertificatePolicies,
+    )?.certificatePolicies.map((p) => p.policyIdentifier);
+    if (tree && policies) {
+      const parents = tree[i - 1];
+      const level: PolicyNode[] = [];
+      for (const policy of policies.filter((p) => p !== ANY_POLICY)) {
+        let matches = parents.filter((node) => node.expectedPolicies.has(policy));
+        if (matches.length === 0)
+          matches = parents.filter((node) => node.validPolicy === ANY_POLICY);
+        matches.forEach((parent) => addPolicyNode(level, parent, policy, [policy]));
+      }
+      if (policies.includes(ANY_POLICY) && (inhibitAnyPolicy > 0 || (!isLast && selfIssued))) {
+        for (const parent of parents) {
+          for (const expected of parent.expectedPolicies) {
+            if (!parent.children.some((child) => child.validPolicy === expected)) {
+              addPolicyNode(level, parent, expected, [expected]);
+            }
+          }
+        }
+      }
+      tree.push(level);
+      tree = prunePolicyTree(tree, i);
+    } else {
+      tree = null;
+    }
+    if (explicitPolicy === 0 && !tree && !policyFailed) {
+      errors.push(`${label}: no certificate policy is valid for the path`);
+      policyFailed = true;
+    }
+
+    if (isLast) break;
+
+    // §6.1.4 preparation for certificate i+1
+    const mappings = getExtension(cert, EXTENSION_OIDS.policyMappings, PolicyMappings)?.mappings;
+    if (
+      mappings?.some(
+        (m) => m.issuerDomainPolicy === ANY_POLICY || m.subjectDomainPolicy === ANY_POLICY,
+      )
+    ) {
+      errors.push(`${label}: policy mappings must not map anyPolicy`);
+    } else if (tree && mappings) {
+      tree = applyPolicyMappings(tree, i, mappings, policyMapping > 0);
+    }
+
+    const nameConstraints = getExtension(cert, EXTENSION_OIDS.nameConstraints, NameConstraints);
+    if (nameConstraints?.permittedSubtrees) {
+      permitted = intersectSubtrees(
+        permitted,
+        nameConstraints.permittedSubtrees.map((s) => s.base),
+      );
+    }
+    for (const base of nameConstraints?.excludedSubtrees ?? []) {
+      const name = comparable(base.base);
+      if (name) excluded.set(name.form, [...(excluded.get(name.form) ?? []), name]);
+    }
+
+    if (!selfIssued) {
+      if (explicitPolicy > 0) explicitPolicy--;
+      if (policyMapping > 0) policyMapping--;
+      if (inhibitAnyPolicy > 0) inhibitAnyPolicy--;
+    }
+    const policyConstraints = getExtension(
+      cert,
+      EXTENSION_OIDS.policyConstraints,
+      PolicyConstraints,
+    );
+    if (policyConstraints?.requireExplicitPolicy !== undefined) {
+      explicitPolicy = Math.min(explicitPolicy, policyConstraints.requireExplicitPolicy);
+    }
+    if (policyConstraints?.inhibitPolicyMapping !== undefined) {
+      policyMapping = Math.min(policyMapping, policyConstraints.inhibitPolicyMapping);
+    }
+    const inhibitAny = getInhibitAnyPolicy(cert);
+    if (inhibitAny !== undefined) inhibitAnyPolicy = Math.min(inhibitAnyPolicy, inhibitAny);
+
+    const basicConstraints = getExtension(cert, EXTENSION_OIDS.basicConstraints, BasicConstraints);
+    if (!basicConstraints?.cA) {
+      errors.push(`${label} issues certificates but is not a CA (basicConstraints cA)`);
+    }
+    if (!selfIssued) {
+      if (maxPathLength <= 0) {
+        errors.push(`${label}: path length constraint exceeded`);
+      } else {
+        maxPathLength--;
+      }
+    }
+    if (basicConstraints?.pathLenConstraint !== undefined) {
+      maxPathLength = Math.min(maxPathLength, toNumber(basicConstraints.pathLenConstraint));
+    }
+
+    const keyUsage = getKeyUsageBits(cert);
+    if (keyUsage !== undefined && !(keyUsage & 0x04)) {
+      errors.push(`${label} issues certificates without the keyCertSign key usage`);
+    }
+
+    errors.push(...unrecognizedCriticalExtensions(cert, label));
+  }
+
+  // §6.1.5 wrap-up
+  if (n > 0) {
+    const target = certs[n - 1];
+    if (explicitPolicy > 0) explicitPolicy--;
+    const policyConstraints = getExtension(
+      target,
+      EXTENSION_OIDS.policyConstraints,
+      PolicyConstraints,
+    );
+    if (policyConstraints?.requireExplicitPolicy === 0) explicitPolicy = 0;
+    errors.push(...unrecognizedCriticalExtensions(target, describe(target)));
+  }
+
+  const validPolicies = tree ? userConstrainedPolicies(tree, n, options.acceptablePolicies) : [];
+  if (explicitPolicy === 0 && validPolicies.length === 0 && !policyFailed) {
+    errors.push("No acceptable certificate policy is valid for the path");
+  }
+
+  return { errors, validPolicies };
+}
+
+function addPolicyNode(
+  level: PolicyNode[],
+  parent: PolicyNode,
+  policy: string,
+  expected: string[],
+) {
+  const node: PolicyNode = {
+    validPolicy: policy,
+    expectedPolicies: new Set(expected),
+    parent,
+    children: [],
+  };
+  parent.children.push(node);
+  level.push(node);
+}
+
+/** Remove the nodes above `depth` left without children; null when the root goes */
+function prunePolicyTree(tree: PolicyNode[][], depth: number): PolicyTree {
+  for (let d = depth - 1; d >= 0; d--) {
+    tree[d] = tree[d].filter((node) => {
+      if (node.children.length > 0) return true;
+      if (node.parent) node.parent.children = node.parent.children.filter((c) => c !== node);
+      return false;
+    });
+  }
+  return tree[0].length > 0 ? tree : null;
+}
+
+/** §6.1.4 (b): map the expected policies, or delete the mapped nodes when mapping is inhibited */
+function applyPolicyMappings(
+  tree: PolicyNode[][],
+  depth: number,
+  mappings: PolicyMappings["mappings"],
+  mappingAllowed: boolean,
+): PolicyTree {
+  const mapped = new Map<string, string[]>();
+  for (const m of mappings) {
+    mapped.set(m.issuerDomainPolicy, [
+      ...(mapped.get(m.issuerDomainPolicy) ?? []),
+      m.subjectDomainPolicy,
+    ]);
+  }
+
+  for (const [issuerPolicy, subjectPolicies] of mapped) {
+    const nodes = tree[depth].filter((node) => node.validPolicy === issuerPolicy);
+    if (!mappingAllowed) {
+      for (const node of nodes) {
+        if (node.parent) node.parent.children = node.parent.children.filter((c) => c !== node);
+      }
+      tree[depth] = tree[depth].filter((node) => !nodes.includes(node));
+      continue;
+    }
+    if (nodes.length > 0) {
+      nodes.forEach((node) => (node.expectedPolicies = new Set(subjectPolicies)));
+    } else {
+      const anyNode = tree[depth].find((node) => node.validPolicy === ANY_POLICY);
+      if (anyNode?.parent)
+        addPolicyNode(tree[depth], anyNode.parent, issuerPolicy, subjectPolicies);
+    }
+  }
+  return mappingAllowed ? tree : prunePolicyTree(tree, depth);
+}
+
+/**
+ * §6.1.5 (g): policies of the valid_policy_node_set (nodes under anyPolicy) still reaching the
+ * target, restricted to the acceptable policies
+ */
+function userConstrainedPolicies(
+  tree: PolicyNode[][],
+  depth: number,
+  acceptable: string[] | undefined,
+): string[] {
+  const reachesTarget = (node: PolicyNode, d: number): boolean =>
+    d === depth || node.children.some((child) => reachesTarget(child, d + 1));
+
+  const policies = new Set<string>();
+  tree.forEach((level, d) => {
+    for (const node of level) {
+      const inNodeSet = node.validPolicy !== ANY_POLICY && node.parent?.validPolicy === ANY_POLICY;
+      const anyAtTarget = node.validPolicy === ANY_POLICY && d === depth;
+      if ((inNodeSet || anyAtTarget) && reachesTarget(node, d)) policies.add(node.validPolicy);
+    }
+  });
+
+  if (!acceptable || acceptable.length === 0 || acceptable.includes(ANY_POLICY)) {
+    return [...policies];
+  }
+  return policies.has(ANY_POLICY) ? acceptable : acceptable.filter((p) => policies.has(p));
+}
+
+function namesOf(cert: Certificate): ComparableName[] {
+  const names: ComparableName[] = [];
+  const subject = nameKey(cert.subject);
+  if (subject.length > 0) names.push({ form: NAME_FORMS.directoryName, rdns: subject });
+  for (const tv of cert.subject.typesAndValues) {
+    if (tv.type === EMAIL_ADDRESS_OID) {
+      names.push({
+        form: NAME_FORMS.rfc822Name,
+        text: String(tv.value.valueBlock.value).toLowerCase(),
+      });
+    }
+  }
+  const altNames = getExtension(cert, EXTENSION_OIDS.subjectAltName, AltName)?.altNames ?? [];
+  for (const altName of altNames) {
+    const name = comparable(altName);
+    if (name) names.push(name);
+  }
+  return names;
+}
+
+function comparable(name: GeneralName): ComparableName | undefined {
+  switch (name.type) {
+    case NAME_FORMS.rfc822Name:
+    case NAME_FORMS.dNSName:
+      return { form: name.type, text: String(name.value).toLowerCase() };
+    case NAME_FORMS.directoryName:
+      return { form: name.type, rdns: nameKey(name.value as RelativeDistinguishedNames) };
+    case NAME_FORMS.iPAddress: {
+      const address = name.value as asn1js.OctetString;
+      return { form: name.type, ip: new Uint8Array(address.valueBlock.valueHexView) };
+    }
+    default:
+      return undefined; // other forms are not constrained
+  }
+}
+
+/** `name` (or a narrower subtree base) lies within the subtree of `base` */
+function isWithin(name: ComparableName, base: ComparableName): boolean {
+  if (name.form !== base.form) return false;
+  switch (name.form) {
+    case NAME_FORMS.directoryName:
+      return base.rdns!.every((rdn, i) => name.rdns![i] === rdn);
+    case NAME_FORMS.dNSName: {
+      const domain = base.text!.replace(/^\./, "");
+      return domain === "" || name.text === domain || name.text!.endsWith(`.${domain}`);
+    }
+    case NAME_FORMS.rfc822Name: {
+      if (base.text!.includes("@")) return name.text === base.text;
+      const host = name.text!.includes("@") ? name.text!.split("@")[1] : name.text!;
+      return base.text!.startsWith(".") ? host.endsWith(base.text!) : host === base.text;
+    }
+    case NAME_FORMS.iPAddress:
+      return ipWithin(name.ip!, base.ip!);
+  }
+}
+
+function ipWithin(name: Uint8Array, base: Uint8Array): boolean {
+  const length = base.length / 2;
+  const address = name.length === length ? name : name.subarray(0, length);
+  const nameMask = name.length === length ? undefined : name.subarray(length);
+  if (address.length !== length) return false;
+  for (let i = 0; i < length; i++) {
+    const mask = base[length + i];
+    if ((nameMask?.[i] ?? 0xff) < mask) return false; // wider subtree than the base
+    if ((address[i] & mask) !== (base[i] & mask)) return false;
+  }
+  return true;
+}
+
+/** Union of the pairwise intersections of hierarchical subtrees: the narrower of nested ones */
+function intersectSubtrees(
+  permitted: Map<NameForm, ComparableName[]>,
+  bases: GeneralName[],
+): Map<NameForm, ComparableName[]> {
+  const next = new Map<NameForm, ComparableName[]>();
+  for (const base of bases) {
+    const name = comparable(base);
+    if (name) next.set(name.form, [...(next.get(name.form) ?? []), name]);
+  }
+
+  const result = new Map(permitted);
+  for (const [form, added] of next) {
+    const current = permitted.get(form);
+    result.set(
+      form,
+      current
+        ? [
+            ...added.filter((a) => current.some((c) => isWithin(a, c))),
+            ...current.filter((c) => added.some((a) => isWithin(c, a))),
+          ]
+        : added,
+    );
+  }
+  return result;
+}
+
+function formatName(name: ComparableName): string {
+  if (name.rdns) return name.rdns.join(", ");
+  if (name.ip) return Array.from(name.ip).join(".");
+  return name.text ?? "";
+}
+
+function unrecognizedCriticalExtensions(cert: Certificate, label: string): string[] {
+  return (cert.extensions ?? [])
+    .filter((ext) => ext.critical && !RECOGNIZED_EXTENSIONS.has(ext.extnID))
+    .map((ext) => `${label} has an unrecognized critical extension ${ext.extnID}`);
+}
+
+function getExtension<T>(
+  cert: Certificate,
+  oid: string,
+  type: abstract new (...args: never[]) => T,
+): T | undefined {
+  const parsed = cert.extensions?.find((ext) => ext.extnID === oid)?.parsedValue as unknown;
+  return parsed instanceof type ? parsed : undefined;
+}
+
+/** SkipCerts of the inhibitAnyPolicy extension (not parsed by PKI.js) */
+function getInhibitAnyPolicy(cert: Certificate): number | undefined {
+  const ext = cert.extensions?.find((e) => e.extnID === EXTENSION_OIDS.inhibitAnyPolicy);
+  const parsed = ext?.parsedValue as { valueBlock?: { valueDec?: number } } | undefined;
+  return parsed?.valueBlock?.valueDec;
+}
+
+/** First byte of the keyUsage bit string (keyCertSign is 0x04) */
+function getKeyUsageBits(cert: Certificate): number | undefined {
+  const ext = cert.extensions?.find((e) => e.extnID === EXTENSION_OIDS.keyUsage);
+  const parsed = ext?.parsedValue as { valueBlock?: { valueHexView?: Uint8Array } } | undefined;
+  return parsed?.valueBlock?.valueHexView?.[0];
+}
+
+function toNumber(value: number | { valueBlock: { valueDec: number } }): number {
+  return typeof value === "number" ? value : value.valueBlock.valueDec;
+}
+
+function describe(cert: Certificate): string {
+  const cn = cert.subject.typesAndValues.find((tv) => tv.type === "2.5.4.3");
+  return `Certificate ${cn ? String(cn.value.valueBlock.value) : nameKey(cert.subject).join(", ")}`;
+}
@@ -0,0 +1,142 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { PKIX_OIDS } from "@pades-poc/shared";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.stubEnv("LOG_LEVEL", "error");
+
+import { CertificateChainBuilder } from "./certificate-chain-builder";
+import { CertificateStore } from "./certificate-store";
+import { authorityInfoAccess, issueCert } from "./test-pki";
+
+import type { TestCert } from "./test-pki";
+
+const CA_URL = "http://pki.test/ca.cer";
+
+/** End-entity certificate issued by `ca`, with `caIssuersUrl` in its AIA */
+function issueLeaf(commonName: string, ca: TestCert, caIssuersUrl: string) {
+  return issueCert(commonName, {
+    issuer: ca,
+    extensions: [authorityInfoAccess(PKIX_OIDS.AD_CA_ISSUERS, caIssuersUrl)],
+  });
+}
+
+/** fetch mock serving `der` for CA_URL */
+function serveCertificate(der: Buffer) {
+  const fetchMock = vi.fn((url: string) =>
+    Promise.resolve(
+      url === CA_URL
+        ? new Response(new Uint8Array(der), {
+            headers: { "Content-Type": "application/pkix-cert" },
+          })
+        : new Response(null, { status: 404, statusText: "Not Found" }),
+    ),
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("CertificateStore", () => {
+  let root: TestCert;
+  let ca: TestCert;
+  let leaf: TestCert;
+  let dir: string;
+
+  beforeAll(async () => {
+    root = await issueCert("Test Root");
+    ca = await issueCert("Test CA", { issuer: root, ca: true });
+    leaf = await issueLeaf("Test Signer", ca, CA_URL);
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "cert-store-test-"));
+    await writeFile(join(dir, "root.pem"), root.pem);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should complete chains from the intermediate store without network", async () => {
+    await writeFile(join(dir, "ca.cer"), ca.der);
+    const fetchMock = serveCertificate(ca.der);
+    const store = new CertificateStore({
+      intermediatePaths: [dir],
+      cacheDir: join(dir, "cache"),
+      offline: true,
+    });
+
+    const result = await new CertificateChainBuilder(10, 1000, store).buildChain(leaf.pem);
+
+    expect(result.errors).toEqual([]);
+    expect(result.certificateChain).toEqual([leaf.pem, ca.pem, root.pem]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should cache downloaded issuers by URL and by key identifier", async () => {
+    const fetchMock = serveCertificate(ca.der);
+    const options = { intermediatePaths: [join(dir, "root.pem")], cacheDir: join(dir, "cache") };
+
+    const online = await new CertificateChainBuilder(
+      10,
+      1000,
+      new CertificateStore(options),
+    ).buildChain(leaf.pem);
+    expect(online.certificateChain).toEqual([leaf.pem, ca.pem, root.pem]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Another process, offline: the cached CA also completes chains of certificates pointing
+    // to another AIA URL, found by key identifier
+    const offlineStore = new CertificateStore({ ...options, offline: true });
+    const otherLeaf = await issueLeaf("Other Signer", ca, "http://pki.test/other-leaf.cer");
+    const cached = await new CertificateChainBuilder(10, 1000, offlineStore).buildChain(leaf.pem);
+    const byKeyId = await new CertificateChainBuilder(10, 1000, offlineStore).buildChain(
+      otherLeaf.pem,
+    );
+
+    expect(cached).toMatchObject({ success: true, errors: [] });
+    expect(cached.certificateChain).toEqual([leaf.pem, ca.pem, root.pem]);
+    expect(byKeyId.certificateChain).toEqual([otherLeaf.pem, ca.pem, root.pem]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not cache a downloaded certificate that did not issue the chain", async () => {
+    const fetchMock = serveCertificate(root.der); // Not the issuer of the leaf
+    const options = { cacheDir: join(dir, "cache") };
+
+    const online = await new CertificateChainBuilder(
+      10,
+      1000,
+      new CertificateStore(options),
+    ).buildChain(leaf.pem);
+    const offline = await new CertificateChainBuilder(
+      10,
+      1000,
+      new CertificateStore({ ...options, offline: true }),
+    ).buildChain(leaf.pem);
+
+    expect(online.errors).toContain(`Certificate fetched from ${CA_URL} did not issue Test Signer`);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(offline.certificateChain).toEqual([leaf.pem]);
+    expect(offline.errors).toEqual([
+      'Offline mode: issuer "CN=Test CA" of Test Signer is neither in the intermediate store nor in the certificate cache',
+    ]);
+  });
+
+  it("should report missing issuers in offline mode", async () => {
+    const fetchMock = serveCertificate(ca.der);
+    const store = new CertificateStore({ cacheDir: join(dir, "cache"), offline: true });
+
+    const result = await new CertificateChainBuilder(10, 1000, store).buildChain(leaf.pem);
+
+    expect(result.success).toBe(false);
+    expect(result.certificateChain).toEqual([leaf.pem]);
+    expect(result.errors).toEqual([
+      'Offline mode: issuer "CN=Test CA" of Test Signer is neither in the intermediate store nor in the certificate cache',
+    ]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
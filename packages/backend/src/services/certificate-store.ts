@@ -0,0 +1,206 @@
+/**
+ * Certificate store of the AIA chain builder
+ *
+ * Issuer certificates are looked up, in order, in the intermediate store pre-seeded from
+ * files or directories (PEM/DER certificates, PKCS#7 bundles), then in the on-disk cache of
+ * the certificates already downloaded from AIA URLs, keyed by URL and by subject key
+ * identifier. Finalize only goes to the network for issuers never seen before, and never in
+ * offline mode (air-gapped deployments): a missing issuer is then reported as such.
+ *
+ * Configuration:
+ * - INTERMEDIATE_CERTS: comma-separated files or directories of intermediate CA certificates
+ * - CERT_CACHE_DIR: on-disk cache (default <tmpdir>/pades-cert-cache)
+ * - AIA_OFFLINE: never download issuer certificates (default false)
+ */
+
+import { createHash } from "crypto";
+import { readFileSync, readdirSync, statSync } from "fs";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { extname, join } from "path";
+
+import { logPAdES, padesBackendLogger } from "../logger";
+
+import {
+  getAuthorityKeyIdentifier,
+  getSubjectKeyIdentifier,
+  namesMatch,
+} from "./certificate-path-builder";
+import { derToPem } from "./crypto-utils";
+import { CERTIFICATE_EXTENSIONS, parseCertificates } from "./pki-utils";
+
+import type { Certificate } from "pkijs";
+
+export interface CertificateStoreOptions {
+  /** Files or directories of intermediate CA certificates */
+  intermediatePaths?: string[];
+  /** Directory of the on-disk cache (default: CERT_CACHE_DIR, then <tmpdir>/pades-cert-cache) */
+  cacheDir?: string;
+  /** Forbid downloads: issuers come from the intermediate store and the cache only */
+  offline?: boolean;
+}
+
+export interface StoredCertificate {
+  certificate: Certificate;
+  pem: string;
+  /** File or URL the certificate comes from */
+  source: string;
+}
+
+/**
+ * Intermediate certificates and cache of downloaded issuer certificates
+ */
+export class CertificateStore {
+  private readonly options: Required<CertificateStoreOptions>;
+  private readonly intermediates: StoredCertificate[];
+  private readonly byUrl = new Map<string, StoredCertificate>();
+  private readonly bySubjectKeyId = new Map<string, StoredCertificate[]>();
+
+  constructor(options: CertificateStoreOptions = {}) {
+    this.options = {
+      intermediatePaths: [],
+      cacheDir: process.env.CERT_CACHE_DIR || join(tmpdir(), "pades-cert-cache"),
+      offline: false,
+      ...options,
+    };
+    this.intermediates = this.options.intermediatePaths.flatMap(loadCertificates);
+    this.intermediates.forEach((stored) => this.index(stored));
+  }
+
+  get offline(): boolean {
+    return this.options.offline;
+  }
+
+  /**
+   * Stored certificates that may have issued `cert`: those whose subject key identifier is
+   * its authority key identifier, else those whose subject is its issuer name
+   */
+  async findIssuers(cert: Certificate): Promise<StoredCertificate[]> {
+    const authorityKeyId = getAuthorityKeyIdentifier(cert);
+    if (!authorityKeyId) {
+      return [...this.byUrl.values(), ...this.intermediates].filter((stored) =>
+        namesMatch(stored.certificate.subject, cert.issuer),
+      );
+    }
+
+    const known = this.bySubjectKeyId.get(authorityKeyId);
+    if (known) return known;
+
+    const cached = await this.readCache(`ski-${authorityKeyId}`, authorityKeyId);
+    return cached ? [cached] : [];
+  }
+
+  /**
+   * Certificate previously downloaded from `url`
+   */
+  async getByUrl(url: string): Promise<StoredCertificate | undefined> {
+    return this.byUrl.get(url) ?? (await this.readCache(urlKey(url), url));
+  }
+
+  /**
+   * Cache a certificate downloaded from `url`, by URL and subject key identifier. Only add it
+   * once it verified as the issuer it was fetched for: the cache serves it without checks.
+   */
+  async add(url: string, certificate: Certificate): Promise<StoredCertificate> {
+    const stored = toStored(certificate, url);
+    this.byUrl.set(url, stored);
+    this.index(stored);
+
+    const der = Buffer.from(certificate.toSchema().toBER(false));
+    const subjectKeyId = getSubjectKeyIdentifier(certificate);
+    try {
+      await this.store(urlKey(url), der);
+      if (subjectKeyId) await this.store(`ski-${subjectKeyId}`, der);
+    } catch (error) {
+      logPAdES(
+        padesBackendLogger.createLogEntry(
+          "warning",
+          "backend",
+          "Failed to write certificate cache",
+          {
+            url,
+            error: error instanceof Error ? error.message : "Unknown error",
+          },
+        ),
+      );
+    }
+    return stored;
+  }
+
+  private index(stored: StoredCertificate): void {
+    const subjectKeyId = getSubjectKeyIdentifier(stored.certificate);
+    if (!subjectKeyId) return;
+    const entries = this.bySubjectKeyId.get(subjectKeyId) ?? [];
+    if (!entries.some((e) => e.pem === stored.pem)) entries.push(stored);
+    this.bySubjectKeyId.set(subjectKeyId, entries);
+  }
+
+  private async readCache(key: string, source: string): Promise<StoredCertificate | undefined> {
+    const data = await readFile(join(this.options.cacheDir, `${key}.cer`)).catch(() => undefined);
+    if (!data) return undefined;
+    try {
+      const stored = toStored(parseCertificates(data)[0], source);
+      if (!key.startsWith("ski-")) this.byUrl.set(source, stored);
+      this.index(stored);
+      return stored;
+    } catch {
+      return undefined; // Corrupted entry: download again
+    }
+  }
+
+  /** Atomic write: readers never see a partial certificate */
+  private async store(key: string, der: Buffer): Promise<void> {
+    await mkdir(this.options.cacheDir, { recursive: true });
+    const file = join(this.options.cacheDir, `${key}.cer`);
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, der);
+    await rename(tmp, file);
+  }
+}
+
+/** Certificates of one file, or of every certificate file of a directory */
+function loadCertificates(path: string): StoredCertificate[] {
+  try {
+    if (statSync(path).isDirectory()) {
+      return readdirSync(path)
+        .filter((name) => CERTIFICATE_EXTENSIONS.has(extname(name).toLowerCase()))
+        .sort()
+        .flatMap((name) => loadCertificates(join(path, name)));
+    }
+    return parseCertificates(readFileSync(path)).map((cert) => toStored(cert, path));
+  } catch (error) {
+    logPAdES(
+      padesBackendLogger.createLogEntry("warning", "backend", "Unable to read intermediates", {
+        path,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+    );
+    return [];
+  }
+}
+
+function toStored(certificate: Certificate, source: string): StoredCertificate {
+  const pem = derToPem(Buffer.from(certificate.toSchema().toBER(false)));
+  return { certificate, pem, source };
+}
+
+function urlKey(url: string): string {
+  return `url-${createHash("sha256").update(url).digest("hex").slice(0, 32)}`;
+}
+
+let defaultStore: CertificateStore | undefined;
+
+/**
+ * Store configured by INTERMEDIATE_CERTS / CERT_CACHE_DIR / AIA_OFFLINE, shared by every
+ * chain builder
+ */
+export function getCertificateStore(): CertificateStore {
+  defaultStore ??= new CertificateStore({
+    intermediatePaths: (process.env.INTERMEDIATE_CERTS ?? "")
+      .split(",")
+      .map((p) => p.trim())
+      .filter(Boolean),
+    offline: process.env.AIA_OFFLINE === "true",
+  });
+  return defaultStore;
+}
@@ -181,6 +181,26 @@ describe("CMSService", () => {
     });
   });
 
+  it("should fail hard when the TSA fails and the policy is fail", async () => {
+    const messageDigest = sha256(Buffer.from("document requiring B-T"));
+    const signerCertPem = mockHSM.getSignerCertificatePem();
+    const { signedAttrsDer } = signatureService.buildSignedAttributes({
+      messageDigest,
+      signerCertPem,
+    });
+    const signature = await mockHSM.signData(signedAttrsDer);
+
+    await expect(
+      cmsService.assembleCMS({
+        signedAttrsDer,
+        signature,
+        signerCertPem,
+        withTimestamp: true,
+        timestampFailurePolicy: "fail",
+      }),
+    ).rejects.toThrow("Timestamp request failed: TSA not available in tests");
+  });
+
   it("should add timestamp when TSA succeeds", async () => {
     // Minimal fake ContentInfo (empty SEQUENCE is enough for assembly)
     const fakeToken = new asn1js.Sequence();
@@ -19,18 +19,29 @@ import {
 } from "pkijs";
 
 import { CertificateChainBuilder } from "./certificate-chain-builder";
+import { pemToDer } from "./crypto-utils";
+import {
+  digestAlgorithmOid,
+  getSignatureAlgorithm,
+  signatureAlgorithmForDigest,
+  signatureAlgorithmForKey,
+  signatureAlgorithmIdentifier,
+  toDerEcdsaSignature,
+} from "./signature-algorithms";
 import { requestTimestamp as fetchTimestamp } from "./timestamp-service";
 
-import type { LogEntry } from "@pades-poc/shared";
+import type { DigestAlgorithm, LogEntry, TimestampFailurePolicy } from "@pades-poc/shared";
 
 export interface CMSAssemblyParams {
   signedAttrsDer: Buffer; // DER-encoded SET OF Attribute
-  signature: Buffer; // signature bytes over DER(signedAttrs)
+  signature: Buffer; // signature bytes over DER(signedAttrs), raw r||s or DER for ECDSA
   signerCertPem: string; // end-entity cert (PEM)
   certificateChainPem?: string[]; // optional intermediates (no root)
-  signatureAlgorithmOid?: string; // default sha256WithRSAEncryption
+  signatureAlgorithmOid?: string; // default from the signer key and the digest (sha256/384/512WithRSA, ecdsa-with-SHA*), or id-RSASSA-PSS
+  digestAlgorithm?: DigestAlgorithm; // algorithm of the messageDigest attribute and timestamp imprint, default SHA-256
   withTimestamp?: boolean; // default true (B-T). false => B-B
-  timestampUrl?: string; // optional TSA URL override
+  timestampUrl?: string; // optional TSA URL override (default: configured failover list)
+  timestampFailurePolicy?: TimestampFailurePolicy; // default TSA_FAILURE_POLICY, then "fallback"
 }
 
 export interface CMSAssemblyResult {
@@ -44,15 +55,6 @@ export interface CMSAssemblyResult {
   };
 }
 
-/** PEM → DER */
-function pemToDer(pem: string): Buffer {
-  const b64Body = pem
-    .replace(/-----BEGIN [^-]+-----/g, "")
-    .replace(/-----END [^-]+-----/g, "")
-    .replace(/\s+/g, "");
-  return Buffer.from(b64Body, "base64");
-}
-
 /** Parse DER(SET OF Attribute) → Attribute[] using PKI.js
  * ASN.1js is required for initial DER parsing, PKI.js for Attribute construction.
  */
@@ -65,9 +67,31 @@ function parseSignedAttributes(der: Buffer): Attribute[] {
   return seqs.map((seq) => new Attribute({ schema: seq }));
 }
 
+/**
+ * SignerInfo signatureAlgorithm and signature value: the algorithm defaults to the one of the
+ * signer key with a hash at least as strong as the digest, and ECDSA signatures become a DER
+ * Ecdsa-Sig-Value (tokens and WebCrypto return raw r||s). The signature time-stamp covers this
+ * value.
+ */
+function encodeSignatureValue(
+  signature: Buffer,
+  signerCert: Certificate,
+  digestAlgorithm: DigestAlgorithm,
+  signatureAlgorithmOid = signatureAlgorithmForDigest(
+    signatureAlgorithmForKey(signerCert),
+    digestAlgorithm,
+  ).oid,
+): { signatureAlgorithmOid: string; signatureValue: Buffer } {
+  const ecdsa = getSignatureAlgorithm(signatureAlgorithmOid)?.name === "ECDSA";
+  return {
+    signatureAlgorithmOid,
+    signatureValue: ecdsa ? toDerEcdsaSignature(signature) : signature,
+  };
+}
+
 /** Build SignedData + SignerInfo (optionally with unsigned timestamp attr) and return DER(ContentInfo) */
 function buildCMS(
-  params: Omit<CMSAssemblyParams, "withTimestamp" | "timestampUrl"> & {
+  params: Omit<CMSAssemblyParams, "withTimestamp" | "timestampUrl" | "timestampFailurePolicy"> & {
     unsignedAttrs?: Attribute[];
     logs?: LogEntry[];
   },
@@ -77,7 +101,7 @@ function buildCMS(
     signature,
     signerCertPem,
     certificateChainPem = [],
-    signatureAlgorithmOid = "1.2.840.113549.1.1.11", // sha256WithRSAEncryption
+    digestAlgorithm = "SHA-256",
     unsignedAttrs,
     logs,
   } = params;
@@ -88,6 +112,13 @@ function buildCMS(
   if (certAsn1.offset === -1) throw new Error("Invalid signer certificate DER");
   const signerCert = new Certificate({ schema: certAsn1.result });
 
+  const { signatureAlgorithmOid, signatureValue } = encodeSignatureValue(
+    signature,
+    signerCert,
+    digestAlgorithm,
+    params.signatureAlgorithmOid,
+  );
+
   // Create SignedData
   const signedData = new SignedData({
     version: 1,
@@ -102,7 +133,7 @@ function buildCMS(
   // digestAlgorithms (params MUST be ABSENT for SHA2 per RFC 5754)
   signedData.digestAlgorithms = [
     new AlgorithmIdentifier({
-      algorithmId: "2.16.840.1.101.3.4.2.1", // SHA-256
+      algorithmId: digestAlgorithmOid(digestAlgorithm),
       // algorithmParams: (absent)
     }),
   ];
@@ -136,15 +167,20 @@ function buildCMS(
   });
 
   signerInfo.digestAlgorithm = new AlgorithmIdentifier({
-    algorithmId: "2.16.840.1.101.3.4.2.1", // SHA-256
+    algorithmId: digestAlgorithmOid(digestAlgorithm),
     // algorithmParams: (absent)
   });
 
-  signerInfo.signatureAlgorithm = new AlgorithmIdentifier({
-    algorithmId: signatureAlgorithmOid,
-    // For rsaEncryption family, NULL params are customary/accepted
-    // algorithmParams: new asn1js.Null(),
-  });
+  // RSASSA-PSS-params for id-RSASSA-PSS, with the hash the signer raised to the digest;
+  // parameters absent otherwise
+  const algorithm = getSignatureAlgorithm(signatureAlgorithmOid);
+  signerInfo.signatureAlgorithm = algorithm
+    ? signatureAlgorithmIdentifier(
+        algorithm.name === "RSA-PSS"
+          ? signatureAlgorithmForDigest(algorithm, digestAlgorithm)
+          : algorithm,
+      )
+    : new AlgorithmIdentifier({ algorithmId: signatureAlgorithmOid });
 
   // Signed attributes ([0] IMPLICIT) via PKI.js helper
   const attributes = parseSignedAttributes(signedAttrsDer);
@@ -154,7 +190,7 @@ function buildCMS(
   });
 
   // Signature value
-  const sigBytes = new Uint8Array(signature);
+  const sigBytes = new Uint8Array(signatureValue);
   // ASN.1js OctetString is required here because PKI.js expects ASN.1js object for signature
   signerInfo.signature = new asn1js.OctetString({ valueHex: sigBytes.buffer });
 
@@ -184,6 +220,7 @@ function buildCMS(
       certificateCount: signedData.certificates.length,
       hasTimestamp: !!unsignedAttrs?.length,
       signatureAlgorithm: signatureAlgorithmOid,
+      digestAlgorithm,
       signatureLevel: unsignedAttrs?.length ? "B-T" : "B-B",
     },
   });
@@ -212,8 +249,10 @@ export class CMSService {
       signerCertPem,
       certificateChainPem = [],
       signatureAlgorithmOid,
+      digestAlgorithm = "SHA-256",
       withTimestamp = true,
       timestampUrl,
+      timestampFailurePolicy = process.env.TSA_FAILURE_POLICY === "fail" ? "fail" : "fallback",
     } = params;
 
     // Parse certificate to properly detect CPS certificates
@@ -275,8 +314,10 @@ export class CMSService {
         signerCertPemLength: signerCertPem.length,
         certificateChainCount: certificateChainPem.length,
         signatureAlgorithmOid: signatureAlgorithmOid || "default",
+        digestAlgorithm,
         withTimestamp,
         timestampUrl: timestampUrl || "default",
+        timestampFailurePolicy,
         isCPSCertificate,
         certSubject,
         certIssuer,
@@ -355,10 +396,20 @@ export class CMSService {
           context: {
             signatureForTimestamp: signature.toString("hex").substring(0, 32) + "...",
             tsaUrl: timestampUrl || "default",
+            hashAlgorithm: digestAlgorithm,
           },
         });
 
-        const ts = await fetchTimestamp({ data: signature, tsaUrl: timestampUrl });
+        const { signatureValue } = encodeSignatureValue(
+          signature,
+          Certificate.fromBER(new Uint8Array(pemToDer(signerCertPem))),
+          digestAlgorithm,
+          signatureAlgorithmOid,
+        );
+        const ts = await fetchTimestamp(
+          { data: signatureValue, tsaUrl: timestampUrl, hashAlgorithmOid: digestAlgorithm },
+          logs,
+        );
         const tsAttr = new Attribute({
           type: "1.2.840.113549.1.9.16.2.14", // id-aa-signatureTimeStampToken
           values: [ts.timestampToken],
@@ -376,12 +427,23 @@ export class CMSService {
           message: `Timestamp obtained from TSA: ${ts.tsaUrl}`,
           context: {
             timestampTime: ts.timestampTime,
+            tsaUrl: ts.tsaUrl,
             accuracy: ts.accuracy,
             timestampTokenSize: Buffer.from(ts.timestampToken.toBER(false)).length,
           },
         });
       } catch (e) {
         const msg = e instanceof Error ? e.message : "Unknown error";
+        if (timestampFailurePolicy === "fail") {
+          logs?.push({
+            timestamp: new Date().toISOString(),
+            level: "error",
+            source: "backend",
+            message: `Timestamp request failed, aborting (policy: fail): ${msg}`,
+            context: { error: msg },
+          });
+          throw new Error(`Timestamp request failed: ${msg}`);
+        }
         logs?.push({
           timestamp: new Date().toISOString(),
           level: "warning",
@@ -415,6 +477,7 @@ export class CMSService {
       signerCertPem,
       certificateChainPem: finalCertificateChain,
       signatureAlgorithmOid,
+      digestAlgorithm,
       unsignedAttrs,
       logs,
     });
@@ -426,7 +489,7 @@ export class CMSService {
    * Synchronous CMS assembly (B-B only, no TSA)
    */
   assembleCMSBasic(
-    params: Omit<CMSAssemblyParams, "withTimestamp" | "timestampUrl">,
+    params: Omit<CMSAssemblyParams, "withTimestamp" | "timestampUrl" | "timestampFailurePolicy">,
     logs?: LogEntry[],
   ): CMSAssemblyResult {
     const {
@@ -435,6 +498,7 @@ export class CMSService {
       signerCertPem,
       certificateChainPem = [],
       signatureAlgorithmOid,
+      digestAlgorithm,
     } = params;
     return buildCMS({
       signedAttrsDer,
@@ -442,6 +506,7 @@ export class CMSService {
       signerCertPem,
       certificateChainPem,
       signatureAlgorithmOid,
+      digestAlgorithm,
       unsignedAttrs: undefined,
       logs,
     });
@@ -0,0 +1,183 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { PKIX_OIDS } from "@pades-poc/shared";
+import * as asn1js from "asn1js";
+import {
+  Certificate,
+  CertificateRevocationList,
+  Extension,
+  Extensions,
+  RevokedCertificate,
+  Time,
+} from "pkijs";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.stubEnv("LOG_LEVEL", "error");
+
+import { CertificateChainValidator } from "./certificate-chain-validator";
+import { CRLClient } from "./crl-client";
+import { HOUR, crlDistributionPoint, issueCert } from "./test-pki";
+
+import type { TestCert } from "./test-pki";
+
+const CRL_URL = "http://crl.test/ca.crl";
+
+/** End-entity certificate issued by `ca`, with a CRL distribution point */
+function issueLeaf(commonName: string, ca: TestCert) {
+  return issueCert(commonName, { issuer: ca, extensions: [crlDistributionPoint(CRL_URL)] });
+}
+
+/** DER CRL signed by `signer` for `ca`, revoking `revoked` for keyCompromise */
+async function issueCRL(
+  ca: TestCert,
+  revoked: Certificate[],
+  { signer = ca, nextUpdate = new Date(Date.now() + HOUR) } = {},
+): Promise<Uint8Array<ArrayBuffer>> {
+  const crl = new CertificateRevocationList();
+  crl.version = 1;
+  crl.issuer = ca.cert.subject;
+  crl.thisUpdate = new Time({ type: 0, value: new Date(Date.now() - 2 * HOUR) });
+  crl.nextUpdate = new Time({ type: 0, value: nextUpdate });
+  crl.revokedCertificates = revoked.map(
+    (cert) =>
+      new RevokedCertificate({
+        userCertificate: cert.serialNumber,
+        revocationDate: new Time({ type: 0, value: new Date("2025-03-01T10:00:00Z") }),
+        crlEntryExtensions: new Extensions({
+          extensions: [
+            new Extension({
+              extnID: PKIX_OIDS.CRL_REASON,
+              extnValue: new asn1js.Enumerated({ value: 1 }).toBER(false), // keyCompromise
+            }),
+          ],
+        }),
+      }),
+  );
+  await crl.sign(signer.keys.privateKey, "SHA-256");
+  const schema = crl.toSchema() as asn1js.Sequence;
+  return new Uint8Array(schema.toBER(false));
+}
+
+function serveCRL(crlDer: Uint8Array<ArrayBuffer>) {
+  const fetchMock = vi.fn(() =>
+    Promise.resolve(
+      new Response(crlDer, {
+        headers: { "Content-Type": "application/pkix-crl" },
+      }),
+    ),
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("CRLClient", () => {
+  let cacheDir: string;
+  let ca: TestCert;
+  let leaf: TestCert;
+  let revokedLeaf: TestCert;
+
+  beforeAll(async () => {
+    ca = await issueCert("Test CA");
+    leaf = await issueLeaf("Test Signer", ca);
+    revokedLeaf = await issueLeaf("Revoked Signer", ca);
+  });
+
+  // A fresh cache per test: parsed CRLs are also kept in memory, keyed by cache file
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), "crl-cache-test-"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it("should read the distribution point URLs", () => {
+    expect(CRLClient.getDistributionPointUrls(leaf.cert)).toEqual([CRL_URL]);
+    expect(CRLClient.getDistributionPointUrls(ca.cert)).toEqual([]);
+  });
+
+  it("should report good and revoked serials", async () => {
+    serveCRL(await issueCRL(ca, [revokedLeaf.cert]));
+    const client = new CRLClient({ cacheDir });
+
+    const good = await client.check(leaf.cert, ca.cert);
+    const revoked = await client.check(revokedLeaf.cert, ca.cert);
+
+    expect(good).toMatchObject({ status: "good", source: "crl", crlUrl: CRL_URL });
+    expect(good.crlDer?.length).toBeGreaterThan(0);
+    expect(revoked).toMatchObject({ status: "revoked", revocationReason: "keyCompromise" });
+    expect(revoked.revocationTime?.toISOString()).toBe("2025-03-01T10:00:00.000Z");
+  });
+
+  it("should reuse the cached CRL until nextUpdate", async () => {
+    const fetchMock = serveCRL(await issueCRL(ca, [revokedLeaf.cert]));
+
+    await new CRLClient({ cacheDir }).check(leaf.cert, ca.cert);
+    await new CRLClient({ cacheDir }).check(revokedLeaf.cert, ca.cert);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject stale CRLs", async () => {
+    serveCRL(await issueCRL(ca, [], { nextUpdate: new Date(Date.now() - HOUR) }));
+
+    const result = await new CRLClient({ cacheDir }).check(leaf.cert, ca.cert);
+
+    expect(result).toMatchObject({
+      status: "unknown",
+      reason: "CRL is stale (nextUpdate has passed)",
+    });
+  });
+
+  it("should reject CRLs not signed by the issuer", async () => {
+    const otherCa = await issueCert("Other CA");
+    serveCRL(await issueCRL(ca, [], { signer: otherCa }));
+
+    const result = await new CRLClient({ cacheDir }).check(leaf.cert, ca.cert);
+
+    expect(result).toMatchObject({
+      status: "unknown",
+      reason: "CRL signature does not verify with the certificate issuer",
+    });
+  });
+
+  it("should read embedded CRLs of the issuer without downloading", async () => {
+    const otherCa = await issueCert("Other CA");
+    const fetchMock = vi.fn(() => Promise.reject(new Error("offline")));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new CRLClient({ cacheDir });
+    const crls = [
+      Buffer.from(await issueCRL(ca, [], { signer: otherCa })),
+      Buffer.from(await issueCRL(ca, [revokedLeaf.cert])),
+    ];
+
+    const result = await client.checkEmbedded(crls, revokedLeaf.cert, ca.cert, new Date());
+    const stale = await client.checkEmbedded(
+      crls,
+      revokedLeaf.cert,
+      ca.cert,
+      new Date(Date.now() + 48 * HOUR),
+    );
+
+    expect(result).toMatchObject({ status: "revoked", source: "crl", embedded: true });
+    expect(stale.status).toBe("unknown");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should be used by the chain validator when OCSP is unavailable", async () => {
+    serveCRL(await issueCRL(ca, [revokedLeaf.cert]));
+    vi.stubEnv("CRL_CACHE_DIR", cacheDir);
+    const validator = new CertificateChainValidator({ checkKeyUsage: false });
+
+    const result = await validator.validateChain([revokedLeaf.cert, ca.cert], revokedLeaf.cert);
+
+    expect(result.isValid).toBe(false);
+    expect(result.certificates[0].revocation).toMatchObject({
+      status: "revoked",
+      source: "crl",
+    });
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * CRL client (RFC 5280) for certificate revocation checking
+ *
+ * Fallback when OCSP is unavailable or inconclusive: reads the CRL Distribution Points of
+ * the certificate, downloads the CRL, verifies its signature against the issuer and its
+ * freshness, then looks up the certificate serial number.
+ *
+ * CRLs are cached on disk (CRL_CACHE_DIR) keyed by issuer and distribution point, and in
+ * memory as a serial index, until their nextUpdate: the IGC-Santé CAs publish CRLs of
+ * several megabytes, which must not be downloaded and parsed for every verification.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { CRL_REASONS, PKIX_OIDS } from "@pades-poc/shared";
+import * as asn1js from "asn1js";
+import { CertificateRevocationList } from "pkijs";
+
+import type { RevocationInfo } from "./certificate-chain-validator";
+import type { LogEntry } from "@pades-poc/shared";
+import type { CRLDistributionPoints, Certificate } from "pkijs";
+
+export interface CRLClientOptions {
+  /** Directory of the on-disk cache (default: CRL_CACHE_DIR, then <tmpdir>/pades-crl-cache) */
+  cacheDir?: string;
+  /** HTTP timeout per download (CRLs can be large) */
+  timeoutMs?: number;
+  /** Tolerated clock difference for thisUpdate/nextUpdate */
+  maxClockSkewMs?: number;
+}
+
+export interface CRLCheckResult extends RevocationInfo {
+  /** DER CertificateList, for embedding in the DSS (B-LT) */
+  crlDer?: Buffer;
+}
+
+interface RevokedEntry {
+  revocationTime: Date;
+  revocationReason?: string;
+}
+
+/** Parsed CRL reduced to what lookups need */
+interface CachedCRL {
+  der: Buffer;
+  thisUpdate: Date;
+  nextUpdate?: Date;
+  revoked: Map<string, RevokedEntry>; // serial (hex) → entry
+}
+
+/** Parsed CRLs shared by every client (a VerificationService is created per request) */
+const memoryCache = new Map<string, CachedCRL>();
+
+const DEFAULT_OPTIONS: Omit<Required<CRLClientOptions>, "cacheDir"> = {
+  timeoutMs: 30_000,
+  maxClockSkewMs: 5 * 60 * 1000,
+};
+
+/**
+ * CRL client checking one certificate against its issuer's CRLs
+ */
+export class CRLClient {
+  private options: Required<CRLClientOptions>;
+
+  constructor(options: CRLClientOptions = {}) {
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      cacheDir: process.env.CRL_CACHE_DIR || join(tmpdir(), "pades-crl-cache"),
+      ...options,
+    };
+  }
+
+  /**
+   * HTTP(S) URLs of the CRL Distribution Points extension (fullName URIs)
+   */
+  static getDistributionPointUrls(cert: Certificate): string[] {
+    const ext = cert.extensions?.find((e) => e.extnID === PKIX_OIDS.CRL_DISTRIBUTION_POINTS);
+    const points = (ext?.parsedValue as CRLDistributionPoints | undefined)?.distributionPoints;
+    const urls: string[] = [];
+    for (const point of points ?? []) {
+      if (!Array.isArray(point.distributionPoint)) continue; // nameRelativeToCRLIssuer
+      for (const name of point.distributionPoint) {
+        const url = String(name.value);
+        if (name.type === 6 && /^https?:\/\//.test(url)) urls.push(url);
+      }
+    }
+    return urls;
+  }
+
+  /**
+   * Check the revocation status of `cert`. Never throws: failures give status "unknown"
+   * with the reason.
+   */
+  async check(cert: Certificate, issuer: Certificate, logs?: LogEntry[]): Promise<CRLCheckResult> {
+    const urls = CRLClient.getDistributionPointUrls(cert);
+    if (urls.length === 0) {
+      return { status: "unknown", reason: "No CRL distribution point in the certificate" };
+    }
+
+    const serial = Buffer.from(cert.serialNumber.valueBlock.valueHexView).toString("hex");
+    let result: CRLCheckResult = { status: "unknown" };
+    for (const url of urls) {
+      try {
+        const crl = await this.getCRL(url, issuer, logs);
+        const entry = crl.revoked.get(serial);
+        result = {
+          status: entry ? "revoked" : "good",
+          source: "crl",
+          crlUrl: url,
+          thisUpdate: crl.thisUpdate,
+          nextUpdate: crl.nextUpdate,
+          ...entry,
+          crlDer: crl.der,
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : "Unknown error";
+        result = { status: "unknown", source: "crl", crlUrl: url, reason: errorMsg };
+      }
+
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: result.status === "good" ? "success" : "warning",
+        source: "backend",
+        message: `CRL status for serial ${serial}: ${result.status}`,
+        context: {
+          crlUrl: url,
+          revocationTime: result.revocationTime?.toISOString(),
+          revocationReason: result.revocationReason,
+          reason: result.reason,
+        },
+      });
+
+      if (result.status !== "unknown") break; // Try the next distribution point when inconclusive
+    }
+
+    return result;
+  }
+
+  /**
+   * Status of `cert` from CRLs stored in the document (DSS), without going online: the first
+   * CRL signed by the issuer and current at `validationTime`. Status "unknown" when none
+   * qualifies.
+   */
+  async checkEmbedded(
+    crls: Buffer[],
+    cert: Certificate,
+    issuer: Certificate,
+    validationTime: Date,
+    logs?: LogEntry[],
+  ): Promise<CRLCheckResult> {
+    const serial = Buffer.from(cert.serialNumber.valueBlock.valueHexView).toString("hex");
+    const skew = this.options.maxClockSkewMs;
+    for (const der of crls) {
+      const crl = await this.load(der, issuer).catch(() => undefined);
+      if (!crl || crl.thisUpdate.getTime() > Date.now() + skew) continue;
+      // Current at the validation time; without nextUpdate, a CRL only speaks for its thisUpdate
+      const currentUntil = crl.nextUpdate ?? crl.thisUpdate;
+      if (currentUntil.getTime() < validationTime.getTime() - skew) continue;
+
+      const entry = crl.revoked.get(serial);
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: entry ? "warning" : "success",
+        source: "backend",
+        message: `Embedded CRL status for serial ${serial}: ${entry ? "revoked" : "good"}`,
+        context: {
+          thisUpdate: crl.thisUpdate.toISOString(),
+          revocationTime: entry?.revocationTime.toISOString(),
+          revocationReason: entry?.revocationReason,
+        },
+      });
+      return {
+        status: entry ? "revoked" : "good",
+        source: "crl",
+        thisUpdate: crl.thisUpdate,
+        nextUpdate: crl.nextUpdate,
+        ...entry,
+        crlDer: crl.der,
+        embedded: true,
+      };
+    }
+    return { status: "unknown", reason: "No embedded CRL from the certificate issuer" };
+  }
+
+  // ─────────────────── Private Implementation ─────────────────
+
+  /**
+   * Memory cache, then disk cache, then download. Only CRLs whose signature verifies
+   * with the issuer are cached.
+   */
+  private async getCRL(url: string, issuer: Certificate, logs?: LogEntry[]): Promise<CachedCRL> {
+    const key = cacheKey(issuer, url);
+    const file = join(this.options.cacheDir, `${key}.crl`);
+    const cached = memoryCache.get(file);
+    if (cached && this.isCurrent(cached)) return cached;
+
+    const fromDisk = await readFile(file).catch(() => undefined);
+    if (fromDisk) {
+      try {
+        const crl = await this.load(fromDisk, issuer);
+        if (this.isCurrent(crl)) {
+          memoryCache.set(file, crl);
+          logs?.push({
+            timestamp: new Date().toISOString(),
+            level: "debug",
+            source: "backend",
+            message: "Using cached CRL",
+            context: { crlUrl: url, nextUpdate: crl.nextUpdate?.toISOString() },
+          });
+          return crl;
+        }
+      } catch {
+        // Corrupted or no longer valid for this issuer: download again
+      }
+    }
+
+    logs?.push({
+      timestamp: new Date().toISOString(),
+      level: "debug",
+      source: "backend",
+      message: "Downloading CRL",
+      context: { crlUrl: url },
+    });
+
+    const response = await fetch(url, {
+      headers: { Accept: "application/pkix-crl" },
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`CRL HTTP error: ${response.status} ${response.statusText}`);
+    }
+    const crl = await this.load(Buffer.from(await response.arrayBuffer()), issuer);
+
+    const now = Date.now();
+    const skew = this.options.maxClockSkewMs;
+    if (crl.thisUpdate.getTime() > now + skew) {
+      throw new Error("CRL thisUpdate is in the future");
+    }
+    if (crl.nextUpdate && crl.nextUpdate.getTime() < now - skew) {
+      throw new Error("CRL is stale (nextUpdate has passed)");
+    }
+
+    memoryCache.set(file, crl);
+    await this.store(file, crl.der).catch((error: unknown) =>
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: "warning",
+        source: "backend",
+        message: "Failed to write CRL cache",
+        context: { error: error instanceof Error ? error.message : "Unknown error" },
+      }),
+    );
+
+    return crl;
+  }
+
+  /** Parse (PEM or DER), verify the issuer signature and index the revoked serials */
+  private async load(data: Buffer, issuer: Certificate): Promise<CachedCRL> {
+    const text = data.toString("latin1");
+    const der = text.includes("-----BEGIN X509 CRL-----")
+      ? Buffer.from(text.replace(/-----[^-]+-----/g, "").replace(/\s+/g, ""), "base64")
+      : data;
+
+    const asn1 = asn1js.fromBER(new Uint8Array(der));
+    if (asn1.offset === -1) throw new Error("Invalid CRL ASN.1");
+    const crl = new CertificateRevocationList({ schema: asn1.result });
+
+    if (!(await crl.verify({ issuerCertificate: issuer }).catch(() => false))) {
+      throw new Error("CRL signature does not verify with the certificate issuer");
+    }
+
+    const revoked = new Map<string, RevokedEntry>();
+    for (const entry of crl.revokedCertificates ?? []) {
+      const serial = Buffer.from(entry.userCertificate.valueBlock.valueHexView).toString("hex");
+      const reasonExt = entry.crlEntryExtensions?.extensions.find(
+        (e) => e.extnID === PKIX_OIDS.CRL_REASON,
+      );
+      const reasonCode: unknown = reasonExt?.parsedValue;
+      revoked.set(serial, {
+        revocationTime: entry.revocationDate.value,
+        revocationReason:
+          reasonCode instanceof asn1js.Enumerated
+            ? (CRL_REASONS[reasonCode.valueBlock.valueDec] ??
+              String(reasonCode.valueBlock.valueDec))
+            : undefined,
+      });
+    }
+
+    return {
+      der,
+      thisUpdate: crl.thisUpdate.value,
+      nextUpdate: crl.nextUpdate?.value,
+      revoked,
+    };
+  }
+
+  /** Reusable until nextUpdate (a CRL without nextUpdate is always downloaded again) */
+  private isCurrent(crl: CachedCRL): boolean {
+    return !!crl.nextUpdate && crl.nextUpdate.getTime() > Date.now();
+  }
+
+  /** Atomic write: readers never see a partial CRL */
+  private async store(file: string, der: Buffer): Promise<void> {
+    await mkdir(this.options.cacheDir, { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, der);
+    await rename(tmp, file);
+  }
+}
+
+/**
+ * Cache key: SHA-256 of the issuer name and key, and of the distribution point URL (a CA
+ * re-keyed under the same name, like a regenerated mock CA, gets a new entry)
+ */
+function cacheKey(issuer: Certificate, url: string): string {
+  const issuerHash = createHash("sha256")
+    .update(Buffer.from(issuer.subject.toSchema().toBER(false)))
+    .update(Buffer.from(issuer.subjectPublicKeyInfo.subjectPublicKey.valueBlock.valueHexView))
+    .digest("hex");
+  const urlHash = createHash("sha256").update(url).digest("hex");
+  return `${issuerHash.slice(0, 32)}-${urlHash.slice(0, 16)}`;
+}
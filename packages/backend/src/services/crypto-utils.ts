@@ -3,6 +3,8 @@
  */
 import { createHash } from "crypto";
 
+import type { DigestAlgorithm } from "@pades-poc/shared";
+
 /**
  * Calculate SHA-256 hash of data
  */
@@ -10,6 +12,29 @@ export function sha256(data: Buffer): Buffer {
   return createHash("sha256").update(data).digest();
 }
 
+const NODE_HASHES: Record<DigestAlgorithm, string> = {
+  "SHA-256": "sha256",
+  "SHA-384": "sha384",
+  "SHA-512": "sha512",
+};
+
+/**
+ * Calculate the hash of data with a message digest algorithm (SHA-256, SHA-384 or SHA-512)
+ * @throws Error for any other algorithm
+ */
+export function digest(data: Buffer, algorithm: DigestAlgorithm): Buffer {
+  const hash = NODE_HASHES[algorithm];
+  if (!hash) throw new Error(`Unsupported digest algorithm: ${String(algorithm)}`);
+  return createHash(hash).update(data).digest();
+}
+
+/**
+ * Calculate SHA-1 hash of data (DSS /VRI keys only — not for signatures)
+ */
+export function sha1(data: Buffer): Buffer {
+  return createHash("sha1").update(data).digest();
+}
+
 /**
  * Convert buffer to base64 string
  */
@@ -24,6 +49,25 @@ export function fromBase64(base64: string): Buffer {
   return Buffer.from(base64, "base64");
 }
 
+/**
+ * Convert a PEM block (any label) to DER
+ */
+export function pemToDer(pem: string): Buffer {
+  const b64 = pem
+    .replace(/-----BEGIN [^-]+-----/g, "")
+    .replace(/-----END [^-]+-----/g, "")
+    .replace(/\s+/g, "");
+  return Buffer.from(b64, "base64");
+}
+
+/**
+ * Convert a DER certificate to PEM
+ */
+export function derToPem(der: Buffer): string {
+  const b64 = der.toString("base64");
+  return `-----BEGIN CERTIFICATE-----\n${b64.match(/.{1,64}/g)?.join("\n") ?? b64}\n-----END CERTIFICATE-----`;
+}
+
 /**
  * Convert buffer to hex string
  */
@@ -0,0 +1,261 @@
+import * as asn1js from "asn1js";
+import { PDFDict, PDFDocument, PDFName } from "pdf-lib";
+import { Certificate, OCSPRequest } from "pkijs";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { CMSService } from "./cms-service";
+import { CRLClient } from "./crl-client";
+import { sha1 } from "./crypto-utils";
+import { LTVService } from "./ltv-service";
+import { MockHSMService } from "./mock-hsm-service";
+import { OCSPClient } from "./ocsp-client";
+import { listSignatureFields } from "./pdf/signature-fields";
+import { PDFService } from "./pdf-service";
+import { SignatureService } from "./signature-service";
+import { requestTimestamp } from "./timestamp-service";
+
+import type { MockInstance } from "vitest";
+
+vi.mock("./timestamp-service", () => ({
+  requestTimestamp: vi.fn(),
+}));
+
+describe("LTVService", () => {
+  let mockHSM: MockHSMService;
+  let cmsDer: Buffer;
+  let timestampedCmsDer: Buffer;
+  let ocspCheck: MockInstance<OCSPClient["check"]>;
+  let crlCheck: MockInstance<CRLClient["check"]>;
+
+  const pemToDer = (pem: string) =>
+    Buffer.from(pem.replace(/-----[^-]+-----/g, "").replace(/\s+/g, ""), "base64");
+
+  beforeAll(async () => {
+    mockHSM = new MockHSMService();
+    await mockHSM.ready;
+
+    const signerCertPem = mockHSM.getSignerCertificatePem();
+    const { signedAttrsDer } = new SignatureService().buildSignedAttributes({
+      messageDigest: Buffer.alloc(32, 0xab),
+      signerCertPem,
+    });
+    const signature = await mockHSM.signData(signedAttrsDer);
+
+    cmsDer = new CMSService().assembleCMSBasic({
+      signedAttrsDer,
+      signature,
+      signerCertPem,
+      certificateChainPem: mockHSM.getCertificateChainPem(false),
+    }).cmsDer;
+
+    mockTimestamp();
+    const timestamped = await new CMSService().assembleCMS({
+      signedAttrsDer,
+      signature,
+      signerCertPem,
+      certificateChainPem: mockHSM.getCertificateChainPem(false),
+      withTimestamp: true,
+    });
+    expect(timestamped.isTimestamped).toBe(true);
+    timestampedCmsDer = timestamped.cmsDer;
+  });
+
+  // No responder is reachable in tests
+  beforeEach(() => {
+    ocspCheck = vi.spyOn(OCSPClient.prototype, "check").mockResolvedValue({ status: "unknown" });
+    crlCheck = vi.spyOn(CRLClient.prototype, "check").mockResolvedValue({ status: "unknown" });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const mockTimestamp = () => {
+    // Any CMS does for a token here: the DSS only needs its certificates
+    vi.mocked(requestTimestamp).mockResolvedValue({
+      timestampToken: asn1js.fromBER(new Uint8Array(cmsDer)).result as asn1js.Sequence,
+      timestampTime: "2025-01-01T00:00:00.000Z",
+      tsaUrl: "http://tsa.test",
+    });
+  };
+
+  it("should collect the signer chain embedded in the CMS", async () => {
+    const ltv = new LTVService();
+    const data = await ltv.collectValidationData(cmsDer);
+
+    const signerDer = pemToDer(mockHSM.getSignerCertificatePem());
+    const intermediateDer = pemToDer(mockHSM.getCertificateChainPem(false)[0]);
+
+    expect(data.certificates).toHaveLength(2);
+    expect(data.certificates.some((c) => c.equals(signerDer))).toBe(true);
+    expect(data.certificates.some((c) => c.equals(intermediateDer))).toBe(true);
+    expect(data.ocspResponses).toHaveLength(0);
+    expect(data.crls).toHaveLength(0);
+  });
+
+  it("should keep only the revocation data collected at signing time for the chain", async () => {
+    const ltv = new LTVService();
+    const signer = Certificate.fromBER(pemToDer(mockHSM.getSignerCertificatePem()));
+    const intermediate = Certificate.fromBER(pemToDer(mockHSM.getCertificateChainPem(false)[0]));
+    const request = new OCSPRequest();
+    await request.createForCertificate(signer, {
+      hashAlgorithm: "SHA-1",
+      issuerCertificate: intermediate,
+    });
+    const ocsp = await mockHSM.respondOcsp(new Uint8Array(request.toSchema(true).toBER(false)));
+    const crl = await mockHSM.getCrlDer("intermediate");
+    // Signed by the root, which the CMS does not carry: it covers no certificate of the chain
+    const rootCrl = await mockHSM.getCrlDer("root");
+
+    const data = await ltv.collectValidationData(cmsDer, {
+      ocspResponses: [ocsp, Buffer.from(ocsp), Buffer.from("ocsp-response")],
+      crls: [crl, rootCrl, Buffer.from("crl")],
+    });
+
+    expect(data.ocspResponses).toEqual([ocsp]);
+    expect(data.crls).toEqual([crl]);
+  });
+
+  it("should fetch revocation data for the chain, with CRLs when OCSP is inconclusive", async () => {
+    const ocspDer = Buffer.from("ocsp-response");
+    const crlDer = Buffer.from("crl");
+    const ltv = new LTVService();
+
+    ocspCheck.mockResolvedValueOnce({
+      status: "good",
+      source: "ocsp",
+      responseDer: ocspDer,
+    });
+    const fromOcsp = await ltv.collectValidationData(cmsDer);
+    expect(fromOcsp.ocspResponses).toEqual([ocspDer]);
+    expect(fromOcsp.crls).toHaveLength(0);
+    expect(crlCheck).not.toHaveBeenCalled();
+
+    crlCheck.mockResolvedValueOnce({
+      status: "good",
+      source: "crl",
+      crlDer,
+    });
+    const fromCrl = await ltv.collectValidationData(cmsDer);
+    expect(fromCrl.ocspResponses).toHaveLength(0);
+    expect(fromCrl.crls).toEqual([crlDer]);
+
+    // Signer checked against the intermediate; the intermediate's root is not in the CMS
+    const [[cert, issuer]] = crlCheck.mock.calls;
+    expect(Buffer.from(cert.toSchema().toBER(false))).toEqual(
+      pemToDer(mockHSM.getSignerCertificatePem()),
+    );
+    expect(Buffer.from(issuer.toSchema().toBER(false))).toEqual(
+      pemToDer(mockHSM.getCertificateChainPem(false)[0]),
+    );
+  });
+
+  it("should reject invalid CMS", async () => {
+    const ltv = new LTVService();
+    await expect(ltv.collectValidationData(Buffer.from("not a cms"))).rejects.toThrow();
+  });
+
+  describe("extend", () => {
+    const signPdf = async (signatureDer = timestampedCmsDer) => {
+      const pdfService = new PDFService();
+      const demoResult = await pdfService.generateDemoPDF();
+      const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64);
+      return pdfService.embedCmsIntoPdf(
+        new Uint8Array(Buffer.from(prepareResult.preparedPdfBase64, "base64")),
+        new Uint8Array(signatureDer),
+      );
+    };
+
+    it("should append only a DSS for B-LT", async () => {
+      const signedPdf = await signPdf();
+      const result = await new LTVService().extend(signedPdf, { targetLevel: "B-LT" });
+
+      expect(result.signatureLevel).toBe("B-LT");
+      expect(result.signatureCount).toBe(1);
+      expect(result.documentTimestamp).toBeUndefined();
+
+      const doc = await PDFDocument.load(result.pdfBytes);
+      expect(doc.catalog.lookupMaybe(PDFName.of("DSS"), PDFDict)).toBeDefined();
+      expect(listSignatureFields(doc)).toHaveLength(1);
+    });
+
+    it("should not report a B-B signature as long-term", async () => {
+      mockTimestamp();
+      const signedPdf = await signPdf(cmsDer);
+      const ltv = new LTVService();
+
+      const lt = await ltv.extend(signedPdf, { targetLevel: "B-LT" });
+      expect(lt.signatureLevel).toBe("B-B");
+
+      // The document timestamp is the first time-stamp over the signature
+      const lta = await ltv.extend(signedPdf, { targetLevel: "B-LTA" });
+      expect(lta.signatureLevel).toBe("B-T");
+      expect((await ltv.extend(lta.pdfBytes, { targetLevel: "B-LT" })).signatureLevel).toBe("B-LT");
+    });
+
+    it("should add a document timestamp after the DSS for B-LTA and re-timestamp", async () => {
+      mockTimestamp();
+      const signedPdf = await signPdf();
+      const ltv = new LTVService();
+
+      const lta = await ltv.extend(signedPdf, { targetLevel: "B-LTA" });
+      expect(lta.signatureLevel).toBe("B-LTA");
+      expect(lta.documentTimestamp).toMatchObject({
+        fieldName: "DocTimeStamp1",
+        tsaUrl: "http://tsa.test",
+      });
+
+      const ltaDoc = await PDFDocument.load(lta.pdfBytes);
+      const fields = listSignatureFields(ltaDoc);
+      expect(fields.map((f) => f.subFilter)).toEqual(["ETSI.CAdES.detached", "ETSI.RFC3161"]);
+      const [, , c, d] = fields[1].byteRange!;
+      expect(c + d).toBeLessThan(lta.pdfBytes.length);
+
+      // The DSS update after the document timestamp holds its TSA chain
+      const vriKey = (contents: Buffer) => PDFName.of(sha1(contents).toString("hex").toUpperCase());
+      const ltaVri = ltaDoc.catalog
+        .lookup(PDFName.of("DSS"), PDFDict)
+        .lookup(PDFName.of("VRI"), PDFDict);
+      expect(ltaVri.has(vriKey(fields[1].contents))).toBe(true);
+
+      // Archive re-timestamp: the previous document timestamp gets its own VRI entry
+      const renewed = await ltv.extend(lta.pdfBytes, { targetLevel: "B-LTA" });
+      expect(renewed.signatureCount).toBe(2);
+      expect(renewed.documentTimestamp?.fieldName).toBe("DocTimeStamp2");
+
+      const doc = await PDFDocument.load(renewed.pdfBytes);
+      const vri = doc.catalog.lookup(PDFName.of("DSS"), PDFDict).lookup(PDFName.of("VRI"), PDFDict);
+      expect(vri.has(vriKey(fields[1].contents))).toBe(true);
+      expect(listSignatureFields(doc)).toHaveLength(3);
+    });
+
+    it("should stay at B-LT when the document timestamp fails, unless the policy is fail", async () => {
+      vi.mocked(requestTimestamp).mockRejectedValue(new Error("TSA unreachable"));
+      const signedPdf = await signPdf();
+      const ltv = new LTVService();
+
+      const result = await ltv.extend(signedPdf, {
+        targetLevel: "B-LTA",
+        timestampFailurePolicy: "fallback",
+      });
+      expect(result.signatureLevel).toBe("B-LT");
+      expect(result.documentTimestamp).toBeUndefined();
+      const doc = await PDFDocument.load(result.pdfBytes);
+      expect(doc.catalog.lookupMaybe(PDFName.of("DSS"), PDFDict)).toBeDefined();
+      expect(listSignatureFields(doc)).toHaveLength(1);
+
+      await expect(
+        ltv.extend(signedPdf, { targetLevel: "B-LTA", timestampFailurePolicy: "fail" }),
+      ).rejects.toThrow("Document timestamp failed: TSA unreachable");
+    });
+
+    it("should reject PDFs without signatures", async () => {
+      const demoResult = await new PDFService().generateDemoPDF();
+      await expect(
+        new LTVService().extend(Buffer.from(demoResult.pdfBase64, "base64"), {
+          targetLevel: "B-LT",
+        }),
+      ).rejects.toThrow("No signature found to extend");
+    });
+  });
+});
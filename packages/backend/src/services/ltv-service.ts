@@ -0,0 +1,450 @@
+/**
+ * LTV (Long-Term Validation) Service for PAdES-B-LT
+ *
+ * Collects the validation material that goes into the PDF Document Security Store (DSS):
+ * the signer chain (CMS certificates completed through AIA), the TSA chain carried by the
+ * signature-time-stamp token, the revocation data gathered at signing time and the OCSP
+ * responses (or CRLs, when OCSP is inconclusive) fetched for every certificate of both chains.
+ *
+ * Also upgrades signed PDFs: B-T → B-LT (DSS) → B-LTA (document timestamp over the DSS).
+ */
+
+import * as asn1js from "asn1js";
+import { PDFDocument } from "pdf-lib";
+import { Certificate, ContentInfo, IssuerAndSerialNumber, SignedData } from "pkijs";
+
+import { CertificateChainBuilder } from "./certificate-chain-builder";
+import { CRLClient } from "./crl-client";
+import { derToPem, pemToDer } from "./crypto-utils";
+import { OCSPClient } from "./ocsp-client";
+import { listSignatureFields } from "./pdf/signature-fields";
+import { PDFService } from "./pdf-service";
+import { requestTimestamp } from "./timestamp-service";
+
+import type { PdfSignatureField } from "./pdf/signature-fields";
+import type { DSSEntry, DocumentTimestampResult } from "./pdf-service";
+import type { LogEntry, PAdESLevel, TimestampFailurePolicy } from "@pades-poc/shared";
+
+export interface RevocationData {
+  ocspResponses?: Buffer[]; // DER-encoded OCSPResponse
+  crls?: Buffer[]; // DER-encoded CertificateList
+}
+
+export interface ValidationData {
+  certificates: Buffer[]; // DER, de-duplicated
+  ocspResponses: Buffer[];
+  crls: Buffer[];
+}
+
+export interface ExtendOptions {
+  targetLevel: "B-LT" | "B-LTA";
+  /** TSA for the document timestamp (B-LTA) */
+  timestampUrl?: string;
+  /** No TSA answering for the document timestamp: stay at B-LT ("fallback") or throw ("fail").
+   * Default TSA_FAILURE_POLICY, then "fallback". */
+  timestampFailurePolicy?: TimestampFailurePolicy;
+  revocationData?: RevocationData;
+}
+
+export interface ExtendResult {
+  pdfBytes: Uint8Array;
+  signatureLevel: PAdESLevel;
+  /** Signatures and document timestamps covered by the DSS */
+  signatureCount: number;
+  documentTimestamp?: {
+    fieldName: string;
+    tsaUrl: string;
+    timestampTime: string;
+  };
+}
+
+/** Parse DER(ContentInfo) → SignedData */
+function parseSignedData(der: ArrayBuffer): SignedData {
+  const asn = asn1js.fromBER(der);
+  if (asn.offset === -1) throw new Error("Invalid CMS DER");
+  const contentInfo = new ContentInfo({ schema: asn.result });
+  return new SignedData({ schema: contentInfo.content });
+}
+
+/** signatureTimeStampToken (B-T) of the first signer, if any */
+function findSignatureTimestamp(sd: SignedData): asn1js.BaseBlock | undefined {
+  const attr = sd.signerInfos[0]?.unsignedAttrs?.attributes.find(
+    (a) => a.type === "1.2.840.113549.1.9.16.2.14", // id-aa-signatureTimeStampToken
+  );
+  return attr?.values[0] as asn1js.BaseBlock | undefined;
+}
+
+/** Signer certificate by IssuerAndSerialNumber, falling back to the first certificate */
+function findSignerCertificate(sd: SignedData): Certificate | undefined {
+  const certs = (sd.certificates ?? []).filter((c): c is Certificate => c instanceof Certificate);
+  const sid: unknown = sd.signerInfos[0]?.sid;
+  if (sid instanceof IssuerAndSerialNumber) {
+    const serialHex = Buffer.from(sid.serialNumber.valueBlock.valueHexView).toString("hex");
+    const match = certs.find(
+      (c) => Buffer.from(c.serialNumber.valueBlock.valueHexView).toString("hex") === serialHex,
+    );
+    if (match) return match;
+  }
+  return certs[0];
+}
+
+export class LTVService {
+  private chainBuilder: CertificateChainBuilder;
+  private pdfService: PDFService;
+  private ocspClient: OCSPClient;
+  private crlClient: CRLClient;
+
+  constructor() {
+    this.chainBuilder = new CertificateChainBuilder();
+    this.pdfService = new PDFService();
+    this.ocspClient = new OCSPClient();
+    this.crlClient = new CRLClient();
+  }
+
+  /**
+   * Upgrade a signed PDF:
+   * - B-LT: append a DSS with validation data for every signature and document timestamp
+   * - B-LTA: additionally append a document timestamp covering the DSS revision, then a DSS
+   *   update with the chain of that timestamp's TSA
+   * Running B-LTA again on a B-LTA document re-timestamps the archive.
+   *
+   * The reported level follows what the signatures carry: without a signature timestamp or a
+   * later document timestamp, a signature stays B-B whatever the DSS holds.
+   */
+  async extend(
+    pdfBytes: Uint8Array,
+    options: ExtendOptions,
+    logs?: LogEntry[],
+  ): Promise<ExtendResult> {
+    const doc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+    const fields = listSignatureFields(doc).filter((f) => f.byteRange && f.contents.length > 0);
+    if (fields.length === 0) {
+      throw new Error("No signature found to extend");
+    }
+
+    const entries: DSSEntry[] = [];
+    for (const field of fields) {
+      const data = await this.collectValidationData(
+        field.contents,
+        options.revocationData ?? {},
+        logs,
+      );
+      entries.push({ signatureContents: field.contents, ...data });
+    }
+
+    let extended = await this.pdfService.appendDSS(pdfBytes, entries);
+    const timestamped = this.isTimestamped(fields);
+
+    logs?.push({
+      timestamp: new Date().toISOString(),
+      level: "success",
+      source: "backend",
+      message: "DSS appended as incremental update",
+      context: {
+        signatureCount: fields.length,
+        fields: fields.map((f) => f.fieldName),
+      },
+    });
+
+    const longTermLevel: PAdESLevel = timestamped ? "B-LT" : "B-B";
+    if (options.targetLevel === "B-LT") {
+      return { pdfBytes: extended, signatureLevel: longTermLevel, signatureCount: fields.length };
+    }
+
+    const failurePolicy =
+      options.timestampFailurePolicy ??
+      (process.env.TSA_FAILURE_POLICY === "fail" ? "fail" : "fallback");
+    let timestampInfo: { tsaUrl: string; timestampTime: string } | undefined;
+    let token: Buffer | undefined;
+    let tsaError: unknown;
+    let docTs: DocumentTimestampResult;
+    try {
+      docTs = await this.pdfService.addDocumentTimestamp(extended, async (signedBytes) => {
+        const ts = await requestTimestamp(
+          { data: signedBytes, tsaUrl: options.timestampUrl },
+          logs,
+        ).catch((error: unknown) => {
+          tsaError = error;
+          throw error;
+        });
+        timestampInfo = { tsaUrl: ts.tsaUrl, timestampTime: ts.timestampTime };
+        token = Buffer.from(ts.timestampToken.toBER(false));
+        return token;
+      });
+    } catch (error) {
+      if (error !== tsaError) throw error; // Only a TSA failure falls under the policy
+      const msg = error instanceof Error ? error.message : "Unknown error";
+      if (failurePolicy === "fail") {
+        logs?.push({
+          timestamp: new Date().toISOString(),
+          level: "error",
+          source: "backend",
+          message: `Document timestamp failed, aborting (policy: fail): ${msg}`,
+          context: { error: msg },
+        });
+        throw new Error(`Document timestamp failed: ${msg}`);
+      }
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: "warning",
+        source: "backend",
+        message: `Document timestamp failed, staying at ${longTermLevel}: ${msg}`,
+        context: { error: msg, fallbackToLongTerm: true },
+      });
+      return { pdfBytes: extended, signatureLevel: longTermLevel, signatureCount: fields.length };
+    }
+    extended = docTs.pdfBytes;
+
+    logs?.push({
+      timestamp: new Date().toISOString(),
+      level: "success",
+      source: "backend",
+      message: `Document timestamp appended: ${docTs.fieldName}`,
+      context: { byteRange: docTs.byteRange, ...timestampInfo },
+    });
+
+    // The DSS above predates this timestamp: store its TSA chain in a new DSS update
+    const [, gapStart, gapEnd] = docTs.byteRange;
+    const contents = Buffer.from(
+      Buffer.from(extended.subarray(gapStart + 1, gapEnd - 1)).toString("latin1"),
+      "hex",
+    );
+    const tsaData = await this.collectValidationData(token!, {}, logs);
+    extended = await this.pdfService.appendDSS(extended, [
+      { signatureContents: contents, ...tsaData },
+    ]);
+
+    return {
+      pdfBytes: extended,
+      // B-B signatures only gain a time of existence with this document timestamp
+      signatureLevel: timestamped ? "B-LTA" : "B-T",
+      signatureCount: fields.length,
+      documentTimestamp: timestampInfo && { fieldName: docTs.fieldName, ...timestampInfo },
+    };
+  }
+
+  /**
+   * Gather DSS material for a CMS signature (DER ContentInfo).
+   * Chain building is best effort: whatever was found is returned.
+   */
+  async collectValidationData(
+    cmsDer: Buffer,
+    revocationData: RevocationData = {},
+    logs?: LogEntry[],
+  ): Promise<ValidationData> {
+    const certificates = new Map<string, Buffer>();
+    const addCertificate = (der: Buffer) => certificates.set(der.toString("hex"), der);
+
+    const signedData = parseSignedData(toArrayBuffer(cmsDer));
+
+    // 1) Signer chain: certificates embedded in the CMS + AIA completion
+    const chains = [await this.addChain(signedData, addCertificate, "signer", logs)];
+
+    // 2) TSA chain from the signature-time-stamp token (B-T)
+    const tsToken = findSignatureTimestamp(signedData);
+    if (tsToken) {
+      try {
+        const tokenDer = tsToken.toBER(false);
+        const tokenSignedData = parseSignedData(tokenDer);
+        chains.push(await this.addChain(tokenSignedData, addCertificate, "tsa", logs));
+      } catch (error) {
+        logs?.push({
+          timestamp: new Date().toISOString(),
+          level: "warning",
+          source: "backend",
+          message: "Failed to extract TSA certificates from timestamp token",
+          context: { error: error instanceof Error ? error.message : "Unknown error" },
+        });
+      }
+    }
+
+    // 3) Revocation data collected at signing time for these chains, then fetched for them
+    const supplied = await this.acceptRevocationData(revocationData, chains, logs);
+    const fetched: Required<RevocationData> = { ocspResponses: [], crls: [] };
+    for (const chain of chains) {
+      await this.fetchRevocationData(chain, fetched, logs);
+    }
+    const ocspResponses = dedupe([...supplied.ocspResponses, ...fetched.ocspResponses]);
+    const crls = dedupe([...supplied.crls, ...fetched.crls]);
+
+    const result: ValidationData = {
+      certificates: [...certificates.values()],
+      ocspResponses,
+      crls,
+    };
+
+    logs?.push({
+      timestamp: new Date().toISOString(),
+      level: "debug",
+      source: "backend",
+      message: "Collected LTV validation data",
+      context: {
+        certificateCount: result.certificates.length,
+        ocspCount: result.ocspResponses.length,
+        crlCount: result.crls.length,
+      },
+    });
+
+    return result;
+  }
+
+  /**
+   * Whether every approval signature has a time of existence: its own signature timestamp, or
+   * a document timestamp over it (ByteRange reaching further into the file).
+   */
+  private isTimestamped(fields: PdfSignatureField[]): boolean {
+    const end = (f: PdfSignatureField) => f.byteRange![2] + f.byteRange![3];
+    const docTimestamps = fields.filter((f) => f.type === "/DocTimeStamp");
+    return fields
+      .filter((f) => f.type !== "/DocTimeStamp")
+      .every(
+        (f) =>
+          docTimestamps.some((ts) => end(ts) > end(f)) ||
+          !!findSignatureTimestamp(parseSignedData(toArrayBuffer(f.contents))),
+      );
+  }
+
+  /**
+   * Add the SignedData certificates and the AIA-completed chain of its signer.
+   * Returns the signer chain ordered over both, signer first.
+   */
+  private async addChain(
+    signedData: SignedData,
+    addCertificate: (der: Buffer) => void,
+    role: "signer" | "tsa",
+    logs?: LogEntry[],
+  ): Promise<Certificate[]> {
+    const known: Certificate[] = [];
+    for (const cert of signedData.certificates ?? []) {
+      if (cert instanceof Certificate) {
+        addCertificate(Buffer.from(cert.toSchema().toBER(false)));
+        known.push(cert);
+      }
+    }
+
+    const signerCert = findSignerCertificate(signedData);
+    if (!signerCert) return [];
+
+    const chainResult = await this.chainBuilder.buildChain(
+      derToPem(Buffer.from(signerCert.toSchema().toBER(false))),
+      logs,
+    );
+    for (const pem of chainResult.certificateChain) {
+      const der = pemToDer(pem);
+      addCertificate(der);
+      known.push(Certificate.fromBER(new Uint8Array(der)));
+    }
+
+    if (chainResult.errors.length > 0) {
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: "warning",
+        source: "backend",
+        message: `Incomplete ${role} chain for LTV data`,
+        context: { errors: chainResult.errors },
+      });
+    }
+
+    // Issuers by name: the revocation responses are verified against them anyway
+    const chain = [signerCert];
+    for (let cert = signerCert; chain.length < 10 && !cert.issuer.isEqual(cert.subject); ) {
+      const issuer = known.find((c) => c.subject.isEqual(cert.issuer));
+      if (!issuer) break;
+      chain.push(issuer);
+      cert = issuer;
+    }
+    return chain;
+  }
+
+  /**
+   * Client-supplied revocation data, kept only when the embedded checks accept it for a
+   * certificate of the chains (covering it, signed for its issuer and current now): anything
+   * else would end up unverified in the DSS.
+   */
+  private async acceptRevocationData(
+    revocationData: RevocationData,
+    chains: Certificate[][],
+    logs?: LogEntry[],
+  ): Promise<Required<RevocationData>> {
+    const now = new Date();
+    const pairs = chains.flatMap((chain) =>
+      chain.slice(0, -1).map((cert, i) => [cert, chain[i + 1]] as const),
+    );
+    const accept = async (
+      items: Buffer[],
+      check: (item: Buffer, cert: Certificate, issuer: Certificate) => Promise<{ status: string }>,
+    ): Promise<Buffer[]> => {
+      const accepted: Buffer[] = [];
+      for (const item of items) {
+        for (const [cert, issuer] of pairs) {
+          if ((await check(item, cert, issuer)).status !== "unknown") {
+            accepted.push(item);
+            break;
+          }
+        }
+      }
+      return accepted;
+    };
+
+    const supplied = {
+      ocspResponses: revocationData.ocspResponses ?? [],
+      crls: revocationData.crls ?? [],
+    };
+    const accepted = {
+      ocspResponses: await accept(supplied.ocspResponses, (response, cert, issuer) =>
+        this.ocspClient.checkEmbedded([response], cert, issuer, now),
+      ),
+      crls: await accept(supplied.crls, (crl, cert, issuer) =>
+        this.crlClient.checkEmbedded([crl], cert, issuer, now),
+      ),
+    };
+
+    const ignored = {
+      ocsp: supplied.ocspResponses.length - accepted.ocspResponses.length,
+      crl: supplied.crls.length - accepted.crls.length,
+    };
+    if (ignored.ocsp + ignored.crl > 0) {
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: "debug",
+        source: "backend",
+        message: "Left out supplied revocation data covering no certificate of these chains",
+        context: ignored,
+      });
+    }
+    return accepted;
+  }
+
+  /**
+   * OCSP response, or CRL when OCSP is inconclusive, for every certificate of the chain
+   * issued by the next one (the root has no revocation data). Best effort.
+   */
+  private async fetchRevocationData(
+    chain: Certificate[],
+    out: Required<RevocationData>,
+    logs?: LogEntry[],
+  ): Promise<void> {
+    for (let i = 0; i + 1 < chain.length; i++) {
+      const [cert, issuer] = [chain[i], chain[i + 1]];
+      const ocsp = await this.ocspClient.check(cert, issuer, logs);
+      if (ocsp.status !== "unknown" && ocsp.responseDer) {
+        out.ocspResponses.push(ocsp.responseDer);
+        continue;
+      }
+      const crl = await this.crlClient.check(cert, issuer, logs);
+      if (crl.status !== "unknown" && crl.crlDer) {
+        out.crls.push(crl.crlDer);
+      }
+    }
+  }
+}
+
+function toArrayBuffer(buf: Buffer): ArrayBuffer {
+  return buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength) as ArrayBuffer;
+}
+
+function dedupe(items: Buffer[]): Buffer[] {
+  const seen = new Map<string, Buffer>();
+  items.forEach((b) => seen.set(b.toString("hex"), b));
+  return [...seen.values()];
+}
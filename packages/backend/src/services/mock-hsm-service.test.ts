@@ -1,3 +1,4 @@
+import { createPublicKey, verify } from "crypto";
 import { existsSync, rmSync } from "fs";
 import { join } from "path";
 
@@ -7,7 +8,28 @@ import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 
 vi.stubEnv("LOG_LEVEL", "error");
 
+import { CertificateChainValidator } from "./certificate-chain-validator";
+import { CRLClient } from "./crl-client";
 import { MockHSMService } from "./mock-hsm-service";
+import { OCSPClient } from "./ocsp-client";
+
+const MOCK_PKI_URL = "http://mock-pki.test/api/mock";
+
+function pemToCert(pem: string): Certificate {
+  const der = Buffer.from(pem.replace(/-----.*?-----/g, "").replace(/\s+/g, ""), "base64");
+  return new Certificate({ schema: fromBER(new Uint8Array(der)).result });
+}
+
+/** Route fetch() to the mock HSM, like POST /api/mock/ocsp and GET /api/mock/crl/:ca.crl */
+function serveRevocation(hsm: MockHSMService): void {
+  vi.stubGlobal("fetch", async (url: string, init?: RequestInit) => {
+    const crl = /\/crl\/(root|intermediate)\.crl$/.exec(url);
+    const body = crl
+      ? await hsm.getCrlDer(crl[1] as "root" | "intermediate")
+      : await hsm.respondOcsp(init?.body as Uint8Array);
+    return new Response(new Uint8Array(body));
+  });
+}
 
 describe("MockHSMService", () => {
   const testCertDir = join(process.cwd(), "test-certificates");
@@ -117,6 +139,18 @@ describe("MockHSMService", () => {
       const emptyData = Buffer.alloc(0);
       await expect(mockHSM.signData(emptyData)).resolves.not.toThrow();
     }, 10000);
+
+    it("should sign with the hash of a stronger digest algorithm", async () => {
+      await mockHSM.ready;
+
+      const testData = Buffer.from("SHA-512 signed attributes");
+      const signature = await mockHSM.signData(testData, undefined, "SHA-512");
+      const publicKey = createPublicKey(mockHSM.getSignerCertificatePem());
+
+      expect(mockHSM.getSignatureAlgorithmOid()).toBe("1.2.840.113549.1.1.11"); // sha256WithRSA
+      expect(mockHSM.getSignatureAlgorithmOid("SHA-512")).toBe("1.2.840.113549.1.1.13"); // sha512WithRSA
+      expect(verify("sha512", testData, publicKey, signature)).toBe(true);
+    }, 10000);
   });
 
   describe("persistence", () => {
@@ -135,6 +169,26 @@ describe("MockHSMService", () => {
       const reloadedCert = secondHSM.getSignerCertificatePem();
       expect(reloadedCert).toBe(firstCert);
     }, 15000);
+
+    it("should regenerate the signer key when the key algorithm changes", async () => {
+      await mockHSM.ready;
+      expect(mockHSM.getSignatureAlgorithmOid()).toBe("1.2.840.113549.1.1.11");
+
+      const ecHSM = new MockHSMService({
+        certDir: testCertDir,
+        signerName: "Test Signer",
+        organization: "Test Org",
+        signerKeyAlgorithm: "ECDSA-P384",
+      });
+      await ecHSM.ready;
+
+      const signer = pemToCert(ecHSM.getSignerCertificatePem());
+      expect(signer.subjectPublicKeyInfo.algorithm.algorithmId).toBe("1.2.840.10045.2.1");
+      expect(ecHSM.getSignatureAlgorithmOid()).toBe("1.2.840.10045.4.3.3"); // ecdsa-with-SHA384
+      // DER Ecdsa-Sig-Value, not raw r||s
+      const signature = await ecHSM.signData(Buffer.from("data"));
+      expect(signature[0]).toBe(0x30);
+    }, 15000);
   });
 
   describe("keyUsage", () => {
@@ -186,6 +240,93 @@ describe("MockHSMService", () => {
     });
   });
 
+  describe("revocation", () => {
+    let hsm: MockHSMService;
+    let signer: Certificate;
+    let intermediate: Certificate;
+
+    beforeEach(async () => {
+      hsm = new MockHSMService({ certDir: testCertDir, revocationBaseUrl: MOCK_PKI_URL });
+      await hsm.ready;
+      signer = pemToCert(hsm.getSignerCertificatePem());
+      intermediate = pemToCert(hsm.getCertificateChainPem(false)[0]);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+    });
+
+    it("should point certificates to the mock OCSP responder and CRLs", () => {
+      expect(OCSPClient.getResponderUrls(signer)).toEqual([`${MOCK_PKI_URL}/ocsp`]);
+      expect(CRLClient.getDistributionPointUrls(signer)).toEqual([
+        `${MOCK_PKI_URL}/crl/intermediate.crl`,
+      ]);
+      expect(CRLClient.getDistributionPointUrls(intermediate)).toEqual([
+        `${MOCK_PKI_URL}/crl/root.crl`,
+      ]);
+    }, 15000);
+
+    it("should answer OCSP requests before and after revocation", async () => {
+      serveRevocation(hsm);
+      const client = new OCSPClient();
+
+      const before = await client.check(signer, intermediate);
+      hsm.revokeCertificate(hsm.getCertificateInfo().serialNumber, "keyCompromise");
+      const after = await client.check(signer, intermediate);
+
+      expect(before.status).toBe("good");
+      expect(after).toMatchObject({ status: "revoked", revocationReason: "keyCompromise" });
+    }, 15000);
+
+    it("should publish revoked certificates in the issuer CRL", async () => {
+      serveRevocation(hsm);
+      hsm.revokeCertificate(hsm.getCertificateInfo().serialNumber, "superseded");
+
+      const result = await new CRLClient({ cacheDir: join(testCertDir, "crl-cache") }).check(
+        signer,
+        intermediate,
+      );
+
+      expect(result).toMatchObject({
+        status: "revoked",
+        source: "crl",
+        revocationReason: "superseded",
+      });
+    }, 15000);
+
+    it("should fail chain validation of a revoked signer offline", async () => {
+      serveRevocation(hsm);
+      hsm.revokeCertificate(hsm.getCertificateInfo().serialNumber, "keyCompromise");
+      vi.stubEnv("CRL_CACHE_DIR", join(testCertDir, "crl-cache"));
+      const root = pemToCert(hsm.getRootCertificatePem());
+
+      const result = await new CertificateChainValidator().validateChain(
+        [signer, intermediate, root],
+        signer,
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.certificates[0].revocation?.status).toBe("revoked");
+      expect(result.certificates[1].revocation?.status).toBe("good"); // intermediate, via root.crl
+    }, 15000);
+
+    it("should persist revocations and reject unknown serial numbers", async () => {
+      const entry = hsm.revokeCertificate(hsm.getCertificateInfo().serialNumber);
+      const reloaded = new MockHSMService({
+        certDir: testCertDir,
+        revocationBaseUrl: MOCK_PKI_URL,
+      });
+      await reloaded.ready;
+
+      expect(reloaded.revokeCertificate(entry.serialNumber)).toEqual(entry);
+      expect(() => hsm.revokeCertificate("DEADBEEF")).toThrow("Unknown mock certificate serial");
+      expect(() => hsm.revokeCertificate(entry.serialNumber, "bored")).toThrow(
+        "Unsupported revocation reason",
+      );
+    }, 15000);
+  });
+
   describe("error handling", () => {
     it("should throw error when accessing uninitialized signer certificate", () => {
       // Create a fresh instance without waiting for initialization
@@ -1,15 +1,17 @@
 /**
  * Mock HSM Service for development and testing
  *
- * Built on PKI.js + Node WebCrypto for proper certificate generation and RSA signing.
- * Generates a Root CA and a leaf "signer" certificate (RSA 2048, SHA-256) with
- * PKCS#8 PEM private key persistence.
+ * Built on PKI.js + Node WebCrypto for proper certificate generation and signing.
+ * Generates a Root CA, an intermediate CA (RSA 2048, SHA-256) and a leaf "signer" certificate
+ * with PKCS#8 PEM private key persistence. The signer key is RSA 2048 by default, or an EC
+ * P-256 / P-384 key like CPS 4 and eIDAS tokens (MOCK_HSM_KEY_ALGORITHM=ECDSA-P256|ECDSA-P384).
  *
  * Key features:
  * - Self-signed certificate generation with proper X.509 structure
- * - RSASSA-PKCS1-v1_5 signing compatible with PAdES requirements
+ * - RSASSA-PKCS1-v1_5, RSASSA-PSS or ECDSA (DER Ecdsa-Sig-Value) signing for PAdES
  * - Certificate persistence across service restarts
  * - Async initialization with explicit ready Promise
+ * - Mock OCSP responder and CRLs for the root and intermediate CAs, with persisted revocations
  * - Comprehensive logging integration
  *
  * @example
@@ -19,17 +21,32 @@
  */
 
 import { createHash, webcrypto as nodeWebcrypto, X509Certificate } from "node:crypto";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 
+import { CMS_OIDS, CRL_REASONS, PKIX_OIDS } from "@pades-poc/shared";
 import * as asn1js from "asn1js";
 import {
+  AccessDescription,
   AttributeTypeAndValue,
   BasicConstraints,
+  BasicOCSPResponse,
+  CRLDistributionPoints,
   Certificate,
+  CertificateRevocationList,
   CryptoEngine,
+  DistributionPoint,
+  ExtKeyUsage,
   Extension,
+  Extensions,
+  GeneralName,
+  InfoAccess,
+  OCSPRequest,
+  OCSPResponse,
   RelativeDistinguishedNames,
+  ResponseBytes,
+  RevokedCertificate,
+  SingleResponse,
   Time,
   setEngine,
   getCrypto,
@@ -37,6 +54,19 @@ import {
 
 import { logPAdES, padesBackendLogger } from "../logger";
 
+import { OCSPClient } from "./ocsp-client";
+import {
+  ecdsaRawToDer,
+  getNamedCurve,
+  selectSignatureAlgorithm,
+  signatureAlgorithmForDigest,
+  signatureAlgorithmForKey,
+} from "./signature-algorithms";
+
+import type { NamedCurve, SignatureAlgorithm } from "./signature-algorithms";
+import type { DigestAlgorithm } from "@pades-poc/shared";
+import type { CertID } from "pkijs";
+
 /** ─────────── PKI.js engine setup (Node WebCrypto) ─────────── */
 setEngine(
   "nodeEngine",
@@ -58,24 +88,59 @@ export interface MockCertificateInfo {
   fingerprint: string; // SHA-256 hex with colons (e.g., "AA:BB:CC...")
 }
 
+/** Mock certificate authorities publishing revocation data */
+export type MockCA = "root" | "intermediate";
+
+export interface MockRevocationEntry {
+  serialNumber: string; // Uppercase hex, as in MockCertificateInfo
+  issuer: MockCA;
+  revocationTime: string; // ISO 8601
+  reason: string; // CRLReason name (e.g. "keyCompromise")
+}
+
+/** Signer key algorithms (the mock CAs always use RSA keys) */
+export type MockKeyAlgorithm = "RSA" | "ECDSA-P256" | "ECDSA-P384";
+
+const KEY_ALGORITHM_CURVES: Record<MockKeyAlgorithm, NamedCurve | undefined> = {
+  RSA: undefined,
+  "ECDSA-P256": "P-256",
+  "ECDSA-P384": "P-384",
+};
+
 export interface MockHSMConfig {
   keySize: number; // RSA modulus length in bits
+  signerKeyAlgorithm: MockKeyAlgorithm; // Key of the signing certificate
   validityYears: number; // Certificate validity period
   certDir: string; // Directory to store generated certificates
   signerName: string; // Subject CN for the signing certificate
   organization: string; // Organization name in certificate subjects
   country: string; // Country code in certificate subjects
   hashAlgorithm: "SHA-256"; // Hash algorithm for signing (fixed for now)
+  revocationBaseUrl: string; // Base URL of the mock OCSP/CRL routes, embedded in certificates
+  revocationUpdateMs: number; // Validity of OCSP responses and CRLs (nextUpdate - thisUpdate)
 }
 
 const DEFAULTS: MockHSMConfig = {
   keySize: 2048,
+  signerKeyAlgorithm:
+    process.env.MOCK_HSM_KEY_ALGORITHM && process.env.MOCK_HSM_KEY_ALGORITHM in KEY_ALGORITHM_CURVES
+      ? (process.env.MOCK_HSM_KEY_ALGORITHM as MockKeyAlgorithm)
+      : "RSA",
   validityYears: 5,
   certDir: join(process.cwd(), "certificates"),
   signerName: "Dr. Mock Prescripteur",
   organization: "Demo Medical Center",
   country: "FR",
   hashAlgorithm: "SHA-256",
+  revocationBaseUrl:
+    process.env.MOCK_PKI_BASE_URL || `http://localhost:${process.env.PORT || "3001"}/api/mock`,
+  revocationUpdateMs: 10 * 60 * 1000,
+};
+
+/** OCSP CertID hash algorithms the mock responder understands */
+const CERT_ID_HASHES: Record<string, string> = {
+  "1.3.14.3.2.26": "sha1",
+  "2.16.840.1.101.3.4.2.1": "sha256",
 };
 
 type Paths = {
@@ -90,7 +155,7 @@ type Paths = {
 /**
  * Mock Hardware Security Module implementation
  *
- * Provides RSA-SHA256 signing capabilities with X.509 certificate generation
+ * Provides RSA-SHA256 and ECDSA signing capabilities with X.509 certificate generation
  * for development and testing environments. Not suitable for production use.
  */
 export class MockHSMService {
@@ -111,6 +176,13 @@ export class MockHSMService {
   private rootKey?: CryptoKey;
   private intermediateKey?: CryptoKey;
   private signerKey?: CryptoKey;
+  private signerAlgorithm?: SignatureAlgorithm;
+  private signerRsaKeys = new Map<string, CryptoKey>(); // "scheme/hash" → key handle
+
+  private caCerts = new Map<MockCA, Certificate>();
+  private issued = new Map<string, MockCA>(); // serial (hex) → issuing CA
+  private revocations: MockRevocationEntry[] = [];
+  private readonly revocationsPath: string;
 
   /**
    * Create a new Mock HSM instance
@@ -118,6 +190,7 @@ export class MockHSMService {
    */
   constructor(cfg: Partial<MockHSMConfig> = {}) {
     this.cfg = { ...DEFAULTS, ...cfg };
+    this.revocationsPath = join(this.cfg.certDir, "mock-revocations.json");
 
     // Ensure certificate directory exists
     if (!existsSync(this.cfg.certDir)) {
@@ -154,6 +227,16 @@ export class MockHSMService {
     return this.signerCertPem!;
   }
 
+  /**
+   * Signature algorithm of the signer key (CMS signatureAlgorithm OID)
+   * @param digestAlgorithm Digest of the signed attributes; a stronger one raises the hash
+   * @throws Error if not initialized
+   */
+  getSignatureAlgorithmOid(digestAlgorithm?: DigestAlgorithm): string {
+    this.ensureReady();
+    return signatureAlgorithmForDigest(this.signerAlgorithm!, digestAlgorithm).oid;
+  }
+
   /**
    * Get the certificate chain for validation
    * @param includeRoot Whether to include root CA certificate
@@ -167,6 +250,15 @@ export class MockHSMService {
     return chain;
   }
 
+  /**
+   * Get the root CA certificate (trust anchor of every mock certificate)
+   * @returns PEM-encoded X.509 certificate
+   */
+  getRootCertificatePem(): string {
+    this.ensureReady();
+    return this.rootCertPem!;
+  }
+
   /**
    * Get detailed certificate information
    * @throws Error if not initialized
@@ -203,28 +295,47 @@ export class MockHSMService {
   }
 
   /**
-   * Sign arbitrary data using RSASSA-PKCS1-v1_5 with SHA-256
+   * Sign arbitrary data using RSASSA-PKCS1-v1_5, or ECDSA with the hash sized to the curve
+   * (SHA-256 for P-256, SHA-384 for P-384); a stronger digest algorithm raises the hash
    * @param data Data to sign (Buffer or Uint8Array)
-   * @throws Error if not initialized
-   * @returns Promise resolving to signature bytes
+   * @param signatureAlgorithmOid id-RSASSA-PSS to sign RSA-PSS (hash of the digest, at least
+   *   SHA-256, salt as long as the hash) with the RSA signer key; default: the algorithm of the
+   *   signer key
+   * @param digestAlgorithm Digest of the signed attributes (default SHA-256)
+   * @throws Error if not initialized, or for an algorithm the signer key cannot produce
+   * @returns Promise resolving to signature bytes (DER Ecdsa-Sig-Value for ECDSA)
    */
-  async signData(data: Uint8Array | Buffer): Promise<Buffer> {
+  async signData(
+    data: Uint8Array | Buffer,
+    signatureAlgorithmOid?: string,
+    digestAlgorithm?: DigestAlgorithm,
+  ): Promise<Buffer> {
     this.ensureReady();
 
     const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const { name, hash, saltLength } = selectSignatureAlgorithm(
+      signatureAlgorithmForDigest(this.signerAlgorithm!, digestAlgorithm),
+      signatureAlgorithmOid,
+    );
+    const algorithm =
+      name === "RSA-PSS"
+        ? `RSA-PSS-${hash.replace("-", "")}`
+        : `${name === "ECDSA" ? "ECDSA" : "RSA"}-${hash.replace("-", "")}`;
 
     const entry = padesBackendLogger.createLogEntry(
       "info",
       "mock-hsm",
-      "Signing data with RSA-SHA256",
+      `Signing data with ${algorithm}`,
       { dataSize: bytes.length },
     );
     logPAdES(entry);
 
     try {
-      const sig = await this.subtle.sign({ name: "RSASSA-PKCS1-v1_5" }, this.signerKey!, bytes);
+      const key = name === "ECDSA" ? this.signerKey! : await this.rsaSignerKey(name, hash);
+      const sig = await this.subtle.sign({ name, hash, saltLength }, key, bytes);
 
-      const signature = Buffer.from(sig);
+      // WebCrypto ECDSA signatures are raw r||s
+      const signature = name === "ECDSA" ? ecdsaRawToDer(new Uint8Array(sig)) : Buffer.from(sig);
 
       const successEntry = padesBackendLogger.createLogEntry(
         "success",
@@ -232,7 +343,7 @@ export class MockHSMService {
         "Data signed successfully",
         {
           signatureSize: signature.length,
-          algorithm: "RSA-SHA256",
+          algorithm,
         },
       );
       logPAdES(successEntry);
@@ -244,7 +355,7 @@ export class MockHSMService {
       const errorEntry = padesBackendLogger.createLogEntry(
         "error",
         "mock-hsm",
-        `RSA signing failed: ${errorMessage}`,
+        `${algorithm} signing failed: ${errorMessage}`,
       );
       logPAdES(errorEntry);
 
@@ -252,15 +363,47 @@ export class MockHSMService {
     }
   }
 
+  /**
+   * RSA signer key handle for a scheme and hash. A WebCrypto RSA key is bound to both, so the
+   * same key material is imported again for RSA-PSS and for SHA-384/512.
+   */
+  private async rsaSignerKey(
+    name: "RSASSA-PKCS1-v1_5" | "RSA-PSS",
+    hash: DigestAlgorithm,
+  ): Promise<CryptoKey> {
+    const generated = this.signerKey!.algorithm as RsaHashedKeyAlgorithm;
+    if (generated.name === name && generated.hash.name === hash) return this.signerKey!;
+
+    const id = `${name}/${hash}`;
+    let key = this.signerRsaKeys.get(id);
+    if (!key) {
+      key = await this.subtle.importKey(
+        "pkcs8",
+        await this.subtle.exportKey("pkcs8", this.signerKey!),
+        { name, hash },
+        false,
+        ["sign"],
+      );
+      this.signerRsaKeys.set(id, key);
+    }
+    return key;
+  }
+
   /**
    * Sign base64-encoded data (convenience method)
    * @param b64 Base64-encoded data to sign
+   * @param signatureAlgorithmOid Optional id-RSASSA-PSS (see signData)
+   * @param digestAlgorithm Digest of the signed attributes (see signData)
    * @returns Promise resolving to base64-encoded signature
    */
-  async signBase64(b64: string): Promise<string> {
+  async signBase64(
+    b64: string,
+    signatureAlgorithmOid?: string,
+    digestAlgorithm?: DigestAlgorithm,
+  ): Promise<string> {
     try {
       const data = Buffer.from(b64, "base64");
-      const sig = await this.signData(data);
+      const sig = await this.signData(data, signatureAlgorithmOid, digestAlgorithm);
       return sig.toString("base64");
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -285,6 +428,183 @@ export class MockHSMService {
     return this.signData(der);
   }
 
+  /**
+   * Issue a timestamping certificate (critical EKU id-kp-timeStamping) under the mock root CA
+   * @param publicKey TSA public key
+   * @param commonName Subject CN of the TSA
+   * @returns PEM-encoded X.509 certificate
+   */
+  async issueTimestampingCertificate(publicKey: CryptoKey, commonName: string): Promise<string> {
+    this.ensureReady();
+
+    const rootDN = `CN=Mock Root CA, O=${this.cfg.organization}, C=${this.cfg.country}`;
+    const now = new Date();
+    const cert = await this.createCertificate({
+      subject: `CN=${commonName}, O=${this.cfg.organization}, C=${this.cfg.country}`,
+      issuer: rootDN,
+      serialNumber: Math.floor(now.getTime() / 1000), // Regenerated at each start: keep serials unique
+      notBefore: new Date(now.getTime() - 24 * 60 * 60 * 1000), // Tolerates a late TSA clock
+      notAfter: new Date(now.getTime() + this.cfg.validityYears * 365 * 24 * 60 * 60 * 1000),
+      publicKey,
+      signingKey: this.rootKey!,
+      isCA: false,
+      extKeyUsage: [CMS_OIDS.ID_KP_TIME_STAMPING],
+      revocation: { ocsp: true, crl: "root" },
+    });
+    this.issued.set(serialHex(cert), "root");
+
+    const entry = padesBackendLogger.createLogEntry(
+      "success",
+      "mock-hsm",
+      "Issued timestamping certificate",
+      { subject: commonName },
+    );
+    logPAdES(entry);
+
+    return this.certToPem(cert);
+  }
+
+  /**
+   * Revoke a certificate issued by a mock CA (persisted next to the certificates)
+   * @param serialNumber Serial number in hex (colons and case ignored)
+   * @param reason CRLReason name (default "unspecified")
+   * @throws Error for unknown serial numbers or reasons
+   * @returns Revocation entry (the existing one if already revoked)
+   */
+  revokeCertificate(serialNumber: string, reason = "unspecified"): MockRevocationEntry {
+    this.ensureReady();
+
+    const serial = serialNumber.replace(/[^0-9a-f]/gi, "").toUpperCase();
+    const issuer = this.issued.get(serial);
+    if (!issuer) {
+      throw new Error(`Unknown mock certificate serial number: ${serialNumber}`);
+    }
+    if (!Object.values(CRL_REASONS).includes(reason) || reason === "removeFromCRL") {
+      throw new Error(`Unsupported revocation reason: ${reason}`);
+    }
+
+    const existing = this.revocations.find((r) => r.serialNumber === serial);
+    if (existing) return existing;
+
+    const entry: MockRevocationEntry = {
+      serialNumber: serial,
+      issuer,
+      revocationTime: new Date().toISOString(),
+      reason,
+    };
+    this.revocations.push(entry);
+    writeFileSync(this.revocationsPath, JSON.stringify(this.revocations, null, 2));
+
+    const logEntry = padesBackendLogger.createLogEntry(
+      "warning",
+      "mock-hsm",
+      "Revoked mock certificate",
+      { ...entry },
+    );
+    logPAdES(logEntry);
+
+    return entry;
+  }
+
+  /**
+   * Answer a DER OCSPRequest for certificates of the mock CAs (RFC 6960). The issuing CA
+   * signs the response itself and echoes the request nonce.
+   * @returns DER OCSPResponse (malformedRequest / unauthorized for foreign requests)
+   */
+  async respondOcsp(requestDer: Uint8Array): Promise<Buffer> {
+    this.ensureReady();
+
+    let request: OCSPRequest;
+    try {
+      request = OCSPRequest.fromBER(new Uint8Array(requestDer));
+    } catch {
+      return this.ocspError(1); // malformedRequest
+    }
+
+    const requests = request.tbsRequest.requestList;
+    const ca = requests.length > 0 ? this.findIssuingCA(requests[0].reqCert) : undefined;
+    if (!ca) return this.ocspError(6); // unauthorized: not one of our CAs
+
+    const now = new Date();
+    const basic = new BasicOCSPResponse();
+    basic.tbsResponseData.responderID = this.caCerts.get(ca)!.subject;
+    basic.tbsResponseData.producedAt = now;
+    for (const { reqCert } of requests) {
+      basic.tbsResponseData.responses.push(
+        new SingleResponse({
+          certID: reqCert,
+          certStatus: this.ocspCertStatus(reqCert, ca),
+          thisUpdate: now,
+          nextUpdate: new Date(now.getTime() + this.cfg.revocationUpdateMs),
+        }),
+      );
+    }
+    const nonce = request.tbsRequest.requestExtensions?.find(
+      (ext) => ext.extnID === PKIX_OIDS.ID_PKIX_OCSP_NONCE,
+    );
+    if (nonce) basic.tbsResponseData.responseExtensions = [nonce];
+    await basic.sign(this.caKey(ca), this.cfg.hashAlgorithm, this.pki);
+
+    const response = new OCSPResponse({
+      responseStatus: new asn1js.Enumerated({ value: 0 }), // successful
+      responseBytes: new ResponseBytes({
+        responseType: PKIX_OIDS.ID_PKIX_OCSP_BASIC,
+        response: new asn1js.OctetString({ valueHex: basic.toSchema().toBER(false) }),
+      }),
+    });
+    return Buffer.from(response.toSchema().toBER(false));
+  }
+
+  /**
+   * Current CRL of a mock CA, signed by that CA and valid for revocationUpdateMs
+   * @returns DER CertificateList
+   */
+  async getCrlDer(ca: MockCA): Promise<Buffer> {
+    this.ensureReady();
+
+    const now = new Date();
+    const crl = new CertificateRevocationList();
+    crl.version = 1; // v2
+    crl.issuer = this.caCerts.get(ca)!.subject;
+    crl.thisUpdate = new Time({ type: 0, value: now });
+    crl.nextUpdate = new Time({
+      type: 0,
+      value: new Date(now.getTime() + this.cfg.revocationUpdateMs),
+    });
+
+    const revoked = this.revocations.filter((r) => r.issuer === ca);
+    if (revoked.length > 0) {
+      crl.revokedCertificates = revoked.map(
+        (r) =>
+          new RevokedCertificate({
+            userCertificate: new asn1js.Integer({
+              valueHex: new Uint8Array(Buffer.from(r.serialNumber, "hex")),
+            }),
+            revocationDate: new Time({ type: 0, value: new Date(r.revocationTime) }),
+            crlEntryExtensions: new Extensions({
+              extensions: [
+                new Extension({
+                  extnID: PKIX_OIDS.CRL_REASON,
+                  extnValue: new asn1js.Enumerated({ value: reasonCode(r.reason) }).toBER(false),
+                }),
+              ],
+            }),
+          }),
+      );
+    }
+    crl.crlExtensions = new Extensions({
+      extensions: [
+        new Extension({
+          extnID: "2.5.29.20", // CRLNumber: increases with each issued CRL
+          extnValue: new asn1js.Integer({ value: Math.floor(now.getTime() / 1000) }).toBER(false),
+        }),
+      ],
+    });
+    await crl.sign(this.caKey(ca), this.cfg.hashAlgorithm, this.pki);
+
+    return Buffer.from((crl.toSchema() as asn1js.Sequence).toBER(false));
+  }
+
   // ─────────────────── Private Implementation ─────────────────
 
   /**
@@ -297,6 +617,7 @@ export class MockHSMService {
       "Initializing Mock HSM service",
       {
         keySize: this.cfg.keySize,
+        signerKeyAlgorithm: this.cfg.signerKeyAlgorithm,
         validityYears: this.cfg.validityYears,
         certDir: this.cfg.certDir,
       },
@@ -347,6 +668,8 @@ export class MockHSMService {
       await this.generateAndPersist(paths);
     }
 
+    this.signerAlgorithm = signatureAlgorithmForKey(this.pemToCertificate(this.signerCertPem!));
+    this.loadRevocationState();
     this._inited = true;
 
     const readyEntry = padesBackendLogger.createLogEntry(
@@ -367,7 +690,36 @@ export class MockHSMService {
     this.intermediateCertPem = readFileSync(paths.intermediateCert, "utf8");
     this.rootKey = await this.importPkcs8(readFileSync(paths.rootKeyPem, "utf8"));
     this.intermediateKey = await this.importPkcs8(readFileSync(paths.intermediateKeyPem, "utf8"));
-    this.signerKey = await this.importPkcs8(readFileSync(paths.signerKeyPem, "utf8"));
+
+    // Certificates generated before the revocation routes, or for another base URL
+    const signer = this.pemToCertificate(this.signerCertPem);
+    if (!OCSPClient.getResponderUrls(signer).includes(`${this.cfg.revocationBaseUrl}/ocsp`)) {
+      throw new Error("Signer certificate does not point to the mock OCSP responder");
+    }
+    // Signer key generated for another MOCK_HSM_KEY_ALGORITHM
+    if (getNamedCurve(signer) !== KEY_ALGORITHM_CURVES[this.cfg.signerKeyAlgorithm]) {
+      throw new Error(`Signer key is not a ${this.cfg.signerKeyAlgorithm} key`);
+    }
+    this.signerKey = await this.importPkcs8(
+      readFileSync(paths.signerKeyPem, "utf8"),
+      this.signerKeyParams(),
+    );
+  }
+
+  /**
+   * Index the certificates issued by the mock CAs and read the persisted revocations
+   */
+  private loadRevocationState(): void {
+    const root = this.pemToCertificate(this.rootCertPem!);
+    const intermediate = this.pemToCertificate(this.intermediateCertPem!);
+    this.caCerts.set("root", root);
+    this.caCerts.set("intermediate", intermediate);
+    this.issued.set(serialHex(intermediate), "root");
+    this.issued.set(serialHex(this.pemToCertificate(this.signerCertPem!)), "intermediate");
+
+    this.revocations = existsSync(this.revocationsPath)
+      ? (JSON.parse(readFileSync(this.revocationsPath, "utf8")) as MockRevocationEntry[])
+      : [];
   }
 
   /**
@@ -378,7 +730,11 @@ export class MockHSMService {
       "info",
       "mock-hsm",
       "Generating new certificate hierarchy",
-      { algorithm: "RSA-SHA256", keySize: this.cfg.keySize },
+      {
+        algorithm: "RSA-SHA256",
+        keySize: this.cfg.keySize,
+        signerKeyAlgorithm: this.cfg.signerKeyAlgorithm,
+      },
     );
     logPAdES(genEntry);
 
@@ -398,7 +754,7 @@ export class MockHSMService {
       "sign",
       "verify",
     ])) as CryptoKeyPair;
-    const leafKeys = (await this.subtle.generateKey(rsaParams, true, [
+    const leafKeys = (await this.subtle.generateKey(this.signerKeyParams(), true, [
       "sign",
       "verify",
     ])) as CryptoKeyPair;
@@ -418,7 +774,7 @@ export class MockHSMService {
       serialNumber: 1,
       notBefore: now,
       notAfter,
-      keyPair: rootKeys,
+      publicKey: rootKeys.publicKey,
       signingKey: rootKeys.privateKey,
       isCA: true,
     });
@@ -430,9 +786,10 @@ export class MockHSMService {
       serialNumber: 2,
       notBefore: now,
       notAfter,
-      keyPair: intermediateKeys,
+      publicKey: intermediateKeys.publicKey,
       signingKey: rootKeys.privateKey,
       isCA: true,
+      revocation: { crl: "root" },
     });
 
     // Create Leaf (signed by Intermediate) – CA=false with digitalSignature + nonRepudiation
@@ -442,9 +799,10 @@ export class MockHSMService {
       serialNumber: 0x012345, // Fixed serial number for consistency
       notBefore: now,
       notAfter,
-      keyPair: leafKeys,
+      publicKey: leafKeys.publicKey,
       signingKey: intermediateKeys.privateKey,
       isCA: false,
+      revocation: { ocsp: true, crl: "intermediate" },
     });
 
     // Save PEMs
@@ -463,6 +821,9 @@ export class MockHSMService {
     writeFileSync(paths.intermediateKeyPem, this.toPem("PRIVATE KEY", interPkcs8));
     writeFileSync(paths.signerKeyPem, this.toPem("PRIVATE KEY", leafPkcs8));
 
+    // Serial numbers are reused by the new hierarchy: previous revocations no longer apply
+    rmSync(this.revocationsPath, { force: true });
+
     // Keep keys in memory
     this.rootKey = rootKeys.privateKey;
     this.intermediateKey = intermediateKeys.privateKey;
@@ -480,7 +841,7 @@ export class MockHSMService {
    * Create an X.509 certificate using PKI.js
    */
   private async createCertificate(params: {
-    keyPair: CryptoKeyPair;
+    publicKey: CryptoKey;
     signingKey: CryptoKey;
     subject: string;
     issuer: string;
@@ -488,6 +849,8 @@ export class MockHSMService {
     notBefore: Date;
     notAfter: Date;
     isCA: boolean;
+    extKeyUsage?: string[]; // KeyPurposeIds, added as a critical extension
+    revocation?: { ocsp?: boolean; crl: MockCA }; // AIA OCSP URL and CRL distribution point
   }): Promise<Certificate> {
     const cert = new Certificate();
     cert.version = 2; // X.509 v3
@@ -496,7 +859,7 @@ export class MockHSMService {
     cert.subject = this.rdn(params.subject);
     cert.notBefore = new Time({ value: params.notBefore });
     cert.notAfter = new Time({ value: params.notAfter });
-    await cert.subjectPublicKeyInfo.importKey(params.keyPair.publicKey);
+    await cert.subjectPublicKeyInfo.importKey(params.publicKey);
 
     const keyUsageBits = params.isCA
       ? 0x04 /* keyCertSign */ | 0x02 /* cRLSign */
@@ -524,11 +887,123 @@ export class MockHSMService {
       }),
     ];
 
+    if (params.extKeyUsage) {
+      cert.extensions.push(
+        new Extension({
+          extnID: "2.5.29.37", // ExtKeyUsage
+          critical: true,
+          extnValue: new ExtKeyUsage({ keyPurposes: params.extKeyUsage }).toSchema().toBER(false),
+        }),
+      );
+    }
+
+    if (params.revocation) {
+      const { ocsp, crl } = params.revocation;
+      const baseUrl = this.cfg.revocationBaseUrl;
+      if (ocsp) {
+        cert.extensions.push(
+          new Extension({
+            extnID: PKIX_OIDS.AUTHORITY_INFO_ACCESS,
+            extnValue: new InfoAccess({
+              accessDescriptions: [
+                new AccessDescription({
+                  accessMethod: PKIX_OIDS.AD_OCSP,
+                  accessLocation: new GeneralName({ type: 6, value: `${baseUrl}/ocsp` }),
+                }),
+              ],
+            })
+              .toSchema()
+              .toBER(false),
+          }),
+        );
+      }
+      cert.extensions.push(
+        new Extension({
+          extnID: PKIX_OIDS.CRL_DISTRIBUTION_POINTS,
+          extnValue: new CRLDistributionPoints({
+            distributionPoints: [
+              new DistributionPoint({
+                distributionPoint: [
+                  new GeneralName({ type: 6, value: `${baseUrl}/crl/${crl}.crl` }),
+                ],
+              }),
+            ],
+          })
+            .toSchema()
+            .toBER(false),
+        }),
+      );
+    }
+
     // Sign the certificate
     await cert.sign(params.signingKey, this.cfg.hashAlgorithm, this.pki);
     return cert;
   }
 
+  /**
+   * Mock CA matching the issuerNameHash / issuerKeyHash of an OCSP CertID
+   */
+  private findIssuingCA(certId: CertID): MockCA | undefined {
+    const hash = CERT_ID_HASHES[certId.hashAlgorithm.algorithmId];
+    if (!hash) return undefined;
+
+    const digest = (data: ArrayBuffer | Uint8Array) =>
+      createHash(hash).update(new Uint8Array(data)).digest();
+    const nameHash = Buffer.from(certId.issuerNameHash.valueBlock.valueHexView);
+    const keyHash = Buffer.from(certId.issuerKeyHash.valueBlock.valueHexView);
+
+    for (const [ca, cert] of this.caCerts) {
+      const caKey = cert.subjectPublicKeyInfo.subjectPublicKey.valueBlock.valueHexView;
+      if (
+        digest(cert.subject.toSchema().toBER(false)).equals(nameHash) &&
+        digest(caKey).equals(keyHash)
+      ) {
+        return ca;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * CertStatus ::= CHOICE { good [0], revoked [1] RevokedInfo, unknown [2] }
+   */
+  private ocspCertStatus(certId: CertID, ca: MockCA): asn1js.BaseBlock {
+    const serial = Buffer.from(certId.serialNumber.valueBlock.valueHexView)
+      .toString("hex")
+      .toUpperCase();
+    const revoked = this.revocations.find((r) => r.serialNumber === serial && r.issuer === ca);
+
+    if (revoked) {
+      return new asn1js.Constructed({
+        idBlock: { tagClass: 3, tagNumber: 1 },
+        value: [
+          new asn1js.GeneralizedTime({ valueDate: new Date(revoked.revocationTime) }),
+          new asn1js.Constructed({
+            idBlock: { tagClass: 3, tagNumber: 0 },
+            value: [new asn1js.Enumerated({ value: reasonCode(revoked.reason) })],
+          }),
+        ],
+      });
+    }
+
+    return new asn1js.Primitive({
+      idBlock: { tagClass: 3, tagNumber: this.issued.get(serial) === ca ? 0 : 2 },
+      lenBlock: { length: 1 },
+    });
+  }
+
+  /** OCSPResponse without responseBytes (RFC 6960 §4.2.1 error statuses) */
+  private ocspError(status: number): Buffer {
+    const response = new OCSPResponse({
+      responseStatus: new asn1js.Enumerated({ value: status }),
+    });
+    return Buffer.from(response.toSchema().toBER(false));
+  }
+
+  private caKey(ca: MockCA): CryptoKey {
+    return ca === "root" ? this.rootKey! : this.intermediateKey!;
+  }
+
   /**
    * Parse Distinguished Name string into PKI.js structure
    * @param dn Distinguished name string (e.g., "CN=Test, O=Org, C=US")
@@ -573,17 +1048,31 @@ export class MockHSMService {
   }
 
   /**
-   * Import PKCS#8 PEM private key for signing
+   * Key generation / import parameters of the signer key
    */
-  private importPkcs8(pem: string): Promise<CryptoKey> {
+  private signerKeyParams(): RsaHashedKeyGenParams | EcKeyGenParams {
+    const namedCurve = KEY_ALGORITHM_CURVES[this.cfg.signerKeyAlgorithm];
+    if (namedCurve) return { name: "ECDSA", namedCurve };
+    return {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: this.cfg.keySize,
+      publicExponent: new Uint8Array([0x01, 0x00, 0x01]), // 65537
+      hash: this.cfg.hashAlgorithm,
+    };
+  }
+
+  /**
+   * Import PKCS#8 PEM private key for signing (RSA CA keys by default)
+   */
+  private importPkcs8(
+    pem: string,
+    algorithm: RsaHashedImportParams | EcKeyImportParams = {
+      name: "RSASSA-PKCS1-v1_5",
+      hash: this.cfg.hashAlgorithm,
+    },
+  ): Promise<CryptoKey> {
     const der = this.fromPem(pem);
-    return this.subtle.importKey(
-      "pkcs8",
-      der,
-      { name: "RSASSA-PKCS1-v1_5", hash: this.cfg.hashAlgorithm },
-      true,
-      ["sign"],
-    );
+    return this.subtle.importKey("pkcs8", der, algorithm, true, ["sign"]);
   }
 
   /**
@@ -594,6 +1083,13 @@ export class MockHSMService {
     return this.toPem("CERTIFICATE", der);
   }
 
+  /**
+   * Parse PEM certificate into PKI.js structure
+   */
+  private pemToCertificate(pem: string): Certificate {
+    return Certificate.fromBER(new Uint8Array(this.fromPem(pem)));
+  }
+
   /**
    * Convert binary data to PEM format
    */
@@ -627,3 +1123,14 @@ export class MockHSMService {
     );
   }
 }
+
+/** Serial number as uppercase hex (matches X509Certificate.serialNumber) */
+function serialHex(cert: Certificate): string {
+  return Buffer.from(cert.serialNumber.valueBlock.valueHexView).toString("hex").toUpperCase();
+}
+
+/** CRLReason code of a reason name (0 "unspecified" when unknown) */
+function reasonCode(reason: string): number {
+  const entry = Object.entries(CRL_REASONS).find(([, name]) => name === reason);
+  return entry ? Number(entry[0]) : 0;
+}
@@ -0,0 +1,103 @@
+import * as asn1js from "asn1js";
+import { Certificate, MessageImprint, TimeStampReq, TimeStampResp } from "pkijs";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.stubEnv("LOG_LEVEL", "error");
+
+import { MockHSMService } from "./mock-hsm-service";
+import { MOCK_TSA_POLICY_OID, MockTSAService } from "./mock-tsa-service";
+import { requestTimestamp } from "./timestamp-service";
+import { TimestampValidator } from "./timestamp-validator";
+
+/** Route fetch() to the mock TSA, like POST /api/mock/tsa */
+function serveOverFetch(tsa: MockTSAService): void {
+  vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+    const responseDer = await tsa.respond(init.body as Buffer);
+    return new Response(new Uint8Array(responseDer), {
+      headers: { "Content-Type": "application/timestamp-reply" },
+    });
+  });
+}
+
+describe("MockTSAService", () => {
+  const data = Buffer.from("CMS signature value");
+  let mockHSM: MockHSMService;
+  let mockTSA: MockTSAService;
+  let root: Certificate;
+
+  beforeAll(async () => {
+    mockHSM = new MockHSMService();
+    mockTSA = new MockTSAService(mockHSM);
+    await mockTSA.ready;
+    const der = Buffer.from(
+      mockHSM
+        .getRootCertificatePem()
+        .replace(/-----[^-]+-----/g, "")
+        .replace(/\s+/g, ""),
+      "base64",
+    );
+    root = new Certificate({ schema: asn1js.fromBER(new Uint8Array(der)).result });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should issue tokens that chain to the mock root", async () => {
+    serveOverFetch(mockTSA);
+    const nonce = Buffer.from("0102030405060708", "hex");
+
+    const response = await requestTimestamp({ data, tsaUrl: "http://mock/tsa", nonce });
+    const validation = await new TimestampValidator({
+      allowedPolicies: [MOCK_TSA_POLICY_OID],
+      trustedRoots: [root],
+    }).validate(response.timestampToken, { data: new Uint8Array(data), nonce });
+
+    expect(validation.reasons).toEqual([]);
+    expect(validation).toMatchObject({
+      isValid: true,
+      tsaName: "Mock TSA",
+      policy: MOCK_TSA_POLICY_OID,
+      accuracy: "±1s",
+      nonceMatches: true,
+      chainValid: true,
+    });
+    expect(response.accuracy).toBe("±1s");
+  });
+
+  it("should shift genTime by the configured clock skew", async () => {
+    const skewed = new MockTSAService(mockHSM, { clockSkewMs: -3600_000, accuracy: {} });
+    await skewed.ready;
+    serveOverFetch(skewed);
+
+    const response = await requestTimestamp({ data, tsaUrl: "http://mock/tsa" });
+
+    const skew = new Date(response.timestampTime).getTime() - Date.now();
+    expect(skew).toBeLessThan(-3500_000);
+    expect(skew).toBeGreaterThan(-3700_000);
+    expect(response.accuracy).toBeUndefined();
+  });
+
+  it("should reject requests for another policy", async () => {
+    const request = new TimeStampReq({
+      version: 1,
+      messageImprint: await MessageImprint.create("SHA-256", new Uint8Array(data)),
+      reqPolicy: "1.2.3.4",
+    });
+
+    const responseDer = await mockTSA.respond(new Uint8Array(request.toSchema().toBER(false)));
+    const response = TimeStampResp.fromBER(new Uint8Array(responseDer));
+
+    expect(response.status.status).toBe(2); // rejection
+    expect(response.status.statusStrings?.[0].valueBlock.value).toBe("Unaccepted policy 1.2.3.4");
+    expect(response.timeStampToken).toBeUndefined();
+  });
+
+  it("should reject malformed requests", async () => {
+    const responseDer = await mockTSA.respond(Buffer.from("not DER"));
+    const response = TimeStampResp.fromBER(new Uint8Array(responseDer));
+
+    expect(response.status.status).toBe(2);
+    expect(response.status.statusStrings?.[0].valueBlock.value).toBe("Malformed TimeStampReq");
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Mock Time-Stamp Authority (RFC 3161) for development and offline testing
+ *
+ * Stands in for a remote TSA such as freetsa.org: its certificate is issued under the
+ * MockHSMService root CA and it answers DER TimeStampReq with DER TimeStampResp, so full
+ * B-T / B-LTA flows can run without network access.
+ *
+ * Key features:
+ * - Critical id-kp-timeStamping EKU and ESS signing-certificate-v2 binding
+ * - Nonce echo, certReq handling and requested policy checks
+ * - Configurable accuracy, policy OIDs and clock skew (shifts genTime)
+ *
+ * @example
+ * const tsa = new MockTSAService(mockHSM);
+ * await tsa.ready;
+ * const responseDer = await tsa.respond(requestDer);
+ */
+
+import { createHash, webcrypto as nodeWebcrypto } from "node:crypto";
+
+import { CMS_OIDS } from "@pades-poc/shared";
+import * as asn1js from "asn1js";
+import {
+  Accuracy,
+  AlgorithmIdentifier,
+  Attribute,
+  Certificate,
+  ContentInfo,
+  EncapsulatedContentInfo,
+  IssuerAndSerialNumber,
+  PKIStatus,
+  PKIStatusInfo,
+  SignedAndUnsignedAttributes,
+  SignedData,
+  SignerInfo,
+  TSTInfo,
+  TimeStampReq,
+  TimeStampResp,
+} from "pkijs";
+
+import { logPAdES, padesBackendLogger } from "../logger";
+
+import { pemToDer } from "./crypto-utils";
+
+import type { MockHSMService } from "./mock-hsm-service";
+
+export interface MockTSAConfig {
+  tsaName: string; // Subject CN of the TSA certificate
+  policies: string[]; // Accepted policy OIDs; the first one applies when the request names none
+  accuracy: { seconds?: number; millis?: number; micros?: number };
+  clockSkewMs: number; // Offset of the TSA clock (negative: late clock)
+}
+
+/** Policy OID of the mock TSA (2.999: ITU-T/ISO example arc) */
+export const MOCK_TSA_POLICY_OID = "2.999.1.1";
+
+const DEFAULTS: MockTSAConfig = {
+  tsaName: "Mock TSA",
+  policies: [MOCK_TSA_POLICY_OID],
+  accuracy: { seconds: 1 },
+  clockSkewMs: 0,
+};
+
+/** PKIFailureInfo bits (RFC 3161 §2.4.2) */
+const FAILURE = {
+  badAlg: 0,
+  badDataFormat: 5,
+  unacceptedPolicy: 15,
+} as const;
+
+/** Digest lengths of the messageImprint algorithms the mock TSA accepts */
+const DIGEST_LENGTHS: Record<string, number> = {
+  "2.16.840.1.101.3.4.2.1": 32, // SHA-256
+  "2.16.840.1.101.3.4.2.2": 48, // SHA-384
+  "2.16.840.1.101.3.4.2.3": 64, // SHA-512
+};
+
+/**
+ * Mock Time-Stamp Authority signing with an RSA key certified by the mock root CA.
+ * Not suitable for production use.
+ */
+export class MockTSAService {
+  /**
+   * Initialization promise - await this before using the service
+   */
+  public readonly ready: Promise<void>;
+
+  private _inited = false;
+  private readonly cfg: MockTSAConfig;
+  private readonly subtle = nodeWebcrypto.subtle;
+
+  private certificate?: Certificate;
+  private certificatePem?: string;
+  private rootCertificate?: Certificate;
+  private privateKey?: CryptoKey;
+  private serialNumber = Date.now();
+
+  /**
+   * @param hsm Mock HSM whose root CA issues the TSA certificate
+   * @param cfg Partial configuration (merged with defaults)
+   */
+  constructor(
+    private readonly hsm: MockHSMService,
+    cfg: Partial<MockTSAConfig> = {},
+  ) {
+    this.cfg = { ...DEFAULTS, ...cfg };
+    this.ready = this.init();
+  }
+
+  isInitialized(): boolean {
+    return this._inited;
+  }
+
+  /**
+   * TSA certificate in PEM format (chains to the mock root CA)
+   */
+  getCertificatePem(): string {
+    this.ensureReady();
+    return this.certificatePem!;
+  }
+
+  /**
+   * Answer a DER TimeStampReq with a DER TimeStampResp: granted with a token, or rejected
+   * with a PKIFailureInfo for malformed requests, unknown hash algorithms and policies.
+   */
+  async respond(requestDer: Uint8Array): Promise<Buffer> {
+    this.ensureReady();
+
+    let request: TimeStampReq;
+    try {
+      const asn1 = asn1js.fromBER(new Uint8Array(requestDer));
+      if (asn1.offset === -1) throw new Error("Invalid ASN.1");
+      request = new TimeStampReq({ schema: asn1.result });
+    } catch {
+      return this.reject(FAILURE.badDataFormat, "Malformed TimeStampReq");
+    }
+
+    const { hashAlgorithm, hashedMessage } = request.messageImprint;
+    if (
+      DIGEST_LENGTHS[hashAlgorithm.algorithmId] !== hashedMessage.valueBlock.valueHexView.length
+    ) {
+      return this.reject(FAILURE.badAlg, `Unsupported hash algorithm ${hashAlgorithm.algorithmId}`);
+    }
+
+    const policy = request.reqPolicy ?? this.cfg.policies[0];
+    if (!this.cfg.policies.includes(policy)) {
+      return this.reject(FAILURE.unacceptedPolicy, `Unaccepted policy ${policy}`);
+    }
+
+    const token = await this.createToken(request, policy);
+    const response = new TimeStampResp({
+      status: new PKIStatusInfo({ status: PKIStatus.granted }),
+      timeStampToken: token,
+    });
+
+    const entry = padesBackendLogger.createLogEntry("success", "mock-hsm", "Mock TSA granted", {
+      policy,
+      nonce: !!request.nonce,
+      certReq: !!request.certReq,
+    });
+    logPAdES(entry);
+
+    return Buffer.from(response.toSchema().toBER(false));
+  }
+
+  // ─────────────────── Private Implementation ─────────────────
+
+  private async init(): Promise<void> {
+    await this.hsm.ready;
+
+    const keys = (await this.subtle.generateKey(
+      {
+        name: "RSASSA-PKCS1-v1_5",
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([0x01, 0x00, 0x01]), // 65537
+        hash: "SHA-256",
+      },
+      false,
+      ["sign", "verify"],
+    )) as CryptoKeyPair;
+
+    this.certificatePem = await this.hsm.issueTimestampingCertificate(
+      keys.publicKey,
+      this.cfg.tsaName,
+    );
+    this.certificate = Certificate.fromBER(new Uint8Array(pemToDer(this.certificatePem)));
+    this.rootCertificate = Certificate.fromBER(
+      new Uint8Array(pemToDer(this.hsm.getRootCertificatePem())),
+    );
+    this.privateKey = keys.privateKey;
+    this._inited = true;
+
+    const entry = padesBackendLogger.createLogEntry("success", "mock-hsm", "Mock TSA ready", {
+      tsaName: this.cfg.tsaName,
+      policies: this.cfg.policies,
+      clockSkewMs: this.cfg.clockSkewMs,
+    });
+    logPAdES(entry);
+  }
+
+  /**
+   * TimeStampToken: SignedData over TSTInfo, signed attributes with an ESS
+   * signing-certificate-v2 binding; the TSA chain is embedded when requested.
+   */
+  private async createToken(request: TimeStampReq, policy: string): Promise<ContentInfo> {
+    const cert = this.certificate!;
+    const { accuracy } = this.cfg;
+
+    const tstInfo = new TSTInfo({
+      version: 1,
+      policy,
+      messageImprint: request.messageImprint,
+      serialNumber: new asn1js.Integer({ value: this.serialNumber++ }),
+      genTime: new Date(Date.now() + this.cfg.clockSkewMs),
+      ...(Object.values(accuracy).some(Boolean) && { accuracy: new Accuracy(accuracy) }),
+      ...(request.nonce && { nonce: request.nonce }),
+    });
+    const tstInfoDer = tstInfo.toSchema().toBER(false);
+    const certDer = cert.toSchema().toBER(false);
+
+    const signedData = new SignedData({
+      version: 3,
+      encapContentInfo: new EncapsulatedContentInfo({
+        eContentType: CMS_OIDS.ID_CT_TST_INFO,
+        eContent: new asn1js.OctetString({ valueHex: tstInfoDer }),
+      }),
+      signerInfos: [
+        new SignerInfo({
+          version: 1,
+          sid: new IssuerAndSerialNumber({
+            issuer: cert.issuer,
+            serialNumber: cert.serialNumber,
+          }),
+          signedAttrs: new SignedAndUnsignedAttributes({
+            type: 0,
+            attributes: [
+              new Attribute({
+                type: CMS_OIDS.ID_CONTENT_TYPE,
+                values: [new asn1js.ObjectIdentifier({ value: CMS_OIDS.ID_CT_TST_INFO })],
+              }),
+              new Attribute({
+                type: CMS_OIDS.ID_MESSAGE_DIGEST,
+                values: [new asn1js.OctetString({ valueHex: sha256(tstInfoDer) })],
+              }),
+              new Attribute({
+                type: CMS_OIDS.ID_SIGNING_CERTIFICATE_V2,
+                // SigningCertificateV2 { certs: [ESSCertIDv2 { certHash (SHA-256 default) }] }
+                values: [
+                  new asn1js.Sequence({
+                    value: [
+                      new asn1js.Sequence({
+                        value: [
+                          new asn1js.Sequence({
+                            value: [new asn1js.OctetString({ valueHex: sha256(certDer) })],
+                          }),
+                        ],
+                      }),
+                    ],
+                  }),
+                ],
+              }),
+            ],
+          }),
+        }),
+      ],
+      certificates: request.certReq ? [cert, this.rootCertificate!] : undefined,
+      digestAlgorithms: [new AlgorithmIdentifier({ algorithmId: "2.16.840.1.101.3.4.2.1" })],
+    });
+    await signedData.sign(this.privateKey!, 0, "SHA-256");
+
+    return new ContentInfo({
+      contentType: CMS_OIDS.ID_SIGNED_DATA,
+      content: signedData.toSchema(true),
+    });
+  }
+
+  /** TimeStampResp with status "rejection" and a single PKIFailureInfo bit */
+  private reject(failureBit: number, reason: string): Buffer {
+    const failInfo = new Uint8Array(Math.floor(failureBit / 8) + 1);
+    failInfo[failInfo.length - 1] = 0x80 >> failureBit % 8;
+
+    const response = new TimeStampResp({
+      status: new PKIStatusInfo({
+        status: PKIStatus.rejection,
+        statusStrings: [new asn1js.Utf8String({ value: reason })],
+        failInfo: new asn1js.BitString({ valueHex: failInfo, unusedBits: 7 - (failureBit % 8) }),
+      }),
+    });
+
+    const entry = padesBackendLogger.createLogEntry(
+      "warning",
+      "mock-hsm",
+      `Mock TSA rejected request: ${reason}`,
+    );
+    logPAdES(entry);
+
+    return Buffer.from(response.toSchema().toBER(false));
+  }
+
+  private ensureReady(): void {
+    if (!this._inited) {
+      throw new Error("Mock TSA not initialized - await mockTSA.ready before use");
+    }
+  }
+}
+
+function sha256(data: ArrayBuffer): ArrayBuffer {
+  return new Uint8Array(createHash("sha256").update(Buffer.from(data)).digest()).buffer;
+}
@@ -0,0 +1,234 @@
+import { PKIX_OIDS } from "@pades-poc/shared";
+import * as asn1js from "asn1js";
+import {
+  BasicOCSPResponse,
+  Extension,
+  OCSPRequest,
+  OCSPResponse,
+  ResponseBytes,
+  SingleResponse,
+} from "pkijs";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.stubEnv("LOG_LEVEL", "error");
+
+import { CertificateChainValidator } from "./certificate-chain-validator";
+import { OCSPClient } from "./ocsp-client";
+import { HOUR, authorityInfoAccess, extKeyUsage, issueCert } from "./test-pki";
+
+import type { TestCert } from "./test-pki";
+import type { Certificate } from "pkijs";
+
+const OCSP_URL = "http://ocsp.test/";
+
+/** End-entity certificate issued by `ca`, with the responder URL in its AIA */
+function issueLeaf(commonName: string, ca: TestCert, extensions: Extension[] = []) {
+  return issueCert(commonName, {
+    issuer: ca,
+    extensions: [authorityInfoAccess(PKIX_OIDS.AD_OCSP, OCSP_URL), ...extensions],
+  });
+}
+
+interface ResponderBehaviour {
+  status: "good" | "revoked" | "unknown";
+  signer: TestCert;
+  certs?: Certificate[];
+  nonce?: "echo" | "omit" | "wrong";
+}
+
+/** Answer an OCSPRequest like a responder would */
+async function respond(
+  requestDer: Uint8Array,
+  behaviour: ResponderBehaviour,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const request = OCSPRequest.fromBER(new Uint8Array(requestDer));
+  const requestNonce = request.tbsRequest.requestExtensions?.find(
+    (ext) => ext.extnID === PKIX_OIDS.ID_PKIX_OCSP_NONCE,
+  );
+
+  const certStatus = {
+    good: new asn1js.Primitive({ idBlock: { tagClass: 3, tagNumber: 0 }, lenBlock: { length: 1 } }),
+    revoked: new asn1js.Constructed({
+      idBlock: { tagClass: 3, tagNumber: 1 },
+      value: [
+        new asn1js.GeneralizedTime({ valueDate: new Date("2025-03-01T10:00:00Z") }),
+        new asn1js.Constructed({
+          idBlock: { tagClass: 3, tagNumber: 0 },
+          value: [new asn1js.Enumerated({ value: 1 })], // keyCompromise
+        }),
+      ],
+    }),
+    unknown: new asn1js.Primitive({
+      idBlock: { tagClass: 3, tagNumber: 2 },
+      lenBlock: { length: 1 },
+    }),
+  }[behaviour.status];
+
+  const basic = new BasicOCSPResponse();
+  basic.tbsResponseData.responderID = behaviour.signer.cert.subject;
+  basic.tbsResponseData.producedAt = new Date();
+  basic.tbsResponseData.responses.push(
+    new SingleResponse({
+      certID: request.tbsRequest.requestList[0].reqCert,
+      certStatus,
+      thisUpdate: new Date(),
+    }),
+  );
+  if (requestNonce && behaviour.nonce !== "omit") {
+    basic.tbsResponseData.responseExtensions = [
+      behaviour.nonce === "wrong"
+        ? new Extension({
+            extnID: PKIX_OIDS.ID_PKIX_OCSP_NONCE,
+            extnValue: new asn1js.OctetString({ valueHex: new Uint8Array(16) }).toBER(false),
+          })
+        : requestNonce,
+    ];
+  }
+  basic.certs = behaviour.certs;
+  await basic.sign(behaviour.signer.keys.privateKey, "SHA-256");
+
+  const response = new OCSPResponse({
+    responseStatus: new asn1js.Enumerated({ value: 0 }),
+    responseBytes: new ResponseBytes({
+      responseType: PKIX_OIDS.ID_PKIX_OCSP_BASIC,
+      response: new asn1js.OctetString({ valueHex: basic.toSchema().toBER(false) }),
+    }),
+  });
+  return new Uint8Array(response.toSchema().toBER(false));
+}
+
+function serveOcsp(behaviour: ResponderBehaviour): void {
+  vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+    return new Response(await respond(init.body as Uint8Array, behaviour), {
+      headers: { "Content-Type": "application/ocsp-response" },
+    });
+  });
+}
+
+describe("OCSPClient", () => {
+  const client = new OCSPClient();
+  let ca: TestCert;
+  let leaf: TestCert;
+
+  beforeAll(async () => {
+    ca = await issueCert("Test CA");
+    leaf = await issueLeaf("Test Signer", ca);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should read the responder URL from the AIA extension", () => {
+    expect(OCSPClient.getResponderUrls(leaf.cert)).toEqual([OCSP_URL]);
+    expect(OCSPClient.getResponderUrls(ca.cert)).toEqual([]);
+  });
+
+  it("should report a good certificate answered by the issuing CA", async () => {
+    serveOcsp({ status: "good", signer: ca });
+
+    const result = await client.check(leaf.cert, ca.cert);
+
+    expect(result).toMatchObject({ status: "good", source: "ocsp", responderUrl: OCSP_URL });
+    expect(result.responseDer?.length).toBeGreaterThan(0);
+  });
+
+  it("should report revocation time and reason", async () => {
+    serveOcsp({ status: "revoked", signer: ca });
+
+    const result = await client.check(leaf.cert, ca.cert);
+
+    expect(result.status).toBe("revoked");
+    expect(result.revocationTime?.toISOString()).toBe("2025-03-01T10:00:00.000Z");
+    expect(result.revocationReason).toBe("keyCompromise");
+  });
+
+  it("should accept a delegated responder with id-kp-OCSPSigning", async () => {
+    const responder = await issueLeaf("Test OCSP Responder", ca, [
+      extKeyUsage([PKIX_OIDS.ID_KP_OCSP_SIGNING]),
+    ]);
+    serveOcsp({ status: "good", signer: responder, certs: [responder.cert], nonce: "omit" });
+
+    const result = await client.check(leaf.cert, ca.cert);
+
+    expect(result.status).toBe("good");
+  });
+
+  it("should not trust responders the issuer did not authorise", async () => {
+    const withoutEku = await issueLeaf("Rogue Responder", ca);
+    serveOcsp({ status: "revoked", signer: withoutEku, certs: [withoutEku.cert] });
+    const unauthorised = await client.check(leaf.cert, ca.cert);
+
+    const otherCa = await issueCert("Other CA");
+    const foreign = await issueLeaf("Foreign Responder", otherCa, [
+      extKeyUsage([PKIX_OIDS.ID_KP_OCSP_SIGNING]),
+    ]);
+    serveOcsp({ status: "revoked", signer: foreign, certs: [foreign.cert] });
+    const notIssued = await client.check(leaf.cert, ca.cert);
+
+    expect(unauthorised).toMatchObject({
+      status: "unknown",
+      reason: "OCSP responder is not authorised (missing id-kp-OCSPSigning)",
+    });
+    expect(notIssued).toMatchObject({
+      status: "unknown",
+      reason: "OCSP responder certificate is not issued by the certificate issuer",
+    });
+  });
+
+  it("should reject a response with another nonce", async () => {
+    serveOcsp({ status: "good", signer: ca, nonce: "wrong" });
+
+    const result = await client.check(leaf.cert, ca.cert);
+
+    expect(result).toMatchObject({
+      status: "unknown",
+      reason: "OCSP response nonce does not match the request",
+    });
+  });
+
+  it("should answer from embedded responses before going online", async () => {
+    serveOcsp({ status: "good", signer: ca });
+    const { responseDer } = await client.check(leaf.cert, ca.cert);
+    const other = await issueLeaf("Other Signer", ca);
+    serveOcsp({ status: "good", signer: ca });
+    const { responseDer: otherDer } = await client.check(other.cert, ca.cert);
+    const fetchMock = vi.fn(() => Promise.reject(new Error("offline")));
+    vi.stubGlobal("fetch", fetchMock);
+    const validator = new CertificateChainValidator({ checkKeyUsage: false });
+
+    const result = await validator.validateChain([leaf.cert, ca.cert], leaf.cert, [], new Date(), {
+      ocspResponses: [otherDer!, responseDer!],
+      crls: [],
+    });
+
+    expect(result.certificates[0].revocation).toMatchObject({ status: "good", embedded: true });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    // Archived responses no longer current at the validation time are not used
+    const later = await client.checkEmbedded(
+      [responseDer!],
+      leaf.cert,
+      ca.cert,
+      new Date(Date.now() + 24 * HOUR),
+    );
+    expect(later.status).toBe("unknown");
+  });
+
+  it("should surface revocation per certificate in the chain result", async () => {
+    serveOcsp({ status: "revoked", signer: ca });
+    const validator = new CertificateChainValidator({ checkKeyUsage: false });
+
+    const result = await validator.validateChain([leaf.cert, ca.cert], leaf.cert);
+
+    expect(result.isValid).toBe(false);
+    expect(result.certificates[0].revocation).toMatchObject({
+      status: "revoked",
+      revocationReason: "keyCompromise",
+    });
+    expect(result.certificates[1].revocation).toBeUndefined(); // root
+    expect(result.reasons).toContain(
+      "Certificate CN=Test Signer was revoked on 2025-03-01T10:00:00.000Z (keyCompromise)",
+    );
+  });
+});
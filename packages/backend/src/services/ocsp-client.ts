@@ -0,0 +1,356 @@
+/**
+ * OCSP client (RFC 6960) for certificate revocation checking
+ *
+ * Reads the responder URL from the certificate AIA extension, posts an OCSPRequest with a
+ * nonce, and only trusts the answer once the BasicOCSPResponse signature verifies with a
+ * responder authorised for the issuer: the issuing CA itself, or a delegated responder
+ * certificate issued by that CA with the id-kp-OCSPSigning extended key usage.
+ */
+
+import { randomBytes, webcrypto as nodeWebcrypto } from "crypto";
+
+import { CRL_REASONS, PKIX_OIDS } from "@pades-poc/shared";
+import * as asn1js from "asn1js";
+import {
+  BasicOCSPResponse,
+  CertID,
+  Extension,
+  OCSPRequest,
+  OCSPResponse,
+  RelativeDistinguishedNames,
+  getCrypto,
+} from "pkijs";
+
+import { bytesEq, getSubjectCN } from "./pki-utils";
+
+import type { RevocationInfo } from "./certificate-chain-validator";
+import type { LogEntry } from "@pades-poc/shared";
+import type { Certificate, InfoAccess } from "pkijs";
+
+export interface OCSPClientOptions {
+  /** HTTP timeout per request */
+  timeoutMs?: number;
+  /** Send a nonce extension; a nonce echoed by the responder must match */
+  useNonce?: boolean;
+  /** Tolerated clock difference for thisUpdate/nextUpdate */
+  maxClockSkewMs?: number;
+}
+
+export interface OCSPCheckResult extends RevocationInfo {
+  /** DER OCSPResponse, for embedding in the DSS (B-LT) */
+  responseDer?: Buffer;
+}
+
+const DEFAULT_OPTIONS: Required<OCSPClientOptions> = {
+  timeoutMs: 10_000,
+  useNonce: true,
+  maxClockSkewMs: 5 * 60 * 1000,
+};
+
+/** OCSPResponseStatus (RFC 6960 §4.2.1) */
+const RESPONSE_STATUSES: Record<number, string> = {
+  1: "malformedRequest",
+  2: "internalError",
+  3: "tryLater",
+  5: "sigRequired",
+  6: "unauthorized",
+};
+
+/**
+ * OCSP client checking one certificate against its issuer
+ */
+export class OCSPClient {
+  private options: Required<OCSPClientOptions>;
+
+  constructor(options: OCSPClientOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Responder URLs listed in the AIA extension (id-ad-ocsp, http/https only)
+   */
+  static getResponderUrls(cert: Certificate): string[] {
+    const aia = cert.extensions?.find((ext) => ext.extnID === PKIX_OIDS.AUTHORITY_INFO_ACCESS);
+    const infoAccess = aia?.parsedValue as InfoAccess | undefined;
+    return (infoAccess?.accessDescriptions ?? [])
+      .filter((d) => d.accessMethod === PKIX_OIDS.AD_OCSP && d.accessLocation.type === 6)
+      .map((d) => String(d.accessLocation.value))
+      .filter((url) => /^https?:\/\//.test(url));
+  }
+
+  /**
+   * Check the revocation status of `cert`. Never throws: failures give status "unknown"
+   * with the reason.
+   */
+  async check(cert: Certificate, issuer: Certificate, logs?: LogEntry[]): Promise<OCSPCheckResult> {
+    const subject = getSubjectCN(cert);
+    const urls = OCSPClient.getResponderUrls(cert);
+    if (urls.length === 0) {
+      return { status: "unknown", reason: "No OCSP responder in the AIA extension" };
+    }
+
+    let result: OCSPCheckResult = { status: "unknown" };
+    for (const url of urls) {
+      try {
+        result = await this.query(url, cert, issuer);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : "Unknown error";
+        result = { status: "unknown", source: "ocsp", responderUrl: url, reason: errorMsg };
+      }
+
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: result.status === "good" ? "success" : "warning",
+        source: "backend",
+        message: `OCSP status for ${subject}: ${result.status}`,
+        context: {
+          responderUrl: url,
+          revocationTime: result.revocationTime?.toISOString(),
+          revocationReason: result.revocationReason,
+          reason: result.reason,
+        },
+      });
+
+      if (result.status !== "unknown") break; // Try the next responder only when inconclusive
+    }
+
+    return result;
+  }
+
+  /**
+   * Status of `cert` from OCSP responses stored in the document (DSS), without going online:
+   * the first response covering the certificate and current at `validationTime`. Status
+   * "unknown" when none qualifies.
+   */
+  async checkEmbedded(
+    responses: Buffer[],
+    cert: Certificate,
+    issuer: Certificate,
+    validationTime: Date,
+    logs?: LogEntry[],
+  ): Promise<OCSPCheckResult> {
+    for (const responseDer of responses) {
+      const result = await this.readResponse(responseDer, cert, issuer, validationTime).catch(
+        () => undefined,
+      );
+      if (!result || result.status === "unknown") continue;
+      // Without nextUpdate, a response only speaks for its thisUpdate
+      const currentUntil = result.nextUpdate ?? result.thisUpdate!;
+      if (currentUntil.getTime() < validationTime.getTime() - this.options.maxClockSkewMs) continue;
+
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: result.status === "good" ? "success" : "warning",
+        source: "backend",
+        message: `Embedded OCSP status for ${getSubjectCN(cert)}: ${result.status}`,
+        context: {
+          thisUpdate: result.thisUpdate?.toISOString(),
+          revocationTime: result.revocationTime?.toISOString(),
+          revocationReason: result.revocationReason,
+        },
+      });
+      return { ...result, embedded: true };
+    }
+    return { status: "unknown", reason: "No embedded OCSP response covers the certificate" };
+  }
+
+  // ─────────────────── Private Implementation ─────────────────
+
+  private async query(
+    url: string,
+    cert: Certificate,
+    issuer: Certificate,
+  ): Promise<OCSPCheckResult> {
+    const request = new OCSPRequest();
+    await request.createForCertificate(cert, { hashAlgorithm: "SHA-1", issuerCertificate: issuer });
+    const nonce = this.options.useNonce ? new Uint8Array(randomBytes(16)) : undefined;
+    if (nonce) {
+      request.tbsRequest.requestExtensions = [
+        new Extension({
+          extnID: PKIX_OIDS.ID_PKIX_OCSP_NONCE,
+          extnValue: new asn1js.OctetString({ valueHex: nonce }).toBER(false),
+        }),
+      ];
+    }
+    const requestDer = new Uint8Array(request.toSchema(true).toBER(false));
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/ocsp-request",
+        Accept: "application/ocsp-response",
+      },
+      body: requestDer,
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`OCSP HTTP error: ${response.status} ${response.statusText}`);
+    }
+    const responseDer = Buffer.from(await response.arrayBuffer());
+
+    return {
+      ...(await this.readResponse(responseDer, cert, issuer, new Date(), nonce)),
+      responderUrl: url,
+    };
+  }
+
+  /**
+   * Status of `cert` in a DER OCSPResponse. The response must cover the certificate, verify
+   * with an authorised responder and still be current at `validationTime`. Throws otherwise.
+   */
+  private async readResponse(
+    responseDer: Buffer,
+    cert: Certificate,
+    issuer: Certificate,
+    validationTime: Date,
+    nonce?: Uint8Array,
+  ): Promise<OCSPCheckResult> {
+    const ocspResponse = OCSPResponse.fromBER(new Uint8Array(responseDer));
+    const responseStatus = ocspResponse.responseStatus.valueBlock.valueDec;
+    if (responseStatus !== 0) {
+      throw new Error(
+        `OCSP responder answered ${RESPONSE_STATUSES[responseStatus] ?? responseStatus}`,
+      );
+    }
+    if (ocspResponse.responseBytes?.responseType !== PKIX_OIDS.ID_PKIX_OCSP_BASIC) {
+      throw new Error("OCSP response is not a BasicOCSPResponse");
+    }
+    const basic = BasicOCSPResponse.fromBER(
+      new Uint8Array(ocspResponse.responseBytes.response.valueBlock.valueHexView),
+    );
+    const { tbsResponseData } = basic;
+
+    const certId = await CertID.create(cert, { hashAlgorithm: "SHA-1", issuerCertificate: issuer });
+    const single = tbsResponseData.responses.find((r) => r.certID.isEqual(certId));
+    if (!single) throw new Error("OCSP response does not cover the certificate");
+
+    // Responder authorisation and signature
+    const responder = await this.findAuthorisedResponder(basic, issuer);
+    const signatureValid = await getCrypto(true).verifyWithPublicKey(
+      new Uint8Array(tbsResponseData.tbsView),
+      basic.signature,
+      responder.subjectPublicKeyInfo,
+      basic.signatureAlgorithm,
+    );
+    if (!signatureValid) throw new Error("OCSP response signature is invalid");
+
+    // Nonce: responders may omit it (RFC 8954), but an echoed nonce must match
+    const echoed = tbsResponseData.responseExtensions?.find(
+      (ext) => ext.extnID === PKIX_OIDS.ID_PKIX_OCSP_NONCE,
+    );
+    if (nonce && echoed) {
+      const echoedValue = asn1js.fromBER(echoed.extnValue.valueBlock.valueHexView).result;
+      const echoedNonce =
+        echoedValue instanceof asn1js.OctetString
+          ? echoedValue.valueBlock.valueHexView
+          : echoed.extnValue.valueBlock.valueHexView;
+      if (!bytesEq(echoedNonce, nonce)) {
+        throw new Error("OCSP response nonce does not match the request");
+      }
+    }
+
+    // Freshness
+    const skew = this.options.maxClockSkewMs;
+    if (single.thisUpdate.getTime() > Date.now() + skew) {
+      throw new Error("OCSP response thisUpdate is in the future");
+    }
+    if (single.nextUpdate && single.nextUpdate.getTime() < validationTime.getTime() - skew) {
+      throw new Error("OCSP response is stale (nextUpdate has passed)");
+    }
+
+    const result: OCSPCheckResult = {
+      status: "unknown",
+      source: "ocsp",
+      thisUpdate: single.thisUpdate,
+      nextUpdate: single.nextUpdate,
+      responseDer,
+    };
+
+    // CertStatus ::= CHOICE { good [0], revoked [1] RevokedInfo, unknown [2] }
+    const certStatus = single.certStatus as asn1js.BaseBlock;
+    switch (certStatus.idBlock.tagNumber) {
+      case 0:
+        result.status = "good";
+        break;
+      case 1: {
+        const [revocationTime, reason] = (certStatus as asn1js.Constructed).valueBlock.value;
+        result.status = "revoked";
+        result.revocationTime = (revocationTime as asn1js.GeneralizedTime).toDate();
+        const reasonCode = (reason as asn1js.Constructed | undefined)?.valueBlock.value[0];
+        if (reasonCode instanceof asn1js.Enumerated) {
+          const code = reasonCode.valueBlock.valueDec;
+          result.revocationReason = CRL_REASONS[code] ?? String(code);
+        }
+        break;
+      }
+      default:
+        result.reason = "Certificate unknown to the OCSP responder";
+    }
+
+    return result;
+  }
+
+  /**
+   * RFC 6960 §4.2.2.2: the responder is the issuing CA, or a certificate issued by it with
+   * the id-kp-OCSPSigning EKU. Returns the responder certificate or throws.
+   */
+  private async findAuthorisedResponder(
+    basic: BasicOCSPResponse,
+    issuer: Certificate,
+  ): Promise<Certificate> {
+    const responderId: unknown = basic.tbsResponseData.responderID;
+    const candidates = [issuer, ...(basic.certs ?? [])];
+
+    let responder: Certificate | undefined;
+    for (const candidate of candidates) {
+      if (await matchesResponderId(candidate, responderId)) {
+        responder = candidate;
+        break;
+      }
+    }
+    if (!responder) throw new Error("OCSP responder certificate not found");
+    if (responder === issuer || isSameCertificate(responder, issuer)) return issuer;
+
+    const eku = responder.extensions?.find((ext) => ext.extnID === PKIX_OIDS.EXTENDED_KEY_USAGE);
+    const purposes = (eku?.parsedValue as { keyPurposes?: string[] } | undefined)?.keyPurposes;
+    if (!purposes?.includes(PKIX_OIDS.ID_KP_OCSP_SIGNING)) {
+      throw new Error("OCSP responder is not authorised (missing id-kp-OCSPSigning)");
+    }
+
+    const issuedByCa =
+      responder.issuer.isEqual(issuer.subject) &&
+      (await responder.verify(issuer).catch(() => false));
+    if (!issuedByCa) {
+      throw new Error("OCSP responder certificate is not issued by the certificate issuer");
+    }
+
+    const producedAt = basic.tbsResponseData.producedAt;
+    if (producedAt < responder.notBefore.value || producedAt > responder.notAfter.value) {
+      throw new Error("OCSP responder certificate was not valid when the response was produced");
+    }
+
+    return responder;
+  }
+}
+
+/** ResponderID ::= CHOICE { byName [1] Name, byKey [2] KeyHash (SHA-1 of the public key) } */
+async function matchesResponderId(cert: Certificate, responderId: unknown): Promise<boolean> {
+  if (responderId instanceof RelativeDistinguishedNames) {
+    return cert.subject.isEqual(responderId);
+  }
+  if (responderId instanceof asn1js.OctetString) {
+    const keyHash = await nodeWebcrypto.subtle.digest(
+      "SHA-1",
+      new Uint8Array(cert.subjectPublicKeyInfo.subjectPublicKey.valueBlock.valueHexView),
+    );
+    return bytesEq(new Uint8Array(keyHash), responderId.valueBlock.valueHexView);
+  }
+  return false;
+}
+
+function isSameCertificate(a: Certificate, b: Certificate): boolean {
+  return bytesEq(
+    new Uint8Array(a.toSchema().toBER(false)),
+    new Uint8Array(b.toSchema().toBER(false)),
+  );
+}
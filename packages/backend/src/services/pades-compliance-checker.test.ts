@@ -337,5 +337,52 @@ describe("PAdESComplianceChecker", () => {
       const totalChecks = result.summary.mandatoryTotal + result.summary.recommendedTotal;
       expect(result.checks).toHaveLength(totalChecks);
     });
+
+    it("should enforce DocMDP permissions on later revisions", async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+      const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64);
+      const signerCertPem = mockHSM.getSignerCertificatePem();
+      const { signedAttrsDer } = signatureService.buildSignedAttributes({
+        messageDigest: Buffer.from(prepareResult.messageDigestB64, "base64"),
+        signerCertPem,
+      });
+      const signature = await mockHSM.signData(signedAttrsDer);
+      const cmsResult = await cmsService.assembleCMS({
+        signedAttrsDer,
+        signature,
+        signerCertPem,
+        withTimestamp: false,
+      });
+
+      const asn1 = fromBER(cmsResult.cmsDer);
+      const contentInfo = new ContentInfo({ schema: asn1.result });
+      const signedData = new SignedData({ schema: contentInfo.content });
+      const signerInfo = signedData.signerInfos[0];
+
+      const result = await complianceChecker.checkCompliance(
+        signedData,
+        signerInfo,
+        false,
+        true,
+        true,
+        true,
+        undefined,
+        {
+          docMdpPermission: 1,
+          modifications: [
+            { kind: "dss", allowed: true, description: "Document Security Store added or updated" },
+            { kind: "signature", allowed: false, description: "Signature field Signature2 added" },
+          ],
+        },
+      );
+
+      expect(result.isCompliant).toBe(false);
+      expect(result.checks).toContainEqual({
+        requirement: "Changes after signing must be permitted by the certification (DocMDP P=1)",
+        satisfied: false,
+        level: "mandatory",
+        details: "Not permitted: Signature field Signature2 added",
+      });
+    });
   });
 });
@@ -5,10 +5,18 @@
  * Provides detailed compliance reporting for B-B and B-T signature levels.
  */
 
+import { HASH_ALGORITHMS } from "@pades-poc/shared";
 import * as asn1js from "asn1js";
 import { Certificate, SignedData, SignerInfo, ContentInfo } from "pkijs";
 
-import type { LogEntry } from "@pades-poc/shared";
+import {
+  digestLength,
+  getDigestAlgorithm,
+  signatureAlgorithmFromIdentifier,
+} from "./signature-algorithms";
+
+import type { MdpPermission } from "./pdf/revision-analyzer";
+import type { DetectedModification, LogEntry } from "@pades-poc/shared";
 
 export interface ComplianceCheck {
   requirement: string;
@@ -17,6 +25,13 @@ export interface ComplianceCheck {
   details?: string;
 }
 
+/** Changes made by the incremental updates appended after the signature */
+export interface LaterRevisionsCheck {
+  /** Permission of the certification signature when the document is certified */
+  docMdpPermission?: MdpPermission;
+  modifications: DetectedModification[];
+}
+
 export interface PAdESComplianceResult {
   isCompliant: boolean;
   signatureLevel: "B-B" | "B-T" | "UNKNOWN";
@@ -46,6 +61,7 @@ export class PAdESComplianceChecker {
     digestMatches: boolean,
     chainValid: boolean,
     logs?: LogEntry[],
+    laterRevisions?: LaterRevisionsCheck,
   ): Promise<PAdESComplianceResult> {
     const checks: ComplianceCheck[] = [];
 
@@ -63,20 +79,28 @@ export class PAdESComplianceChecker {
     // 2. CMS structure validation
     this.checkCMSStructure(checks, signedData, signerInfo);
 
-    // 3. Signed attributes validation
+    // 3. Digest algorithms: strength and consistency
+    this.checkDigestAlgorithms(checks, signedData, signerInfo);
+
+    // 4. Signed attributes validation
     this.checkSignedAttributes(checks, signerInfo);
 
-    // 4. Certificate requirements
+    // 5. Certificate requirements
     this.checkCertificateRequirements(checks, signedData);
 
-    // 5. Timestamp requirements (for B-T)
+    // 6. Timestamp requirements (for B-T)
     if (isTimestamped) {
       this.checkTimestampRequirements(checks, signerInfo);
     }
 
-    // 6. Forbidden elements
+    // 7. Forbidden elements
     this.checkForbiddenElements(checks, signerInfo);
 
+    // 8. Changes in later revisions (DocMDP permissions)
+    if (laterRevisions) {
+      this.checkLaterRevisions(checks, laterRevisions);
+    }
+
     // Calculate summary
     const summary = this.calculateSummary(checks);
     const isCompliant = summary.mandatoryPassed === summary.mandatoryTotal && signatureValid;
@@ -118,7 +142,7 @@ export class PAdESComplianceChecker {
       satisfied: signatureValid,
       level: "mandatory",
       details: signatureValid
-        ? "RSA-SHA256 signature verification successful"
+        ? "Signature value verified with the signer public key"
         : "Signature verification failed",
     });
 
@@ -185,16 +209,78 @@ export class PAdESComplianceChecker {
       level: "mandatory",
       details: `SignerInfo version: ${signerInfo.version}`,
     });
+  }
 
-    // Check digest algorithm
+  /**
+   * Check that the digest algorithms are SHA-2 and agree with each other: SignedData
+   * digestAlgorithms, messageDigest length, ESSCertIDv2 hash and signature algorithm hash
+   */
+  private checkDigestAlgorithms(
+    checks: ComplianceCheck[],
+    signedData: SignedData,
+    signerInfo: SignerInfo,
+  ): void {
+    // Check digest algorithm (SHA-1 and MD5 are weak)
     const digestAlgOid = signerInfo.digestAlgorithm.algorithmId;
-    const isSha256 = digestAlgOid === "2.16.840.1.101.3.4.2.1";
+    const digestAlgorithm = getDigestAlgorithm(digestAlgOid);
     checks.push({
       requirement: "Digest algorithm should be SHA-256 or stronger",
-      satisfied: isSha256,
+      satisfied: !!digestAlgorithm,
       level: "recommended",
-      details: `Digest algorithm: ${digestAlgOid}`,
+      details: digestAlgorithm
+        ? `Digest algorithm: ${digestAlgorithm} (${digestAlgOid})`
+        : `Weak or unsupported digest algorithm: ${digestAlgOid}`,
+    });
+
+    // Check SignedData.digestAlgorithms lists the signer digest algorithm (RFC 5652 §5.1)
+    const listedOids = signedData.digestAlgorithms.map((a) => a.algorithmId);
+    checks.push({
+      requirement: "SignedData digestAlgorithms must include the signer digest algorithm",
+      satisfied: listedOids.includes(digestAlgOid),
+      level: "mandatory",
+      details: `digestAlgorithms: ${listedOids.join(", ") || "none"}`,
     });
+
+    const attributes = signerInfo.signedAttrs?.attributes ?? [];
+
+    // Check messageDigest value is a hash of the digest algorithm
+    const messageDigest = attributes.find((a) => a.type === "1.2.840.113549.1.9.4")
+      ?.values[0] as unknown;
+    if (digestAlgorithm && messageDigest instanceof asn1js.OctetString) {
+      const size = messageDigest.valueBlock.valueHexView.length;
+      checks.push({
+        requirement: "messageDigest length must match the digest algorithm",
+        satisfied: size === digestLength(digestAlgorithm),
+        level: "mandatory",
+        details: `${size}-byte messageDigest, ${digestAlgorithm} digest is ${digestLength(digestAlgorithm)} bytes`,
+      });
+    }
+
+    // Check ESSCertIDv2 hash algorithm (DEFAULT sha256 when absent)
+    const signingCertV2 = attributes.find((a) => a.type === "1.2.840.113549.1.9.16.2.47");
+    if (signingCertV2) {
+      const certHashOid = essCertIdV2HashOid(signingCertV2.values[0]);
+      const certHashAlgorithm = certHashOid && getDigestAlgorithm(certHashOid);
+      checks.push({
+        requirement: "signingCertificateV2 hash algorithm should be SHA-256 or stronger",
+        satisfied: !!certHashAlgorithm,
+        level: "recommended",
+        details: certHashAlgorithm
+          ? `Certificate hashed with ${certHashAlgorithm}`
+          : `Weak or unsupported certificate hash algorithm: ${certHashOid ?? "unparseable"}`,
+      });
+    }
+
+    // Check the signature does not hash signed attributes more weakly than the document
+    const signatureAlgorithm = signatureAlgorithmFromIdentifier(signerInfo.signatureAlgorithm);
+    if (digestAlgorithm && signatureAlgorithm) {
+      checks.push({
+        requirement: "Signature hash should be at least as strong as the digest algorithm",
+        satisfied: digestLength(signatureAlgorithm.hash) >= digestLength(digestAlgorithm),
+        level: "recommended",
+        details: `Signature hash ${signatureAlgorithm.hash}, digest algorithm ${digestAlgorithm}`,
+      });
+    }
   }
 
   /**
@@ -430,17 +516,40 @@ export class PAdESComplianceChecker {
 
     // Check for proper signature algorithm
     const sigAlgOid = signerInfo.signatureAlgorithm.algorithmId;
-    const isRsaSha256 = sigAlgOid === "1.2.840.113549.1.1.11";
-    const isStrongAlg =
-      isRsaSha256 ||
-      sigAlgOid === "1.2.840.113549.1.1.12" || // SHA384withRSA
-      sigAlgOid === "1.2.840.113549.1.1.13"; // SHA512withRSA
+    // sha256/384/512WithRSA, RSASSA-PSS with SHA-2 parameters, ecdsa-with-SHA256/384/512
+    const algorithm = signatureAlgorithmFromIdentifier(signerInfo.signatureAlgorithm);
+    const salt = algorithm?.saltLength !== undefined ? `, salt ${algorithm.saltLength}` : "";
 
     checks.push({
-      requirement: "Signature algorithm should be RSA with SHA-256 or stronger",
-      satisfied: isStrongAlg,
+      requirement: "Signature algorithm should be RSA or ECDSA with SHA-256 or stronger",
+      satisfied: !!algorithm,
       level: "recommended",
-      details: `Signature algorithm: ${sigAlgOid}`,
+      details: algorithm
+        ? `Signature algorithm: ${algorithm.name} with ${algorithm.hash}${salt} (${sigAlgOid})`
+        : `Signature algorithm: ${sigAlgOid}`,
+    });
+  }
+
+  /**
+   * Check that incremental updates after the signature only contain permitted changes
+   */
+  private checkLaterRevisions(
+    checks: ComplianceCheck[],
+    laterRevisions: LaterRevisionsCheck,
+  ): void {
+    const { docMdpPermission, modifications } = laterRevisions;
+    const disallowed = modifications.filter((m) => !m.allowed);
+
+    checks.push({
+      requirement: docMdpPermission
+        ? `Changes after signing must be permitted by the certification (DocMDP P=${docMdpPermission})`
+        : "Changes after signing must be limited to DSS, timestamps, signatures and form filling",
+      satisfied: disallowed.length === 0,
+      level: "mandatory",
+      details:
+        disallowed.length === 0
+          ? `${modifications.length} permitted change(s) in later revisions`
+          : `Not permitted: ${disallowed.map((m) => m.description).join("; ")}`,
     });
   }
 
@@ -472,3 +581,20 @@ export class PAdESComplianceChecker {
     return summary;
   }
 }
+
+/**
+ * hashAlgorithm OID of the first ESSCertIDv2 of a SigningCertificateV2 value, sha256 when the
+ * DEFAULT is omitted; undefined when the value does not parse
+ */
+function essCertIdV2HashOid(value: unknown): string | undefined {
+  if (!(value instanceof asn1js.Sequence)) return undefined;
+  const [certs] = value.valueBlock.value;
+  const [essCertId] = certs instanceof asn1js.Sequence ? certs.valueBlock.value : [];
+  if (!(essCertId instanceof asn1js.Sequence)) return undefined;
+
+  const [first] = essCertId.valueBlock.value;
+  if (first instanceof asn1js.OctetString) return HASH_ALGORITHMS.SHA256;
+  if (!(first instanceof asn1js.Sequence)) return undefined;
+  const [oid] = first.valueBlock.value;
+  return oid instanceof asn1js.ObjectIdentifier ? oid.valueBlock.toString() : undefined;
+}
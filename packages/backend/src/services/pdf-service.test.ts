@@ -1,9 +1,15 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream, decodePDFRawStream } from "pdf-lib";
 import { describe, it, expect, beforeEach } from "vitest";
 
+import { sha1 } from "./crypto-utils";
+import { findCertification, listSignatureFields } from "./pdf/signature-fields";
 import { PDFService } from "./pdf-service";
 
 import type { PDFSigningConfig } from "@pades-poc/shared";
 
+const ONE_PIXEL_PNG =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
+
 describe("PDFService", () => {
   let pdfService: PDFService;
 
@@ -94,6 +100,164 @@ describe("PDFService", () => {
       expect(pdfContent).toContain("Test location");
     });
 
+    it("should append a second placeholder without touching an existing signature", async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+      const firstPrepare = await pdfService.preparePDF(demoResult.pdfBase64);
+      expect(firstPrepare.fieldName).toBe("Signature1");
+
+      const signedPdf = pdfService.embedCmsIntoPdf(
+        new Uint8Array(Buffer.from(firstPrepare.preparedPdfBase64, "base64")),
+        new Uint8Array(Buffer.from("first signature")),
+      );
+
+      const signedBase64 = Buffer.from(signedPdf).toString("base64");
+      await expect(pdfService.preparePDF(signedBase64)).rejects.toThrow(
+        'overlaps the signature field "Signature1" on page 1',
+      );
+      const secondPrepare = await pdfService.preparePDF(signedBase64, {
+        rectangle: [50, 50, 250, 150],
+      });
+      const prepared = Buffer.from(secondPrepare.preparedPdfBase64, "base64");
+
+      // Original revision kept byte-for-byte, new revision chained with /Prev
+      expect(secondPrepare.fieldName).toBe("Signature2");
+      expect(prepared.subarray(0, signedPdf.length).equals(Buffer.from(signedPdf))).toBe(true);
+      expect(prepared.subarray(signedPdf.length).toString("latin1")).toMatch(/\/Prev \d+/);
+      expect(secondPrepare.byteRange[2] + secondPrepare.byteRange[3]).toBe(prepared.length);
+
+      const countersigned = pdfService.embedCmsIntoPdf(
+        new Uint8Array(prepared),
+        new Uint8Array(Buffer.from("second signature")),
+        secondPrepare.messageDigestB64,
+        secondPrepare.fieldName,
+      );
+      expect(pdfService.getSignatureContents(countersigned, "Signature1").toString()).toContain(
+        "first signature",
+      );
+      expect(pdfService.getSignatureContents(countersigned, "Signature2").toString()).toContain(
+        "second signature",
+      );
+    });
+
+    it("should refuse to embed into an already signed field", async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+      const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64);
+      const signedPdf = pdfService.embedCmsIntoPdf(
+        new Uint8Array(Buffer.from(prepareResult.preparedPdfBase64, "base64")),
+        new Uint8Array(Buffer.from("first signature")),
+      );
+
+      expect(() =>
+        pdfService.embedCmsIntoPdf(signedPdf, new Uint8Array(Buffer.from("overwrite"))),
+      ).toThrow("already signed");
+    });
+
+    it("should certify the document with DocMDP permissions", async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+      const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64, {
+        certificationLevel: "no-changes",
+      });
+      const prepared = Buffer.from(prepareResult.preparedPdfBase64, "base64");
+
+      const doc = await PDFDocument.load(prepared);
+      expect(findCertification(doc)).toMatchObject({
+        signatureRef: listSignatureFields(doc)[0].signatureRef,
+        permission: 1,
+      });
+      expect(prepared.toString("latin1")).toContain("/TransformMethod /DocMDP");
+
+      // Certification must come first
+      await expect(
+        pdfService.preparePDF(prepareResult.preparedPdfBase64, {
+          certificationLevel: "form-filling",
+        }),
+      ).rejects.toThrow("must be the first signature");
+    });
+
+    it("should lock form fields with a FieldMDP transform", async () => {
+      const formDoc = await PDFDocument.create();
+      const page = formDoc.addPage();
+      formDoc.getForm().createTextField("medication").addToPage(page);
+      const formPdfBase64 = Buffer.from(await formDoc.save({ useObjectStreams: false })).toString(
+        "base64",
+      );
+
+      const fieldLock = { action: "Include" as const, fields: ["medication"] };
+      const prepareResult = await pdfService.preparePDF(formPdfBase64, { fieldLock });
+      const prepared = Buffer.from(prepareResult.preparedPdfBase64, "base64");
+
+      const doc = await PDFDocument.load(prepared);
+      expect(listSignatureFields(doc)[0].fieldLock).toEqual(fieldLock);
+      expect(prepared.toString("latin1")).toContain("/TransformMethod /FieldMDP");
+      expect(prepared.toString("latin1")).toContain("/Type /SigFieldLock");
+
+      await expect(
+        pdfService.preparePDF(formPdfBase64, {
+          fieldLock: { action: "Include", fields: ["dosage"] },
+        }),
+      ).rejects.toThrow("Locked field(s) not found: dosage");
+    });
+
+    it("should generate the widget appearance on the requested page", async () => {
+      const twoPages = await PDFDocument.create();
+      twoPages.addPage([595.28, 841.89]);
+      twoPages.addPage([595.28, 841.89]);
+      const pdfBase64 = Buffer.from(await twoPages.save({ useObjectStreams: false })).toString(
+        "base64",
+      );
+
+      const prepareResult = await pdfService.preparePDF(pdfBase64, {
+        reason: "Prescription",
+        pageNumber: 2,
+        rectangle: [300, 700, 50, 600], // any two opposite corners
+        appearance: {
+          signerName: "Dr. Jean DUPONT",
+          rpps: "10001234567",
+          profession: "Médecin",
+          imageBase64: ONE_PIXEL_PNG,
+        },
+      });
+
+      const doc = await PDFDocument.load(Buffer.from(prepareResult.preparedPdfBase64, "base64"));
+      const widget = doc
+        .getPage(1)
+        .node.Annots()
+        ?.asArray()
+        .map((ref) => doc.context.lookup(ref, PDFDict))
+        .find((annot) => annot.get(PDFName.of("FT")) === PDFName.of("Sig"));
+      expect(widget?.get(PDFName.of("Rect"))?.toString()).toBe("[ 50 600 300 700 ]");
+
+      const ap = widget?.get(PDFName.of("AP"));
+      const normal = doc.context.lookup(
+        ap instanceof PDFDict ? ap.get(PDFName.of("N")) : undefined,
+      );
+      if (!(normal instanceof PDFRawStream)) throw new Error("Missing /AP /N stream");
+      expect(normal.dict.get(PDFName.of("BBox"))?.toString()).toBe("[ 0 0 250 100 ]");
+      const content = Buffer.from(decodePDFRawStream(normal).decode()).toString("latin1");
+      expect(content).toContain("/Im1 Do");
+      for (const line of ["Dr. Jean DUPONT", "RPPS : 10001234567", "Motif : Prescription"]) {
+        expect(content).toContain(`<${Buffer.from(line, "latin1").toString("hex").toUpperCase()}>`);
+      }
+    });
+
+    it("should prepare invisible signatures and reject widgets outside the page", async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+
+      const invisible = await pdfService.preparePDF(demoResult.pdfBase64, {
+        appearance: { invisible: true },
+      });
+      expect(Buffer.from(invisible.preparedPdfBase64, "base64").toString("latin1")).toContain(
+        "/Rect [ 0 0 0 0 ]",
+      );
+
+      await expect(pdfService.preparePDF(demoResult.pdfBase64, { pageNumber: 2 })).rejects.toThrow(
+        "Page 2 does not exist",
+      );
+      await expect(
+        pdfService.preparePDF(demoResult.pdfBase64, { rectangle: [500, 50, 700, 150] }),
+      ).rejects.toThrow("Signature rectangle [500, 50, 700, 150] is outside page 1");
+    });
+
     it("should generate valid message digest", async () => {
       const demoResult = await pdfService.generateDemoPDF();
       const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64);
@@ -164,4 +328,109 @@ describe("PDFService", () => {
       }).toThrow("CMS");
     });
   });
+
+  describe("appendDSS", () => {
+    const signWithMockCms = async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+      const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64);
+      const preparedBytes = Buffer.from(prepareResult.preparedPdfBase64, "base64");
+      return pdfService.embedCmsIntoPdf(
+        new Uint8Array(preparedBytes),
+        new Uint8Array(Buffer.from("mock cms data for testing")),
+      );
+    };
+
+    it("should append the DSS as an incremental update", async () => {
+      const signedPdf = await signWithMockCms();
+      const contents = pdfService.getSignatureContents(signedPdf);
+
+      const ltPdf = await pdfService.appendDSS(signedPdf, [
+        {
+          signatureContents: contents,
+          certificates: [Buffer.from("cert-1"), Buffer.from("cert-2")],
+          ocspResponses: [Buffer.from("ocsp-1")],
+          crls: [],
+        },
+      ]);
+
+      // Signed revision untouched, new revision chained with /Prev
+      expect(Buffer.from(ltPdf.subarray(0, signedPdf.length)).equals(Buffer.from(signedPdf))).toBe(
+        true,
+      );
+      const appended = Buffer.from(ltPdf.subarray(signedPdf.length)).toString("latin1");
+      expect(appended).toMatch(/\/Prev \d+/);
+      expect(appended.trimEnd().endsWith("%%EOF")).toBe(true);
+
+      const doc = await PDFDocument.load(ltPdf);
+      const dss = doc.catalog.lookup(PDFName.of("DSS"), PDFDict);
+      expect(dss.lookup(PDFName.of("Certs"), PDFArray).size()).toBe(2);
+      expect(dss.lookup(PDFName.of("OCSPs"), PDFArray).size()).toBe(1);
+      expect(dss.lookup(PDFName.of("CRLs"), PDFArray).size()).toBe(0);
+
+      const vriKey = sha1(contents).toString("hex").toUpperCase();
+      const vri = dss.lookup(PDFName.of("VRI"), PDFDict);
+      const vriEntry = vri.lookup(PDFName.of(vriKey), PDFDict);
+      expect(vriEntry.lookup(PDFName.of("Cert"), PDFArray).size()).toBe(2);
+      expect(vriEntry.lookup(PDFName.of("OCSP"), PDFArray).size()).toBe(1);
+      expect(doc.catalog.lookup(PDFName.of("Extensions"), PDFDict).has(PDFName.of("ESIC"))).toBe(
+        true,
+      );
+    });
+
+    it("should merge into an existing DSS without duplicating streams", async () => {
+      const signedPdf = await signWithMockCms();
+      const entry = {
+        signatureContents: pdfService.getSignatureContents(signedPdf),
+        certificates: [Buffer.from("cert-1")],
+        ocspResponses: [],
+        crls: [Buffer.from("crl-1")],
+      };
+
+      const first = await pdfService.appendDSS(signedPdf, [entry]);
+      const second = await pdfService.appendDSS(first, [
+        { ...entry, certificates: [Buffer.from("cert-1"), Buffer.from("cert-2")] },
+      ]);
+
+      const doc = await PDFDocument.load(second);
+      const dss = doc.catalog.lookup(PDFName.of("DSS"), PDFDict);
+      expect(dss.lookup(PDFName.of("Certs"), PDFArray).size()).toBe(2);
+      expect(dss.lookup(PDFName.of("CRLs"), PDFArray).size()).toBe(1);
+    });
+  });
+
+  describe("addDocumentTimestamp", () => {
+    it("should append an ETSI.RFC3161 document timestamp over the whole document", async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+      const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64);
+      const signedPdf = pdfService.embedCmsIntoPdf(
+        new Uint8Array(Buffer.from(prepareResult.preparedPdfBase64, "base64")),
+        new Uint8Array(Buffer.from("mock cms data for testing")),
+      );
+
+      let timestampedBytes: Buffer | undefined;
+      const result = await pdfService.addDocumentTimestamp(signedPdf, (signedBytes) => {
+        timestampedBytes = signedBytes;
+        return Promise.resolve(Buffer.from("mock timestamp token"));
+      });
+
+      const out = Buffer.from(result.pdfBytes);
+      expect(out.subarray(0, signedPdf.length).equals(Buffer.from(signedPdf))).toBe(true);
+
+      const [a, b, c, d] = result.byteRange;
+      expect(a).toBe(0);
+      expect(c + d).toBe(out.length);
+      expect(timestampedBytes?.equals(Buffer.concat([out.subarray(a, b), out.subarray(c)]))).toBe(
+        true,
+      );
+
+      const fields = listSignatureFields(await PDFDocument.load(out));
+      expect(fields.map((f) => f.fieldName)).toEqual(["Signature1", result.fieldName]);
+
+      const docTimestamp = fields[1];
+      expect(docTimestamp.type).toBe("/DocTimeStamp");
+      expect(docTimestamp.subFilter).toBe("ETSI.RFC3161");
+      expect(docTimestamp.byteRange).toEqual(result.byteRange);
+      expect(docTimestamp.contents.toString("latin1")).toContain("mock timestamp token");
+    });
+  });
 });
@@ -1,5 +1,4 @@
-import { PADES_CONSTANTS, DEFAULT_CONFIG } from "@pades-poc/shared";
-import { pdflibAddPlaceholder } from "@signpdf/placeholder-pdf-lib";
+import { PADES_CONSTANTS, DEFAULT_CONFIG, DOC_MDP_PERMISSIONS } from "@pades-poc/shared";
 import {
   PDFDocument,
   StandardFonts,
@@ -11,29 +10,72 @@ import {
   PDFContext,
   PDFDict,
   PDFArray,
+  PDFRawStream,
+  PDFHexString,
+  PDFNumber,
+  PDFPage,
+  decodePDFRawStream,
 } from "pdf-lib";
 
-import { toBase64, fromBase64, sha256 } from "./crypto-utils";
+import { toBase64, fromBase64, sha1, digest } from "./crypto-utils";
 import { PdfByteParser } from "./pdf/byte-parser";
-
-import type { PDFSigningConfig, ByteRange, PDFMetadata } from "@pades-poc/shared";
+import { IncrementalPdfWriter } from "./pdf/incremental-writer";
+import { buildSignatureAppearance } from "./pdf/signature-appearance";
+import { listFieldNames, listSignatureFields, listSignatureWidgets } from "./pdf/signature-fields";
+
+import type {
+  PDFSigningConfig,
+  ByteRange,
+  DigestAlgorithm,
+  FieldLock,
+  PDFMetadata,
+  SignatureRect,
+} from "@pades-poc/shared";
 
 /** A4 portrait in points */
 const A4_WIDTH = 595.28;
 const A4_HEIGHT = 841.89;
 
 export const DEFAULT_SIGNATURE_FIELD_NAME = "Signature1";
-export const DEFAULT_SIGNATURE_RECT: [number, number, number, number] = [300, 50, 545, 150];
+export const DEFAULT_SIGNATURE_RECT: SignatureRect = [300, 50, 545, 150];
 
 export interface PDFProcessingResult {
   pdfBase64: string;
   metadata: PDFMetadata;
 }
 
+export interface DocumentTimestampResult {
+  pdfBytes: Uint8Array;
+  fieldName: string;
+  byteRange: ByteRange;
+}
+
+/** Fixed-width /ByteRange slot, rewritten in place once offsets are known */
+const BYTE_RANGE_PLACEHOLDER = "**********";
+
+/** Page, /Rect and /AP /N of a new signature widget (empty appearance when omitted) */
+interface WidgetPlacement {
+  pageIndex: number;
+  rect: SignatureRect;
+  appearance?: PDFRef;
+}
+
 export interface PrepareResult {
   preparedPdfBase64: string;
   byteRange: ByteRange;
   messageDigestB64: string;
+  digestAlgorithm: DigestAlgorithm;
+  /** Name of the new signature field (Signature1, or the next free name when countersigning) */
+  fieldName: string;
+}
+
+/** Validation material for one signature, stored in the DSS (PAdES-B-LT) */
+export interface DSSEntry {
+  /** Decoded /Contents of the signature (padding included) — hashed into the /VRI key */
+  signatureContents: Buffer;
+  certificates: Buffer[]; // DER
+  ocspResponses: Buffer[]; // DER OCSPResponse
+  crls: Buffer[]; // DER CertificateList
 }
 
 export class PDFService {
@@ -170,53 +212,124 @@ export class PDFService {
   }
 
   /**
-   * Prepare a PDF: add signature field + placeholder, compute ByteRange & digest (SHA-256).
+   * Prepare a PDF: add signature field + placeholder, compute ByteRange & digest
+   * (`config.digestAlgorithm`, SHA-256 by default).
+   * The field is appended as an incremental update, so signatures already present stay valid.
+   * With `config.certificationLevel` the signature certifies the document: DocMDP /Reference
+   * in the signature dictionary and /Perms in the catalog.
+   * The widget goes to `config.pageNumber` at `config.rectangle`; `config.appearance` generates
+   * its appearance stream from the signer details, or makes the signature invisible.
    */
   async preparePDF(pdfBase64: string, config: PDFSigningConfig = {}): Promise<PrepareResult> {
     const src = fromBase64(pdfBase64);
-    const pdfDoc = await PDFDocument.load(src);
-
-    pdflibAddPlaceholder({
-      pdfDoc,
-      reason: config.reason || DEFAULT_CONFIG.SIGNATURE_REASON,
-      contactInfo: config.contactInfo || "",
-      name: this.fieldName,
-      location: config.location || DEFAULT_CONFIG.SIGNATURE_LOCATION,
-      signatureLength: PADES_CONSTANTS.DEFAULT_PLACEHOLDER_SIZE, // hex chars
-      subFilter: PADES_CONSTANTS.SUBFILTER, // 'ETSI.CAdES.detached'
-      widgetRect: DEFAULT_SIGNATURE_RECT,
-      appName: "PAdES-POC",
-    });
+    const writer = await IncrementalPdfWriter.load(src);
+    const context = writer.doc.context;
+    const fieldName = nextFieldName(writer.doc, this.fieldName);
+
+    // Certification (DocMDP) is only meaningful for the first signature of the document
+    const permission = config.certificationLevel && DOC_MDP_PERMISSIONS[config.certificationLevel];
+    if (permission && listSignatureFields(writer.doc).length > 0) {
+      throw new Error("A certification signature must be the first signature of the document.");
+    }
+    if (config.fieldLock) assertLockableFields(writer.doc, config.fieldLock);
+
+    // Same instant in /M and in the visible signature
+    const signingDate = new Date();
+    const reason = config.reason || DEFAULT_CONFIG.SIGNATURE_REASON;
+    const placement = await this.widgetPlacement(writer, config, signingDate, reason);
+
+    // Signature references: DocMDP (certification) and FieldMDP (locked fields)
+    const references = [
+      ...(permission
+        ? [
+            {
+              Type: "SigRef",
+              TransformMethod: "DocMDP",
+              TransformParams: { Type: "TransformParams", P: permission, V: "1.2" },
+            },
+          ]
+        : []),
+      ...(config.fieldLock
+        ? [
+            {
+              Type: "SigRef",
+              TransformMethod: "FieldMDP",
+              TransformParams: {
+                Type: "TransformParams",
+                ...fieldLockEntries(config.fieldLock),
+                V: "1.2",
+              },
+            },
+          ]
+        : []),
+    ];
 
-    const preparedBytes = await pdfDoc.save({ useObjectStreams: false });
-    const preparedBuffer = Buffer.from(preparedBytes);
+    const sigRef = context.register(
+      context.obj({
+        Type: "Sig",
+        Filter: PADES_CONSTANTS.FILTER,
+        SubFilter: PADES_CONSTANTS.SUBFILTER, // 'ETSI.CAdES.detached'
+        ByteRange: byteRangePlaceholder(),
+        Contents: PDFHexString.of("0".repeat(PADES_CONSTANTS.DEFAULT_PLACEHOLDER_SIZE)), // hex chars
+        Reason: PDFString.of(reason),
+        M: PDFString.fromDate(signingDate),
+        ContactInfo: PDFString.of(config.contactInfo || ""),
+        Name: PDFString.of(fieldName),
+        Location: PDFString.of(config.location || DEFAULT_CONFIG.SIGNATURE_LOCATION),
+        Prop_Build: {
+          Filter: { Name: PADES_CONSTANTS.FILTER },
+          App: { Name: "PAdES-POC" },
+        },
+        ...(references.length > 0 && { Reference: references }),
+      }),
+    );
+    this.addSignatureWidget(writer, fieldName, sigRef, placement, config.fieldLock);
+
+    if (permission) {
+      writer.doc.catalog.set(PDFName.of("Perms"), context.obj({ DocMDP: sigRef }));
+      writer.markModified(context.trailerInfo.Root as PDFRef);
+    }
+
+    const preparedBuffer = writer.save();
 
     // Locate placeholder areas using byte-level search
-    const pos = this.parser.locateSignatureAreas(preparedBuffer, this.fieldName);
+    const pos = this.parser.locateSignatureAreas(preparedBuffer, fieldName);
 
     // write final ByteRange into the PDF *before* hashing
     this.writeByteRange(preparedBuffer, pos.byteRangeArea, pos.byteRange);
 
-    // Compute SHA-256 over the ByteRange
-    const digest = this.computeDigest(preparedBuffer, pos.byteRange);
+    // Hash the ByteRange
+    const digestAlgorithm = config.digestAlgorithm ?? "SHA-256";
+    const messageDigest = this.computeDigest(preparedBuffer, pos.byteRange, digestAlgorithm);
 
     return {
       preparedPdfBase64: toBase64(preparedBuffer),
       byteRange: pos.byteRange,
-      messageDigestB64: toBase64(Buffer.from(digest)),
+      messageDigestB64: toBase64(messageDigest),
+      digestAlgorithm,
+      fieldName,
     };
   }
 
   /**
    * Embed CMS (DER) into the prepared PDF (in-place update of /Contents and /ByteRange).
+   * `expectedMessageDigestB64` is checked with the digest algorithm given to prepare.
    */
   embedCmsIntoPdf(
     pdfBytes: Uint8Array,
     cmsDer: Uint8Array,
     expectedMessageDigestB64?: string,
+    fieldName: string = this.fieldName,
+    digestAlgorithm: DigestAlgorithm = "SHA-256",
   ): Uint8Array {
     const buf = Buffer.from(pdfBytes);
-    const { byteRange, contentsArea } = this.parser.locateSignatureAreas(buf, this.fieldName);
+    const { byteRange, contentsArea } = this.parser.locateSignatureAreas(buf, fieldName);
+
+    // Never overwrite an earlier signature (countersigned PDFs carry several fields)
+    const current = buf.subarray(contentsArea.start, contentsArea.end);
+    if (current.some((b) => b !== 0x30 /* '0' */ && b !== 0x00)) {
+      throw new Error(`Signature field "${fieldName}" is already signed.`);
+    }
 
     const cmsHex = Buffer.from(cmsDer).toString("hex").toUpperCase();
     const maxHex = contentsArea.end - contentsArea.start;
@@ -233,8 +346,8 @@ export class PDFService {
 
     // Optional guard: the signed bytes must not have changed
     if (expectedMessageDigestB64) {
-      const rt = this.computeDigest(buf, byteRange);
-      if (!Buffer.from(rt).equals(Buffer.from(expectedMessageDigestB64, "base64"))) {
+      const rt = this.computeDigest(buf, byteRange, digestAlgorithm);
+      if (!rt.equals(Buffer.from(expectedMessageDigestB64, "base64"))) {
         throw new Error("Prepared content changed between prepare and embed (digest mismatch).");
       }
     }
@@ -242,6 +355,164 @@ export class PDFService {
     return new Uint8Array(buf);
   }
 
+  /**
+   * Decoded /Contents bytes of a signature field (placeholder padding included).
+   */
+  getSignatureContents(pdfBytes: Uint8Array, fieldName: string = this.fieldName): Buffer {
+    const buf = Buffer.from(pdfBytes);
+    const { contentsArea } = this.parser.locateSignatureAreas(buf, fieldName);
+    return Buffer.from(buf.toString("latin1", contentsArea.start, contentsArea.end), "hex");
+  }
+
+  /**
+   * Append a Document Security Store (/DSS) as an incremental update (PAdES-B-LT).
+   * - /Certs, /OCSPs, /CRLs hold one stream per object (merged with any existing DSS)
+   * - /VRI is keyed by the uppercase hex SHA-1 of each signature's /Contents
+   * The signed revision is left byte-for-byte intact.
+   */
+  async appendDSS(pdfBytes: Uint8Array, entries: DSSEntry[]): Promise<Uint8Array> {
+    const writer = await IncrementalPdfWriter.load(pdfBytes);
+    const { doc } = writer;
+    const context = doc.context;
+
+    writer.markModified(context.trailerInfo.Root as PDFRef);
+
+    // Reuse the existing DSS dictionary if present (re-extension of a B-LT document)
+    const existing = doc.catalog.get(PDFName.of("DSS"));
+    let dssRef: PDFRef;
+    if (existing instanceof PDFRef) {
+      dssRef = existing;
+      writer.markModified(dssRef);
+    } else {
+      dssRef = context.register(existing instanceof PDFDict ? existing : context.obj({}));
+    }
+    doc.catalog.set(PDFName.of("DSS"), dssRef);
+    const dss = context.lookup(dssRef, PDFDict);
+
+    // One stream per certificate / response, shared between the global arrays and /VRI
+    const addStreams = (key: "Certs" | "OCSPs" | "CRLs", items: Buffer[]): PDFRef[] => {
+      const arr = context.obj([]);
+      const index = new Map<string, PDFRef>();
+      const current = lookupArray(dss.get(PDFName.of(key)));
+      for (let i = 0; i < (current?.size() ?? 0); i++) {
+        const ref = current!.get(i);
+        if (!(ref instanceof PDFRef)) continue;
+        arr.push(ref);
+        const stream = context.lookup(ref);
+        if (stream instanceof PDFRawStream) {
+          index.set(Buffer.from(decodePDFRawStream(stream).decode()).toString("hex"), ref);
+        }
+      }
+      dss.set(PDFName.of(key), arr);
+
+      return items.map((item) => {
+        const hex = item.toString("hex");
+        let ref = index.get(hex);
+        if (!ref) {
+          ref = context.register(context.stream(item));
+          arr.push(ref);
+          index.set(hex, ref);
+        }
+        return ref;
+      });
+    };
+
+    const vriRaw = dss.get(PDFName.of("VRI"));
+    if (vriRaw instanceof PDFRef) writer.markModified(vriRaw);
+    const vri = lookupDict(vriRaw) ?? context.obj({});
+    dss.set(PDFName.of("VRI"), vriRaw instanceof PDFRef ? vriRaw : vri);
+
+    for (const entry of entries) {
+      const certRefs = addStreams("Certs", entry.certificates);
+      const ocspRefs = addStreams("OCSPs", entry.ocspResponses);
+      const crlRefs = addStreams("CRLs", entry.crls);
+
+      const vriEntry = context.obj({});
+      if (certRefs.length) vriEntry.set(PDFName.of("Cert"), context.obj(certRefs));
+      if (ocspRefs.length) vriEntry.set(PDFName.of("OCSP"), context.obj(ocspRefs));
+      if (crlRefs.length) vriEntry.set(PDFName.of("CRL"), context.obj(crlRefs));
+      vriEntry.set(PDFName.of("TU"), PDFString.fromDate(new Date()));
+
+      const key = sha1(entry.signatureContents).toString("hex").toUpperCase();
+      vri.set(PDFName.of(key), context.register(vriEntry));
+    }
+
+    // Declare the ETSI extension (ESIC) used by PAdES DSS dictionaries
+    const extRaw = doc.catalog.get(PDFName.of("Extensions"));
+    if (extRaw instanceof PDFRef) writer.markModified(extRaw);
+    const extensions = lookupDict(extRaw) ?? context.obj({});
+    if (!extensions.has(PDFName.of("ESIC"))) {
+      extensions.set(
+        PDFName.of("ESIC"),
+        context.obj({ BaseVersion: PDFName.of("1.7"), ExtensionLevel: 1 }),
+      );
+    }
+    if (!(extRaw instanceof PDFRef)) doc.catalog.set(PDFName.of("Extensions"), extensions);
+
+    return new Uint8Array(writer.save());
+
+    function lookupDict(obj: PDFObject | undefined): PDFDict | undefined {
+      if (obj instanceof PDFDict) return obj;
+      if (obj instanceof PDFRef) return context.lookupMaybe(obj, PDFDict);
+      return undefined;
+    }
+    function lookupArray(obj: PDFObject | undefined): PDFArray | undefined {
+      if (obj instanceof PDFArray) return obj;
+      if (obj instanceof PDFRef) return context.lookupMaybe(obj, PDFArray);
+      return undefined;
+    }
+  }
+
+  /**
+   * Append a document timestamp (/Type /DocTimeStamp, /SubFilter /ETSI.RFC3161) as a new
+   * incremental revision (PAdES-B-LTA). The token must cover the whole-document ByteRange,
+   * so it is requested through `getTimestampToken` once the revision has been laid out.
+   */
+  async addDocumentTimestamp(
+    pdfBytes: Uint8Array,
+    getTimestampToken: (signedBytes: Buffer) => Promise<Buffer>,
+  ): Promise<DocumentTimestampResult> {
+    const writer = await IncrementalPdfWriter.load(pdfBytes);
+    const { doc } = writer;
+    const context = doc.context;
+
+    const fieldName = nextFieldName(doc, "DocTimeStamp1");
+
+    const sigRef = context.register(
+      context.obj({
+        Type: "DocTimeStamp",
+        Filter: PADES_CONSTANTS.FILTER,
+        SubFilter: PADES_CONSTANTS.DOC_TIMESTAMP_SUBFILTER,
+        ByteRange: byteRangePlaceholder(),
+        Contents: PDFHexString.of("0".repeat(PADES_CONSTANTS.DOC_TIMESTAMP_PLACEHOLDER_SIZE)),
+      }),
+    );
+
+    // Invisible widget (empty /Rect) on the first page
+    this.addSignatureWidget(writer, fieldName, sigRef, { pageIndex: 0, rect: [0, 0, 0, 0] });
+
+    const buf = writer.save();
+    const pos = this.parser.locateSignatureAreas(buf, fieldName);
+    this.writeByteRange(buf, pos.byteRangeArea, pos.byteRange);
+
+    const [a, b, c, d] = pos.byteRange;
+    const token = await getTimestampToken(
+      Buffer.concat([buf.subarray(a, a + b), buf.subarray(c, c + d)]),
+    );
+
+    const tokenHex = token.toString("hex").toUpperCase();
+    const maxHex = pos.contentsArea.end - pos.contentsArea.start;
+    if (tokenHex.length > maxHex) {
+      throw new Error(
+        `Timestamp token too large for placeholder: need ${tokenHex.length} hex chars, have ${maxHex}.`,
+      );
+    }
+    buf.fill(0x30 /* '0' */, pos.contentsArea.start, pos.contentsArea.end);
+    buf.write(tokenHex, pos.contentsArea.start, "ascii");
+
+    return { pdfBytes: new Uint8Array(buf), fieldName, byteRange: pos.byteRange };
+  }
+
   /**
    * Accurate, async, tree-walking metadata:
    * - pageCount from pdf-lib
@@ -342,14 +613,151 @@ export class PDFService {
     }
   }
 
+  // ------------------------------
+  // Incremental-update helpers
+  // ------------------------------
+
+  /**
+   * Widget placement of a new signature: page and rectangle of the config (first page and
+   * DEFAULT_SIGNATURE_RECT by default), generated appearance with `config.appearance`
+   * @throws Error for a page or a rectangle outside the document
+   */
+  private async widgetPlacement(
+    writer: IncrementalPdfWriter,
+    config: PDFSigningConfig,
+    date: Date,
+    reason: string,
+  ): Promise<WidgetPlacement> {
+    const { doc } = writer;
+    const pageNumber = config.pageNumber ?? 1;
+    const pageCount = doc.getPageCount();
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pageCount) {
+      throw new Error(`Page ${pageNumber} does not exist (the document has ${pageCount} pages).`);
+    }
+    const pageIndex = pageNumber - 1;
+    if (config.appearance?.invisible) return { pageIndex, rect: [0, 0, 0, 0] };
+
+    const rect = normalizeRect(config.rectangle ?? DEFAULT_SIGNATURE_RECT);
+    const box = doc.getPage(pageIndex).getMediaBox();
+    if (
+      rect[0] < box.x ||
+      rect[1] < box.y ||
+      rect[2] > box.x + box.width ||
+      rect[3] > box.y + box.height
+    ) {
+      throw new Error(`Signature rectangle [${rect.join(", ")}] is outside page ${pageNumber}.`);
+    }
+    const overlapped = listSignatureWidgets(doc, pageIndex).find((w) => rectsOverlap(w.rect, rect));
+    if (overlapped) {
+      throw new Error(
+        `Signature rectangle [${rect.join(", ")}] overlaps the signature field "${overlapped.fieldName}" on page ${pageNumber}.`,
+      );
+    }
+
+    const appearance =
+      config.appearance &&
+      (await buildSignatureAppearance(doc, rect, {
+        ...config.appearance,
+        date,
+        reason,
+        defaultSignerName: config.signerName,
+      }));
+    return { pageIndex, rect, appearance };
+  }
+
+  /**
+   * Merged signature field + widget annotation pointing to `sigRef` (/V). The appearance
+   * stream, empty unless generated, is required for PDF/A.
+   */
+  private addSignatureWidget(
+    writer: IncrementalPdfWriter,
+    fieldName: string,
+    sigRef: PDFRef,
+    placement: WidgetPlacement,
+    lock?: FieldLock,
+  ): void {
+    const context = writer.doc.context;
+    const { rect } = placement;
+    const page = writer.doc.getPage(placement.pageIndex);
+
+    const appearance =
+      placement.appearance ??
+      context.register(context.formXObject([], { BBox: rect, Resources: {} }));
+    const widgetRef = context.register(
+      context.obj({
+        Type: "Annot",
+        Subtype: "Widget",
+        FT: "Sig",
+        Rect: rect,
+        V: sigRef,
+        T: PDFString.of(fieldName),
+        F: 4, // Print
+        P: page.ref,
+        AP: { N: appearance },
+        ...(lock && { Lock: { Type: "SigFieldLock", ...fieldLockEntries(lock) } }),
+      }),
+    );
+    this.addWidgetToPage(writer, page, widgetRef);
+    this.addFieldToAcroForm(writer, widgetRef);
+  }
+
+  /** Append a widget to the page /Annots (direct or indirect array) */
+  private addWidgetToPage(writer: IncrementalPdfWriter, page: PDFPage, widgetRef: PDFRef): void {
+    const context = writer.doc.context;
+    const annotsRaw = page.node.get(PDFName.of("Annots"));
+    if (annotsRaw instanceof PDFRef) {
+      context.lookup(annotsRaw, PDFArray).push(widgetRef);
+      writer.markModified(annotsRaw);
+      return;
+    }
+    const annots = annotsRaw instanceof PDFArray ? annotsRaw : context.obj([]);
+    annots.push(widgetRef);
+    page.node.set(PDFName.of("Annots"), annots);
+    writer.markModified(page.ref);
+  }
+
+  /** Register a signature field in the AcroForm (created if missing) with /SigFlags 3 */
+  private addFieldToAcroForm(writer: IncrementalPdfWriter, fieldRef: PDFRef): void {
+    const { doc } = writer;
+    const context = doc.context;
+    const catalogRef = context.trailerInfo.Root as PDFRef;
+
+    const acroFormRaw = doc.catalog.get(PDFName.of("AcroForm"));
+    let acroForm: PDFDict;
+    if (acroFormRaw instanceof PDFRef) {
+      acroForm = context.lookup(acroFormRaw, PDFDict);
+      writer.markModified(acroFormRaw);
+    } else if (acroFormRaw instanceof PDFDict) {
+      acroForm = acroFormRaw;
+      writer.markModified(catalogRef);
+    } else {
+      acroForm = context.obj({});
+      doc.catalog.set(PDFName.of("AcroForm"), context.register(acroForm));
+      writer.markModified(catalogRef);
+    }
+
+    const fieldsRaw = acroForm.get(PDFName.of("Fields"));
+    if (fieldsRaw instanceof PDFRef) {
+      context.lookup(fieldsRaw, PDFArray).push(fieldRef);
+      writer.markModified(fieldsRaw);
+    } else {
+      const fields = fieldsRaw instanceof PDFArray ? fieldsRaw : context.obj([]);
+      fields.push(fieldRef);
+      acroForm.set(PDFName.of("Fields"), fields);
+    }
+    const sigFlags = acroForm.get(PDFName.of("SigFlags"));
+    const flags = sigFlags instanceof PDFNumber ? sigFlags.asNumber() : 0;
+    acroForm.set(PDFName.of("SigFlags"), PDFNumber.of(flags | 3)); // SignaturesExist | AppendOnly
+  }
+
   // ------------------------------
   // Small high-level helper
   // ------------------------------
-  private computeDigest(pdf: Buffer, byteRange: ByteRange): Uint8Array {
+  private computeDigest(pdf: Buffer, byteRange: ByteRange, algorithm: DigestAlgorithm): Buffer {
     const [a, b, c, d] = byteRange;
     const part1 = pdf.subarray(a, a + b);
     const part2 = pdf.subarray(c, c + d);
-    return sha256(Buffer.concat([part1, part2]));
+    return digest(Buffer.concat([part1, part2]), algorithm);
   }
 
   private writeByteRange(
@@ -366,3 +774,55 @@ export class PDFService {
     buf.set(brBytes, area.start);
   }
 }
+
+/** [0 /********** /********** /**********]: fixed width, rewritten by writeByteRange */
+function byteRangePlaceholder(): (number | PDFName)[] {
+  return [0, ...Array.from({ length: 3 }, () => PDFName.of(BYTE_RANGE_PLACEHOLDER))];
+}
+
+/** `preferred` when free, otherwise the same stem with the next free index (Signature1 → Signature2) */
+function nextFieldName(doc: PDFDocument, preferred: string): string {
+  const taken = new Set(listFieldNames(doc));
+  if (!taken.has(preferred)) return preferred;
+
+  const stem = preferred.replace(/\d+$/, "");
+  let n = 2;
+  while (taken.has(`${stem}${n}`)) n++;
+  return `${stem}${n}`;
+}
+
+/** [x1, y1, x2, y2] with x1 < x2 and y1 < y2, from any two opposite corners */
+function normalizeRect(rect: SignatureRect): SignatureRect {
+  if (!Array.isArray(rect) || rect.length !== 4 || !rect.every((n) => Number.isFinite(n))) {
+    throw new Error("Signature rectangle must be [x1, y1, x2, y2] in PDF points.");
+  }
+  const [x1, y1, x2, y2] = rect;
+  if (x1 === x2 || y1 === y2) throw new Error("Signature rectangle is empty.");
+  return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+}
+
+/** Whether two normalized rectangles share some area (touching edges do not overlap) */
+function rectsOverlap(a: SignatureRect, b: SignatureRect): boolean {
+  return a[0] < b[2] && b[0] < a[2] && a[1] < b[3] && b[1] < a[3];
+}
+
+/** Include/Exclude locks must name existing form fields */
+function assertLockableFields(doc: PDFDocument, lock: FieldLock): void {
+  if (lock.action === "All") return;
+  if (!lock.fields?.length) {
+    throw new Error(`Field lock /${lock.action} requires at least one field name.`);
+  }
+  const names = new Set(listFieldNames(doc));
+  const missing = lock.fields.filter((name) => !names.has(name));
+  if (missing.length > 0) {
+    throw new Error(`Locked field(s) not found: ${missing.join(", ")}.`);
+  }
+}
+
+/** /Action and /Fields shared by the field /Lock and the FieldMDP /TransformParams */
+function fieldLockEntries(lock: FieldLock): { Action: string; Fields?: PDFString[] } {
+  return {
+    Action: lock.action,
+    ...(lock.action !== "All" && { Fields: (lock.fields ?? []).map((f) => PDFString.of(f)) }),
+  };
+}
@@ -118,6 +118,32 @@ export class PdfByteParser {
     throw new Error("Signature dictionary not found (no matching /T or (/ByteRange + /Contents)).");
   }
 
+  /**
+   * Byte spans of the signature dictionary `obj gen obj`, as last defined within the first
+   * `end` bytes (the revision a ByteRange covers); null when not found in the file bytes
+   */
+  locateSignatureDict(
+    pdf: Buffer,
+    obj: number,
+    gen: number,
+    end: number = pdf.length,
+  ): PlaceholderPositions | null {
+    const revision = pdf.subarray(0, end);
+    const sig = this.findObjectDictBytes(revision, obj, gen);
+    if (!sig) return null;
+    return this.extractAreasFromSigDict(
+      revision,
+      sig.start,
+      sig.end,
+      Buffer.from("/ByteRange", "ascii"),
+      Buffer.from("/Contents", "ascii"),
+      0x5b,
+      0x5d,
+      0x3c,
+      0x3e,
+    );
+  }
+
   // ------------------------------
   // Byte helpers
   // ------------------------------
@@ -174,8 +200,13 @@ export class PdfByteParser {
     obj: number,
     gen: number,
   ): { start: number; end: number } | null {
+    // Incremental updates may redefine an object: the last definition wins.
+    // The header must not be the tail of a larger number ("12 0 obj" inside "112 0 obj").
     const header = Buffer.from(`${obj} ${gen} obj`, "ascii");
-    const at = pdf.indexOf(header, 0);
+    let at = pdf.lastIndexOf(header);
+    while (at > 0 && pdf[at - 1] >= 0x30 && pdf[at - 1] <= 0x39) {
+      at = pdf.lastIndexOf(header, at - 1);
+    }
     if (at === -1) return null;
     const dictStart = pdf.indexOf(Buffer.from("<<", "ascii"), at);
     if (dictStart === -1) return null;
@@ -0,0 +1,145 @@
+import { PDFDocument, PDFName, PDFNumber, PDFRef } from "pdf-lib";
+
+import type { PDFObject } from "pdf-lib";
+
+/**
+ * Append-only PDF writer (ISO 32000-1 §7.5.6 "Incremental Updates").
+ *
+ * - Loads the document with pdf-lib so callers can read and mutate objects through `doc`
+ * - Serializes only new objects (allocated after load) and objects flagged with `markModified`
+ * - Appends them after the original bytes with a classic xref section and a trailer /Prev
+ *
+ * The original bytes are copied verbatim: every existing ByteRange stays valid.
+ */
+export class IncrementalPdfWriter {
+  private readonly modified = new Map<string, PDFRef>();
+
+  private constructor(
+    private readonly original: Buffer,
+    readonly doc: PDFDocument,
+    private readonly prevXrefOffset: number,
+    private readonly firstNewObjectNumber: number,
+  ) {}
+
+  static async load(pdf: Uint8Array): Promise<IncrementalPdfWriter> {
+    const original = Buffer.from(pdf);
+    const doc = await PDFDocument.load(original, { updateMetadata: false });
+    if (doc.context.trailerInfo.Encrypt) {
+      throw new Error("Incremental updates of encrypted PDFs are not supported");
+    }
+
+    const { prevXrefOffset, size } = readLastTrailer(original);
+
+    // New objects must not reuse numbers already declared by the previous xref (/Size)
+    const firstNewObjectNumber = Math.max(size, doc.context.largestObjectNumber + 1);
+    doc.context.largestObjectNumber = firstNewObjectNumber - 1;
+
+    return new IncrementalPdfWriter(original, doc, prevXrefOffset, firstNewObjectNumber);
+  }
+
+  /** Byte length of the document before this update */
+  get originalLength(): number {
+    return this.original.length;
+  }
+
+  /** Flag an existing indirect object as changed so it is rewritten in the update */
+  markModified(ref: PDFRef): void {
+    this.modified.set(`${ref.objectNumber} ${ref.generationNumber}`, ref);
+  }
+
+  /** Serialize original bytes + appended revision */
+  save(): Buffer {
+    const context = this.doc.context;
+    const objects: [PDFRef, PDFObject][] = [];
+
+    for (const ref of this.modified.values()) {
+      const obj = context.lookup(ref);
+      if (obj) objects.push([ref, obj]);
+    }
+    for (const [ref, obj] of context.enumerateIndirectObjects()) {
+      const key = `${ref.objectNumber} ${ref.generationNumber}`;
+      if (ref.objectNumber >= this.firstNewObjectNumber && !this.modified.has(key)) {
+        objects.push([ref, obj]);
+      }
+    }
+    objects.sort(([a], [b]) => a.objectNumber - b.objectNumber);
+
+    const chunks: Buffer[] = [this.original];
+    let offset = this.original.length;
+    const push = (chunk: Buffer) => {
+      chunks.push(chunk);
+      offset += chunk.length;
+    };
+
+    const last = this.original[this.original.length - 1];
+    if (last !== 0x0a && last !== 0x0d) push(Buffer.from("\n", "latin1"));
+
+    const entries: { objectNumber: number; generation: number; offset: number }[] = [];
+    for (const [ref, obj] of objects) {
+      entries.push({
+        objectNumber: ref.objectNumber,
+        generation: ref.generationNumber,
+        offset,
+      });
+      const body = new Uint8Array(obj.sizeInBytes());
+      obj.copyBytesInto(body, 0);
+      push(Buffer.from(`${ref.objectNumber} ${ref.generationNumber} obj\n`, "latin1"));
+      push(Buffer.from(body));
+      push(Buffer.from("\nendobj\n", "latin1"));
+    }
+
+    const xrefOffset = offset;
+    push(Buffer.from(buildXrefSection(entries), "latin1"));
+
+    const { Root, Info, ID } = context.trailerInfo;
+    if (!Root) throw new Error("Trailer /Root not found");
+    const trailer = context.obj({});
+    trailer.set(PDFName.of("Size"), PDFNumber.of(context.largestObjectNumber + 1));
+    trailer.set(PDFName.of("Root"), Root);
+    if (Info) trailer.set(PDFName.of("Info"), Info);
+    if (ID) trailer.set(PDFName.of("ID"), ID);
+    trailer.set(PDFName.of("Prev"), PDFNumber.of(this.prevXrefOffset));
+
+    push(
+      Buffer.from(`trailer\n${trailer.toString()}\nstartxref\n${xrefOffset}\n%%EOF\n`, "latin1"),
+    );
+
+    return Buffer.concat(chunks);
+  }
+}
+
+/** Read `startxref` and `/Size` of the last cross-reference section (table or stream). */
+function readLastTrailer(pdf: Buffer): { prevXrefOffset: number; size: number } {
+  const startxrefPos = pdf.lastIndexOf("startxref");
+  if (startxrefPos === -1) throw new Error("startxref not found");
+
+  const tail = pdf.subarray(startxrefPos + "startxref".length).toString("latin1");
+  const offsetMatch = /^\s*(\d+)/.exec(tail);
+  if (!offsetMatch) throw new Error("Invalid startxref offset");
+  const prevXrefOffset = parseInt(offsetMatch[1], 10);
+
+  // The trailer dictionary (or the xref stream dictionary) sits between the xref and startxref
+  const section = pdf.subarray(prevXrefOffset, startxrefPos).toString("latin1");
+  const sizeMatch = /\/Size\s+(\d+)/.exec(section);
+
+  return { prevXrefOffset, size: sizeMatch ? parseInt(sizeMatch[1], 10) : 0 };
+}
+
+/** Classic xref table: one subsection per run of consecutive object numbers. */
+function buildXrefSection(
+  entries: { objectNumber: number; generation: number; offset: number }[],
+): string {
+  let out = "xref\n";
+  let i = 0;
+  while (i < entries.length) {
+    let j = i + 1;
+    while (j < entries.length && entries[j].objectNumber === entries[j - 1].objectNumber + 1) j++;
+
+    out += `${entries[i].objectNumber} ${j - i}\n`;
+    for (const e of entries.slice(i, j)) {
+      out += `${String(e.offset).padStart(10, "0")} ${String(e.generation).padStart(5, "0")} n\r\n`;
+    }
+    i = j;
+  }
+  return out;
+}
@@ -0,0 +1,152 @@
+import { PDFArray, PDFDocument, PDFName, PDFRef, StandardFonts } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+
+import { PDFService } from "../pdf-service";
+
+import { IncrementalPdfWriter } from "./incremental-writer";
+import { analyzeModifications } from "./revision-analyzer";
+
+/** One-page prescription saved as a single classic-xref revision */
+async function createSignedRevision(): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  pdfDoc
+    .addPage([595.28, 841.89])
+    .drawText("Posologie: 1 comprimé par jour", { x: 50, y: 700, font });
+  return pdfDoc.save({ useObjectStreams: false });
+}
+
+describe("analyzeModifications", () => {
+  it("accepts signature fields and DSS updates", async () => {
+    const pdfService = new PDFService();
+    const signed = await createSignedRevision();
+
+    const prepared = await pdfService.preparePDF(Buffer.from(signed).toString("base64"));
+    const preparedPdf = Buffer.from(prepared.preparedPdfBase64, "base64");
+    const withDss = await pdfService.appendDSS(preparedPdf, [
+      {
+        signatureContents: Buffer.from("placeholder"),
+        certificates: [Buffer.from("certificate")],
+        ocspResponses: [],
+        crls: [],
+      },
+    ]);
+
+    const analysis = await analyzeModifications(withDss, signed.length);
+
+    expect(analysis.isSafe).toBe(true);
+    expect(analysis.modifications.map((m) => m.kind)).toEqual(
+      expect.arrayContaining(["signature", "dss"]),
+    );
+  });
+
+  it("rejects new signature fields when no changes are permitted", async () => {
+    const pdfService = new PDFService();
+    const signed = await createSignedRevision();
+    const prepared = await pdfService.preparePDF(Buffer.from(signed).toString("base64"));
+
+    const analysis = await analyzeModifications(
+      Buffer.from(prepared.preparedPdfBase64, "base64"),
+      signed.length,
+      { permission: 1 },
+    );
+
+    expect(analysis.isSafe).toBe(false);
+    expect(analysis.modifications).toContainEqual(
+      expect.objectContaining({ kind: "signature", allowed: false }),
+    );
+  });
+
+  it("flags text drawn on a page after signing", async () => {
+    const signed = await createSignedRevision();
+    const writer = await IncrementalPdfWriter.load(signed);
+    const page = writer.doc.getPage(0);
+    page.drawText("Posologie: 10 comprimés par jour", { x: 50, y: 680 });
+    await writer.doc.flush();
+    writer.markModified(page.ref);
+
+    const analysis = await analyzeModifications(writer.save(), signed.length);
+
+    expect(analysis.isSafe).toBe(false);
+    expect(analysis.modifications).toContainEqual(
+      expect.objectContaining({ kind: "pageContent", allowed: false }),
+    );
+  });
+
+  it("flags redefined objects of the signed revision", async () => {
+    const signed = await createSignedRevision();
+    const writer = await IncrementalPdfWriter.load(signed);
+    const context = writer.doc.context;
+
+    // Replace the page content stream in place
+    const contents = writer.doc.getPage(0).node.Contents();
+    const contentsRef = contents instanceof PDFArray ? contents.get(0) : undefined;
+    if (!(contentsRef instanceof PDFRef)) throw new Error("Expected an indirect content stream");
+    context.assign(contentsRef, context.flateStream("BT /F1 12 Tf 50 700 Td (10) Tj ET"));
+    writer.markModified(contentsRef);
+
+    // Swap the font behind the signer's back
+    const fontRef = [...context.enumerateIndirectObjects()]
+      .map(([ref]) => ref)
+      .find((ref) => String(context.lookup(ref)).includes("/Type /Font"));
+    if (!fontRef) throw new Error("Expected a font object");
+    context.assign(fontRef, context.obj({ Type: "Font", Subtype: "Type1", BaseFont: "Courier" }));
+    writer.markModified(fontRef);
+
+    const analysis = await analyzeModifications(writer.save(), signed.length);
+
+    expect(analysis.modifications).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ kind: "pageContent", objectNumber: contentsRef.objectNumber }),
+        expect.objectContaining({ kind: "shadowObject", objectNumber: fontRef.objectNumber }),
+      ]),
+    );
+    expect(analysis.isSafe).toBe(false);
+  });
+
+  it("diffs signed objects that a new DSS points to", async () => {
+    const signed = await createSignedRevision();
+    const writer = await IncrementalPdfWriter.load(signed);
+    const context = writer.doc.context;
+
+    // A DSS listing the page content stream as a "certificate", redefined in the same update
+    const contents = writer.doc.getPage(0).node.Contents();
+    const contentsRef = contents instanceof PDFArray ? contents.get(0) : undefined;
+    if (!(contentsRef instanceof PDFRef)) throw new Error("Expected an indirect content stream");
+    context.assign(contentsRef, context.flateStream("BT /F1 12 Tf 50 700 Td (10) Tj ET"));
+    writer.markModified(contentsRef);
+    writer.doc.catalog.set(
+      PDFName.of("DSS"),
+      context.register(context.obj({ Certs: [contentsRef] })),
+    );
+    writer.markModified(context.trailerInfo.Root as PDFRef);
+
+    const analysis = await analyzeModifications(writer.save(), signed.length);
+
+    expect(analysis.isSafe).toBe(false);
+    expect(analysis.modifications).toContainEqual(
+      expect.objectContaining({ kind: "pageContent", objectNumber: contentsRef.objectNumber }),
+    );
+  });
+
+  it("flags xref sections that free signed objects", async () => {
+    const signed = Buffer.from(await createSignedRevision());
+    const startxref = /startxref\s+(\d+)/.exec(signed.toString("latin1"))![1];
+    const size = /\/Size\s+(\d+)/.exec(signed.toString("latin1"))![1];
+    const root = /\/Root\s+(\d+ \d+ R)/.exec(signed.toString("latin1"))![1];
+
+    const update = Buffer.from(
+      `xref\n3 1\n0000000000 00001 f\r\n` +
+        `trailer\n<< /Size ${size} /Root ${root} /Prev ${startxref} >>\n` +
+        `startxref\n${signed.length}\n%%EOF\n`,
+      "latin1",
+    );
+
+    const analysis = await analyzeModifications(Buffer.concat([signed, update]), signed.length);
+
+    expect(analysis.isSafe).toBe(false);
+    expect(analysis.modifications).toContainEqual(
+      expect.objectContaining({ kind: "xref", objectNumber: 3 }),
+    );
+  });
+});
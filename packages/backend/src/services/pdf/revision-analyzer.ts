@@ -0,0 +1,491 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from "pdf-lib";
+
+import type { DetectedModification, FieldLock, ModificationKind } from "@pades-poc/shared";
+import type { PDFContext, PDFObject } from "pdf-lib";
+
+/** MDP permissions (ISO 32000-1 §12.8.2.2): 1 no changes, 2 form fill + signing, 3 + annotations */
+export type MdpPermission = 1 | 2 | 3;
+
+export interface AnalysisOptions {
+  /** DocMDP permission of a certification signature (2 when the document is not certified) */
+  permission?: MdpPermission;
+  /** Fields locked by the signature (FieldMDP): any change to them is reported as not allowed */
+  fieldLock?: FieldLock;
+}
+
+export interface ModificationAnalysis {
+  /** Offset where the signed revision ends (ByteRange end) */
+  signedRevisionEnd: number;
+  modifications: DetectedModification[];
+  /** True when every later change is permitted */
+  isSafe: boolean;
+}
+
+/**
+ * Classify what the incremental updates appended after a signed revision changed.
+ *
+ * Both revisions are parsed with pdf-lib and compared object by object:
+ * - allowed: DSS additions (new validation material), document timestamps, new signature fields and form fill
+ *   (permission ≥ 2), annotations (permission 3)
+ * - suspicious: page content changes, other catalog/AcroForm changes, redefined objects
+ *   (shadow attacks), xref tricks (freed objects, broken /Prev chain, swapped /Root) and
+ *   changes to locked fields
+ */
+export async function analyzeModifications(
+  pdf: Uint8Array,
+  signedRevisionEnd: number,
+  { permission = 2, fieldLock }: AnalysisOptions = {},
+): Promise<ModificationAnalysis> {
+  const modifications: DetectedModification[] = [];
+  const report = (
+    kind: ModificationKind,
+    allowed: boolean,
+    description: string,
+    objectNumber?: number,
+    fieldName?: string,
+  ) => modifications.push({ kind, allowed, description, objectNumber, fieldName });
+
+  if (signedRevisionEnd >= pdf.length) {
+    return { signedRevisionEnd, modifications, isSafe: true };
+  }
+
+  const before = await PDFDocument.load(pdf.subarray(0, signedRevisionEnd), {
+    updateMetadata: false,
+  });
+  const after = await PDFDocument.load(pdf, { updateMetadata: false });
+
+  // Existing objects whose serialization changed (new objects are judged through their referrers)
+  const modified = new Map<number, PDFObject>();
+  for (const [ref, obj] of after.context.enumerateIndirectObjects()) {
+    const previous = before.context.lookup(ref);
+    if (previous && !serialize(previous).equals(serialize(obj))) {
+      modified.set(ref.objectNumber, obj);
+    }
+  }
+  const handled = new Set<number>();
+
+  // 1) Cross-reference sections and trailer
+  checkXref(pdf, signedRevisionEnd, before, report);
+  const rootBefore = before.context.trailerInfo.Root;
+  const rootAfter = after.context.trailerInfo.Root;
+  if (String(rootBefore) !== String(rootAfter)) {
+    report("xref", false, `Document catalog replaced (/Root ${String(rootAfter)})`);
+  }
+
+  // 2) DSS: validation material added by the update or already part of the signed DSS; an
+  // existing object the new /DSS points to is diffed like any other object
+  const dssBefore = collectDssObjects(before.context, before.catalog.get(PDFName.of("DSS")));
+  const dssObjects = new Set(
+    [...collectDssObjects(after.context, after.catalog.get(PDFName.of("DSS")))].filter(
+      (n) => dssBefore.has(n) || before.context.lookup(PDFRef.of(n, 0)) === undefined,
+    ),
+  );
+  if (
+    serializeValue(before.catalog.get(PDFName.of("DSS"))) !==
+      serializeValue(after.catalog.get(PDFName.of("DSS"))) ||
+    [...dssObjects].some((n) => modified.has(n))
+  ) {
+    report("dss", true, "Document Security Store added or updated");
+  }
+  dssObjects.forEach((n) => handled.add(n));
+
+  // 3) Catalog
+  const catalogRef = rootAfter instanceof PDFRef ? rootAfter : undefined;
+  if (catalogRef) handled.add(catalogRef.objectNumber);
+  for (const key of changedKeys(before.catalog, after.catalog)) {
+    if (key === "DSS" || key === "AcroForm" || key === "Extensions") continue;
+    report("structure", false, `Catalog /${key} changed`, catalogRef?.objectNumber);
+  }
+
+  // Document information dictionary (metadata only)
+  const info = after.context.trailerInfo.Info;
+  if (info instanceof PDFRef && modified.has(info.objectNumber)) {
+    handled.add(info.objectNumber);
+    report("structure", true, "Document information dictionary updated", info.objectNumber);
+  }
+
+  // 4) AcroForm: new signature fields, form fill
+  const fieldsBefore = collectFields(before);
+  const fieldsAfter = collectFields(after);
+  const acroFormRaw = after.catalog.get(PDFName.of("AcroForm"));
+  if (acroFormRaw instanceof PDFRef) handled.add(acroFormRaw.objectNumber);
+  const acroFormBefore = before.catalog.lookupMaybe(PDFName.of("AcroForm"), PDFDict);
+  const acroFormAfter = after.catalog.lookupMaybe(PDFName.of("AcroForm"), PDFDict);
+  if (acroFormAfter) {
+    const fieldsRaw = acroFormAfter.get(PDFName.of("Fields"));
+    if (fieldsRaw instanceof PDFRef) handled.add(fieldsRaw.objectNumber);
+    const allowedKeys = ["Fields", "SigFlags", "DR", "DA", "NeedAppearances"];
+    for (const key of changedKeys(acroFormBefore ?? after.context.obj({}), acroFormAfter)) {
+      if (allowedKeys.includes(key)) continue;
+      report("structure", false, `AcroForm /${key} changed`);
+    }
+  }
+
+  for (const [objectNumber, field] of fieldsAfter) {
+    const existing = fieldsBefore.get(objectNumber);
+    const sigKind = signatureKind(after.context, field.dict);
+
+    const { name } = field;
+    if (!existing) {
+      if (!field.isTerminal) continue;
+      if (sigKind === "documentTimestamp") {
+        report("documentTimestamp", true, `Document timestamp ${name} added`, objectNumber, name);
+      } else if (sigKind === "signature" || field.isSignature) {
+        report("signature", permission >= 2, `Signature field ${name} added`, objectNumber, name);
+      } else {
+        report("annotation", false, `Form field ${name} added`, objectNumber, name);
+      }
+      handled.add(objectNumber);
+      continue;
+    }
+
+    if (!modified.has(objectNumber)) continue;
+    handled.add(objectNumber);
+    const keys = changedKeys(existing.dict, field.dict);
+    const fillKeys = ["V", "AS", "AP"];
+    const locked = isLocked(fieldLock, name);
+    if (keys.every((k) => fillKeys.includes(k))) {
+      const label = locked ? "Locked field" : field.isSignature ? "Signature field" : "Form field";
+      if (field.isSignature && keys.includes("V")) {
+        const kind = sigKind ?? "signature";
+        report(
+          kind,
+          !locked && (kind === "documentTimestamp" || permission >= 2),
+          `${label} ${name} signed`,
+          objectNumber,
+          name,
+        );
+      } else {
+        report(
+          "formFill",
+          !locked && permission >= 2,
+          `${label} ${name} filled`,
+          objectNumber,
+          name,
+        );
+      }
+    } else {
+      report(
+        "structure",
+        false,
+        `${locked ? "Locked field" : "Form field"} ${name} changed (${keys.map((k) => `/${k}`).join(", ")})`,
+        objectNumber,
+        name,
+      );
+    }
+  }
+  for (const [objectNumber, field] of fieldsBefore) {
+    if (!fieldsAfter.has(objectNumber)) {
+      const label = isLocked(fieldLock, field.name) ? "Locked field" : "Form field";
+      report("structure", false, `${label} ${field.name} removed`, objectNumber, field.name);
+    }
+  }
+
+  // 5) Pages: content must not change, annotations only under permission 3
+  const pagesBefore = before.getPages();
+  const pagesAfter = after.getPages();
+  if (pagesBefore.length !== pagesAfter.length) {
+    report(
+      "pageContent",
+      false,
+      `Page count changed from ${pagesBefore.length} to ${pagesAfter.length}`,
+    );
+  }
+  const contentStreams = new Set<number>();
+  pagesBefore.forEach((page) =>
+    collectReachable(before.context, page.node.get(PDFName.of("Contents")), contentStreams),
+  );
+
+  pagesBefore.forEach((pageBefore, index) => {
+    const pageAfter = after.context.lookupMaybe(pageBefore.ref, PDFDict);
+    const pageNumber = index + 1;
+    handled.add(pageBefore.ref.objectNumber);
+    if (!pageAfter) {
+      report("pageContent", false, `Page ${pageNumber} removed`, pageBefore.ref.objectNumber);
+      return;
+    }
+
+    const annotsRaw = pageAfter.get(PDFName.of("Annots"));
+    if (annotsRaw instanceof PDFRef) handled.add(annotsRaw.objectNumber);
+
+    for (const key of changedKeys(pageBefore.node, pageAfter)) {
+      if (key !== "Annots") {
+        report(
+          "pageContent",
+          false,
+          `Page ${pageNumber} /${key} changed`,
+          pageBefore.ref.objectNumber,
+        );
+        continue;
+      }
+
+      const annotsBefore = refsOf(before.context, pageBefore.node.get(PDFName.of("Annots")));
+      const annotsAfter = refsOf(after.context, annotsRaw);
+      for (const ref of annotsAfter) {
+        if (annotsBefore.has(ref)) continue;
+        // Widgets of new signature fields were reported with the AcroForm
+        if (fieldsAfter.has(ref) && !fieldsBefore.has(ref)) continue;
+        report(
+          "annotation",
+          permission === 3,
+          `Annotation ${ref} added on page ${pageNumber}`,
+          ref,
+        );
+      }
+      for (const ref of annotsBefore) {
+        if (!annotsAfter.has(ref)) {
+          report(
+            "annotation",
+            permission === 3,
+            `Annotation ${ref} removed from page ${pageNumber}`,
+            ref,
+          );
+        }
+      }
+    }
+  });
+
+  // 6) Anything else redefined after signing: overlay / shadow attacks
+  for (const [objectNumber, obj] of modified) {
+    if (handled.has(objectNumber)) continue;
+    if (contentStreams.has(objectNumber)) {
+      report("pageContent", false, `Page content stream ${objectNumber} changed`, objectNumber);
+    } else if (annotationOwner(before, objectNumber)) {
+      report("annotation", permission === 3, `Annotation ${objectNumber} changed`, objectNumber);
+    } else {
+      report(
+        "shadowObject",
+        false,
+        `Object ${objectNumber} (${describeObject(obj)}) redefined after signing`,
+        objectNumber,
+      );
+    }
+  }
+
+  return {
+    signedRevisionEnd,
+    modifications,
+    isSafe: modifications.every((m) => m.allowed),
+  };
+}
+
+interface FieldNode {
+  name: string;
+  dict: PDFDict;
+  isSignature: boolean;
+  /** No /Kids fields: the node carries the value */
+  isTerminal: boolean;
+}
+
+/** Every AcroForm node (fields and widget kids) keyed by object number */
+function collectFields(doc: PDFDocument): Map<number, FieldNode> {
+  const context = doc.context;
+  const out = new Map<number, FieldNode>();
+  const acroForm = doc.catalog.lookupMaybe(PDFName.of("AcroForm"), PDFDict);
+  const fields = acroForm?.lookupMaybe(PDFName.of("Fields"), PDFArray);
+
+  const walk = (raw: PDFObject, parentName: string, parentIsSig: boolean, depth: number) => {
+    if (!(raw instanceof PDFRef) || out.has(raw.objectNumber) || depth > 32) return;
+    const dict = context.lookupMaybe(raw, PDFDict);
+    if (!dict) return;
+
+    const t = dict.get(PDFName.of("T"));
+    const partial = t instanceof PDFString || t instanceof PDFHexString ? t.decodeText() : "";
+    const name = partial ? (parentName ? `${parentName}.${partial}` : partial) : parentName;
+    const ft = dict.get(PDFName.of("FT"));
+    const isSignature = ft instanceof PDFName ? ft.asString() === "/Sig" : parentIsSig;
+    const kids = dict.lookupMaybe(PDFName.of("Kids"), PDFArray);
+
+    out.set(raw.objectNumber, { name, dict, isSignature, isTerminal: !kids });
+    kids?.asArray().forEach((kid) => walk(kid, name, isSignature, depth + 1));
+  };
+
+  fields?.asArray().forEach((f) => walk(f, "", false, 0));
+  return out;
+}
+
+/** Whether a FieldMDP lock covers a field (a locked parent name covers its descendants) */
+function isLocked(lock: FieldLock | undefined, name: string): boolean {
+  if (!lock || !name) return false;
+  const listed = (lock.fields ?? []).some((f) => name === f || name.startsWith(`${f}.`));
+  return lock.action === "All" || (lock.action === "Include" ? listed : !listed);
+}
+
+/** "signature" / "documentTimestamp" when the field value is a signature dictionary */
+function signatureKind(
+  context: PDFContext,
+  field: PDFDict,
+): "signature" | "documentTimestamp" | undefined {
+  const raw = field.get(PDFName.of("V"));
+  const v = raw instanceof PDFRef ? context.lookupMaybe(raw, PDFDict) : raw;
+  if (!(v instanceof PDFDict)) return undefined;
+  const type = v.get(PDFName.of("Type"));
+  const subFilter = v.get(PDFName.of("SubFilter"));
+  if (
+    (type instanceof PDFName && type.asString() === "/DocTimeStamp") ||
+    (subFilter instanceof PDFName && subFilter.asString() === "/ETSI.RFC3161")
+  ) {
+    return "documentTimestamp";
+  }
+  return v.has(PDFName.of("ByteRange")) ? "signature" : undefined;
+}
+
+/** Whether an object of the signed revision is an annotation listed on a page */
+function annotationOwner(doc: PDFDocument, objectNumber: number): boolean {
+  return doc
+    .getPages()
+    .some((page) => refsOf(doc.context, page.node.get(PDFName.of("Annots"))).has(objectNumber));
+}
+
+/**
+ * Compare the classic xref tables and trailers appended after the signed revision:
+ * - the first update must chain to the signed xref through /Prev
+ * - a later section must not free an object of the signed revision
+ */
+function checkXref(
+  pdf: Uint8Array,
+  signedRevisionEnd: number,
+  before: PDFDocument,
+  report: (kind: ModificationKind, allowed: boolean, description: string, n?: number) => void,
+): void {
+  const signed = Buffer.from(pdf.buffer, pdf.byteOffset, signedRevisionEnd).toString("latin1");
+  const appended = Buffer.from(pdf.buffer, pdf.byteOffset + signedRevisionEnd).toString("latin1");
+
+  const startxrefs = [...signed.matchAll(/startxref\s+(\d+)/g)];
+  const signedXrefOffset = startxrefs.length
+    ? parseInt(startxrefs[startxrefs.length - 1][1], 10)
+    : undefined;
+
+  // Trailer dictionary or xref stream dictionary of the first update
+  const prevMatch = /(?:trailer|\/Type\s*\/XRef)[\s\S]*?\/Prev\s+(\d+)/.exec(appended);
+  if (signedXrefOffset !== undefined && prevMatch?.[1] !== String(signedXrefOffset)) {
+    report(
+      "xref",
+      false,
+      prevMatch
+        ? `Incremental update /Prev ${prevMatch[1]} does not chain to the signed revision (${signedXrefOffset})`
+        : "Incremental update has no /Prev to the signed revision",
+    );
+  }
+
+  for (const section of appended.matchAll(/(?:^|[\r\n])xref[ \t]*[\r\n]+([\s\S]*?)trailer/g)) {
+    let objectNumber = 0;
+    for (const line of section[1].split(/[\r\n]+/)) {
+      const header = /^\s*(\d+)\s+(\d+)\s*$/.exec(line);
+      if (header) {
+        objectNumber = parseInt(header[1], 10);
+        continue;
+      }
+      const entry = /^\s*(\d{10})\s+(\d{5})\s+([nf])/.exec(line);
+      if (!entry) continue;
+      if (
+        entry[3] === "f" &&
+        objectNumber !== 0 &&
+        before.context.lookup(PDFRef.of(objectNumber, 0)) !== undefined
+      ) {
+        report("xref", false, `Object ${objectNumber} freed by a later xref section`, objectNumber);
+      }
+      objectNumber++;
+    }
+  }
+}
+
+/** Keys whose value differs between two dictionaries (added, removed or changed) */
+function changedKeys(a: PDFDict, b: PDFDict): string[] {
+  const keys = new Set<string>();
+  for (const [key] of [...a.entries(), ...b.entries()]) keys.add(key.decodeText());
+  return [...keys].filter(
+    (key) => serializeValue(a.get(PDFName.of(key))) !== serializeValue(b.get(PDFName.of(key))),
+  );
+}
+
+/** Object numbers referenced by an (optionally indirect) array */
+function refsOf(context: PDFContext, raw: PDFObject | undefined): Set<number> {
+  const array = raw instanceof PDFRef ? context.lookupMaybe(raw, PDFArray) : raw;
+  const out = new Set<number>();
+  if (array instanceof PDFArray) {
+    array.asArray().forEach((item) => item instanceof PDFRef && out.add(item.objectNumber));
+  }
+  return out;
+}
+
+/**
+ * Object numbers of a DSS: the dictionary, its /VRI entries, their arrays and the streams
+ * listed under /Certs, /OCSPs, /CRLs and the VRI /Cert, /OCSP, /CRL and /TS keys
+ */
+function collectDssObjects(context: PDFContext, raw: PDFObject | undefined): Set<number> {
+  const out = new Set<number>();
+  const resolve = (obj: PDFObject | undefined): PDFObject | undefined => {
+    if (!(obj instanceof PDFRef)) return obj;
+    out.add(obj.objectNumber);
+    return context.lookup(obj);
+  };
+  const addStream = (obj: PDFObject | undefined) => {
+    if (obj instanceof PDFRef && context.lookup(obj) instanceof PDFStream) {
+      out.add(obj.objectNumber);
+    }
+  };
+  const addStreams = (obj: PDFObject | undefined) => {
+    const array = resolve(obj);
+    if (array instanceof PDFArray) array.asArray().forEach(addStream);
+  };
+
+  const dss = resolve(raw);
+  if (!(dss instanceof PDFDict)) return out;
+  ["Certs", "OCSPs", "CRLs"].forEach((key) => addStreams(dss.get(PDFName.of(key))));
+  const vri = resolve(dss.get(PDFName.of("VRI")));
+  if (vri instanceof PDFDict) {
+    for (const [, value] of vri.entries()) {
+      const entry = resolve(value);
+      if (!(entry instanceof PDFDict)) continue;
+      ["Cert", "OCSP", "CRL"].forEach((key) => addStreams(entry.get(PDFName.of(key))));
+      addStream(entry.get(PDFName.of("TS")));
+    }
+  }
+  return out;
+}
+
+/** Transitively collect object numbers reachable from `obj` */
+function collectReachable(context: PDFContext, obj: PDFObject | undefined, out: Set<number>): void {
+  const stack: (PDFObject | undefined)[] = [obj];
+  while (stack.length > 0) {
+    const cur = stack.pop();
+    if (cur instanceof PDFRef) {
+      if (out.has(cur.objectNumber)) continue;
+      out.add(cur.objectNumber);
+      stack.push(context.lookup(cur));
+    } else if (cur instanceof PDFDict) {
+      cur.entries().forEach(([, v]) => stack.push(v));
+    } else if (cur instanceof PDFArray) {
+      stack.push(...cur.asArray());
+    } else if (cur instanceof PDFStream) {
+      cur.dict.entries().forEach(([, v]) => stack.push(v));
+    }
+  }
+}
+
+function describeObject(obj: PDFObject): string {
+  const dict = obj instanceof PDFStream ? obj.dict : obj;
+  const type = dict instanceof PDFDict ? dict.get(PDFName.of("Type")) : undefined;
+  if (type instanceof PDFName) return type.decodeText();
+  return obj instanceof PDFStream ? "stream" : obj.constructor.name.replace(/^PDF/, "");
+}
+
+function serialize(obj: PDFObject): Buffer {
+  const bytes = new Uint8Array(obj.sizeInBytes());
+  obj.copyBytesInto(bytes, 0);
+  return Buffer.from(bytes);
+}
+
+function serializeValue(obj: PDFObject | undefined): string {
+  return obj ? serialize(obj).toString("latin1") : "";
+}
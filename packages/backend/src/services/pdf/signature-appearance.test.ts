@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+
+import { issueCert } from "../test-pki";
+
+import { signerDetailsFromCertificate } from "./signature-appearance";
+
+describe("signerDetailsFromCertificate", () => {
+  it("reads the name and the RPPS number of a CPS certificate", async () => {
+    const { pem } = await issueCert("810001234567/DUPONT Jean", {
+      subjectAttributes: [
+        ["2.5.4.6", "FR"],
+        ["2.5.4.10", "CABINET MEDICAL"],
+        ["2.5.4.5", "810001234567"], // national identifier: type 8 + RPPS
+        ["2.5.4.4", "DUPONT"],
+        ["2.5.4.42", "Jean"],
+      ],
+    });
+
+    expect(signerDetailsFromCertificate(pem)).toEqual({
+      signerName: "Jean DUPONT",
+      rpps: "10001234567",
+    });
+  });
+
+  it("falls back to the common name without the identifier", async () => {
+    const { pem } = await issueCert("10001234567/ Dr. Jeanne MARTIN");
+
+    expect(signerDetailsFromCertificate(pem)).toEqual({
+      signerName: "Dr. Jeanne MARTIN",
+      rpps: "10001234567",
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Appearance stream (/AP /N) of visible signature widgets
+ *
+ * The form XObject is drawn in the widget coordinate space ([0 0 width height]) and lists
+ * signer details on a light background: name, profession, RPPS number, signing date and
+ * reason, with an optional image (logo, scanned handwritten signature) on the left. Text
+ * uses a PDF standard font (WinAnsi); characters outside that encoding become "?".
+ *
+ * Name and RPPS default to the signer certificate: givenName + surname (else the CN), and
+ * the 11-digit RPPS number found in the subject, possibly prefixed by the identifier type 8
+ * as in the national identifier of CPS certificates.
+ */
+
+import {
+  StandardFonts,
+  beginText,
+  clip,
+  concatTransformationMatrix,
+  drawObject,
+  endPath,
+  endText,
+  fill,
+  moveText,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  setFillingRgbColor,
+  setFontAndSize,
+  setLineWidth,
+  setStrokingRgbColor,
+  showText,
+  stroke,
+} from "pdf-lib";
+
+import { parseCertificates } from "../pki-utils";
+
+import type {
+  AppearanceFont,
+  AppearanceTemplate,
+  SignatureAppearance,
+  SignatureRect,
+} from "@pades-poc/shared";
+import type { PDFDocument, PDFFont, PDFImage, PDFOperator, PDFRef } from "pdf-lib";
+
+export interface AppearanceContent extends SignatureAppearance {
+  /** Signing date, also written to the signature dictionary /M */
+  date: Date;
+  reason?: string;
+  /** Name shown when neither signerName nor the certificate give one */
+  defaultSignerName?: string;
+}
+
+const FONTS: Record<AppearanceFont, [StandardFonts, StandardFonts]> = {
+  Helvetica: [StandardFonts.Helvetica, StandardFonts.HelveticaBold],
+  "Times-Roman": [StandardFonts.TimesRoman, StandardFonts.TimesRomanBold],
+  Courier: [StandardFonts.Courier, StandardFonts.CourierBold],
+};
+
+const PADDING = 4;
+const LINE_HEIGHT = 1.25;
+const MAX_FONT_SIZE = 10;
+const MIN_FONT_SIZE = 4;
+
+const RPPS_PATTERN = /(?:^|\D)8?(10\d{9})(?!\d)/;
+
+interface TextLine {
+  text: string;
+  bold: boolean;
+}
+
+/**
+ * Register the appearance XObject of a widget of size `rect` in `doc`
+ * @throws Error for the image template without image, or an image that is not PNG or JPEG
+ */
+export async function buildSignatureAppearance(
+  doc: PDFDocument,
+  rect: SignatureRect,
+  content: AppearanceContent,
+): Promise<PDFRef> {
+  const width = Math.abs(rect[2] - rect[0]);
+  const height = Math.abs(rect[3] - rect[1]);
+  const template: AppearanceTemplate = content.template ?? "detailed";
+  if (template === "image" && !content.imageBase64) {
+    throw new Error('The "image" appearance template requires appearance.imageBase64');
+  }
+
+  const fonts = FONTS[content.font ?? "Helvetica"];
+  if (!fonts) throw new Error(`Unsupported appearance font: ${String(content.font)}`);
+  const [regularName, boldName] = fonts;
+  const regular = await doc.embedFont(regularName);
+  const bold = await doc.embedFont(boldName);
+  const image = content.imageBase64 ? await embedImage(doc, content.imageBase64) : undefined;
+
+  const operators: PDFOperator[] = [
+    pushGraphicsState(),
+    // Background and frame
+    setFillingRgbColor(0.96, 0.97, 1),
+    rectangle(0, 0, width, height),
+    fill(),
+    setStrokingRgbColor(0.4, 0.45, 0.6),
+    setLineWidth(1),
+    rectangle(0.5, 0.5, width - 1, height - 1),
+    stroke(),
+    // Nothing drawn outside the frame
+    rectangle(0, 0, width, height),
+    clip(),
+    endPath(),
+  ];
+
+  let textX = PADDING;
+  if (image) {
+    const box =
+      template === "image"
+        ? { x: PADDING, width: width - 2 * PADDING }
+        : { x: PADDING, width: Math.min(width * 0.35, height) - PADDING };
+    const scale = Math.min(box.width / image.width, (height - 2 * PADDING) / image.height);
+    const [w, h] = [image.width * scale, image.height * scale];
+    operators.push(
+      pushGraphicsState(),
+      concatTransformationMatrix(w, 0, 0, h, box.x + (box.width - w) / 2, (height - h) / 2),
+      drawObject("Im1"),
+      popGraphicsState(),
+    );
+    textX = box.x + box.width + PADDING;
+  }
+
+  if (template !== "image") {
+    const lines = textLines(template, content);
+    const textWidth = width - textX - PADDING;
+    const size = content.fontSize ?? fitFontSize(lines, textWidth, height, regular, bold);
+    const lineHeight = size * LINE_HEIGHT;
+    const top = (height + lines.length * lineHeight) / 2 - size;
+
+    operators.push(setFillingRgbColor(0.1, 0.1, 0.2), beginText(), moveText(textX, top));
+    lines.forEach((line, i) => {
+      const font = line.bold ? bold : regular;
+      if (i > 0) operators.push(moveText(0, -lineHeight));
+      operators.push(
+        setFontAndSize(line.bold ? "F2" : "F1", size),
+        showText(font.encodeText(encodable(font, line.text))),
+      );
+    });
+    operators.push(endText());
+  }
+  operators.push(popGraphicsState());
+
+  const appearance = doc.context.formXObject(operators, {
+    BBox: [0, 0, width, height],
+    Resources: {
+      Font: { F1: regular.ref, F2: bold.ref },
+      ...(image && { XObject: { Im1: image.ref } }),
+    },
+  });
+  // Write the font and image dictionaries now: the incremental writer only saves objects
+  // already registered in the context
+  await doc.flush();
+  return doc.context.register(appearance);
+}
+
+/**
+ * Signer name and RPPS number of a certificate (PEM), when present in its subject
+ */
+export function signerDetailsFromCertificate(pem: string): { signerName?: string; rpps?: string } {
+  const [cert] = parseCertificates(Buffer.from(pem, "latin1"));
+  if (!cert) return {};
+
+  const values = new Map<string, string>();
+  for (const tv of cert.subject.typesAndValues) {
+    const value: unknown = tv.value.valueBlock.value;
+    if (typeof value === "string" && !values.has(tv.type)) values.set(tv.type, value);
+  }
+  const commonName = values.get("2.5.4.3") ?? "";
+  const givenName = values.get("2.5.4.42");
+  const surname = values.get("2.5.4.4");
+
+  const rpps = [...values.values()].map((v) => RPPS_PATTERN.exec(v)?.[1]).find(Boolean);
+  const signerName =
+    givenName && surname
+      ? `${givenName} ${surname}`
+      : commonName
+          .replace(RPPS_PATTERN, "")
+          .replace(/^[\s/+-]+|[\s/+-]+$/g, "")
+          .trim();
+  return { signerName: signerName || undefined, rpps };
+}
+
+function textLines(template: AppearanceTemplate, content: AppearanceContent): TextLine[] {
+  const certificate = content.signerCertPem
+    ? signerDetailsFromCertificate(content.signerCertPem)
+    : {};
+  const signerName =
+    content.signerName ?? certificate.signerName ?? content.defaultSignerName ?? "Signataire";
+  const rpps = content.rpps ?? certificate.rpps;
+  const date = `Le ${formatDate(content.date)}`;
+
+  if (template === "compact") {
+    return [
+      { text: signerName, bold: true },
+      { text: date, bold: false },
+    ];
+  }
+  return [
+    { text: "Signé électroniquement par", bold: false },
+    { text: signerName, bold: true },
+    ...(content.profession ? [{ text: content.profession, bold: false }] : []),
+    ...(rpps ? [{ text: `RPPS : ${rpps}`, bold: false }] : []),
+    { text: date, bold: false },
+    ...(content.reason ? [{ text: `Motif : ${content.reason}`, bold: false }] : []),
+  ];
+}
+
+/** Largest font size (MIN_FONT_SIZE to MAX_FONT_SIZE) at which every line fits */
+function fitFontSize(
+  lines: TextLine[],
+  width: number,
+  height: number,
+  regular: PDFFont,
+  bold: PDFFont,
+): number {
+  for (let size = MAX_FONT_SIZE; size > MIN_FONT_SIZE; size -= 0.5) {
+    const fits =
+      lines.length * size * LINE_HEIGHT <= height - 2 * PADDING &&
+      lines.every(
+        (line) =>
+          (line.bold ? bold : regular).widthOfTextAtSize(
+            encodable(line.bold ? bold : regular, line.text),
+            size,
+          ) <= width,
+      );
+    if (fits) return size;
+  }
+  return MIN_FONT_SIZE;
+}
+
+/** UTC date and time, e.g. "19/10/2026 14:05 UTC" */
+function formatDate(date: Date): string {
+  const formatted = date.toLocaleString("fr-FR", {
+    dateStyle: "short",
+    timeStyle: "short",
+    timeZone: "UTC",
+  });
+  return `${formatted} UTC`;
+}
+
+/** Replace the characters the standard font cannot encode */
+function encodable(font: PDFFont, text: string): string {
+  const charset = new Set(font.getCharacterSet());
+  return [...text].map((c) => (charset.has(c.codePointAt(0)!) ? c : "?")).join("");
+}
+
+async function embedImage(doc: PDFDocument, imageBase64: string): Promise<PDFImage> {
+  const bytes = Buffer.from(imageBase64, "base64");
+  if (bytes.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))) {
+    return doc.embedPng(bytes);
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return doc.embedJpg(bytes);
+  throw new Error("The appearance image must be a PNG or JPEG");
+}
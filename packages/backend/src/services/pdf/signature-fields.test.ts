@@ -0,0 +1,42 @@
+import { PDFDocument, PDFName, PDFString } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+
+import { listFieldNames, listSignatureFields, listSignatureWidgets } from "./signature-fields";
+
+describe("signature fields", () => {
+  it("should stop at a /Parent loop", async () => {
+    const doc = await PDFDocument.create();
+    const page = doc.addPage();
+    const { context } = doc;
+    const aRef = context.nextRef();
+    const bRef = context.nextRef();
+    context.assign(aRef, context.obj({ T: PDFString.of("a"), Parent: bRef }));
+    context.assign(bRef, context.obj({ T: PDFString.of("b"), FT: "Sig", Parent: aRef }));
+    const widget = context.register(
+      context.obj({ Type: "Annot", Subtype: "Widget", Parent: aRef, Rect: [10, 10, 110, 60] }),
+    );
+    page.node.set(PDFName.of("Annots"), context.obj([widget]));
+    doc.catalog.set(PDFName.of("AcroForm"), context.obj({ Fields: [aRef] }));
+
+    expect(listSignatureWidgets(doc, 0)).toEqual([{ fieldName: "b.a", rect: [10, 10, 110, 60] }]);
+    expect(listSignatureFields(doc)).toEqual([]);
+    expect(listFieldNames(doc)).toEqual(["a"]);
+  });
+
+  it("should stop at a /Kids loop", async () => {
+    const doc = await PDFDocument.create();
+    const { context } = doc;
+    const cRef = context.nextRef();
+    const dRef = context.nextRef();
+    const signature = context.obj({ Type: "Sig", SubFilter: "ETSI.CAdES.detached" });
+    context.assign(cRef, context.obj({ T: PDFString.of("c"), Kids: [dRef] }));
+    context.assign(
+      dRef,
+      context.obj({ T: PDFString.of("d"), FT: "Sig", V: signature, Kids: [cRef] }),
+    );
+    doc.catalog.set(PDFName.of("AcroForm"), context.obj({ Fields: [cRef] }));
+
+    expect(listSignatureFields(doc).map((f) => f.fieldName)).toEqual(["c.d"]);
+    expect(listFieldNames(doc)).toEqual(["c", "c.d"]);
+  });
+});
@@ -0,0 +1,247 @@
+import { PDFArray, PDFDict, PDFHexString, PDFName, PDFNumber, PDFRef, PDFString } from "pdf-lib";
+
+import type { MdpPermission } from "./revision-analyzer";
+import type { ByteRange, FieldLock, SignatureRect } from "@pades-poc/shared";
+import type { PDFContext, PDFDocument, PDFObject } from "pdf-lib";
+
+/** Deepest field nesting followed through /Kids or /Parent (loops and crafted trees stop there) */
+const MAX_FIELD_DEPTH = 32;
+
+export interface PdfSignatureField {
+  /** Fully qualified field name (parent names joined with ".") */
+  fieldName: string;
+  /** Reference of the signature dictionary (/V) */
+  signatureRef?: PDFRef;
+  /** "/Sig" for approval signatures, "/DocTimeStamp" for document timestamps */
+  type: string;
+  subFilter?: string;
+  /** Undefined while the placeholder has not been finalized */
+  byteRange?: ByteRange;
+  /** Decoded /Contents (placeholder padding included) */
+  contents: Buffer;
+  /** FieldMDP transform of the signature, or the field /Lock */
+  fieldLock?: FieldLock;
+}
+
+/**
+ * Enumerate signed signature fields (/FT /Sig with a /V dictionary) through the AcroForm tree.
+ * Fields without /V (empty signature fields) are skipped.
+ */
+export function listSignatureFields(doc: PDFDocument): PdfSignatureField[] {
+  const context = doc.context;
+  const out: PdfSignatureField[] = [];
+
+  walkFields(doc, (dict, name) => {
+    if (getInheritedName(context, dict, PDFName.of("FT")) !== "/Sig") return;
+    const vRaw = dict.get(PDFName.of("V"));
+    const v = lookupDict(context, vRaw);
+    if (!v) return;
+    const field = toSignatureField(name ?? "", v, vRaw instanceof PDFRef ? vRaw : undefined);
+    field.fieldLock =
+      readFieldLock(context, findTransformParams(context, v, "/FieldMDP")) ??
+      readFieldLock(context, lookupDict(context, dict.get(PDFName.of("Lock"))));
+    out.push(field);
+  });
+  return out;
+
+  function toSignatureField(
+    fieldName: string,
+    v: PDFDict,
+    signatureRef: PDFRef | undefined,
+  ): PdfSignatureField {
+    const type = v.get(PDFName.of("Type"));
+    const subFilter = v.get(PDFName.of("SubFilter"));
+    const contents = v.get(PDFName.of("Contents"));
+    const br = lookupArray(context, v.get(PDFName.of("ByteRange")));
+
+    let byteRange: ByteRange | undefined;
+    if (br && br.size() === 4) {
+      const nums = br.asArray().map((n) => (n instanceof PDFNumber ? n.asNumber() : NaN));
+      if (nums.every((n) => Number.isFinite(n))) byteRange = nums as ByteRange;
+    }
+
+    return {
+      fieldName,
+      signatureRef,
+      type: type instanceof PDFName ? String(type) : "/Sig",
+      subFilter: subFilter instanceof PDFName ? String(subFilter).slice(1) : undefined,
+      byteRange,
+      contents:
+        contents instanceof PDFHexString || contents instanceof PDFString
+          ? Buffer.from(contents.asBytes())
+          : Buffer.alloc(0),
+    };
+  }
+}
+
+export interface PdfCertification {
+  /** Signature dictionary referenced by the catalog /Perms /DocMDP */
+  signatureRef: PDFRef;
+  /** DocMDP /TransformParams /P (2 when absent) */
+  permission: MdpPermission;
+}
+
+/**
+ * Certification signature declared in the catalog (/Perms /DocMDP) with the permission of its
+ * DocMDP transform. Undefined for documents that are only approved, not certified.
+ */
+export function findCertification(doc: PDFDocument): PdfCertification | undefined {
+  const context = doc.context;
+  const perms = lookupDict(context, doc.catalog.get(PDFName.of("Perms")));
+  const signatureRef = perms?.get(PDFName.of("DocMDP"));
+  if (!(signatureRef instanceof PDFRef)) return undefined;
+
+  const sig = lookupDict(context, signatureRef);
+  const params = sig && findTransformParams(context, sig, "/DocMDP");
+  if (!params) return undefined;
+
+  const p = params.get(PDFName.of("P"));
+  const value = p instanceof PDFNumber ? p.asNumber() : 2;
+  return { signatureRef, permission: value === 1 || value === 3 ? value : 2 };
+}
+
+/** /TransformParams of the signature /Reference entry using `method` ("/DocMDP", "/FieldMDP") */
+function findTransformParams(
+  context: PDFContext,
+  sig: PDFDict,
+  method: string,
+): PDFDict | undefined {
+  const references = lookupArray(context, sig.get(PDFName.of("Reference")));
+  for (let i = 0; i < (references?.size() ?? 0); i++) {
+    const reference = lookupDict(context, references!.get(i));
+    if (reference && String(reference.get(PDFName.of("TransformMethod"))) === method) {
+      // Missing /TransformParams: every entry takes its default value
+      return lookupDict(context, reference.get(PDFName.of("TransformParams"))) ?? context.obj({});
+    }
+  }
+  return undefined;
+}
+
+/** /Action and /Fields of a field /Lock or FieldMDP /TransformParams dictionary */
+function readFieldLock(context: PDFContext, dict: PDFDict | undefined): FieldLock | undefined {
+  const action = dict?.get(PDFName.of("Action"));
+  if (!(action instanceof PDFName)) return undefined;
+  const name = action.decodeText();
+  if (name !== "All" && name !== "Include" && name !== "Exclude") return undefined;
+
+  const fields = lookupArray(context, dict!.get(PDFName.of("Fields")));
+  return {
+    action: name,
+    fields: fields
+      ?.asArray()
+      .map((f) => decodeText(f))
+      .filter((f): f is string => f !== undefined),
+  };
+}
+
+export interface SignatureWidget {
+  fieldName: string;
+  /** Normalized [x1, y1, x2, y2] in PDF points */
+  rect: SignatureRect;
+}
+
+/**
+ * Visible signature widgets (/FT /Sig with a non-empty /Rect) of a page, signed or not
+ */
+export function listSignatureWidgets(doc: PDFDocument, pageIndex: number): SignatureWidget[] {
+  const context = doc.context;
+  const annots = lookupArray(context, doc.getPage(pageIndex).node.get(PDFName.of("Annots")));
+  const out: SignatureWidget[] = [];
+  for (let i = 0; i < (annots?.size() ?? 0); i++) {
+    const widget = lookupDict(context, annots!.get(i));
+    if (!widget || getInheritedName(context, widget, PDFName.of("FT")) !== "/Sig") continue;
+
+    const rect = lookupArray(context, widget.get(PDFName.of("Rect")))
+      ?.asArray()
+      .map((n) => (n instanceof PDFNumber ? n.asNumber() : NaN));
+    if (rect?.length !== 4 || !rect.every((n) => Number.isFinite(n))) continue;
+    const [x1, y1, x2, y2] = rect;
+    if (x1 === x2 || y1 === y2) continue; // Invisible signature
+
+    const names = parentChain(context, widget)
+      .map((dict) => decodeText(dict.get(PDFName.of("T"))))
+      .filter((partial): partial is string => !!partial)
+      .reverse();
+    out.push({
+      fieldName: names.join("."),
+      rect: [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)],
+    });
+  }
+  return out;
+}
+
+/** Fully qualified names of every AcroForm field (any type, signed or not) */
+export function listFieldNames(doc: PDFDocument): string[] {
+  const names = new Set<string>();
+  walkFields(doc, (_dict, name) => {
+    if (name) names.add(name);
+  });
+  return [...names];
+}
+
+/** Depth-first walk of the AcroForm /Fields tree (through /Kids) with qualified names */
+function walkFields(
+  doc: PDFDocument,
+  visit: (dict: PDFDict, name: string | undefined) => void,
+): void {
+  const context = doc.context;
+  const acroForm = lookupDict(context, doc.catalog.get(PDFName.of("AcroForm")));
+  const fields = acroForm && lookupArray(context, acroForm.get(PDFName.of("Fields")));
+  const seen = new Set<PDFDict>();
+  for (let i = 0; i < (fields?.size() ?? 0); i++) {
+    walk(fields!.get(i), undefined, 0);
+  }
+
+  function walk(obj: PDFObject | undefined, parentName: string | undefined, depth: number): void {
+    const dict = lookupDict(context, obj);
+    if (!dict || seen.has(dict) || depth > MAX_FIELD_DEPTH) return;
+    seen.add(dict);
+
+    const partial = decodeText(dict.get(PDFName.of("T")));
+    const name = partial ? (parentName ? `${parentName}.${partial}` : partial) : parentName;
+    visit(dict, name);
+
+    const kids = lookupArray(context, dict.get(PDFName.of("Kids")));
+    for (let i = 0; i < (kids?.size() ?? 0); i++) {
+      walk(kids!.get(i), name, depth + 1);
+    }
+  }
+}
+
+/** Text value of a PDF string object (literal or hex) */
+function decodeText(obj: PDFObject | undefined): string | undefined {
+  if (obj instanceof PDFString || obj instanceof PDFHexString) return obj.decodeText();
+  return undefined;
+}
+
+/** Resolve an inheritable Name up the Parent chain as string like "/Sig" */
+function getInheritedName(context: PDFContext, start: PDFDict, key: PDFName): string | undefined {
+  for (const dict of parentChain(context, start)) {
+    const v = dict.get(key);
+    if (v instanceof PDFName) return String(v);
+  }
+  return undefined;
+}
+
+/** `start` and its /Parent ancestors, nearest first; stops at a loop or MAX_FIELD_DEPTH */
+function parentChain(context: PDFContext, start: PDFDict): PDFDict[] {
+  const chain: PDFDict[] = [];
+  let cur: PDFDict | undefined = start;
+  while (cur && !chain.includes(cur) && chain.length <= MAX_FIELD_DEPTH) {
+    chain.push(cur);
+    cur = lookupDict(context, cur.get(PDFName.of("Parent")));
+  }
+  return chain;
+}
+
+function lookupDict(context: PDFContext, obj: PDFObject | undefined): PDFDict | undefined {
+  if (obj instanceof PDFDict) return obj;
+  if (obj instanceof PDFRef) return context.lookupMaybe(obj, PDFDict);
+  return undefined;
+}
+
+function lookupArray(context: PDFContext, obj: PDFObject | undefined): PDFArray | undefined {
+  if (obj instanceof PDFArray) return obj;
+  if (obj instanceof PDFRef) return context.lookupMaybe(obj, PDFArray);
+  return undefined;
+}
@@ -6,13 +6,21 @@
  * signing operations as required by the PKCS#11 standard.
  */
 
+import { createHash } from "crypto";
 import { promises as fs } from "fs";
 
 import * as asn1js from "asn1js";
 import * as pkcs11js from "pkcs11js";
 import { Certificate } from "pkijs";
 
-import type { LogEntry } from "@pades-poc/shared";
+import {
+  ecdsaRawToDer,
+  selectSignatureAlgorithm,
+  signatureAlgorithmForDigest,
+  signatureAlgorithmForKey,
+} from "./signature-algorithms";
+
+import type { DigestAlgorithm, LogEntry } from "@pades-poc/shared";
 
 export interface PKCS11Config {
   /** Path to PKCS#11 library (e.g., cryptolib on macOS) */
@@ -63,6 +71,26 @@ export interface PKCS11SignResult {
   algorithm: string;
 }
 
+/** RSA PKCS#1 v1.5 mechanisms hashing on the token */
+const RSA_PKCS_MECHANISMS: Record<DigestAlgorithm, number> = {
+  "SHA-256": 0x00000040, // CKM_SHA256_RSA_PKCS
+  "SHA-384": 0x00000041, // CKM_SHA384_RSA_PKCS
+  "SHA-512": 0x00000042, // CKM_SHA512_RSA_PKCS
+};
+
+/** RSA-PSS mechanism, hash mechanism and MGF1 generator per signature hash */
+const RSA_PSS_MECHANISMS: Record<
+  DigestAlgorithm,
+  { mechanism: number; hashAlg: number; mgf: number }
+> = {
+  // CKM_SHA256_RSA_PKCS_PSS, CKM_SHA256, CKG_MGF1_SHA256
+  "SHA-256": { mechanism: 0x00000043, hashAlg: 0x00000250, mgf: 0x00000002 },
+  // CKM_SHA384_RSA_PKCS_PSS, CKM_SHA384, CKG_MGF1_SHA384
+  "SHA-384": { mechanism: 0x00000044, hashAlg: 0x00000260, mgf: 0x00000003 },
+  // CKM_SHA512_RSA_PKCS_PSS, CKM_SHA512, CKG_MGF1_SHA512
+  "SHA-512": { mechanism: 0x00000045, hashAlg: 0x00000270, mgf: 0x00000004 },
+};
+
 /**
  * PKCS#11 Service for direct hardware token integration
  */
@@ -493,7 +521,13 @@ export class PKCS11Service {
 
             this.log(logs, "debug", "Found private key", {
               label,
-              keyType: keyType === 0x00000000 ? "RSA" : `Unknown(${keyType})`, // CKK_RSA = 0x00000000
+              // CKK_RSA = 0x00000000, CKK_EC = 0x00000003
+              keyType:
+                keyType === 0x00000000
+                  ? "RSA"
+                  : keyType === 0x00000003
+                    ? "EC"
+                    : `Unknown(${keyType})`,
               canSign,
               handle: handle.toString("hex"),
             });
@@ -516,8 +550,18 @@ export class PKCS11Service {
 
   /**
    * Sign data using PKCS#11 (binary data, not base64)
+   * @param signatureAlgorithmOid id-RSASSA-PSS for CKM_SHA256/384/512_RSA_PKCS_PSS with an RSA key;
+   *   default: sha*WithRSA or ECDSA depending on the certificate key
+   * @param digestAlgorithm Digest of the signed attributes; a stronger one than the key default
+   *   raises the signature hash (default SHA-256)
    */
-  signData(data: Buffer, certificateId: Buffer, logs?: LogEntry[]): PKCS11SignResult {
+  signData(
+    data: Buffer,
+    certificateId: Buffer,
+    signatureAlgorithmOid?: string,
+    digestAlgorithm?: DigestAlgorithm,
+    logs?: LogEntry[],
+  ): PKCS11SignResult {
     if (!this.pkcs11 || !this.session) {
       throw new Error("PKCS#11 session not established");
     }
@@ -641,10 +685,38 @@ export class PKCS11Service {
         subject,
       });
 
-      // Initialize signing operation (RSA with SHA-256)
-      const mechanism = { mechanism: 0x00000040, parameter: undefined }; // CKM_SHA256_RSA_PKCS = 0x00000040
+      // RSA PKCS#1 v1.5 (or PSS on request) with the hash of the digest, or ECDSA
+      // with the hash sized to the curve of the certificate key unless the digest is stronger
+      const algorithm = selectSignatureAlgorithm(
+        signatureAlgorithmForDigest(signatureAlgorithmForKey(cert), digestAlgorithm),
+        signatureAlgorithmOid,
+      );
+      const isEcdsa = algorithm.name === "ECDSA";
+
+      // Initialize signing operation. CKM_ECDSA signs a digest: hash locally, since the
+      // CKM_ECDSA_SHA* mechanisms are not available on every token
+      let mechanism: pkcs11js.Mechanism;
+      let mechanismName: string;
+      if (isEcdsa) {
+        mechanism = { mechanism: 0x00001041, parameter: undefined }; // CKM_ECDSA = 0x00001041
+        mechanismName = "CKM_ECDSA";
+      } else if (algorithm.name === "RSA-PSS") {
+        const pss = RSA_PSS_MECHANISMS[algorithm.hash];
+        const parameter: pkcs11js.RsaPSS = {
+          type: pkcs11js.CK_PARAMS_RSA_PSS,
+          hashAlg: pss.hashAlg,
+          mgf: pss.mgf,
+          saltLen: algorithm.saltLength!,
+        };
+        mechanism = { mechanism: pss.mechanism, parameter };
+        mechanismName = `CKM_${algorithm.hash.replace("-", "")}_RSA_PKCS_PSS`;
+      } else {
+        mechanism = { mechanism: RSA_PKCS_MECHANISMS[algorithm.hash], parameter: undefined };
+        mechanismName = `CKM_${algorithm.hash.replace("-", "")}_RSA_PKCS`;
+      }
       this.log(logs, "debug", "Initializing signing operation", {
-        mechanism: "CKM_SHA256_RSA_PKCS",
+        mechanism: mechanismName,
+        hash: algorithm.hash,
         privateKeyHandle: privateKeyHandle,
         privateKeyHandleHex: privateKeyHandle.toString("hex"),
       });
@@ -652,11 +724,19 @@ export class PKCS11Service {
       this.pkcs11.C_SignInit(this.session, mechanism, privateKeyHandle);
 
       // Perform signing operation
-      const signature = this.pkcs11.C_Sign(this.session, data, Buffer.alloc(256)); // RSA-2048 produces 256-byte signature
+      const toSign = isEcdsa
+        ? createHash(algorithm.hash.replace("-", "").toLowerCase()).update(data).digest()
+        : data;
+      // RSA-2048 produces 256-byte signatures, ECDSA raw r||s (96 bytes for P-384)
+      const rawSignature = this.pkcs11.C_Sign(this.session, toSign, Buffer.alloc(512));
+      // CMS carries ECDSA signatures as a DER Ecdsa-Sig-Value
+      const signature = isEcdsa ? ecdsaRawToDer(rawSignature) : rawSignature;
 
       this.log(logs, "success", "Data signed successfully", {
         signatureSize: signature.length,
-        algorithm: "SHA256_RSA_PKCS",
+        algorithm: isEcdsa
+          ? `ECDSA_${algorithm.hash.replace("-", "")}`
+          : mechanismName.replace("CKM_", ""),
       });
 
       return {
@@ -670,7 +750,7 @@ export class PKCS11Service {
           serialNumber,
           certificatePem: certPem,
         },
-        algorithm: "1.2.840.113549.1.1.11", // SHA256withRSA OID
+        algorithm: algorithm.oid, // SHA256withRSA, id-RSASSA-PSS or ecdsa-with-SHA256/384 OID
       };
     } catch (error) {
       const msg = error instanceof Error ? error.message : "Unknown error";
@@ -687,6 +767,8 @@ export class PKCS11Service {
     slotId?: number,
     pin?: string,
     certificateFilter?: { label?: string; subject?: string },
+    signatureAlgorithmOid?: string,
+    digestAlgorithm?: DigestAlgorithm,
     logs?: LogEntry[],
   ): Promise<PKCS11SignResult> {
     // Initialize if needed
@@ -736,7 +818,7 @@ export class PKCS11Service {
     });
 
     // Sign data
-    return this.signData(data, targetCert.id, logs);
+    return this.signData(data, targetCert.id, signatureAlgorithmOid, digestAlgorithm, logs);
   }
 
   /**
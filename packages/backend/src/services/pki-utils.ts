@@ -0,0 +1,78 @@
+/**
+ * Shared PKI.js setup and certificate helpers
+ *
+ * Importing this module registers the Node WebCrypto engine PKI.js needs to verify and
+ * sign; modules that parse or check certificates import it instead of calling setEngine.
+ */
+import { webcrypto as nodeWebcrypto } from "crypto";
+
+import * as asn1js from "asn1js";
+import { Certificate, ContentInfo, CryptoEngine, SignedData, setEngine } from "pkijs";
+
+setEngine(
+  "nodeEngine",
+  // Cast to the DOM Crypto type for TypeScript; runtime is nodeWebcrypto
+  nodeWebcrypto as unknown as Crypto,
+  new CryptoEngine({
+    name: "nodeEngine",
+    crypto: nodeWebcrypto as unknown as Crypto,
+    subtle: nodeWebcrypto.subtle as SubtleCrypto,
+  }),
+);
+
+/**
+ * Subject common name, "Unknown" without one
+ */
+export function getSubjectCN(cert: Certificate): string {
+  const cn = cert.subject.typesAndValues.find((tv) => tv.type === "2.5.4.3");
+  const value = cn ? String(cn.value.valueBlock.value) : "";
+  return value || "Unknown";
+}
+
+/**
+ * Byte-wise equality
+ */
+export function bytesEq(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/** File extensions read from trust store and intermediate store directories */
+export const CERTIFICATE_EXTENSIONS = new Set([".pem", ".crt", ".cer", ".der", ".p7b", ".p7c"]);
+
+/** Certificates of a PEM (certificates and/or PKCS7 blocks) or DER (certificate or PKCS#7) file */
+export function parseCertificates(data: Buffer): Certificate[] {
+  const text = data.toString("latin1");
+  if (!text.includes("-----BEGIN ")) return parseDer(data);
+
+  const certificates: Certificate[] = [];
+  for (const [, label, body] of text.matchAll(
+    /-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/g,
+  )) {
+    const der = Buffer.from(body.replace(/\s+/g, ""), "base64");
+    if (label === "PKCS7") certificates.push(...parseDer(der));
+    else if (label.endsWith("CERTIFICATE"))
+      certificates.push(Certificate.fromBER(new Uint8Array(der)));
+  }
+  if (certificates.length === 0) throw new Error("No certificate found");
+  return certificates;
+}
+
+function parseDer(der: Buffer): Certificate[] {
+  const asn1 = asn1js.fromBER(new Uint8Array(der));
+  if (asn1.offset === -1) throw new Error("Invalid ASN.1");
+
+  try {
+    return [new Certificate({ schema: asn1.result })];
+  } catch {
+    // Not a certificate: PKCS#7 (degenerate SignedData) bundle
+    const contentInfo = new ContentInfo({ schema: asn1.result });
+    const signedData = new SignedData({ schema: contentInfo.content });
+    return (signedData.certificates ?? []).filter(
+      (c): c is Certificate => c instanceof Certificate,
+    );
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Human-readable PDF validation report
+ *
+ * Drawn with pdf-lib like the demo prescription: the validated document (SHA-256), then per
+ * signed field the ETSI indication and the result of each building block. The signature
+ * area of the first page is left free for the seal applied by the ReportSealer.
+ */
+
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+
+import { sha256 } from "../crypto-utils";
+import { DEFAULT_SIGNATURE_RECT } from "../pdf-service";
+
+import type { SignatureVerificationResult, VerificationResult } from "../verification-service";
+import type { BlockIndication, MainIndication } from "@pades-poc/shared";
+import type { PDFFont, PDFPage, RGB } from "pdf-lib";
+
+const A4_WIDTH = 595.28;
+const A4_HEIGHT = 841.89;
+const MARGIN = 50;
+const TEXT_WIDTH = A4_WIDTH - 2 * MARGIN;
+/** Content stops above the seal area of the first page */
+const BOTTOM = DEFAULT_SIGNATURE_RECT[3] + 20;
+
+const BLOCK_LABELS: Record<string, string> = {
+  identification: "Identification du certificat signataire",
+  x509Validation: "Validation de la chaîne de certificats",
+  cryptographicVerification: "Vérification cryptographique",
+  timestampValidation: "Validation de l'horodatage",
+  pastSignatureValidation: "Validation à une date passée (preuve d'existence)",
+};
+
+export interface PdfReportOptions {
+  /** Validated PDF, hashed into the report */
+  pdfBytes: Uint8Array;
+  /** Name of the validated file, when known */
+  documentName?: string;
+}
+
+/**
+ * Unsealed PDF report of a verification result
+ */
+export async function generatePdfValidationReport(
+  result: VerificationResult,
+  options: PdfReportOptions,
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle("Rapport de validation de signatures");
+  pdfDoc.setCreator("PAdES-POC");
+  pdfDoc.setSubject("Rapport de validation ETSI EN 319 102-1");
+
+  const helv = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const helvBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const writer = new PageWriter(pdfDoc, helv, helvBold);
+
+  writer.text("Rapport de validation de signatures", { size: 20, bold: true, gap: 10 });
+  writer.text("Modèle de validation ETSI EN 319 102-1 / rapport ETSI TS 119 102-2", {
+    size: 10,
+    color: rgb(0.5, 0.5, 0.5),
+    gap: 20,
+  });
+
+  writer.text("DOCUMENT VALIDÉ", { size: 14, bold: true, gap: 6 });
+  if (options.documentName) writer.text(`Fichier: ${options.documentName}`, { indent: 20 });
+  writer.text(`Taille: ${options.pdfBytes.length} octets`, { indent: 20 });
+  writer.text(`SHA-256: ${sha256(Buffer.from(options.pdfBytes)).toString("hex")}`, {
+    indent: 20,
+    size: 8,
+  });
+  writer.text(`Date de validation: ${validationTimeOf(result)}`, { indent: 20, gap: 16 });
+
+  const signatures = result.signatures ?? [];
+  if (signatures.length === 0) {
+    writer.text("Aucune signature trouvée dans le document.", { bold: true });
+  }
+  signatures.forEach((signature) => writeSignature(writer, signature));
+
+  // Visual seal area (the seal signature widget is placed there)
+  const [x1, y1, x2, y2] = DEFAULT_SIGNATURE_RECT;
+  const firstPage = pdfDoc.getPage(0);
+  firstPage.drawRectangle({
+    x: x1,
+    y: y1,
+    width: x2 - x1,
+    height: y2 - y1,
+    borderColor: rgb(0.5, 0.5, 0.5),
+    borderWidth: 1,
+    color: rgb(0.95, 0.95, 0.95),
+  });
+  firstPage.drawText("Cachet électronique du service de validation", {
+    x: x1 + 10,
+    y: y2 - 20,
+    size: 8,
+    font: helvBold,
+    color: rgb(0.3, 0.3, 0.3),
+  });
+
+  return pdfDoc.save({ useObjectStreams: false });
+}
+
+function writeSignature(writer: PageWriter, signature: SignatureVerificationResult): void {
+  const kind = signature.type === "documentTimestamp" ? "Horodatage de document" : "Signature";
+  writer.text(`${kind.toUpperCase()} ${signature.fieldName}`, { size: 14, bold: true, gap: 6 });
+
+  const report = signature.validationReport;
+  const indication = report?.indication ?? "INDETERMINATE";
+  writer.text(
+    `Résultat: ${indication}${report?.subIndication ? ` / ${report.subIndication}` : ""}`,
+    { indent: 20, bold: true, color: indicationColor(indication) },
+  );
+  if (signature.signerCN) writer.text(`Signataire: ${signature.signerCN}`, { indent: 20 });
+  if (signature.type === "signature") {
+    writer.text(`Niveau: PAdES ${signature.signatureLevel}`, { indent: 20 });
+  }
+  if (signature.timestampTime) {
+    writer.text(`Horodatage: ${signature.timestampTime}`, { indent: 20 });
+  }
+  writer.text(
+    `Révision ${signature.revision}${signature.coversWholeDocument ? ", couvre tout le document" : ", modifiée ensuite"}`,
+    { indent: 20, gap: 8 },
+  );
+
+  for (const block of report?.blocks ?? []) {
+    writer.text(
+      `${BLOCK_LABELS[block.block] ?? block.block}: ${block.indication}${block.subIndication ? ` / ${block.subIndication}` : ""}`,
+      { indent: 30, color: indicationColor(block.indication) },
+    );
+    block.details.forEach((detail) => writer.text(`- ${detail}`, { indent: 45, size: 8 }));
+  }
+  writer.space(16);
+}
+
+function validationTimeOf(result: VerificationResult): string {
+  const first = result.signatures?.find((s) => s.validationReport)?.validationReport;
+  return first?.validationTime ?? new Date().toISOString();
+}
+
+function indicationColor(indication: MainIndication | BlockIndication): RGB {
+  if (indication === "TOTAL-PASSED" || indication === "PASSED") return rgb(0, 0.5, 0);
+  if (indication === "TOTAL-FAILED" || indication === "FAILED") return rgb(0.75, 0, 0);
+  return rgb(0.8, 0.45, 0);
+}
+
+/**
+ * Top-down text flow with line wrapping and page breaks
+ */
+class PageWriter {
+  private page: PDFPage;
+  private y = A4_HEIGHT - MARGIN;
+
+  constructor(
+    private readonly doc: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly boldFont: PDFFont,
+  ) {
+    this.page = doc.addPage([A4_WIDTH, A4_HEIGHT]);
+  }
+
+  text(
+    value: string,
+    opts: { size?: number; bold?: boolean; indent?: number; color?: RGB; gap?: number } = {},
+  ): void {
+    const size = opts.size ?? 10;
+    const font = opts.bold ? this.boldFont : this.font;
+    const indent = opts.indent ?? 0;
+    for (const line of wrap(winAnsi(value), font, size, TEXT_WIDTH - indent)) {
+      if (this.y - size < BOTTOM) this.newPage();
+      this.y -= size;
+      this.page.drawText(line, {
+        x: MARGIN + indent,
+        y: this.y,
+        size,
+        font,
+        color: opts.color ?? rgb(0, 0, 0),
+      });
+      this.y -= size * 0.4;
+    }
+    this.space(opts.gap ?? 0);
+  }
+
+  space(height: number): void {
+    this.y -= height;
+  }
+
+  private newPage(): void {
+    this.page = this.doc.addPage([A4_WIDTH, A4_HEIGHT]);
+    this.y = A4_HEIGHT - MARGIN;
+  }
+}
+
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(" ")) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+/** The standard fonts only encode WinAnsi: replace what they cannot draw */
+function winAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
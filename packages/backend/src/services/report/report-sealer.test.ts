@@ -0,0 +1,71 @@
+import { join } from "path";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { MockHSMService } from "../mock-hsm-service";
+import { PDFService } from "../pdf-service";
+import { VerificationService } from "../verification-service";
+
+import { generatePdfValidationReport } from "./pdf-report";
+import { ReportSealer } from "./report-sealer";
+
+import type { VerificationServiceResult } from "../verification-service";
+
+describe("ReportSealer", () => {
+  let mockHSM: MockHSMService;
+  let verified: VerificationServiceResult;
+  let pdfBytes: Uint8Array;
+
+  beforeAll(async () => {
+    mockHSM = new MockHSMService();
+    await mockHSM.ready;
+    const demo = await new PDFService().generateDemoPDF({});
+    pdfBytes = Buffer.from(demo.pdfBase64, "base64");
+    verified = await new VerificationService().verify({ pdfBase64: demo.pdfBase64 });
+  });
+
+  const verifySealed = async (sealed: Uint8Array) => {
+    const result = await new VerificationService().verify({
+      pdfBase64: Buffer.from(sealed).toString("base64"),
+    });
+    return result.signatures?.[0];
+  };
+
+  it("should certify the PDF report with the mock HSM", async () => {
+    const report = await generatePdfValidationReport(verified, { pdfBytes });
+    const sealed = await new ReportSealer(mockHSM).seal(report);
+    const seal = await verifySealed(sealed);
+
+    expect(Buffer.from(sealed.subarray(0, 5)).toString()).toBe("%PDF-");
+    expect(seal).toMatchObject({
+      isCryptographicallyValid: true,
+      certificationLevel: "no-changes",
+      coversWholeDocument: true,
+    });
+    expect(seal?.validationReport?.blocks).toContainEqual(
+      expect.objectContaining({ block: "cryptographicVerification", indication: "PASSED" }),
+    );
+  });
+
+  it("should seal with a configured server key", async () => {
+    const certDir = join(process.cwd(), "certificates");
+    const sealer = new ReportSealer(mockHSM, {
+      keyPath: join(certDir, "mock-signer-key.pem"),
+      certPath: join(certDir, "mock-signer-cert.pem"),
+    });
+    const logs: VerificationServiceResult["logs"] = [];
+    const sealed = await sealer.seal(
+      await generatePdfValidationReport(verified, { pdfBytes }),
+      logs,
+    );
+
+    expect((await verifySealed(sealed))?.isCryptographicallyValid).toBe(true);
+    expect(logs.at(-1)?.context).toMatchObject({ sealKey: join(certDir, "mock-signer-key.pem") });
+  });
+
+  it("should refuse a server key without its certificate", async () => {
+    const sealer = new ReportSealer(mockHSM, { keyPath: "seal-key.pem" });
+
+    await expect(sealer.seal(new Uint8Array())).rejects.toThrow(/REPORT_SEAL_CERT/);
+  });
+});
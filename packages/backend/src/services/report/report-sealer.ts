@@ -0,0 +1,159 @@
+/**
+ * Seal of the PDF validation reports
+ *
+ * The report is certified (DocMDP "no-changes") through the regular signing pipeline, so the
+ * archived proof of validation can itself be verified by any PAdES validator. The seal key is
+ * a configured server key when REPORT_SEAL_KEY / REPORT_SEAL_CERT are set, the mock HSM
+ * signer otherwise.
+ *
+ * Configuration:
+ * - REPORT_SEAL_KEY: PKCS#8 PEM file of the RSA or EC (P-256/P-384) seal key
+ * - REPORT_SEAL_CERT: PEM file of the seal certificate, followed by its intermediates
+ * - REPORT_SEAL_TIMESTAMP: time-stamp the seal (PAdES-B-T, default false)
+ */
+
+import { createPrivateKey, createSign, X509Certificate } from "crypto";
+import { readFileSync } from "fs";
+
+import { Certificate } from "pkijs";
+
+import { logPAdES, padesBackendLogger } from "../../logger";
+import { CMSService } from "../cms-service";
+import { fromBase64, toBase64 } from "../crypto-utils";
+import { PDFService } from "../pdf-service";
+import { signatureAlgorithmForKey } from "../signature-algorithms";
+import { SignatureService } from "../signature-service";
+
+import type { MockHSMService } from "../mock-hsm-service";
+import type { LogEntry } from "@pades-poc/shared";
+import type { KeyObject } from "crypto";
+
+export interface ReportSealerOptions {
+  /** PKCS#8 PEM file of the seal key (RSA or EC) */
+  keyPath?: string;
+  /** PEM file of the seal certificate followed by its intermediates */
+  certPath?: string;
+  /** Time-stamp the seal (PAdES-B-T) */
+  withTimestamp?: boolean;
+}
+
+interface SealKey {
+  sign(data: Buffer): Promise<Buffer>;
+  signerCertPem: string;
+  chainPem: string[];
+  source: string;
+}
+
+export class ReportSealer {
+  private readonly pdfService = new PDFService();
+  private readonly signatureService = new SignatureService();
+  private readonly cmsService = new CMSService();
+  private serverKey?: SealKey;
+
+  constructor(
+    private readonly mockHSM: MockHSMService,
+    private readonly options: ReportSealerOptions = {},
+  ) {}
+
+  /**
+   * Certify a PDF report with the seal key
+   */
+  async seal(pdfBytes: Uint8Array, logs?: LogEntry[]): Promise<Uint8Array> {
+    const key = await this.getSealKey();
+
+    const prepared = await this.pdfService.preparePDF(toBase64(Buffer.from(pdfBytes)), {
+      signerName: "Service de validation",
+      reason: "Rapport de validation de signatures",
+      certificationLevel: "no-changes",
+    });
+    const { signedAttrsDer } = this.signatureService.buildSignedAttributes({
+      messageDigest: fromBase64(prepared.messageDigestB64),
+      signerCertPem: key.signerCertPem,
+    });
+    const signature = await key.sign(signedAttrsDer);
+    const { cmsDer, isTimestamped } = await this.cmsService.assembleCMS({
+      signedAttrsDer,
+      signature,
+      signerCertPem: key.signerCertPem,
+      certificateChainPem: key.chainPem,
+      withTimestamp: this.options.withTimestamp ?? false,
+    });
+    const sealed = this.pdfService.embedCmsIntoPdf(
+      fromBase64(prepared.preparedPdfBase64),
+      cmsDer,
+      prepared.messageDigestB64,
+      prepared.fieldName,
+    );
+
+    const context = { sealKey: key.source, isTimestamped };
+    logs?.push({
+      timestamp: new Date().toISOString(),
+      level: "success",
+      source: "backend",
+      message: "Validation report sealed",
+      context,
+    });
+    logPAdES(
+      padesBackendLogger.createLogEntry("success", "backend", "Validation report sealed", context),
+    );
+    return sealed;
+  }
+
+  private async getSealKey(): Promise<SealKey> {
+    const { keyPath, certPath } = this.options;
+    if (keyPath || certPath) {
+      if (!keyPath || !certPath) {
+        throw new Error("Report seal needs both REPORT_SEAL_KEY and REPORT_SEAL_CERT");
+      }
+      this.serverKey ??= loadServerKey(keyPath, certPath);
+      return this.serverKey;
+    }
+
+    await this.mockHSM.ready;
+    return {
+      sign: (data) => this.mockHSM.signData(data),
+      signerCertPem: this.mockHSM.getSignerCertificatePem(),
+      chainPem: this.mockHSM.getCertificateChainPem(false),
+      source: "mock-hsm",
+    };
+  }
+}
+
+function loadServerKey(keyPath: string, certPath: string): SealKey {
+  const privateKey: KeyObject = createPrivateKey(readFileSync(keyPath));
+  if (privateKey.asymmetricKeyType !== "rsa" && privateKey.asymmetricKeyType !== "ec") {
+    throw new Error(`Report seal key must be RSA or EC, got ${privateKey.asymmetricKeyType}`);
+  }
+  const certificates = readFileSync(certPath, "utf8").match(
+    /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g,
+  );
+  if (!certificates) {
+    throw new Error(`No PEM certificate in ${certPath}`);
+  }
+  // Hash of the algorithm the CMS declares for the certificate key (SHA-384 for P-384);
+  // Node signs ECDSA as a DER Ecdsa-Sig-Value
+  const { hash } = signatureAlgorithmForKey(
+    Certificate.fromBER(new Uint8Array(new X509Certificate(certificates[0]).raw)),
+  );
+  const nodeHash = hash.replace("-", "").toLowerCase();
+  return {
+    sign: (data) => Promise.resolve(createSign(nodeHash).update(data).sign(privateKey)),
+    signerCertPem: certificates[0],
+    chainPem: certificates.slice(1),
+    source: keyPath,
+  };
+}
+
+let defaultSealer: ReportSealer | undefined;
+
+/**
+ * Sealer configured by the REPORT_SEAL_* variables
+ */
+export function getReportSealer(mockHSM: MockHSMService): ReportSealer {
+  defaultSealer ??= new ReportSealer(mockHSM, {
+    keyPath: process.env.REPORT_SEAL_KEY || undefined,
+    certPath: process.env.REPORT_SEAL_CERT || undefined,
+    withTimestamp: process.env.REPORT_SEAL_TIMESTAMP === "true",
+  });
+  return defaultSealer;
+}
@@ -0,0 +1,93 @@
+import { DOMParser } from "@xmldom/xmldom";
+import { describe, expect, it } from "vitest";
+
+import { sha256 } from "../crypto-utils";
+
+import { buildXmlValidationReport } from "./xml-report";
+
+import type { SignatureVerificationResult, VerificationResult } from "../verification-service";
+
+const VR_NS = "http://uri.etsi.org/19102/v1.2.1#";
+const PDF = new TextEncoder().encode("%PDF-1.7 report test");
+
+const signature: SignatureVerificationResult = {
+  fieldName: "Signature1",
+  type: "signature",
+  byteRange: [0, 10, 20, 30],
+  revision: 1,
+  coversWholeDocument: true,
+  isCryptographicallyValid: true,
+  isPAdESCompliant: true,
+  isTimestamped: true,
+  signatureLevel: "B-T",
+  signerCN: "Dr. Test Signer",
+  signingTime: "2025-01-15T10:00:00.000Z",
+  timestampTime: "2025-01-15T10:00:05.000Z",
+  reasons: [],
+  validationReport: {
+    indication: "INDETERMINATE",
+    subIndication: "NO_CERTIFICATE_CHAIN_FOUND",
+    validationTime: "2025-06-01T00:00:00.000Z",
+    blocks: [
+      { block: "identification", indication: "PASSED", details: [] },
+      {
+        block: "x509Validation",
+        indication: "INDETERMINATE",
+        subIndication: "NO_CERTIFICATE_CHAIN_FOUND",
+        details: ["Chain does not reach a trust anchor"],
+      },
+      { block: "timestampValidation", indication: "PASSED", details: [] },
+    ],
+  },
+};
+
+const result: VerificationResult = {
+  isCryptographicallyValid: true,
+  isPAdESCompliant: true,
+  isTimestamped: true,
+  signatureLevel: "B-T",
+  reasons: [],
+  signatures: [signature],
+};
+
+function text(parent: Element | Document, localName: string): string[] {
+  return Array.from(parent.getElementsByTagNameNS(VR_NS, localName)).map(
+    (e) => e.textContent ?? "",
+  );
+}
+
+describe("XML validation report", () => {
+  it("should report each signature with its indication and building blocks", () => {
+    const xml = buildXmlValidationReport(result, { pdfBytes: PDF });
+    const doc = new DOMParser().parseFromString(xml, "application/xml");
+
+    expect(doc.documentElement.localName).toBe("ValidationReport");
+    expect(doc.documentElement.namespaceURI).toBe(VR_NS);
+
+    const [report] = Array.from(doc.getElementsByTagNameNS(VR_NS, "SignatureValidationReport"));
+    const status = report.getElementsByTagNameNS(VR_NS, "SignatureValidationStatus")[0];
+    expect(text(status, "MainIndication")).toEqual([
+      "urn:etsi:019102:mainindication:indeterminate",
+    ]);
+    expect(text(status, "SubIndication")).toEqual([
+      "urn:etsi:019102:subindication:NO_CERTIFICATE_CHAIN_FOUND",
+    ]);
+    expect(text(report, "ValidationConstraintIdentifier")).toEqual([
+      "urn:pades-poc:validation-block:identification",
+      "urn:pades-poc:validation-block:x509Validation",
+      "urn:pades-poc:validation-block:timestampValidation",
+    ]);
+    expect(text(report, "Value")).toEqual(["Chain does not reach a trust anchor"]);
+    expect(text(report, "DAIdentifier")).toEqual(["Signature1"]);
+    expect(text(report, "POETime")).toEqual(["2025-01-15T10:00:05.000Z"]);
+    expect(text(report, "Signer")).toEqual(["Dr. Test Signer"]);
+  });
+
+  it("should bind the report to the SHA-256 of the validated PDF", () => {
+    const xml = buildXmlValidationReport(result, { pdfBytes: PDF });
+    const doc = new DOMParser().parseFromString(xml, "application/xml");
+    const digest = doc.getElementsByTagNameNS("http://www.w3.org/2000/09/xmldsig#", "DigestValue");
+
+    expect(digest[0].textContent).toBe(sha256(Buffer.from(PDF)).toString("base64"));
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * ETSI TS 119 102-2 XML validation report
+ *
+ * One SignatureValidationReport per signed field (approval signatures and document
+ * timestamps), carrying the EN 319 102-1 main and sub-indications, the result of each
+ * building block as a validation constraint, the validation and best-signature times, and
+ * the SHA-256 of the validated PDF so an archived report stays bound to its document.
+ *
+ * Only the elements this verifier can fill are written; validation objects (certificates,
+ * revocation data) are not embedded.
+ */
+
+import { DOMImplementation, XMLSerializer } from "@xmldom/xmldom";
+
+import { sha256 } from "../crypto-utils";
+
+import type { SignatureVerificationResult, VerificationResult } from "../verification-service";
+import type { ValidationBlockResult, ValidationReport } from "@pades-poc/shared";
+
+const VR_NS = "http://uri.etsi.org/19102/v1.2.1#";
+const DS_NS = "http://www.w3.org/2000/09/xmldsig#";
+const SHA256_URI = "http://www.w3.org/2001/04/xmlenc#sha256";
+
+const URN = {
+  mainIndication: "urn:etsi:019102:mainindication:",
+  subIndication: "urn:etsi:019102:subindication:",
+  validationProcess: "urn:etsi:019102:validationprocess:",
+  constraint: "urn:pades-poc:validation-block:",
+  constraintApplied: "urn:etsi:019102:constraintStatus:applied",
+  poeValidation: "urn:etsi:019102:poetype:validation",
+  detail: "urn:pades-poc:report-data:detail",
+};
+
+export interface XmlReportOptions {
+  /** Validated PDF, hashed into SignersDocument */
+  pdfBytes: Uint8Array;
+}
+
+/**
+ * Serialize a verification result as a TS 119 102-2 ValidationReport document
+ */
+export function buildXmlValidationReport(
+  result: VerificationResult,
+  options: XmlReportOptions,
+): string {
+  const doc = new DOMImplementation().createDocument(VR_NS, "vr:ValidationReport", null);
+  const root = doc.documentElement;
+  root.setAttribute("xmlns:ds", DS_NS);
+  const documentDigest = sha256(Buffer.from(options.pdfBytes)).toString("base64");
+
+  for (const signature of result.signatures ?? []) {
+    const report = append(root, "vr:SignatureValidationReport");
+    writeSignatureReport(report, signature, documentDigest);
+  }
+
+  const xml = new XMLSerializer().serializeToString(doc);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${xml}`;
+}
+
+function writeSignatureReport(
+  report: Element,
+  signature: SignatureVerificationResult,
+  documentDigest: string,
+): void {
+  // SignatureIdentifier: the signed field of the PDF
+  const identifier = append(report, "vr:SignatureIdentifier");
+  identifier.setAttribute("id", `sig-${signature.fieldName}`);
+  append(identifier, "vr:HashOnly", "false");
+  append(identifier, "vr:DocHashOnly", "false");
+  append(identifier, "vr:DAIdentifier", signature.fieldName);
+
+  // Building blocks as validation constraints
+  const validation = signature.validationReport;
+  if (validation) {
+    const constraints = append(report, "vr:ValidationConstraintsEvaluationReport");
+    validation.blocks.forEach((block) => writeBlock(constraints, block));
+  }
+
+  // Validation time, and the time-stamp as best signature time
+  const timeInfo = append(report, "vr:ValidationTimeInfo");
+  append(timeInfo, "vr:ValidationTime", validation?.validationTime ?? new Date().toISOString());
+  const timestampPassed = validation?.blocks.some(
+    (b) => b.block === "timestampValidation" && b.indication === "PASSED",
+  );
+  if (signature.timestampTime && timestampPassed) {
+    const best = append(timeInfo, "vr:BestSignatureTime");
+    append(best, "vr:POETime", signature.timestampTime);
+    append(best, "vr:TypeOfProof", URN.poeValidation);
+  }
+
+  const signersDocument = append(report, "vr:SignersDocument");
+  const digest = append(signersDocument, "vr:DigestAlgAndValue");
+  append(digest, "ds:DigestMethod").setAttribute("Algorithm", SHA256_URI);
+  append(digest, "ds:DigestValue", documentDigest);
+
+  if (signature.signingTime) {
+    const attributes = append(report, "vr:SignatureAttributes");
+    const signingTime = append(attributes, "vr:SigningTime");
+    signingTime.setAttribute("Signed", "true");
+    append(signingTime, "vr:Time", signature.signingTime);
+  }
+
+  if (signature.signerCN) {
+    append(append(report, "vr:SignerInformation"), "vr:Signer", signature.signerCN);
+  }
+
+  const process = append(report, "vr:SignatureValidationProcess");
+  append(
+    process,
+    "vr:SignatureValidationProcessID",
+    URN.validationProcess + (signature.isTimestamped ? "LTVM" : "Basic"),
+  );
+
+  writeStatus(append(report, "vr:SignatureValidationStatus"), validation);
+}
+
+function writeBlock(parent: Element, block: ValidationBlockResult): void {
+  const constraint = append(parent, "vr:ValidationConstraint");
+  append(constraint, "vr:ValidationConstraintIdentifier", URN.constraint + block.block);
+  append(append(constraint, "vr:ConstraintStatus"), "vr:Status", URN.constraintApplied);
+
+  const status = append(constraint, "vr:ValidationStatus");
+  append(status, "vr:MainIndication", URN.mainIndication + block.indication.toLowerCase());
+  if (block.subIndication) {
+    append(status, "vr:SubIndication", URN.subIndication + block.subIndication);
+  }
+  writeDetails(status, block.details);
+}
+
+function writeStatus(status: Element, validation: ValidationReport | undefined): void {
+  const indication = validation?.indication ?? "INDETERMINATE";
+  append(status, "vr:MainIndication", URN.mainIndication + indication.toLowerCase());
+  if (validation?.subIndication) {
+    append(status, "vr:SubIndication", URN.subIndication + validation.subIndication);
+  }
+}
+
+function writeDetails(status: Element, details: string[]): void {
+  if (details.length === 0) return;
+  const data = append(
+    append(status, "vr:AssociatedValidationReportData"),
+    "vr:AdditionalValidationReportData",
+  );
+  for (const detail of details) {
+    const reportData = append(data, "vr:ReportData");
+    append(reportData, "vr:Type", URN.detail);
+    append(reportData, "vr:Value", detail);
+  }
+}
+
+function append(parent: Element, qualifiedName: string, text?: string): Element {
+  const doc = parent.ownerDocument;
+  const ns = qualifiedName.startsWith("ds:") ? DS_NS : VR_NS;
+  const element = doc.createElementNS(ns, qualifiedName);
+  if (text !== undefined) element.appendChild(doc.createTextNode(text));
+  parent.appendChild(element);
+  return element;
+}
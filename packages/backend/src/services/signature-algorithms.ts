@@ -0,0 +1,335 @@
+/**
+ * Signature algorithms of the signing pipeline
+ *
+ * Maps the CMS signatureAlgorithm OIDs to WebCrypto parameters and derives the default
+ * algorithm from the signer key: sha256WithRSAEncryption for RSA keys, ecdsa-with-SHA256 for
+ * P-256 and ecdsa-with-SHA384 for P-384 keys (CPS 4 and eIDAS tokens).
+ *
+ * ECDSA signatures are a DER Ecdsa-Sig-Value in CMS (RFC 5753) but the raw r||s
+ * concatenation for WebCrypto and PKCS#11 CKM_ECDSA, hence the conversions below.
+ *
+ * RSASSA-PSS (RFC 4055) is selected explicitly with id-RSASSA-PSS: the hash, the MGF1 hash and
+ * the salt length travel in the AlgorithmIdentifier parameters. The pipeline produces the hash of
+ * the digest algorithm (at least SHA-256), MGF1 with that hash and a salt as long as the hash,
+ * and verifies any SHA-2 combination with the same MGF1 hash.
+ *
+ * The message digest algorithm (SHA-256, SHA-384 or SHA-512) is chosen independently at
+ * prepare time; the helpers below map it to and from its OID.
+ */
+
+import { webcrypto as nodeWebcrypto } from "crypto";
+
+import { HASH_ALGORITHMS, KEY_ALGORITHMS, SIGNATURE_ALGORITHMS } from "@pades-poc/shared";
+import * as asn1js from "asn1js";
+import { AlgorithmIdentifier, RSASSAPSSParams } from "pkijs";
+
+import type { DigestAlgorithm } from "@pades-poc/shared";
+import type { Certificate } from "pkijs";
+
+export type NamedCurve = "P-256" | "P-384";
+
+export interface SignatureAlgorithm {
+  oid: string;
+  name: "RSASSA-PKCS1-v1_5" | "RSA-PSS" | "ECDSA";
+  hash: DigestAlgorithm;
+  /** RSA-PSS salt length in bytes */
+  saltLength?: number;
+}
+
+const SIGNATURE_ALGORITHM_LIST: SignatureAlgorithm[] = [
+  { oid: SIGNATURE_ALGORITHMS.SHA256_WITH_RSA, name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+  { oid: SIGNATURE_ALGORITHMS.SHA384_WITH_RSA, name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" },
+  { oid: SIGNATURE_ALGORITHMS.SHA512_WITH_RSA, name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" },
+  // Parameters produced for id-RSASSA-PSS: salt as long as the hash (RFC 8017 §9.1)
+  { oid: SIGNATURE_ALGORITHMS.RSASSA_PSS, name: "RSA-PSS", hash: "SHA-256", saltLength: 32 },
+  { oid: SIGNATURE_ALGORITHMS.ECDSA_WITH_SHA256, name: "ECDSA", hash: "SHA-256" },
+  { oid: SIGNATURE_ALGORITHMS.ECDSA_WITH_SHA384, name: "ECDSA", hash: "SHA-384" },
+  { oid: SIGNATURE_ALGORITHMS.ECDSA_WITH_SHA512, name: "ECDSA", hash: "SHA-512" },
+];
+
+const CURVES: Record<string, { curve: NamedCurve; size: number; hash: DigestAlgorithm }> = {
+  [KEY_ALGORITHMS.P256]: { curve: "P-256", size: 32, hash: "SHA-256" },
+  [KEY_ALGORITHMS.P384]: { curve: "P-384", size: 48, hash: "SHA-384" },
+};
+
+const DIGEST_OIDS: Record<DigestAlgorithm, string> = {
+  "SHA-256": HASH_ALGORITHMS.SHA256,
+  "SHA-384": HASH_ALGORITHMS.SHA384,
+  "SHA-512": HASH_ALGORITHMS.SHA512,
+};
+
+const DIGEST_LENGTHS: Record<DigestAlgorithm, number> = {
+  "SHA-256": 32,
+  "SHA-384": 48,
+  "SHA-512": 64,
+};
+
+/**
+ * Signature algorithm of a signatureAlgorithm OID, undefined for unsupported algorithms.
+ * id-RSASSA-PSS stands for RSA-PSS with SHA-256, MGF1-SHA-256 and a 32-byte salt, which
+ * signatureAlgorithmForDigest raises to the digest algorithm.
+ */
+export function getSignatureAlgorithm(oid: string): SignatureAlgorithm | undefined {
+  return SIGNATURE_ALGORITHM_LIST.find((a) => a.oid === oid);
+}
+
+/**
+ * OID of a SHA-2 digest algorithm (CMS digestAlgorithm, ESSCertIDv2, timestamp imprint)
+ * @throws Error for any other algorithm
+ */
+export function digestAlgorithmOid(algorithm: DigestAlgorithm): string {
+  const oid = DIGEST_OIDS[algorithm];
+  if (!oid) throw new Error(`Unsupported digest algorithm: ${String(algorithm)}`);
+  return oid;
+}
+
+/**
+ * SHA-2 digest algorithm of an OID, undefined for other (e.g. SHA-1) and unknown digests
+ */
+export function getDigestAlgorithm(oid: string): DigestAlgorithm | undefined {
+  return (Object.keys(DIGEST_OIDS) as DigestAlgorithm[]).find((name) => DIGEST_OIDS[name] === oid);
+}
+
+/**
+ * Output size of a digest algorithm in bytes, which also orders them by strength
+ */
+export function digestLength(algorithm: DigestAlgorithm): number {
+  return DIGEST_LENGTHS[algorithm];
+}
+
+/**
+ * Signature algorithm of a parsed AlgorithmIdentifier, with the RSASSA-PSS parameters.
+ * Undefined for unsupported algorithms and parameters (SHA-1, MGF1 hash differing from the
+ * message hash, trailer field other than 0xBC).
+ */
+export function signatureAlgorithmFromIdentifier(
+  identifier: AlgorithmIdentifier,
+): SignatureAlgorithm | undefined {
+  if (identifier.algorithmId !== SIGNATURE_ALGORITHMS.RSASSA_PSS) {
+    return getSignatureAlgorithm(identifier.algorithmId);
+  }
+  if (!(identifier.algorithmParams instanceof asn1js.Sequence)) return undefined;
+
+  const params = new RSASSAPSSParams({ schema: identifier.algorithmParams });
+  const hash = getDigestAlgorithm(params.hashAlgorithm.algorithmId);
+  const mgf = params.maskGenAlgorithm;
+  const mgfHash =
+    mgf.algorithmId === SIGNATURE_ALGORITHMS.MGF1 && mgf.algorithmParams instanceof asn1js.Sequence
+      ? getDigestAlgorithm(new AlgorithmIdentifier({ schema: mgf.algorithmParams }).algorithmId)
+      : undefined;
+  if (!hash || mgfHash !== hash || params.trailerField !== 1) return undefined;
+
+  return {
+    oid: SIGNATURE_ALGORITHMS.RSASSA_PSS,
+    name: "RSA-PSS",
+    hash,
+    saltLength: params.saltLength,
+  };
+}
+
+/**
+ * CMS AlgorithmIdentifier of a signature algorithm: RSASSA-PSS-params for RSA-PSS, absent
+ * parameters otherwise (customary for RSA, mandatory for ECDSA per RFC 5758)
+ */
+export function signatureAlgorithmIdentifier(algorithm: SignatureAlgorithm): AlgorithmIdentifier {
+  if (algorithm.name !== "RSA-PSS") {
+    return new AlgorithmIdentifier({ algorithmId: algorithm.oid });
+  }
+  // SHA-2 AlgorithmIdentifiers: parameters absent (RFC 5754)
+  const hashAlgorithm = new AlgorithmIdentifier({ algorithmId: DIGEST_OIDS[algorithm.hash] });
+  const params = new RSASSAPSSParams({
+    hashAlgorithm,
+    maskGenAlgorithm: new AlgorithmIdentifier({
+      algorithmId: SIGNATURE_ALGORITHMS.MGF1,
+      algorithmParams: hashAlgorithm.toSchema(),
+    }),
+    saltLength: algorithm.saltLength,
+  });
+  return new AlgorithmIdentifier({
+    algorithmId: algorithm.oid,
+    algorithmParams: params.toSchema(),
+  });
+}
+
+/**
+ * Named curve of an EC certificate key, undefined for other keys and unsupported curves
+ */
+export function getNamedCurve(cert: Certificate): NamedCurve | undefined {
+  return ecCurve(cert)?.curve;
+}
+
+/**
+ * Signature algorithm matching the certificate key: ECDSA for EC keys, RSASSA-PKCS1-v1_5
+ * otherwise. Without `hash`, EC keys use the hash sized to their curve and RSA keys SHA-256.
+ * @throws Error for EC keys on an unsupported curve
+ */
+export function signatureAlgorithmForKey(
+  cert: Certificate,
+  hash?: DigestAlgorithm,
+): SignatureAlgorithm {
+  const name = isEcKey(cert) ? "ECDSA" : "RSASSA-PKCS1-v1_5";
+  const curve = ecCurve(cert);
+  if (name === "ECDSA" && !curve) {
+    throw new Error("Unsupported elliptic curve (expected P-256 or P-384)");
+  }
+  const algorithmHash = hash ?? curve?.hash ?? "SHA-256";
+  return SIGNATURE_ALGORITHM_LIST.find((a) => a.name === name && a.hash === algorithmHash)!;
+}
+
+/**
+ * Algorithm signing attributes whose messageDigest uses `digest`: the key algorithm with its
+ * hash raised to `digest` when weaker (sha384/512WithRSA, RSA-PSS with SHA-384/512,
+ * ecdsa-with-SHA384/512), so the signature is never the weakest link of the signed attributes
+ */
+export function signatureAlgorithmForDigest(
+  keyAlgorithm: SignatureAlgorithm,
+  digest: DigestAlgorithm = "SHA-256",
+): SignatureAlgorithm {
+  if (digestLength(keyAlgorithm.hash) >= digestLength(digest)) return keyAlgorithm;
+  if (keyAlgorithm.name === "RSA-PSS") return rsaPss(digest);
+  return SIGNATURE_ALGORITHM_LIST.find((a) => a.name === keyAlgorithm.name && a.hash === digest)!;
+}
+
+/**
+ * Algorithm of a signing request with a key of algorithm `keyAlgorithm`: that algorithm by
+ * default, or id-RSASSA-PSS for RSA keys, with the hash of `keyAlgorithm`
+ * @throws Error for an algorithm the key cannot produce
+ */
+export function selectSignatureAlgorithm(
+  keyAlgorithm: SignatureAlgorithm,
+  requestedOid?: string,
+): SignatureAlgorithm {
+  if (!requestedOid || requestedOid === keyAlgorithm.oid) return keyAlgorithm;
+
+  const requested = getSignatureAlgorithm(requestedOid);
+  if (requested?.name === "RSA-PSS" && keyAlgorithm.name === "RSASSA-PKCS1-v1_5") {
+    return rsaPss(keyAlgorithm.hash);
+  }
+  const keyType = keyAlgorithm.name === "ECDSA" ? "EC" : "RSA";
+  throw new Error(`Signature algorithm ${requestedOid} is not supported by the ${keyType} key`);
+}
+
+/**
+ * Verify a CMS signature value with the certificate key. `signature` is the CMS encoding
+ * (DER Ecdsa-Sig-Value for ECDSA).
+ * @throws Error when the key cannot be imported for the algorithm
+ */
+export async function verifyWithCertificate(
+  cert: Certificate,
+  algorithm: SignatureAlgorithm,
+  signature: Uint8Array,
+  data: Uint8Array | ArrayBuffer,
+): Promise<boolean> {
+  const spki = cert.subjectPublicKeyInfo.toSchema().toBER(false);
+  if (algorithm.name === "ECDSA") {
+    const curve = ecCurve(cert);
+    if (!curve) throw new Error("Signer key is not a P-256 or P-384 EC key");
+    const key = await nodeWebcrypto.subtle.importKey(
+      "spki",
+      spki,
+      { name: "ECDSA", namedCurve: curve.curve },
+      false,
+      ["verify"],
+    );
+    return nodeWebcrypto.subtle.verify(
+      { name: "ECDSA", hash: algorithm.hash },
+      key,
+      ecdsaDerToRaw(signature, curve.size),
+      data,
+    );
+  }
+
+  const key = await nodeWebcrypto.subtle.importKey(
+    "spki",
+    spki,
+    { name: algorithm.name, hash: algorithm.hash },
+    false,
+    ["verify"],
+  );
+  return nodeWebcrypto.subtle.verify(
+    { name: algorithm.name, saltLength: algorithm.saltLength },
+    key,
+    signature,
+    data,
+  );
+}
+
+/**
+ * Raw r||s (WebCrypto, PKCS#11) → DER Ecdsa-Sig-Value ::= SEQUENCE { r INTEGER, s INTEGER }
+ */
+export function ecdsaRawToDer(raw: Uint8Array): Buffer {
+  if (raw.length === 0 || raw.length % 2 !== 0) {
+    throw new Error(`Invalid raw ECDSA signature length: ${raw.length}`);
+  }
+  const half = raw.length / 2;
+  const sequence = new asn1js.Sequence({
+    value: [raw.subarray(0, half), raw.subarray(half)].map(
+      (n) => new asn1js.Integer({ valueHex: toUnsignedInteger(n) }),
+    ),
+  });
+  return Buffer.from(sequence.toBER(false));
+}
+
+/**
+ * DER Ecdsa-Sig-Value → raw r||s, each integer left-padded to `size` bytes
+ * @throws Error when the value is not a DER Ecdsa-Sig-Value for that size
+ */
+export function ecdsaDerToRaw(der: Uint8Array, size: number): Buffer {
+  const integers = parseEcdsaSigValue(der);
+  if (!integers) throw new Error("Invalid ECDSA signature encoding");
+
+  const raw = Buffer.alloc(size * 2);
+  integers.forEach((n, i) => {
+    const value = n.subarray(n.findIndex((b) => b !== 0)); // Strip sign padding
+    if (value.length > size) throw new Error("ECDSA signature does not match the key size");
+    raw.set(value, (i + 1) * size - value.length);
+  });
+  return raw;
+}
+
+/**
+ * CMS encoding of an ECDSA signature: DER values are kept, raw r||s values converted
+ */
+export function toDerEcdsaSignature(signature: Uint8Array): Buffer {
+  return parseEcdsaSigValue(signature) ? Buffer.from(signature) : ecdsaRawToDer(signature);
+}
+
+/** id-RSASSA-PSS with `hash`, MGF1 with the same hash and a salt as long as the hash */
+function rsaPss(hash: DigestAlgorithm): SignatureAlgorithm {
+  return {
+    oid: SIGNATURE_ALGORITHMS.RSASSA_PSS,
+    name: "RSA-PSS",
+    hash,
+    saltLength: digestLength(hash),
+  };
+}
+
+function isEcKey(cert: Certificate): boolean {
+  return cert.subjectPublicKeyInfo.algorithm.algorithmId === KEY_ALGORITHMS.EC_PUBLIC_KEY;
+}
+
+function ecCurve(cert: Certificate): (typeof CURVES)[string] | undefined {
+  if (!isEcKey(cert)) return undefined;
+  const params = cert.subjectPublicKeyInfo.algorithm.algorithmParams as unknown;
+  return params instanceof asn1js.ObjectIdentifier
+    ? CURVES[params.valueBlock.toString()]
+    : undefined;
+}
+
+/** r and s of a DER Ecdsa-Sig-Value spanning all of `der`, undefined otherwise */
+function parseEcdsaSigValue(der: Uint8Array): [Uint8Array, Uint8Array] | undefined {
+  const asn = asn1js.fromBER(der);
+  if (asn.offset !== der.length || !(asn.result instanceof asn1js.Sequence)) return undefined;
+  const [r, s, ...rest] = asn.result.valueBlock.value;
+  if (!(r instanceof asn1js.Integer) || !(s instanceof asn1js.Integer) || rest.length > 0) {
+    return undefined;
+  }
+  return [r.valueBlock.valueHexView, s.valueBlock.valueHexView];
+}
+
+/** Minimal two's complement encoding of an unsigned big-endian integer */
+function toUnsignedInteger(bytes: Uint8Array): Uint8Array {
+  const first = bytes.findIndex((b) => b !== 0);
+  const value = first === -1 ? new Uint8Array([0]) : bytes.subarray(first);
+  return value[0] & 0x80 ? new Uint8Array([0, ...value]) : value;
+}
@@ -102,6 +102,19 @@ describe("SignatureService", () => {
       }).toThrow("Failed to build signed attributes");
     });
 
+    it("should reject a message digest of another algorithm", () => {
+      const messageDigest = sha256(Buffer.from("test message"));
+      const signerCertPem = mockHSM.getSignerCertificatePem();
+
+      expect(() => {
+        signatureService.buildSignedAttributes({
+          messageDigest,
+          signerCertPem,
+          digestAlgorithm: "SHA-384",
+        });
+      }).toThrow("32-byte message digest is not a SHA-384 hash");
+    });
+
     it("should log debug information when logs array provided", () => {
       const testData = Buffer.from("test message");
       const messageDigest = sha256(testData);
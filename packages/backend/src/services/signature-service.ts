@@ -10,15 +10,18 @@
 import * as asn1js from "asn1js"; // Retained: required for ESSCertIDv2, attribute values, and Set
 import { Attribute, Certificate } from "pkijs";
 
-import { sha256 } from "./crypto-utils";
+import { digest, pemToDer } from "./crypto-utils";
+import { digestAlgorithmOid, digestLength } from "./signature-algorithms";
 
-import type { LogEntry } from "@pades-poc/shared";
+import type { DigestAlgorithm, LogEntry } from "@pades-poc/shared";
 
 export interface SignedAttributesParams {
   /** Hash of the detached content (e.g., PDF byte-range) */
   messageDigest: Buffer;
   /** Signer's certificate in PEM */
   signerCertPem: string;
+  /** Algorithm of messageDigest, also hashing the certificate for ESSCertIDv2 (default SHA-256) */
+  digestAlgorithm?: DigestAlgorithm;
 }
 
 export interface SignedAttributesResult {
@@ -29,15 +32,6 @@ export interface SignedAttributesResult {
   signedAttrsDer: Buffer;
 }
 
-/** PEM → DER */
-function pemToDer(pem: string): Buffer {
-  const b64 = pem
-    .replace(/-----BEGIN [^-]+-----/g, "")
-    .replace(/-----END [^-]+-----/g, "")
-    .replace(/\s+/g, "");
-  return Buffer.from(b64, "base64");
-}
-
 function bufToArrayBuffer(b: Buffer): ArrayBuffer {
   return b.buffer.slice(b.byteOffset, b.byteOffset + b.byteLength) as ArrayBuffer;
 }
@@ -56,14 +50,17 @@ function bufToArrayBuffer(b: Buffer): ArrayBuffer {
  *   issuerSerial    IssuerSerial OPTIONAL
  * }
  *
- * Here we include: SHA-256 + certHash; omit issuerSerial/policies for brevity.
+ * Here we include: hash algorithm + certHash; omit issuerSerial/policies for brevity.
  */
-function buildSigningCertificateV2Value(certHash: Buffer): asn1js.Sequence {
+function buildSigningCertificateV2Value(
+  certHash: Buffer,
+  digestAlgorithm: DigestAlgorithm,
+): asn1js.Sequence {
   // ASN.1js is required for custom ESSCertIDv2/SigningCertificateV2 structure (not natively supported by PKI.js)
-  // For SHA-256 AlgorithmIdentifier, parameters MUST be absent (RFC 5754)
+  // For SHA-2 AlgorithmIdentifiers, parameters MUST be absent (RFC 5754)
   const hashAlgId = new asn1js.Sequence({
     value: [
-      new asn1js.ObjectIdentifier({ value: "2.16.840.1.101.3.4.2.1" }), // id-sha256
+      new asn1js.ObjectIdentifier({ value: digestAlgorithmOid(digestAlgorithm) }),
       // REMOVED the Null() here; parameters must be absent for SHA-2 OIDs
     ],
   });
@@ -88,7 +85,7 @@ function buildSigningCertificateV2Value(certHash: Buffer): asn1js.Sequence {
  */
 export class SignatureService {
   buildSignedAttributes(params: SignedAttributesParams, logs?: LogEntry[]): SignedAttributesResult {
-    const { messageDigest, signerCertPem } = params;
+    const { messageDigest, signerCertPem, digestAlgorithm = "SHA-256" } = params;
 
     // Enhanced diagnostic logging for CPS certificate debugging
     logs?.push({
@@ -98,12 +95,19 @@ export class SignatureService {
       message: "Starting signed attributes construction",
       context: {
         messageDigestSize: messageDigest.length,
+        digestAlgorithm,
         messageDigestHex: messageDigest.toString("hex").substring(0, 32) + "...",
         certPemLength: signerCertPem.length,
         certPemStart: signerCertPem.substring(0, 100) + "...",
       },
     });
 
+    if (messageDigest.length !== digestLength(digestAlgorithm)) {
+      throw new Error(
+        `Failed to build signed attributes: ${messageDigest.length}-byte message digest is not a ${digestAlgorithm} hash`,
+      );
+    }
+
     // Parse certificate
     const certDer = pemToDer(signerCertPem);
     const certAsn1 = asn1js.fromBER(certDer);
@@ -146,7 +150,7 @@ export class SignatureService {
     });
 
     // Hash the certificate for ESSCertIDv2
-    const certHash = sha256(certDer);
+    const certHash = digest(certDer, digestAlgorithm);
 
     logs?.push({
       timestamp: new Date().toISOString(),
@@ -170,7 +174,7 @@ export class SignatureService {
       values: [new asn1js.OctetString({ valueHex: bufToArrayBuffer(messageDigest) })],
     });
 
-    const signingCertV2Value = buildSigningCertificateV2Value(certHash);
+    const signingCertV2Value = buildSigningCertificateV2Value(certHash, digestAlgorithm);
     const attrSigningCertV2 = new Attribute({
       type: "1.2.840.113549.1.9.16.2.47",
       values: [signingCertV2Value],
@@ -0,0 +1,153 @@
+/**
+ * Test PKI: certificates issued on the fly for the certificate, revocation and timestamp tests
+ */
+import { randomBytes, webcrypto } from "crypto";
+
+import { PKIX_OIDS } from "@pades-poc/shared";
+import * as asn1js from "asn1js";
+import {
+  AccessDescription,
+  AttributeTypeAndValue,
+  AuthorityKeyIdentifier,
+  BasicConstraints,
+  CRLDistributionPoints,
+  Certificate,
+  DistributionPoint,
+  ExtKeyUsage,
+  Extension,
+  GeneralName,
+  InfoAccess,
+} from "pkijs";
+
+import { derToPem, pemToDer } from "./crypto-utils";
+
+export const HOUR = 3600 * 1000;
+
+export interface TestCert {
+  cert: Certificate;
+  keys: CryptoKeyPair;
+  keyId: Uint8Array;
+  der: Buffer;
+  pem: string;
+}
+
+export interface IssueOptions {
+  /** Signing CA (self-signed when omitted) */
+  issuer?: TestCert;
+  /** Certify the name and key of an existing certificate (cross-certificate) */
+  subject?: TestCert;
+  /** CA certificate, with an optional pathLenConstraint; default: self-signed */
+  ca?: boolean | { pathLen: number };
+  /** Further subject attributes as [OID, value], placed before the common name */
+  subjectAttributes?: [string, string][];
+  /** Leave out the authority key identifier */
+  withoutAuthorityKeyId?: boolean;
+  extensions?: Extension[];
+}
+
+let serial = 1;
+
+/** ECDSA P-256 certificate, valid a day either side of now, with subject/authority key IDs */
+export async function issueCert(commonName: string, options: IssueOptions = {}): Promise<TestCert> {
+  const keys =
+    options.subject?.keys ??
+    (await webcrypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, [
+      "sign",
+      "verify",
+    ]));
+  const keyId = options.subject?.keyId ?? new Uint8Array(randomBytes(20));
+
+  const cert = new Certificate();
+  cert.version = 2;
+  cert.serialNumber = new asn1js.Integer({ value: serial++ });
+  for (const [type, value] of [...(options.subjectAttributes ?? []), ["2.5.4.3", commonName]]) {
+    cert.subject.typesAndValues.push(
+      new AttributeTypeAndValue({ type, value: new asn1js.Utf8String({ value }) }),
+    );
+  }
+  cert.issuer = options.issuer ? options.issuer.cert.subject : cert.subject;
+  cert.notBefore.value = new Date(Date.now() - 24 * HOUR);
+  cert.notAfter.value = new Date(Date.now() + 24 * HOUR);
+
+  const ca = options.ca ?? !options.issuer;
+  const pathLen = typeof ca === "object" ? ca.pathLen : undefined;
+  cert.extensions = [
+    new Extension({
+      extnID: "2.5.29.19",
+      critical: true,
+      extnValue: new BasicConstraints({ cA: ca !== false, pathLenConstraint: pathLen })
+        .toSchema()
+        .toBER(false),
+    }),
+    new Extension({
+      extnID: "2.5.29.14",
+      extnValue: new asn1js.OctetString({ valueHex: keyId }).toBER(false),
+    }),
+    ...(options.extensions ?? []),
+  ];
+  if (!options.withoutAuthorityKeyId) {
+    cert.extensions.push(
+      new Extension({
+        extnID: "2.5.29.35",
+        extnValue: new AuthorityKeyIdentifier({
+          keyIdentifier: new asn1js.OctetString({ valueHex: options.issuer?.keyId ?? keyId }),
+        })
+          .toSchema()
+          .toBER(false),
+      }),
+    );
+  }
+  await cert.subjectPublicKeyInfo.importKey(keys.publicKey);
+  await cert.sign((options.issuer?.keys ?? keys).privateKey, "SHA-256");
+
+  // Parse back so extensions expose parsedValue, like certificates read from a CMS
+  const der = Buffer.from(cert.toSchema().toBER(false));
+  return { cert: Certificate.fromBER(der), keys, keyId, der, pem: derToPem(der) };
+}
+
+/** Authority information access with one location (OCSP responder or CA issuers) */
+export function authorityInfoAccess(accessMethod: string, url: string): Extension {
+  return new Extension({
+    extnID: PKIX_OIDS.AUTHORITY_INFO_ACCESS,
+    extnValue: new InfoAccess({
+      accessDescriptions: [
+        new AccessDescription({
+          accessMethod,
+          accessLocation: new GeneralName({ type: 6, value: url }),
+        }),
+      ],
+    })
+      .toSchema()
+      .toBER(false),
+  });
+}
+
+/** CRL distribution points with one URL */
+export function crlDistributionPoint(url: string): Extension {
+  return new Extension({
+    extnID: PKIX_OIDS.CRL_DISTRIBUTION_POINTS,
+    extnValue: new CRLDistributionPoints({
+      distributionPoints: [
+        new DistributionPoint({
+          distributionPoint: [new GeneralName({ type: 6, value: url })],
+        }),
+      ],
+    })
+      .toSchema()
+      .toBER(false),
+  });
+}
+
+/** Extended key usage with the given purposes */
+export function extKeyUsage(keyPurposes: string[], critical = false): Extension {
+  return new Extension({
+    extnID: PKIX_OIDS.EXTENDED_KEY_USAGE,
+    critical,
+    extnValue: new ExtKeyUsage({ keyPurposes }).toSchema().toBER(false),
+  });
+}
+
+/** Certificate of a single PEM block */
+export function pemToCert(pem: string): Certificate {
+  return Certificate.fromBER(new Uint8Array(pemToDer(pem)));
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.stubEnv("LOG_LEVEL", "error");
+
+import { MockHSMService } from "./mock-hsm-service";
+import { MockTSAService } from "./mock-tsa-service";
+import { requestTimestamp } from "./timestamp-service";
+import { isCircuitOpen, resetTsaCircuitBreakers } from "./tsa-client";
+
+import type { TsaEndpoint } from "./tsa-client";
+import type { LogEntry } from "@pades-poc/shared";
+
+type TsaBehaviour = "ok" | "down" | ((init: RequestInit) => Response | undefined);
+
+/** Route fetch() by URL: "ok" answers with the mock TSA, "down" with HTTP 503 */
+function serveTsas(tsa: MockTSAService, behaviours: Record<string, TsaBehaviour>) {
+  const calls: { url: string; init: RequestInit }[] = [];
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    const behaviour = behaviours[url];
+    const override = typeof behaviour === "function" ? behaviour(init) : undefined;
+    if (override) return override;
+    if (behaviour === "down") return new Response(null, { status: 503 });
+    return new Response(new Uint8Array(await tsa.respond(init.body as Buffer)));
+  });
+  return calls;
+}
+
+function endpoint(url: string, extra: Partial<TsaEndpoint> = {}): TsaEndpoint {
+  return { url, retries: 0, retryDelayMs: 0, ...extra };
+}
+
+describe("requestTimestamp failover", () => {
+  const data = Buffer.from("CMS signature value");
+  let mockTSA: MockTSAService;
+
+  beforeAll(async () => {
+    mockTSA = new MockTSAService(new MockHSMService());
+    await mockTSA.ready;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    resetTsaCircuitBreakers();
+  });
+
+  it("should fall over to the next TSA and report the one used", async () => {
+    const calls = serveTsas(mockTSA, { "http://primary": "down", "http://backup": "ok" });
+    const logs: LogEntry[] = [];
+
+    const response = await requestTimestamp(
+      { data, tsaEndpoints: [endpoint("http://primary"), endpoint("http://backup")] },
+      logs,
+    );
+
+    expect(response.tsaUrl).toBe("http://backup");
+    expect(calls.map((c) => c.url)).toEqual(["http://primary", "http://backup"]);
+    expect(logs.some((l) => l.message.startsWith("TSA http://primary failed"))).toBe(true);
+  });
+
+  it("should retry transient errors before moving on", async () => {
+    let failures = 1;
+    const calls = serveTsas(mockTSA, {
+      "http://flaky": () => (failures-- > 0 ? new Response(null, { status: 503 }) : undefined),
+    });
+
+    const response = await requestTimestamp({
+      data,
+      tsaEndpoints: [endpoint("http://flaky", { retries: 2 })],
+    });
+
+    expect(response.tsaUrl).toBe("http://flaky");
+    expect(calls).toHaveLength(2);
+  });
+
+  it("should not retry client errors", async () => {
+    const calls = serveTsas(mockTSA, {
+      "http://auth": () => new Response(null, { status: 401, statusText: "Unauthorized" }),
+    });
+
+    await expect(
+      requestTimestamp({ data, tsaEndpoints: [endpoint("http://auth", { retries: 2 })] }),
+    ).rejects.toThrow("http://auth: TSA HTTP error: 401 Unauthorized");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("should send HTTP Basic credentials", async () => {
+    const calls = serveTsas(mockTSA, { "http://basic": "ok" });
+
+    await requestTimestamp({
+      data,
+      tsaEndpoints: [endpoint("http://basic", { username: "signer", password: "s3cret" })],
+    });
+
+    const headers = calls[0].init.headers as Record<string, string>;
+    expect(headers.Authorization).toBe(`Basic ${Buffer.from("signer:s3cret").toString("base64")}`);
+  });
+
+  it("should skip a TSA once its circuit is open", async () => {
+    const calls = serveTsas(mockTSA, { "http://primary": "down", "http://backup": "ok" });
+    const tsaEndpoints = [endpoint("http://primary"), endpoint("http://backup")];
+
+    for (let i = 0; i < 3; i++) await requestTimestamp({ data, tsaEndpoints });
+    expect(isCircuitOpen("http://primary")).toBe(true);
+
+    calls.length = 0;
+    const response = await requestTimestamp({ data, tsaEndpoints });
+
+    expect(response.tsaUrl).toBe("http://backup");
+    expect(calls.map((c) => c.url)).toEqual(["http://backup"]);
+  });
+
+  it("should try an explicit TSA first and keep the configured ones as fallbacks", async () => {
+    vi.stubEnv("TSA_ENDPOINTS", JSON.stringify([endpoint("http://primary")]));
+    vi.stubEnv("TSA_RETRIES", "0");
+    const calls = serveTsas(mockTSA, { "http://explicit": "down", "http://primary": "ok" });
+
+    const response = await requestTimestamp({ data, tsaUrl: "http://explicit" });
+
+    expect(response.tsaUrl).toBe("http://primary");
+    expect(calls.map((c) => c.url)).toEqual(["http://explicit", "http://primary"]);
+  });
+
+  it("should list every TSA tried when none issues a token", async () => {
+    serveTsas(mockTSA, { "http://a": "down", "http://b": "down" });
+
+    await expect(
+      requestTimestamp({ data, tsaEndpoints: [endpoint("http://a"), endpoint("http://b")] }),
+    ).rejects.toThrow(/No TSA issued a timestamp \(http:\/\/a: .*; http:\/\/b: .*\)/);
+  });
+});
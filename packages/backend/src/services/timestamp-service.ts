@@ -2,38 +2,53 @@
  * RFC 3161 Timestamp Service for PAdES-B-T (PKI.js version)
  *
  * Builds TimeStampReq with pkijs.TimeStampReq + pkijs.MessageImprint.create,
- * posts to TSA, parses pkijs.TimeStampResp, and extracts useful metadata.
+ * posts to the configured TSAs in order (see tsa-client: credentials, retries, circuit
+ * breaker), parses pkijs.TimeStampResp, and validates the returned token (see
+ * TimestampValidator) before extracting its metadata.
  */
 
-import { DEFAULT_CONFIG } from "@pades-poc/shared";
+import { randomBytes } from "crypto";
+
 import * as asn1js from "asn1js"; // Retained: required for nonce (Integer), fromBER, and ASN.1js Sequence
 import * as pkijs from "pkijs";
 
-import { toHex } from "./crypto-utils";
+import { TimestampValidator } from "./timestamp-validator";
+import {
+  isCircuitOpen,
+  postTimestampQuery,
+  recordTsaOutcome,
+  resolveTsaEndpoints,
+} from "./tsa-client";
+
+import type { TimestampValidationResult, TimestampValidatorOptions } from "./timestamp-validator";
+import type { TsaEndpoint } from "./tsa-client";
+import type { LogEntry } from "@pades-poc/shared";
 
 export interface TimestampRequest {
   /** Data to timestamp (per PAdES: the CMS signature value bytes) */
   data: Buffer;
   /** Hash algorithm (either OID like '2.16.840.1.101.3.4.2.1' or name like 'SHA-256'); default SHA-256 */
   hashAlgorithmOid?: string;
-  /** TSA URL (defaults to DEFAULT_CONFIG.TIMESTAMP_URL) */
+  /** TSA tried first, before the configured failover list (TSA_ENDPOINTS, TIMESTAMP_URL) */
   tsaUrl?: string;
+  /** Explicit ordered TSA list, overrides tsaUrl and the configuration */
+  tsaEndpoints?: TsaEndpoint[];
   /** Ask TSA to embed its certs in the SignedData */
   requestCerts?: boolean;
-  /** Optional nonce for replay protection */
+  /** Nonce for replay protection (default: 8 random bytes) */
   nonce?: Buffer;
 }
 
 export interface TimestampResponse {
   /** RFC 3161 TimeStampToken as ASN.1 Sequence (ContentInfo) for direct embedding in CMS unsignedAttrs */
   timestampToken: asn1js.Sequence;
-  /** ISO string of genTime from TSTInfo, if present (fallback: now) */
+  /** ISO string of genTime from TSTInfo */
   timestampTime: string;
-  /** TSA URL used */
+  /** TSA that issued the token */
   tsaUrl: string;
   /** Human-readable accuracy, if present */
   accuracy?: string;
-  /** Hex serial number from TSTInfo, if present */
+  /** Hex serial number from TSTInfo */
   serialNumber?: string;
 }
 
@@ -63,19 +78,19 @@ function normalizeHash(hash?: string): "SHA-256" | "SHA-384" | "SHA-512" {
  * Implementation notes:
  * - MessageImprint is built via pkijs.MessageImprint.create(hashName, messageBytes),
  *   which handles hashing internally. :contentReference[oaicite:1]{index=1}
- * - The response is parsed with pkijs.TimeStampResp; we then extract the
- *   CMS ContentInfo and decode TSTInfo to read genTime/serial/accuracy. :contentReference[oaicite:2]{index=2}
+ * - The response is parsed with pkijs.TimeStampResp; the token is rejected unless its
+ *   messageImprint, nonce, TSA signature, ESS binding and TSA EKU check out.
+ * - A TSA that fails (transport, rejection or invalid token) hands over to the next one;
+ *   the error lists every TSA tried.
  */
-export async function requestTimestamp(params: TimestampRequest): Promise<TimestampResponse> {
-  const {
-    data,
-    hashAlgorithmOid,
-    tsaUrl = DEFAULT_CONFIG.TIMESTAMP_URL,
-    requestCerts = true,
-    nonce,
-  } = params;
+export async function requestTimestamp(
+  params: TimestampRequest,
+  logs?: LogEntry[],
+): Promise<TimestampResponse> {
+  const { data, hashAlgorithmOid, tsaUrl, tsaEndpoints, requestCerts = true, nonce } = params;
 
   const hashName = normalizeHash(hashAlgorithmOid);
+  const requestNonce = new Uint8Array(nonce ?? randomBytes(8));
   const messageBytes = new Uint8Array(data); // Buffer -> Uint8Array (BufferSource-safe)
 
   // Build MessageImprint and TimeStampReq (PKI.js)
@@ -85,37 +100,74 @@ export async function requestTimestamp(params: TimestampRequest): Promise<Timest
     messageImprint,
     certReq: requestCerts,
     // ASN.1js Integer is required for nonce, as PKI.js expects ASN.1js object
-    ...(nonce && {
-      nonce: new asn1js.Integer({
-        valueHex: messageBytes.buffer.slice(
-          // re-slice the provided nonce Buffer into a clean ArrayBuffer
-          new Uint8Array(nonce).byteOffset,
-          new Uint8Array(nonce).byteOffset + new Uint8Array(nonce).byteLength,
-        ),
-      }),
-    }),
+    nonce: new asn1js.Integer({ valueHex: toPositiveInteger(requestNonce) }),
   }); // Example aligns with PKI.js docs. :contentReference[oaicite:3]{index=3}
 
   const requestDer = Buffer.from(tspReq.toSchema().toBER());
 
-  // POST to TSA
-  const response = await fetch(tsaUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/timestamp-query",
-      Accept: "application/timestamp-reply",
-      "Content-Length": String(requestDer.length),
-    },
-    body: requestDer,
-  });
+  // Ordered failover: the first TSA that answers with a valid token wins
+  const errors: string[] = [];
+  for (const endpoint of tsaEndpoints ?? resolveTsaEndpoints(tsaUrl)) {
+    if (isCircuitOpen(endpoint.url)) {
+      errors.push(`${endpoint.url}: circuit open`);
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: "warning",
+        source: "backend",
+        message: `Skipping TSA ${endpoint.url}: circuit open after repeated failures`,
+      });
+      continue;
+    }
 
-  if (!response.ok) {
-    throw new Error(`TSA HTTP error: ${response.status} ${response.statusText}`);
+    try {
+      const responseBuffer = await postTimestampQuery(endpoint, requestDer, (attempt, error) =>
+        logs?.push({
+          timestamp: new Date().toISOString(),
+          level: "warning",
+          source: "backend",
+          message: `Retrying TSA ${endpoint.url} (retry ${attempt}): ${error}`,
+        }),
+      );
+      const timestampToken = parseTimestampResponse(responseBuffer);
+
+      // Validate the token before handing it out; the TSA chain is checked at verification time
+      const validation = await new TimestampValidator({ checkChain: false }).validate(
+        timestampToken,
+        { data: messageBytes, nonce: requestNonce },
+      );
+      if (!validation.isValid) {
+        throw new Error(`Invalid timestamp token: ${validation.reasons.join("; ")}`);
+      }
+      recordTsaOutcome(endpoint.url, true);
+
+      // Return ContentInfo as ASN.1 Sequence so CMS layer can embed it directly
+      return {
+        // ASN.1js Sequence is required for direct embedding in CMS unsignedAttrs
+        timestampToken,
+        timestampTime: validation.timestampTime ?? new Date().toISOString(),
+        tsaUrl: endpoint.url,
+        accuracy: validation.accuracy,
+        serialNumber: validation.serialNumber,
+      };
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "Unknown error";
+      recordTsaOutcome(endpoint.url, false);
+      errors.push(`${endpoint.url}: ${msg}`);
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: "warning",
+        source: "backend",
+        message: `TSA ${endpoint.url} failed: ${msg}`,
+        context: { error: msg },
+      });
+    }
   }
 
-  const responseBuffer = Buffer.from(await response.arrayBuffer());
+  throw new Error(`No TSA issued a timestamp (${errors.join("; ")})`);
+}
 
-  // Parse TimeStampResp (PKI.js)
+/** Parse a DER TimeStampResp and return the granted TimeStampToken */
+function parseTimestampResponse(responseBuffer: Buffer): asn1js.Sequence {
   const asn1 = asn1js.fromBER(responseBuffer);
   if (asn1.offset === -1) throw new Error("Invalid TimeStampResp ASN.1");
 
@@ -124,70 +176,39 @@ export async function requestTimestamp(params: TimestampRequest): Promise<Timest
   // Accept "granted" (0) and "grantedWithMods" (1)
   const status = tspResp.status.status;
   if (status !== pkijs.PKIStatus.granted && status !== pkijs.PKIStatus.grantedWithMods) {
-    throw new Error(`TSA request failed with status: ${String(status)}`);
+    const statusText = tspResp.status.statusStrings?.map((s) => s.valueBlock.value).join("; ");
+    throw new Error(
+      `TSA request failed with status: ${String(status)}${statusText ? ` (${statusText})` : ""}`,
+    );
   }
 
   if (!tspResp.timeStampToken) {
     throw new Error("TimeStampToken missing from TSA response");
   }
 
-  // Extract TSTInfo for metadata
-  let timestampTime = new Date().toISOString();
-  let accuracy: string | undefined;
-  let serialNumber: string | undefined;
-
-  try {
-    // ContentInfo -> SignedData -> encapContentInfo.eContent (OctetString) -> TSTInfo
-    const tokenCI = tspResp.timeStampToken; // pkijs.ContentInfo
-    const signedData = new pkijs.SignedData({ schema: tokenCI.content });
-    const eContent = signedData.encapContentInfo.eContent;
-
-    if (eContent) {
-      const tstInfoAsn1 = asn1js.fromBER(eContent.valueBlock.valueHex);
-      const tstInfo = new pkijs.TSTInfo({ schema: tstInfoAsn1.result }); // has genTime: Date, etc. :contentReference[oaicite:4]{index=4}
-
-      if (tstInfo.genTime) timestampTime = tstInfo.genTime.toISOString();
-      if (tstInfo.serialNumber) {
-        serialNumber = toHex(Buffer.from(tstInfo.serialNumber.valueBlock.valueHex));
-      }
-      if (tstInfo.accuracy) {
-        const secs = (tstInfo.accuracy.seconds ?? 0).toString();
-        const ms = tstInfo.accuracy.millis ?? 0;
-        const us = tstInfo.accuracy.micros ?? 0;
-        // Provide a compact summary like "±1s 1ms 10µs" when non-zero
-        const parts: string[] = [];
-        if (secs !== "0") parts.push(`${secs}s`);
-        if (ms) parts.push(`${ms}ms`);
-        if (us) parts.push(`${us}µs`);
-        if (parts.length) accuracy = `±${parts.join(" ")}`;
-      }
-    }
-  } catch (err) {
-    // Non-fatal: keep defaults
-
-    console.warn("Failed to parse TSA response metadata:", err);
-  }
-
-  // Return ContentInfo as ASN.1 Sequence so CMS layer can embed it directly
-  return {
-    // ASN.1js Sequence is required for direct embedding in CMS unsignedAttrs
-    timestampToken: tspResp.timeStampToken.toSchema(),
-    timestampTime,
-    tsaUrl,
-    accuracy,
-    serialNumber,
-  };
+  return tspResp.timeStampToken.toSchema();
 }
 
 /**
- * Optional: a (non-async) placeholder for future verification logic.
- * Keeping it non-async avoids eslint's require-await complaint.
+ * Validate a TimeStampToken against the timestamped data (and the request nonce, if any).
  */
+export async function verifyTimestamp(
+  timestampToken: asn1js.Sequence,
+  data: Buffer,
+  nonce?: Buffer,
+  options?: TimestampValidatorOptions,
+): Promise<TimestampValidationResult> {
+  return new TimestampValidator(options).validate(timestampToken, {
+    data: new Uint8Array(data),
+    nonce: nonce && new Uint8Array(nonce),
+  });
+}
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export function verifyTimestamp(_timestampToken: asn1js.Sequence): boolean {
-  // TODO: Implement full TSA signature verification when needed.
-  // You would parse ContentInfo -> SignedData and validate with pkijs.
-  // For now, this is a stub.
-  return false;
+/** Nonce bytes as minimal DER content of a positive INTEGER */
+function toPositiveInteger(bytes: Uint8Array): ArrayBuffer {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0 && !(bytes[start + 1] & 0x80)) start++;
+  const value = Buffer.from(bytes.subarray(start));
+  const padded = value[0] & 0x80 ? Buffer.concat([Buffer.from([0]), value]) : value;
+  return padded.buffer.slice(padded.byteOffset, padded.byteOffset + padded.byteLength);
 }
@@ -0,0 +1,197 @@
+import { webcrypto } from "crypto";
+
+import { CMS_OIDS } from "@pades-poc/shared";
+import * as asn1js from "asn1js";
+import {
+  AlgorithmIdentifier,
+  Attribute,
+  Certificate,
+  EncapsulatedContentInfo,
+  IssuerAndSerialNumber,
+  MessageImprint,
+  SignedAndUnsignedAttributes,
+  SignedData,
+  SignerInfo,
+  ContentInfo,
+  TSTInfo,
+} from "pkijs";
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { extKeyUsage, issueCert } from "./test-pki";
+import { TimestampValidator } from "./timestamp-validator";
+
+import type { TestCert } from "./test-pki";
+import type { LogEntry } from "@pades-poc/shared";
+
+const POLICY = "1.3.6.1.4.1.99999.1.1";
+
+/** Self-signed TSA certificate, with a critical id-kp-timeStamping EKU unless told otherwise */
+function createTsa(keyPurposes: string[] = [CMS_OIDS.ID_KP_TIME_STAMPING]): Promise<TestCert> {
+  return issueCert("Test TSA", { ca: false, extensions: [extKeyUsage(keyPurposes, true)] });
+}
+
+/** TimeStampToken over `data`, with an ESS signing-certificate-v2 binding to `boundCert` */
+async function issueToken(
+  tsa: TestCert,
+  data: Uint8Array<ArrayBuffer>,
+  { nonce, boundCert = tsa.cert }: { nonce?: Uint8Array; boundCert?: Certificate } = {},
+): Promise<asn1js.Sequence> {
+  const tstInfo = new TSTInfo({
+    version: 1,
+    policy: POLICY,
+    messageImprint: await MessageImprint.create("SHA-256", data),
+    serialNumber: new asn1js.Integer({ value: 42 }),
+    genTime: new Date(),
+    ...(nonce && { nonce: new asn1js.Integer({ valueHex: nonce }) }),
+  });
+  const tstInfoDer = tstInfo.toSchema().toBER(false);
+  const digest = async (bytes: ArrayBuffer) =>
+    new asn1js.OctetString({ valueHex: await webcrypto.subtle.digest("SHA-256", bytes) });
+
+  const signedData = new SignedData({
+    version: 3,
+    encapContentInfo: new EncapsulatedContentInfo({
+      eContentType: CMS_OIDS.ID_CT_TST_INFO,
+      eContent: new asn1js.OctetString({ valueHex: tstInfoDer }),
+    }),
+    signerInfos: [
+      new SignerInfo({
+        version: 1,
+        sid: new IssuerAndSerialNumber({
+          issuer: tsa.cert.issuer,
+          serialNumber: tsa.cert.serialNumber,
+        }),
+        signedAttrs: new SignedAndUnsignedAttributes({
+          type: 0,
+          attributes: [
+            new Attribute({
+              type: CMS_OIDS.ID_CONTENT_TYPE,
+              values: [new asn1js.ObjectIdentifier({ value: CMS_OIDS.ID_CT_TST_INFO })],
+            }),
+            new Attribute({ type: CMS_OIDS.ID_MESSAGE_DIGEST, values: [await digest(tstInfoDer)] }),
+            new Attribute({
+              type: CMS_OIDS.ID_SIGNING_CERTIFICATE_V2,
+              values: [
+                new asn1js.Sequence({
+                  value: [
+                    new asn1js.Sequence({
+                      value: [
+                        new asn1js.Sequence({
+                          value: [await digest(boundCert.toSchema().toBER(false))],
+                        }),
+                      ],
+                    }),
+                  ],
+                }),
+              ],
+            }),
+          ],
+        }),
+      }),
+    ],
+    certificates: [tsa.cert],
+    digestAlgorithms: [new AlgorithmIdentifier({ algorithmId: "2.16.840.1.101.3.4.2.1" })],
+  });
+  await signedData.sign(tsa.keys.privateKey, 0, "SHA-256");
+
+  const contentInfo = new ContentInfo({
+    contentType: CMS_OIDS.ID_SIGNED_DATA,
+    content: signedData.toSchema(true),
+  });
+  // Parse back like a token received from a TSA or read from a PDF
+  return asn1js.fromBER(contentInfo.toSchema().toBER(false)).result as asn1js.Sequence;
+}
+
+describe("TimestampValidator", () => {
+  const data = new TextEncoder().encode("CMS signature value");
+  const nonce = new Uint8Array([0x12, 0x34, 0x56, 0x78]);
+  let tsa: TestCert;
+  let validator: TimestampValidator;
+
+  beforeAll(async () => {
+    tsa = await createTsa();
+    validator = new TimestampValidator({ allowedPolicies: [] });
+  });
+
+  it("should accept a token bound to a timestamping TSA", async () => {
+    const token = await issueToken(tsa, data, { nonce });
+    const logs: LogEntry[] = [];
+
+    const result = await validator.validate(token, { data, nonce }, logs);
+
+    expect(result.reasons).toEqual([]);
+    expect(result).toMatchObject({
+      isValid: true,
+      tsaName: "Test TSA",
+      policy: POLICY,
+      messageImprintMatches: true,
+      tsaSignatureValid: true,
+      signingCertificateMatches: true,
+      hasTimeStampingEku: true,
+      nonceMatches: true,
+      policyAllowed: true,
+      chainValid: true,
+    });
+    expect(logs.some((l) => l.message.includes("VALID"))).toBe(true);
+  });
+
+  it("should reject a token over other data or with another nonce", async () => {
+    const token = await issueToken(tsa, data, { nonce });
+
+    const otherData = await validator.validate(token, { data: new Uint8Array([1, 2, 3]) });
+    expect(otherData.isValid).toBe(false);
+    expect(otherData.reasons).toContain("Timestamp messageImprint does not match signature");
+
+    const otherNonce = await validator.validate(token, { data, nonce: new Uint8Array([9]) });
+    expect(otherNonce.nonceMatches).toBe(false);
+    expect(otherNonce.reasons).toContain("Timestamp nonce does not match the request");
+
+    const withoutNonce = await issueToken(tsa, data);
+    const missing = await validator.validate(withoutNonce, { data, nonce });
+    expect(missing.reasons).toContain("Timestamp token does not echo the request nonce");
+  });
+
+  it("should reject policies outside the allow-list", async () => {
+    const token = await issueToken(tsa, data);
+    const strict = new TimestampValidator({ allowedPolicies: ["1.2.250.1.999"] });
+
+    const result = await strict.validate(token, { data });
+
+    expect(result.policyAllowed).toBe(false);
+    expect(result.reasons).toContain(`TSA policy ${POLICY} is not in the allowed list`);
+  });
+
+  it("should reject a signing-certificate attribute bound to another certificate", async () => {
+    const other = await createTsa();
+    const token = await issueToken(tsa, data, { boundCert: other.cert });
+
+    const result = await validator.validate(token, { data });
+
+    expect(result.tsaSignatureValid).toBe(true);
+    expect(result.signingCertificateMatches).toBe(false);
+    expect(result.reasons).toContain("ESS signing-certificate does not match the TSA certificate");
+  });
+
+  it("should reject TSA certificates without an exclusive timestamping EKU", async () => {
+    const codeSigning = await createTsa(["1.3.6.1.5.5.7.3.3"]);
+    const mixed = await createTsa([CMS_OIDS.ID_KP_TIME_STAMPING, "1.3.6.1.5.5.7.3.3"]);
+
+    const missing = await validator.validate(await issueToken(codeSigning, data), { data });
+    const extra = await validator.validate(await issueToken(mixed, data), { data });
+
+    expect(missing.hasTimeStampingEku).toBe(false);
+    expect(missing.reasons).toContain(
+      "TSA certificate lacks the id-kp-timeStamping extended key usage",
+    );
+    expect(extra.reasons).toContain(
+      "TSA certificate extended key usage must only contain id-kp-timeStamping",
+    );
+  });
+
+  it("should report unparsable tokens", async () => {
+    const result = await validator.validate(new asn1js.Sequence(), { data });
+
+    expect(result.isValid).toBe(false);
+    expect(result.reasons[0]).toMatch(/^Timestamp token parsing failed/);
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * RFC 3161 TimeStampToken validation
+ *
+ * One validator for every token the backend handles: the TSA client checks each response
+ * right after receipt, the verifier checks signature-time-stamps and document timestamps.
+ *
+ * Checks (RFC 3161 §2.4.2, RFC 5816, ETSI EN 319 422):
+ * - TSTInfo encapsulated with eContentType id-ct-TSTInfo
+ * - messageImprint over the timestamped data, nonce echoed from the request
+ * - TSA policy OID against an allow-list
+ * - TSA SignedData signature and ESS signing-certificate(-v2) binding to the TSA certificate
+ * - TSA certificate: critical extended key usage limited to id-kp-timeStamping, chain
+ */
+
+import { webcrypto as nodeWebcrypto } from "crypto";
+
+import { CMS_OIDS } from "@pades-poc/shared";
+import * as asn1js from "asn1js";
+import {
+  Certificate,
+  ContentInfo,
+  IssuerAndSerialNumber,
+  SignedData,
+  TSTInfo,
+  getCrypto,
+} from "pkijs";
+
+import { CertificateChainValidator } from "./certificate-chain-validator";
+import { bytesEq, getSubjectCN } from "./pki-utils";
+import { getTrustStore } from "./trust-store";
+import { withStatusAt } from "./trusted-list";
+
+import type { EmbeddedRevocationData } from "./certificate-chain-validator";
+import type { TrustStore } from "./trust-store";
+import type { LogEntry, TrustAnchorSummary } from "@pades-poc/shared";
+import type { SignerInfo } from "pkijs";
+
+export interface TimestampValidatorOptions {
+  /** Accepted TSA policy OIDs; empty accepts any policy (default: TSA_ALLOWED_POLICIES) */
+  allowedPolicies?: string[];
+  /** Build and validate the TSA certificate chain */
+  checkChain?: boolean;
+  /** Trusted certificates for the TSA chain, in addition to the trust store TSA anchors */
+  trustedRoots?: Certificate[];
+  /** Trust store (default: the one configured by TRUST_STORE_SIGNER / TRUST_STORE_TSA) */
+  trustStore?: TrustStore;
+}
+
+export interface TimestampExpectation {
+  /** Timestamped bytes (signature value for B-T, ByteRange content for document timestamps) */
+  data: Uint8Array;
+  /** Nonce sent in the TimeStampReq */
+  nonce?: Uint8Array;
+  /** Time the TSA chain is validated at (default now) */
+  validationTime?: Date;
+  /** Revocation data stored in the document (DSS), tried before going online */
+  revocationData?: EmbeddedRevocationData;
+}
+
+export interface TimestampValidationResult {
+  isValid: boolean;
+  timestampTime?: string;
+  tsaName?: string;
+  accuracy?: string;
+  serialNumber?: string;
+  /** TSA policy OID from TSTInfo */
+  policy?: string;
+  messageImprintMatches: boolean;
+  tsaSignatureValid: boolean;
+  /** ESS signing-certificate(-v2) hash matches the TSA certificate */
+  signingCertificateMatches: boolean;
+  /** TSA certificate carries a critical EKU limited to id-kp-timeStamping */
+  hasTimeStampingEku: boolean;
+  policyAllowed: boolean;
+  /** Only set when a nonce was expected */
+  nonceMatches?: boolean;
+  /** Only set when the chain was checked */
+  chainValid?: boolean;
+  /** TSA chain reached a TSA anchor of the trust store (only set when the chain was checked) */
+  chainTrusted?: boolean;
+  trustAnchor?: TrustAnchorSummary;
+  reasons: string[];
+}
+
+const EXT_KEY_USAGE_OID = "2.5.29.37";
+
+const DEFAULT_OPTIONS: Omit<Required<TimestampValidatorOptions>, "trustStore"> = {
+  allowedPolicies: [],
+  checkChain: true,
+  trustedRoots: [],
+};
+
+/**
+ * Validator for RFC 3161 timestamp tokens (ContentInfo → SignedData → TSTInfo)
+ */
+export class TimestampValidator {
+  private options: Required<TimestampValidatorOptions>;
+  private chainValidator: CertificateChainValidator;
+
+  constructor(options: TimestampValidatorOptions = {}) {
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      allowedPolicies: parseOidList(process.env.TSA_ALLOWED_POLICIES),
+      ...options,
+      trustStore: options.trustStore ?? getTrustStore(),
+    };
+    this.chainValidator = new CertificateChainValidator({
+      checkValidityPeriod: true,
+      verifySignatures: true,
+      checkKeyUsage: false, // TSA certificates are constrained by their EKU instead
+      maxChainLength: 10,
+      trustedRoots: this.options.trustedRoots,
+      trustStore: this.options.trustStore,
+      trustPurpose: "tsa",
+    });
+  }
+
+  /**
+   * Validate a TimeStampToken against the timestamped bytes and, when given, the request nonce.
+   */
+  async validate(
+    token: asn1js.BaseBlock,
+    expected: TimestampExpectation,
+    logs?: LogEntry[],
+  ): Promise<TimestampValidationResult> {
+    const { data, nonce } = expected;
+    const result: TimestampValidationResult = {
+      isValid: false,
+      messageImprintMatches: false,
+      tsaSignatureValid: false,
+      signingCertificateMatches: false,
+      hasTimeStampingEku: false,
+      policyAllowed: false,
+      reasons: [],
+    };
+    const reasons = result.reasons;
+
+    logs?.push({
+      timestamp: new Date().toISOString(),
+      level: "info",
+      source: "backend",
+      message: "Starting timestamp token verification",
+    });
+
+    try {
+      const contentInfo = new ContentInfo({ schema: token });
+      const signedData = new SignedData({ schema: contentInfo.content });
+      const tstInfoDer = readTstInfoDer(signedData);
+      const tstInfo = parseTstInfo(tstInfoDer);
+
+      result.timestampTime = tstInfo.genTime.toISOString();
+      result.serialNumber = Buffer.from(tstInfo.serialNumber.valueBlock.valueHexView).toString(
+        "hex",
+      );
+      result.accuracy = formatAccuracy(tstInfo);
+      result.policy = tstInfo.policy;
+
+      // 1) messageImprint over the timestamped data
+      const imprint = tstInfo.messageImprint;
+      const hashName = oidToDigestName(imprint.hashAlgorithm.algorithmId);
+      if (!hashName) {
+        reasons.push(`Unsupported messageImprint algorithm ${imprint.hashAlgorithm.algorithmId}`);
+      } else {
+        const computed = await digest(hashName, data);
+        result.messageImprintMatches = bytesEq(
+          new Uint8Array(imprint.hashedMessage.valueBlock.valueHexView),
+          computed,
+        );
+        if (!result.messageImprintMatches) {
+          reasons.push("Timestamp messageImprint does not match signature");
+        }
+      }
+
+      // 2) Nonce echoed from the request (leading zero octets are sign padding)
+      if (nonce) {
+        const echoed = tstInfo.nonce && new Uint8Array(tstInfo.nonce.valueBlock.valueHexView);
+        result.nonceMatches =
+          !!echoed && bytesEq(stripLeadingZeros(echoed), stripLeadingZeros(nonce));
+        if (!echoed) reasons.push("Timestamp token does not echo the request nonce");
+        else if (!result.nonceMatches) reasons.push("Timestamp nonce does not match the request");
+      }
+
+      // 3) TSA policy
+      const allowed = this.options.allowedPolicies;
+      result.policyAllowed = allowed.length === 0 || allowed.includes(tstInfo.policy);
+      if (!result.policyAllowed) {
+        reasons.push(`TSA policy ${tstInfo.policy} is not in the allowed list`);
+      }
+
+      // 4) TSA signature
+      if (signedData.signerInfos.length !== 1) {
+        reasons.push(
+          `Timestamp token must contain exactly one SignerInfo (found ${signedData.signerInfos.length})`,
+        );
+      }
+      const signerInfo = signedData.signerInfos[0];
+      const tsaCert = signerInfo && findSignerCertificate(signedData, signerInfo);
+      if (!tsaCert) reasons.push("TSA certificate not found in timestamp token");
+
+      if (signerInfo && tsaCert) {
+        result.tsaName = getSubjectCN(tsaCert);
+        const signature = await verifyTsaSignature(signerInfo, tsaCert, tstInfoDer);
+        result.tsaSignatureValid = signature === true;
+        if (signature !== true) reasons.push(signature);
+
+        // 5) ESS signing-certificate binding
+        const binding = await checkSigningCertificate(signerInfo, tsaCert);
+        result.signingCertificateMatches = binding === true;
+        if (binding !== true) reasons.push(binding);
+
+        // 6) TSA certificate usage and validity at genTime
+        const eku = checkTimeStampingEku(tsaCert);
+        result.hasTimeStampingEku = eku === true;
+        if (eku !== true) reasons.push(eku);
+
+        if (tstInfo.genTime < tsaCert.notBefore.value || tstInfo.genTime > tsaCert.notAfter.value) {
+          reasons.push("TSA certificate was not valid at the time of timestamping");
+        }
+
+        // 7) TSA chain
+        if (this.options.checkChain) {
+          const certificates = (signedData.certificates ?? []).filter(
+            (c): c is Certificate => c instanceof Certificate,
+          );
+          const chainResult = await this.chainValidator.validateChain(
+            certificates,
+            tsaCert,
+            logs,
+            expected.validationTime,
+            expected.revocationData,
+          );
+          result.chainValid = chainResult.isValid;
+          result.chainTrusted = chainResult.trustedChain;
+          // Trusted List anchor: was the TSA service granted when the token was issued?
+          const trustedService = chainResult.trustAnchor?.trustedService;
+          result.trustAnchor = chainResult.trustAnchor && {
+            ...chainResult.trustAnchor,
+            trustedService: trustedService && withStatusAt(trustedService, tstInfo.genTime),
+          };
+          reasons.push(...chainResult.reasons.map((r) => `TSA chain: ${r}`));
+        }
+      }
+
+      result.isValid = reasons.length === 0;
+
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: result.isValid ? "success" : "warning",
+        source: "backend",
+        message: `Timestamp verification completed: ${result.isValid ? "VALID" : "INVALID"}`,
+        context: {
+          timestampTime: result.timestampTime,
+          tsaName: result.tsaName,
+          policy: result.policy,
+          messageImprintMatches: result.messageImprintMatches,
+          tsaSignatureValid: result.tsaSignatureValid,
+          signingCertificateMatches: result.signingCertificateMatches,
+          hasTimeStampingEku: result.hasTimeStampingEku,
+          nonceMatches: result.nonceMatches,
+          chainValid: result.chainValid,
+          serialNumber: result.serialNumber,
+        },
+      });
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      reasons.push(`Timestamp token parsing failed: ${errorMsg}`);
+      result.isValid = false;
+
+      logs?.push({
+        timestamp: new Date().toISOString(),
+        level: "error",
+        source: "backend",
+        message: `Timestamp verification error: ${errorMsg}`,
+      });
+    }
+
+    return result;
+  }
+}
+
+/** Comma-separated OID list (e.g. the TSA_ALLOWED_POLICIES environment variable) */
+function parseOidList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((oid) => oid.trim())
+    .filter(Boolean);
+}
+
+/** Encapsulated TSTInfo DER, requiring eContentType id-ct-TSTInfo */
+function readTstInfoDer(signedData: SignedData): ArrayBuffer {
+  const { eContentType, eContent } = signedData.encapContentInfo;
+  if (eContentType !== CMS_OIDS.ID_CT_TST_INFO) {
+    throw new Error(`Unexpected timestamp content type ${eContentType}`);
+  }
+  if (!eContent) throw new Error("Timestamp token missing TSTInfo");
+  return eContent.getValue();
+}
+
+function parseTstInfo(der: ArrayBuffer): TSTInfo {
+  const asn1 = asn1js.fromBER(der);
+  if (asn1.offset === -1) throw new Error("Invalid TSTInfo structure");
+  return new TSTInfo({ schema: asn1.result });
+}
+
+/** Human-readable accuracy like "±1s 1ms 10µs" (undefined when absent or zero) */
+function formatAccuracy(tstInfo: TSTInfo): string | undefined {
+  if (!tstInfo.accuracy) return undefined;
+  const { seconds = 0, millis = 0, micros = 0 } = tstInfo.accuracy;
+  const parts: string[] = [];
+  if (seconds) parts.push(`${seconds}s`);
+  if (millis) parts.push(`${millis}ms`);
+  if (micros) parts.push(`${micros}µs`);
+  return parts.length ? `±${parts.join(" ")}` : undefined;
+}
+
+/**
+ * TSA signature (RFC 5652 §5.4): messageDigest over the TSTInfo, then the signature over the
+ * DER SET OF signed attributes. Returns true or the failure reason.
+ */
+async function verifyTsaSignature(
+  signerInfo: SignerInfo,
+  tsaCert: Certificate,
+  tstInfoDer: ArrayBuffer,
+): Promise<true | string> {
+  const signedAttrs = signerInfo.signedAttrs;
+  if (!signedAttrs) return "Timestamp token lacks signed attributes";
+
+  const hashName = oidToDigestName(signerInfo.digestAlgorithm.algorithmId);
+  if (!hashName) {
+    return `Unsupported TSA digest algorithm ${signerInfo.digestAlgorithm.algorithmId}`;
+  }
+
+  const messageDigest = signedAttrs.attributes.find((a) => a.type === CMS_OIDS.ID_MESSAGE_DIGEST);
+  const expected: unknown = messageDigest?.values[0];
+  if (!(expected instanceof asn1js.OctetString)) {
+    return "Timestamp token lacks the messageDigest attribute";
+  }
+  const computed = await digest(hashName, new Uint8Array(tstInfoDer));
+  if (!bytesEq(new Uint8Array(expected.valueBlock.valueHexView), computed)) {
+    return "Timestamp messageDigest does not match TSTInfo";
+  }
+
+  try {
+    const attrsDer = new asn1js.Set({
+      value: signedAttrs.attributes.map((a) => a.toSchema()),
+    }).toBER(false);
+    const verified = await getCrypto(true).verifyWithPublicKey(
+      attrsDer,
+      signerInfo.signature,
+      tsaCert.subjectPublicKeyInfo,
+      signerInfo.signatureAlgorithm,
+      hashName,
+    );
+    return verified || "TSA signature verification failed";
+  } catch (e) {
+    return `TSA signature verification error: ${e instanceof Error ? e.message : "Unknown error"}`;
+  }
+}
+
+/**
+ * ESS signing-certificate-v2 (RFC 5816) or signing-certificate (RFC 2634) signed attribute:
+ * the first ESSCertID(v2) must hash the TSA certificate. Returns true or the failure reason.
+ */
+async function checkSigningCertificate(
+  signerInfo: SignerInfo,
+  tsaCert: Certificate,
+): Promise<true | string> {
+  const attributes = signerInfo.signedAttrs?.attributes ?? [];
+  const v2 = attributes.find((a) => a.type === CMS_OIDS.ID_SIGNING_CERTIFICATE_V2);
+  const v1 = attributes.find((a) => a.type === CMS_OIDS.ID_SIGNING_CERTIFICATE);
+  const attribute = v2 ?? v1;
+  if (!attribute) return "Timestamp token lacks the ESS signing-certificate attribute";
+
+  try {
+    // SigningCertificate(V2) ::= SEQUENCE { certs SEQUENCE OF ESSCertID(v2), ... }
+    const signingCertificate = attribute.values[0] as asn1js.Sequence;
+    const certs = signingCertificate.valueBlock.value[0] as asn1js.Sequence;
+    const certId = certs.valueBlock.value[0] as asn1js.Sequence;
+    const [first, second] = certId.valueBlock.value;
+
+    // ESSCertIDv2 ::= SEQUENCE { hashAlgorithm DEFAULT sha256, certHash, issuerSerial OPTIONAL }
+    // ESSCertID   ::= SEQUENCE { certHash (SHA-1), issuerSerial OPTIONAL }
+    let hashName: DigestName | undefined = v2 ? "SHA-256" : "SHA-1";
+    let certHash = first as asn1js.OctetString;
+    if (v2 && first instanceof asn1js.Sequence) {
+      const algorithm = first.valueBlock.value[0] as asn1js.ObjectIdentifier;
+      hashName = oidToDigestName(algorithm.valueBlock.toString());
+      certHash = second as asn1js.OctetString;
+    }
+    if (!hashName) return "Unsupported ESS signing-certificate hash algorithm";
+
+    const computed = await digest(hashName, new Uint8Array(tsaCert.toSchema().toBER(false)));
+    return bytesEq(new Uint8Array(certHash.valueBlock.valueHexView), computed)
+      ? true
+      : "ESS signing-certificate does not match the TSA certificate";
+  } catch {
+    return "Malformed ESS signing-certificate attribute";
+  }
+}
+
+/**
+ * RFC 3161 §2.3: the TSA certificate has exactly one, critical, extended key usage:
+ * id-kp-timeStamping. Returns true or the failure reason.
+ */
+function checkTimeStampingEku(cert: Certificate): true | string {
+  const extension = cert.extensions?.find((e) => e.extnID === EXT_KEY_USAGE_OID);
+  if (!extension) return "TSA certificate lacks the id-kp-timeStamping extended key usage";
+
+  const asn1 = asn1js.fromBER(extension.extnValue.getValue());
+  const purposes =
+    asn1.result instanceof asn1js.Sequence
+      ? asn1.result.valueBlock.value.map((p) =>
+          (p as asn1js.ObjectIdentifier).valueBlock.toString(),
+        )
+      : [];
+  if (!purposes.includes(CMS_OIDS.ID_KP_TIME_STAMPING)) {
+    return "TSA certificate lacks the id-kp-timeStamping extended key usage";
+  }
+  if (purposes.length !== 1) {
+    return "TSA certificate extended key usage must only contain id-kp-timeStamping";
+  }
+  if (!extension.critical) return "TSA certificate extended key usage must be critical";
+  return true;
+}
+
+/** TSA certificate by IssuerAndSerialNumber, falling back to the first certificate */
+function findSignerCertificate(sd: SignedData, si: SignerInfo): Certificate | undefined {
+  const certs = (sd.certificates ?? []).filter((c): c is Certificate => c instanceof Certificate);
+  if (si.sid instanceof IssuerAndSerialNumber) {
+    const serialHex = Buffer.from(si.sid.serialNumber.valueBlock.valueHexView).toString("hex");
+    const match = certs.find(
+      (c) => Buffer.from(c.serialNumber.valueBlock.valueHexView).toString("hex") === serialHex,
+    );
+    if (match) return match;
+  }
+  return certs[0];
+}
+
+type DigestName = "SHA-1" | "SHA-256" | "SHA-384" | "SHA-512";
+
+function oidToDigestName(oid: string): DigestName | undefined {
+  switch (oid) {
+    case "1.3.14.3.2.26":
+      return "SHA-1";
+    case "2.16.840.1.101.3.4.2.1":
+      return "SHA-256";
+    case "2.16.840.1.101.3.4.2.2":
+      return "SHA-384";
+    case "2.16.840.1.101.3.4.2.3":
+      return "SHA-512";
+    default:
+      return undefined;
+  }
+}
+
+async function digest(name: DigestName, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await nodeWebcrypto.subtle.digest(name, data));
+}
+
+function stripLeadingZeros(bytes: Uint8Array): Uint8Array {
+  let i = 0;
+  while (i < bytes.length - 1 && bytes[i] === 0) i++;
+  return bytes.subarray(i);
+}
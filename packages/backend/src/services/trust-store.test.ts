@@ -0,0 +1,136 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { CMS_OIDS } from "@pades-poc/shared";
+import { Certificate, ContentInfo, EncapsulatedContentInfo, SignedData } from "pkijs";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.stubEnv("LOG_LEVEL", "error");
+
+import { CertificateChainValidator } from "./certificate-chain-validator";
+import { MockHSMService } from "./mock-hsm-service";
+import { pemToCert } from "./test-pki";
+import { TrustStore, certificateFingerprint } from "./trust-store";
+
+/** Degenerate SignedData holding certificates, like a .p7b bundle */
+function toPkcs7(certificates: Certificate[]): Buffer {
+  const signedData = new SignedData({
+    version: 1,
+    encapContentInfo: new EncapsulatedContentInfo({ eContentType: CMS_OIDS.ID_DATA }),
+    certificates,
+  });
+  const contentInfo = new ContentInfo({
+    contentType: CMS_OIDS.ID_SIGNED_DATA,
+    content: signedData.toSchema(true),
+  });
+  return Buffer.from(contentInfo.toSchema().toBER(false));
+}
+
+describe("TrustStore", () => {
+  let hsmDir: string;
+  let anchorDir: string;
+  let rootPem: string;
+  let root: Certificate;
+  let intermediate: Certificate;
+  let signer: Certificate;
+
+  beforeAll(async () => {
+    hsmDir = mkdtempSync(join(tmpdir(), "trust-store-hsm-"));
+    const hsm = new MockHSMService({ certDir: hsmDir });
+    await hsm.ready;
+    rootPem = hsm.getRootCertificatePem();
+    root = pemToCert(rootPem);
+    intermediate = pemToCert(hsm.getCertificateChainPem(false)[0]);
+    signer = pemToCert(hsm.getSignerCertificatePem());
+  });
+
+  afterAll(() => {
+    rmSync(hsmDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    anchorDir = mkdtempSync(join(tmpdir(), "trust-store-anchors-"));
+  });
+
+  afterEach(() => {
+    rmSync(anchorDir, { recursive: true, force: true });
+  });
+
+  it("should load PEM, DER and PKCS#7 anchors per purpose", () => {
+    writeFileSync(join(anchorDir, "root.pem"), rootPem);
+    writeFileSync(
+      join(anchorDir, "intermediate.cer"),
+      Buffer.from(intermediate.toSchema().toBER()),
+    );
+    writeFileSync(join(anchorDir, "README.txt"), "not an anchor");
+    const bundle = join(anchorDir, "tsa.p7b");
+    writeFileSync(bundle, toPkcs7([root]));
+
+    const store = new TrustStore({ signerPaths: [anchorDir], tsaPaths: [bundle] });
+
+    expect(store.getAnchors("signer").map((a) => a.subject)).toEqual([
+      expect.stringContaining("CN=Mock Intermediate CA"),
+      expect.stringContaining("CN=Mock Root CA"),
+    ]);
+    expect(store.getAnchors("tsa")).toHaveLength(1);
+    expect(store.findAnchor(root, "tsa")).toMatchObject({
+      fingerprint: certificateFingerprint(root),
+      source: bundle,
+    });
+    expect(store.findAnchor(intermediate, "tsa")).toBeUndefined();
+  });
+
+  it("should report the anchor a chain reached, adding the root missing from the CMS", async () => {
+    writeFileSync(join(anchorDir, "root.pem"), rootPem);
+    const validator = new CertificateChainValidator({
+      checkRevocation: false,
+      trustStore: new TrustStore({ signerPaths: [anchorDir] }),
+    });
+
+    const result = await validator.validateChain([signer, intermediate], signer);
+
+    expect(result.reasons).toEqual([]);
+    expect(result).toMatchObject({ isValid: true, trustedChain: true, chainLength: 3 });
+    expect(result.trustAnchor?.subject).toContain("CN=Mock Root CA");
+    expect(result.trustAnchor).toMatchObject({
+      fingerprint: certificateFingerprint(root),
+      source: join(anchorDir, "root.pem"),
+    });
+  });
+
+  it("should not trust self-signed chains outside the anchors", async () => {
+    const bundle = join(anchorDir, "tsa.p7b");
+    writeFileSync(bundle, toPkcs7([root]));
+    const store = new TrustStore({ tsaPaths: [bundle] });
+
+    const withoutAnchors = await new CertificateChainValidator({
+      checkRevocation: false,
+      trustStore: store,
+    }).validateChain([signer, intermediate, root], signer);
+    const otherAnchor = await new CertificateChainValidator({
+      checkRevocation: false,
+      trustStore: store,
+      trustedRoots: [intermediate],
+    }).validateChain([intermediate, root], root);
+
+    expect(withoutAnchors).toMatchObject({ isValid: true, trustedChain: false });
+    expect(withoutAnchors.trustAnchor).toBeUndefined();
+    expect(otherAnchor.isValid).toBe(false);
+    expect(otherAnchor.reasons).toContain(
+      "Certificate chain does not end with a trusted root certificate",
+    );
+  });
+
+  it("should reload anchors when the files change", async () => {
+    const store = new TrustStore({ signerPaths: [anchorDir], watch: true });
+    expect(store.getAnchors("signer")).toHaveLength(0);
+
+    writeFileSync(join(anchorDir, "root.pem"), rootPem);
+
+    await vi.waitFor(() => expect(store.findAnchor(root, "signer")).toBeDefined(), {
+      timeout: 5000,
+    });
+    store.close();
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Trust store of the certificate chain validator
+ *
+ * Trust anchors are loaded from files or directories of PEM/DER certificates and PKCS#7
+ * bundles (.p7b/.p7c), with one anchor set for signer certificates and another for TSA
+ * certificates: a chain is trusted only when it reaches an anchor of the matching set.
+ * ETSI Trusted Lists add the CA/QC services as signer anchors and the TSA/QTST services as
+ * TSA anchors (see trusted-list.ts). The files are watched and reloaded on change, so anchors
+ * can be rotated without restart.
+ *
+ * Configuration (comma-separated files or directories):
+ * - TRUST_STORE_SIGNER: anchors for signer certificates
+ * - TRUST_STORE_TSA: anchors for TSA certificates
+ * - TRUSTED_LIST_FILE: Trusted List XML files
+ * - TRUSTED_LIST_SIGNER: certificates the Trusted List signatures must verify with
+ * - TRUST_STORE_WATCH: reload on file changes (default true)
+ */
+
+import { createHash } from "crypto";
+import { existsSync, readFileSync, readdirSync, statSync, watch } from "fs";
+import { basename, dirname, extname, join, resolve } from "path";
+
+import { Certificate } from "pkijs";
+
+import { logPAdES, padesBackendLogger } from "../logger";
+
+import { CERTIFICATE_EXTENSIONS, parseCertificates } from "./pki-utils";
+import { TRUSTED_SERVICE_TYPES, loadTrustedList, summarizeTrustedService } from "./trusted-list";
+
+import type { TrustedServiceSummary } from "@pades-poc/shared";
+import type { FSWatcher } from "fs";
+
+export type TrustPurpose = "signer" | "tsa";
+
+export interface TrustAnchor {
+  certificate: Certificate;
+  subject: string;
+  /** SHA-256 of the certificate DER, uppercase hex with colons */
+  fingerprint: string;
+  /** File the anchor was loaded from */
+  source: string;
+  /** Trusted List service the certificate is the digital identity of */
+  trustedService?: TrustedServiceSummary;
+}
+
+export interface TrustStoreOptions {
+  /** Files or directories holding the signer anchors */
+  signerPaths?: string[];
+  /** Files or directories holding the TSA anchors */
+  tsaPaths?: string[];
+  /** ETSI TS 119 612 Trusted List files (CA/QC services anchor signers, TSA/QTST services TSAs) */
+  trustedListPaths?: string[];
+  /** Files or directories holding the certificates the Trusted Lists must be signed with */
+  trustedListSigners?: string[];
+  /** Reload the anchors when the files change */
+  watch?: boolean;
+}
+
+const RELOAD_DEBOUNCE_MS = 200;
+
+/**
+ * Anchor sets per purpose, indexed by fingerprint
+ */
+export class TrustStore {
+  private anchors = new Map<TrustPurpose, Map<string, TrustAnchor>>();
+  private watchers: FSWatcher[] = [];
+  private reloadTimer?: NodeJS.Timeout;
+  private readonly paths: Record<TrustPurpose, string[]>;
+  private readonly trustedListPaths: string[];
+  private readonly trustedListSigners: string[];
+
+  constructor(options: TrustStoreOptions = {}) {
+    this.paths = {
+      signer: (options.signerPaths ?? []).map((p) => resolve(p)),
+      tsa: (options.tsaPaths ?? []).map((p) => resolve(p)),
+    };
+    this.trustedListPaths = (options.trustedListPaths ?? []).map((p) => resolve(p));
+    this.trustedListSigners = (options.trustedListSigners ?? []).map((p) => resolve(p));
+    this.reload();
+    if (options.watch) this.watchPaths();
+  }
+
+  /**
+   * Read every configured path again. A purpose keeps its previous anchors when none of
+   * its files can be read (e.g. a bundle caught in the middle of a rewrite).
+   */
+  reload(): void {
+    const listed = this.loadTrustedLists();
+    for (const purpose of ["signer", "tsa"] as const) {
+      if (this.paths[purpose].length === 0 && this.trustedListPaths.length === 0) {
+        this.anchors.set(purpose, new Map());
+        continue;
+      }
+
+      const loaded = new Map<string, TrustAnchor>();
+      for (const path of this.paths[purpose]) {
+        for (const anchor of loadAnchors(path)) loaded.set(anchor.fingerprint, anchor);
+      }
+      for (const anchor of listed[purpose]) loaded.set(anchor.fingerprint, anchor);
+
+      if (loaded.size === 0 && (this.anchors.get(purpose)?.size ?? 0) > 0) {
+        logPAdES(
+          padesBackendLogger.createLogEntry(
+            "warning",
+            "backend",
+            `No ${purpose} trust anchor could be read, keeping the previous ones`,
+            { paths: this.paths[purpose] },
+          ),
+        );
+        continue;
+      }
+
+      this.anchors.set(purpose, loaded);
+      logPAdES(
+        padesBackendLogger.createLogEntry("info", "backend", `Loaded ${purpose} trust anchors`, {
+          count: loaded.size,
+          subjects: [...loaded.values()].map((a) => a.subject),
+        }),
+      );
+    }
+  }
+
+  getAnchors(purpose: TrustPurpose): TrustAnchor[] {
+    return [...(this.anchors.get(purpose)?.values() ?? [])];
+  }
+
+  /**
+   * Anchor identical to `cert` (same DER)
+   */
+  findAnchor(cert: Certificate, purpose: TrustPurpose): TrustAnchor | undefined {
+    return this.anchors.get(purpose)?.get(certificateFingerprint(cert));
+  }
+
+  /** Stop watching the files */
+  close(): void {
+    this.watchers.forEach((w) => w.close());
+    this.watchers = [];
+    clearTimeout(this.reloadTimer);
+  }
+
+  // ─────────────────── Private Implementation ─────────────────
+
+  /**
+   * Anchors of the CA/QC and TSA/QTST services of every Trusted List whose signature
+   * verifies. A list that cannot be read or verified contributes no anchor.
+   */
+  private loadTrustedLists(): Record<TrustPurpose, TrustAnchor[]> {
+    const anchors: Record<TrustPurpose, TrustAnchor[]> = { signer: [], tsa: [] };
+    if (this.trustedListPaths.length === 0) return anchors;
+
+    const signers = this.trustedListSigners.flatMap((p) =>
+      loadAnchors(p).map((a) => a.certificate),
+    );
+    for (const path of this.trustedListPaths) {
+      try {
+        const list = loadTrustedList(path, signers);
+        for (const service of list.services) {
+          const purpose = service.type === TRUSTED_SERVICE_TYPES.CA_QC ? "signer" : "tsa";
+          const trustedService = summarizeTrustedService(service, list.territory);
+          for (const cert of service.certificates) {
+            anchors[purpose].push({ ...createTrustAnchor(cert, path), trustedService });
+          }
+        }
+        logPAdES(
+          padesBackendLogger.createLogEntry("info", "backend", "Loaded trusted list", {
+            path,
+            territory: list.territory,
+            sequenceNumber: list.sequenceNumber,
+            services: list.services.length,
+          }),
+        );
+      } catch (error) {
+        logPAdES(
+          padesBackendLogger.createLogEntry("warning", "backend", "Unable to load trusted list", {
+            path,
+            error: error instanceof Error ? error.message : "Unknown error",
+          }),
+        );
+      }
+    }
+    return anchors;
+  }
+
+  /**
+   * Watch directories, and the parent directory of files: editors and deployment tools
+   * replace files by rename, which ends a watcher on the file itself.
+   */
+  private watchPaths(): void {
+    for (const path of [
+      ...this.paths.signer,
+      ...this.paths.tsa,
+      ...this.trustedListPaths,
+      ...this.trustedListSigners,
+    ]) {
+      const isDirectory = existsSync(path) && statSync(path).isDirectory();
+      const target = isDirectory ? path : dirname(path);
+      if (!existsSync(target)) continue;
+
+      const watcher = watch(target, { persistent: false }, (_event, filename) => {
+        if (isDirectory || !filename || filename === basename(path)) this.scheduleReload();
+      });
+      watcher.on("error", () => watcher.close());
+      this.watchers.push(watcher);
+    }
+  }
+
+  private scheduleReload(): void {
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => this.reload(), RELOAD_DEBOUNCE_MS);
+    this.reloadTimer.unref();
+  }
+}
+
+let defaultTrustStore: TrustStore | undefined;
+
+/**
+ * Trust store configured by the TRUST_STORE_* / TRUSTED_LIST_* variables, shared by every
+ * validator
+ */
+export function getTrustStore(): TrustStore {
+  defaultTrustStore ??= new TrustStore({
+    signerPaths: parsePathList(process.env.TRUST_STORE_SIGNER),
+    tsaPaths: parsePathList(process.env.TRUST_STORE_TSA),
+    trustedListPaths: parsePathList(process.env.TRUSTED_LIST_FILE),
+    trustedListSigners: parsePathList(process.env.TRUSTED_LIST_SIGNER),
+    watch: process.env.TRUST_STORE_WATCH !== "false",
+  });
+  return defaultTrustStore;
+}
+
+export function createTrustAnchor(certificate: Certificate, source: string): TrustAnchor {
+  return {
+    certificate,
+    subject: getDNString(certificate),
+    fingerprint: certificateFingerprint(certificate),
+    source,
+  };
+}
+
+/** SHA-256 of the certificate DER, uppercase hex with colons */
+export function certificateFingerprint(cert: Certificate): string {
+  const der = Buffer.from(cert.toSchema().toBER(false));
+  return (
+    createHash("sha256").update(der).digest("hex").toUpperCase().match(/.{2}/g)?.join(":") ?? ""
+  );
+}
+
+function parsePathList(value?: string): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+/** Anchors of one file, or of every certificate file of a directory */
+function loadAnchors(path: string): TrustAnchor[] {
+  try {
+    if (statSync(path).isDirectory()) {
+      return readdirSync(path)
+        .filter((name) => CERTIFICATE_EXTENSIONS.has(extname(name).toLowerCase()))
+        .sort()
+        .flatMap((name) => loadAnchors(join(path, name)));
+    }
+    return parseCertificates(readFileSync(path)).map((cert) => createTrustAnchor(cert, path));
+  } catch (error) {
+    logPAdES(
+      padesBackendLogger.createLogEntry("warning", "backend", "Unable to read trust anchors", {
+        path,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+    );
+    return [];
+  }
+}
+
+function getDNString(cert: Certificate): string {
+  const names: Record<string, string> = {
+    "2.5.4.3": "CN",
+    "2.5.4.6": "C",
+    "2.5.4.10": "O",
+    "2.5.4.11": "OU",
+  };
+  return cert.subject.typesAndValues
+    .map((tv) => `${names[tv.type] ?? tv.type}=${String(tv.value.valueBlock.value)}`)
+    .join(", ");
+}
@@ -0,0 +1,228 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { Certificate } from "pkijs";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { SignedXml } from "xml-crypto";
+
+vi.stubEnv("LOG_LEVEL", "error");
+
+import { CertificateChainValidator } from "./certificate-chain-validator";
+import { MockHSMService } from "./mock-hsm-service";
+import { pemToCert } from "./test-pki";
+import { TrustStore } from "./trust-store";
+import {
+  TRUSTED_SERVICE_TYPES,
+  parseTrustedList,
+  serviceStatusAt,
+  summarizeTrustedService,
+  withStatusAt,
+} from "./trusted-list";
+
+const STATUS = "http://uri.etsi.org/TrstSvc/TrustedList/Svcstatus/";
+
+function pemBody(pem: string): string {
+  return pem.replace(/-----[^-]+-----/g, "").replace(/\s+/g, "");
+}
+
+function service(type: string, name: string, certPem: string, history: string): string {
+  return `<tsl:TSPService>
+      <tsl:ServiceInformation>
+        <tsl:ServiceTypeIdentifier>${type}</tsl:ServiceTypeIdentifier>
+        <tsl:ServiceName><tsl:Name xml:lang="fr">${name} (fr)</tsl:Name><tsl:Name xml:lang="en">${name}</tsl:Name></tsl:ServiceName>
+        <tsl:ServiceDigitalIdentity><tsl:DigitalId><tsl:X509Certificate>${pemBody(certPem)}</tsl:X509Certificate></tsl:DigitalId></tsl:ServiceDigitalIdentity>
+        ${history}
+    </tsl:TSPService>`;
+}
+
+/** Minimal TS 119 612 list: CA/QC, TSA/QTST and a non-qualified service */
+function buildTrustedList(intermediatePem: string, rootPem: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tsl:TrustServiceStatusList xmlns:tsl="http://uri.etsi.org/02231/v2#" Id="tsl">
+  <tsl:SchemeInformation>
+    <tsl:TSLSequenceNumber>42</tsl:TSLSequenceNumber>
+    <tsl:SchemeTerritory>FR</tsl:SchemeTerritory>
+    <tsl:ListIssueDateTime>2025-01-01T00:00:00Z</tsl:ListIssueDateTime>
+    <tsl:NextUpdate><tsl:dateTime>2025-07-01T00:00:00Z</tsl:dateTime></tsl:NextUpdate>
+  </tsl:SchemeInformation>
+  <tsl:TrustServiceProviderList>
+    <tsl:TrustServiceProvider>
+      <tsl:TSPInformation><tsl:TSPName><tsl:Name xml:lang="en">Mock TSP</tsl:Name></tsl:TSPName></tsl:TSPInformation>
+      <tsl:TSPServices>
+    ${service(
+      TRUSTED_SERVICE_TYPES.CA_QC,
+      "Mock Qualified CA",
+      intermediatePem,
+      `<tsl:ServiceStatus>${STATUS}withdrawn</tsl:ServiceStatus>
+        <tsl:StatusStartingTime>2024-01-01T00:00:00Z</tsl:StatusStartingTime>
+      </tsl:ServiceInformation>
+      <tsl:ServiceHistory>
+        <tsl:ServiceHistoryInstance>
+          <tsl:ServiceStatus>${STATUS}granted</tsl:ServiceStatus>
+          <tsl:StatusStartingTime>2016-07-01T00:00:00Z</tsl:StatusStartingTime>
+        </tsl:ServiceHistoryInstance>
+        <tsl:ServiceHistoryInstance>
+          <tsl:ServiceStatus>${STATUS}accredited</tsl:ServiceStatus>
+          <tsl:StatusStartingTime>2012-01-01T00:00:00Z</tsl:StatusStartingTime>
+        </tsl:ServiceHistoryInstance>
+      </tsl:ServiceHistory>`,
+    )}
+    ${service(
+      TRUSTED_SERVICE_TYPES.TSA_QTST,
+      "Mock Qualified TSA",
+      rootPem,
+      `<tsl:ServiceStatus>${STATUS}granted</tsl:ServiceStatus>
+        <tsl:StatusStartingTime>2020-01-01T00:00:00Z</tsl:StatusStartingTime>
+      </tsl:ServiceInformation>`,
+    )}
+    ${service(
+      "http://uri.etsi.org/TrstSvc/Svctype/CA/PKC",
+      "Mock Non-Qualified CA",
+      rootPem,
+      `<tsl:ServiceStatus>${STATUS}granted</tsl:ServiceStatus>
+        <tsl:StatusStartingTime>2020-01-01T00:00:00Z</tsl:StatusStartingTime>
+      </tsl:ServiceInformation>`,
+    )}
+      </tsl:TSPServices>
+    </tsl:TrustServiceProvider>
+  </tsl:TrustServiceProviderList>
+</tsl:TrustServiceStatusList>`;
+}
+
+/** Enveloped signature over the whole list, as scheme operators sign them */
+function signTrustedList(xml: string, keyPem: string, certPem: string): string {
+  const signedXml = new SignedXml({
+    privateKey: keyPem,
+    publicCert: certPem,
+    signatureAlgorithm: "http://www.w3.org/2001/04/xmldsig-more#rsa-sha256",
+    canonicalizationAlgorithm: "http://www.w3.org/2001/10/xml-exc-c14n#",
+  });
+  signedXml.addReference({
+    xpath: "/*",
+    transforms: [
+      "http://www.w3.org/2000/09/xmldsig#enveloped-signature",
+      "http://www.w3.org/2001/10/xml-exc-c14n#",
+    ],
+    digestAlgorithm: "http://www.w3.org/2001/04/xmlenc#sha256",
+    isEmptyUri: true,
+  });
+  signedXml.computeSignature(xml, { location: { reference: "/*", action: "append" } });
+  return signedXml.getSignedXml();
+}
+
+describe("Trusted List", () => {
+  let hsmDir: string;
+  let root: Certificate;
+  let intermediate: Certificate;
+  let signer: Certificate;
+  let signedList: string;
+
+  beforeAll(async () => {
+    hsmDir = mkdtempSync(join(tmpdir(), "trusted-list-"));
+    const hsm = new MockHSMService({ certDir: hsmDir });
+    await hsm.ready;
+    const rootPem = hsm.getRootCertificatePem();
+    const intermediatePem = hsm.getCertificateChainPem(false)[0];
+    root = pemToCert(rootPem);
+    intermediate = pemToCert(intermediatePem);
+    signer = pemToCert(hsm.getSignerCertificatePem());
+
+    // The mock root plays the scheme operator signing the list
+    const rootKeyPem = readFileSync(join(hsmDir, "mock-root-key.pem"), "utf8");
+    signedList = signTrustedList(buildTrustedList(intermediatePem, rootPem), rootKeyPem, rootPem);
+  });
+
+  afterAll(() => {
+    rmSync(hsmDir, { recursive: true, force: true });
+  });
+
+  it("should extract the qualified services of a signed list with their history", () => {
+    const list = parseTrustedList(signedList, [intermediate, root]);
+
+    expect(list).toMatchObject({ territory: "FR", sequenceNumber: 42 });
+    expect(list.nextUpdate?.toISOString()).toBe("2025-07-01T00:00:00.000Z");
+    expect(list.services.map((s) => [s.type, s.name, s.providerName])).toEqual([
+      [TRUSTED_SERVICE_TYPES.CA_QC, "Mock Qualified CA", "Mock TSP"],
+      [TRUSTED_SERVICE_TYPES.TSA_QTST, "Mock Qualified TSA", "Mock TSP"],
+    ]);
+    expect(list.services[0].history.map((h) => h.status)).toEqual([
+      `${STATUS}withdrawn`,
+      `${STATUS}granted`,
+      `${STATUS}accredited`,
+    ]);
+    expect(list.services[0].certificates[0].subject.isEqual(intermediate.subject)).toBe(true);
+  });
+
+  it("should reject lists that are altered or signed by another certificate", () => {
+    const altered = signedList.replace("Mock Qualified TSA", "Rogue TSA");
+
+    expect(() => parseTrustedList(altered, [root])).toThrow(/signature is invalid/);
+    expect(() => parseTrustedList(signedList, [intermediate])).toThrow(/signature is invalid/);
+    expect(() => parseTrustedList(buildTrustedList("", ""), [root])).toThrow(
+      "Trusted list must hold one enveloped signature, found 0",
+    );
+  });
+
+  it("should give the service status in effect at signing time", () => {
+    const [ca] = parseTrustedList(signedList, [root]).services;
+    const summary = summarizeTrustedService(ca, "FR");
+
+    expect(serviceStatusAt(ca.history, new Date("2011-01-01"))).toBeUndefined();
+    expect(withStatusAt(summary, new Date("2014-06-01"))).toMatchObject({
+      statusAtSigningTime: `${STATUS}accredited`,
+      grantedAtSigningTime: true,
+    });
+    expect(withStatusAt(summary, new Date("2020-06-01")).grantedAtSigningTime).toBe(true);
+    expect(withStatusAt(summary, new Date("2024-06-01"))).toMatchObject({
+      statusAtSigningTime: `${STATUS}withdrawn`,
+      grantedAtSigningTime: false,
+    });
+  });
+
+  it("should anchor signer chains on CA/QC services and TSAs on TSA/QTST services", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "trusted-list-store-"));
+    try {
+      writeFileSync(join(dir, "tl.xml"), signedList);
+      const rootPem = readFileSync(join(hsmDir, "mock-root-cert.pem"), "utf8");
+      writeFileSync(join(dir, "lotl-signer.pem"), rootPem);
+      const store = new TrustStore({
+        trustedListPaths: [join(dir, "tl.xml")],
+        trustedListSigners: [join(dir, "lotl-signer.pem")],
+      });
+
+      expect(store.findAnchor(intermediate, "signer")?.trustedService?.name).toBe(
+        "Mock Qualified CA",
+      );
+      expect(store.findAnchor(root, "tsa")?.trustedService?.name).toBe("Mock Qualified TSA");
+      expect(store.findAnchor(root, "signer")).toBeUndefined();
+
+      const result = await new CertificateChainValidator({
+        checkRevocation: false,
+        trustStore: store,
+      }).validateChain([signer], signer);
+
+      expect(result).toMatchObject({ isValid: true, trustedChain: true, chainLength: 2 });
+      expect(result.trustAnchor?.source).toBe(join(dir, "tl.xml"));
+      expect(result.trustAnchor?.trustedService).toMatchObject({
+        type: TRUSTED_SERVICE_TYPES.CA_QC,
+        territory: "FR",
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should not load lists whose signer is not configured", () => {
+    const dir = mkdtempSync(join(tmpdir(), "trusted-list-store-"));
+    try {
+      writeFileSync(join(dir, "tl.xml"), signedList);
+      const store = new TrustStore({ trustedListPaths: [join(dir, "tl.xml")] });
+
+      expect(store.getAnchors("signer")).toEqual([]);
+      expect(store.getAnchors("tsa")).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * ETSI Trusted Lists (TS 119 612) as a source of trust anchors
+ *
+ * A Trusted List (the EU LOTL, or a national TL such as the French one) is read from a local
+ * XML file, so qualified validation works without network. Its enveloped XMLDSig signature
+ * must verify with one of the configured scheme operator certificates (published in the LOTL,
+ * or in the Official Journal for the LOTL itself); only the signed content is then read.
+ *
+ * The digital identities of the qualified certificate (CA/QC) and qualified timestamp
+ * (TSA/QTST) services become signer and TSA anchors, with their status history so the
+ * verifier can tell whether a service was granted when the signature was made.
+ */
+
+import { readFileSync } from "fs";
+
+import { DOMParser } from "@xmldom/xmldom";
+import { Certificate } from "pkijs";
+import { SignedXml } from "xml-crypto";
+
+import { derToPem } from "./crypto-utils";
+
+import type { TrustedServiceSummary } from "@pades-poc/shared";
+
+const TSL_NS = "http://uri.etsi.org/02231/v2#";
+const DSIG_NS = "http://www.w3.org/2000/09/xmldsig#";
+
+export const TRUSTED_SERVICE_TYPES = {
+  CA_QC: "http://uri.etsi.org/TrstSvc/Svctype/CA/QC",
+  TSA_QTST: "http://uri.etsi.org/TrstSvc/Svctype/TSA/QTST",
+} as const;
+
+export type TrustedServiceType = (typeof TRUSTED_SERVICE_TYPES)[keyof typeof TRUSTED_SERVICE_TYPES];
+
+const STATUS_PREFIX = "http://uri.etsi.org/TrstSvc/TrustedList/Svcstatus/";
+
+/**
+ * Statuses under which a qualified service may be relied upon: "granted" since eIDAS, and
+ * the equivalent pre-eIDAS (before July 2016) statuses, as ETSI TS 119 615 maps them
+ */
+const GRANTED_STATUSES = new Set(
+  ["granted", "undersupervision", "supervisionincessation", "accredited"].map(
+    (s) => STATUS_PREFIX + s,
+  ),
+);
+
+export interface TrustedServiceStatus {
+  /** Status URI (…/Svcstatus/granted, …/Svcstatus/withdrawn, …) */
+  status: string;
+  startingTime: Date;
+}
+
+export interface TrustedService {
+  type: TrustedServiceType;
+  name: string;
+  providerName: string;
+  /** Service digital identity certificates */
+  certificates: Certificate[];
+  /** Current status followed by the ServiceHistory entries, newest first */
+  history: TrustedServiceStatus[];
+}
+
+export interface TrustedList {
+  territory?: string;
+  sequenceNumber?: number;
+  issueDate?: Date;
+  nextUpdate?: Date;
+  /** CA/QC and TSA/QTST services (other service types are ignored) */
+  services: TrustedService[];
+}
+
+/**
+ * Read a Trusted List file and verify its signature
+ */
+export function loadTrustedList(path: string, signerCertificates: Certificate[]): TrustedList {
+  return parseTrustedList(readFileSync(path, "utf8"), signerCertificates);
+}
+
+/**
+ * Verify the Trusted List signature with one of `signerCertificates`, then extract the
+ * CA/QC and TSA/QTST services of the signed content. Throws when the signature does not
+ * verify.
+ */
+export function parseTrustedList(xml: string, signerCertificates: Certificate[]): TrustedList {
+  if (signerCertificates.length === 0) {
+    throw new Error("No trusted list signer certificate configured");
+  }
+
+  const doc = parseXml(xml);
+  const root = doc.documentElement;
+  if (root?.localName !== "TrustServiceStatusList" || root.namespaceURI !== TSL_NS) {
+    throw new Error("Not an ETSI TS 119 612 trusted list");
+  }
+
+  // The signature is enveloped in the list: exactly one, as a direct child of the root
+  const signatures = childElements(root, "Signature", DSIG_NS);
+  if (signatures.length !== 1) {
+    throw new Error(`Trusted list must hold one enveloped signature, found ${signatures.length}`);
+  }
+
+  let lastError = "Signature does not verify";
+  for (const cert of signerCertificates) {
+    const signedXml = new SignedXml({
+      publicCert: derToPem(Buffer.from(cert.toSchema().toBER(false))),
+    });
+    try {
+      signedXml.loadSignature(signatures[0]);
+      if (!signedXml.checkSignature(xml)) continue;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : "Unknown error";
+      continue;
+    }
+
+    // Read the list from what the signature covers, not from the original document
+    // (a wrapped or unsigned copy of the list would not be signed)
+    for (const reference of signedXml.getSignedReferences()) {
+      const signedRoot = parseXml(reference).documentElement;
+      if (
+        signedRoot?.localName === "TrustServiceStatusList" &&
+        signedRoot.namespaceURI === TSL_NS
+      ) {
+        return readTrustedList(signedRoot);
+      }
+    }
+    throw new Error("Trusted list signature does not cover the list");
+  }
+
+  throw new Error(`Trusted list signature is invalid: ${lastError}`);
+}
+
+/**
+ * Status of the service in effect at `time` (undefined before its first status)
+ */
+export function serviceStatusAt(
+  history: { status: string; startingTime: Date | string }[],
+  time: Date,
+): string | undefined {
+  let current: { status: string; start: number } | undefined;
+  for (const entry of history) {
+    const start = new Date(entry.startingTime).getTime();
+    if (start <= time.getTime() && (!current || start > current.start)) {
+      current = { status: entry.status, start };
+    }
+  }
+  return current?.status;
+}
+
+export function isGrantedStatus(status: string | undefined): boolean {
+  return !!status && GRANTED_STATUSES.has(status);
+}
+
+/**
+ * API summary of the service (the status at signing time is added by {@link withStatusAt})
+ */
+export function summarizeTrustedService(
+  service: TrustedService,
+  territory?: string,
+): TrustedServiceSummary {
+  return {
+    type: service.type,
+    name: service.name,
+    providerName: service.providerName,
+    territory,
+    history: service.history.map((h) => ({
+      status: h.status,
+      startingTime: h.startingTime.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Copy of the summary with the status in effect at the signing time
+ */
+export function withStatusAt(summary: TrustedServiceSummary, time: Date): TrustedServiceSummary {
+  const status = serviceStatusAt(summary.history, time);
+  return {
+    ...summary,
+    statusAtSigningTime: status,
+    grantedAtSigningTime: isGrantedStatus(status),
+  };
+}
+
+// ─────────────────── Parsing ─────────────────
+
+function parseXml(xml: string): Document {
+  const errors: string[] = [];
+  const doc = new DOMParser({
+    errorHandler: {
+      warning: () => undefined,
+      error: (msg: string) => errors.push(msg),
+      fatalError: (msg: string) => errors.push(msg),
+    },
+  }).parseFromString(xml, "text/xml");
+  if (errors.length > 0) throw new Error(`Invalid XML: ${errors[0]}`);
+  return doc;
+}
+
+function readTrustedList(root: Element): TrustedList {
+  const scheme = firstChild(root, "SchemeInformation");
+  const sequenceNumber = Number(textOf(scheme && firstChild(scheme, "TSLSequenceNumber")));
+  const issueDate = textOf(scheme && firstChild(scheme, "ListIssueDateTime"));
+  const nextUpdateNode = scheme && firstChild(scheme, "NextUpdate");
+  const nextUpdate = textOf(nextUpdateNode && firstChild(nextUpdateNode, "dateTime"));
+
+  const services: TrustedService[] = [];
+  const providerList = firstChild(root, "TrustServiceProviderList");
+  for (const provider of providerList ? childElements(providerList, "TrustServiceProvider") : []) {
+    const tspInformation = firstChild(provider, "TSPInformation");
+    const providerName = localizedName(tspInformation && firstChild(tspInformation, "TSPName"));
+    const tspServices = firstChild(provider, "TSPServices");
+
+    for (const tspService of tspServices ? childElements(tspServices, "TSPService") : []) {
+      const service = readService(tspService, providerName);
+      if (service) services.push(service);
+    }
+  }
+
+  return {
+    territory: textOf(scheme && firstChild(scheme, "SchemeTerritory")),
+    sequenceNumber: Number.isFinite(sequenceNumber) ? sequenceNumber : undefined,
+    issueDate: issueDate ? new Date(issueDate) : undefined,
+    nextUpdate: nextUpdate ? new Date(nextUpdate) : undefined,
+    services,
+  };
+}
+
+/** CA/QC or TSA/QTST service, undefined for the other service types */
+function readService(tspService: Element, providerName: string): TrustedService | undefined {
+  const information = firstChild(tspService, "ServiceInformation");
+  const type = textOf(information && firstChild(information, "ServiceTypeIdentifier"));
+  if (!information || !isTrustedServiceType(type)) return undefined;
+
+  const history = [information];
+  const serviceHistory = firstChild(tspService, "ServiceHistory");
+  if (serviceHistory) history.push(...childElements(serviceHistory, "ServiceHistoryInstance"));
+
+  const certificates = readDigitalIdentity(firstChild(information, "ServiceDigitalIdentity"));
+  if (certificates.length === 0) return undefined;
+
+  return {
+    type,
+    name: localizedName(firstChild(information, "ServiceName")),
+    providerName,
+    certificates,
+    history: history
+      .map((entry) => ({
+        status: textOf(firstChild(entry, "ServiceStatus")) ?? "",
+        startingTime: new Date(textOf(firstChild(entry, "StatusStartingTime")) ?? NaN),
+      }))
+      .filter((h) => h.status && !Number.isNaN(h.startingTime.getTime()))
+      .sort((a, b) => b.startingTime.getTime() - a.startingTime.getTime()),
+  };
+}
+
+function readDigitalIdentity(identity: Element | undefined): Certificate[] {
+  const certificates: Certificate[] = [];
+  for (const digitalId of identity ? childElements(identity, "DigitalId") : []) {
+    const base64 = textOf(firstChild(digitalId, "X509Certificate"));
+    if (!base64) continue;
+    try {
+      const der = Buffer.from(base64.replace(/\s+/g, ""), "base64");
+      certificates.push(Certificate.fromBER(new Uint8Array(der)));
+    } catch {
+      // Malformed identity: the service cannot anchor any chain
+    }
+  }
+  return certificates;
+}
+
+function isTrustedServiceType(type: string | undefined): type is TrustedServiceType {
+  return Object.values<string>(TRUSTED_SERVICE_TYPES).includes(type ?? "");
+}
+
+/** English name when present (lists carry one Name per language), else the first one */
+function localizedName(names: Element | undefined): string {
+  const entries = names ? childElements(names, "Name") : [];
+  const english = entries.find((n) => n.getAttribute("xml:lang")?.toLowerCase() === "en");
+  return textOf(english ?? entries[0]) ?? "";
+}
+
+function childElements(parent: Element, localName: string, ns = TSL_NS): Element[] {
+  const elements: Element[] = [];
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    const element = node as Element;
+    if (node.nodeType === 1 && element.localName === localName && element.namespaceURI === ns) {
+      elements.push(element);
+    }
+  }
+  return elements;
+}
+
+function firstChild(parent: Element, localName: string): Element | undefined {
+  return childElements(parent, localName)[0];
+}
+
+function textOf(element: Element | undefined): string | undefined {
+  return element?.textContent?.trim() || undefined;
+}
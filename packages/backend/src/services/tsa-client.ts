@@ -0,0 +1,224 @@
+/**
+ * TSA transport for RFC 3161 requests
+ *
+ * Resolves the ordered list of Time Stamp Authorities, posts DER TimeStampReq to one of
+ * them with its credentials (HTTP Basic or mutual TLS), a timeout and retries with
+ * exponential backoff, and keeps a per-TSA circuit breaker so a TSA in outage is skipped
+ * for a while instead of delaying every signature.
+ *
+ * Configuration:
+ * - TSA_ENDPOINTS: JSON array of TsaEndpoint (takes precedence), e.g.
+ *   [{"url":"https://tsa1/tsr","username":"u","password":"p"},{"url":"https://tsa2/tsr"}]
+ * - TIMESTAMP_URL: comma-separated ordered list of TSA URLs (no credentials)
+ * - TSA_TIMEOUT_MS, TSA_RETRIES, TSA_RETRY_DELAY_MS: defaults for every TSA
+ * - TSA_BREAKER_THRESHOLD, TSA_BREAKER_COOLDOWN_MS: circuit breaker tuning
+ */
+
+import { readFileSync } from "fs";
+import { request as httpsRequest } from "https";
+
+import { DEFAULT_CONFIG } from "@pades-poc/shared";
+
+export interface TsaEndpoint {
+  url: string;
+  /** HTTP Basic credentials */
+  username?: string;
+  password?: string;
+  /** Mutual TLS: PEM files of the client certificate and key, optional CA bundle */
+  clientCertFile?: string;
+  clientKeyFile?: string;
+  passphrase?: string;
+  caFile?: string;
+  /** Per-request timeout (default TSA_TIMEOUT_MS, then 10s) */
+  timeoutMs?: number;
+  /** Retries after the first attempt on network errors, timeouts and HTTP 429/5xx */
+  retries?: number;
+  /** First backoff delay, doubled on every retry */
+  retryDelayMs?: number;
+}
+
+const DEFAULTS = {
+  timeoutMs: 10_000,
+  retries: 1,
+  retryDelayMs: 500,
+  breakerThreshold: 3,
+  breakerCooldownMs: 60_000,
+};
+
+/**
+ * Ordered TSA list: TSA_ENDPOINTS, then TIMESTAMP_URL, then DEFAULT_CONFIG.TIMESTAMP_URL.
+ * An explicit URL comes first, with the credentials configured for it if any, and the
+ * configured TSAs remain its fallbacks.
+ */
+export function resolveTsaEndpoints(tsaUrl?: string): TsaEndpoint[] {
+  const configured = loadConfiguredEndpoints();
+  const endpoints = configured.length > 0 ? configured : [{ url: DEFAULT_CONFIG.TIMESTAMP_URL }];
+  if (!tsaUrl) return endpoints;
+  return [
+    configured.find((e) => e.url === tsaUrl) ?? { url: tsaUrl },
+    ...endpoints.filter((e) => e.url !== tsaUrl),
+  ];
+}
+
+function loadConfiguredEndpoints(): TsaEndpoint[] {
+  const json = process.env.TSA_ENDPOINTS?.trim();
+  if (json) {
+    const parsed: unknown = JSON.parse(json);
+    if (
+      !Array.isArray(parsed) ||
+      !parsed.every((e) => typeof (e as TsaEndpoint)?.url === "string")
+    ) {
+      throw new Error("TSA_ENDPOINTS must be a JSON array of objects with a url");
+    }
+    return parsed as TsaEndpoint[];
+  }
+  return (process.env.TIMESTAMP_URL ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean)
+    .map((url) => ({ url }));
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
+// ─────────────────── Circuit breaker ─────────────────
+
+interface BreakerState {
+  failures: number;
+  openUntil: number;
+}
+
+const breakers = new Map<string, BreakerState>();
+
+/** True while the TSA is skipped after TSA_BREAKER_THRESHOLD consecutive failures */
+export function isCircuitOpen(url: string): boolean {
+  const state = breakers.get(url);
+  return !!state && Date.now() < state.openUntil;
+}
+
+/** Record the outcome of a request; a failure after the cool-down re-opens the circuit */
+export function recordTsaOutcome(url: string, ok: boolean): void {
+  if (ok) {
+    breakers.delete(url);
+    return;
+  }
+  const state = breakers.get(url) ?? { failures: 0, openUntil: 0 };
+  state.failures++;
+  if (state.failures >= envNumber("TSA_BREAKER_THRESHOLD", DEFAULTS.breakerThreshold)) {
+    state.openUntil = Date.now() + envNumber("TSA_BREAKER_COOLDOWN_MS", DEFAULTS.breakerCooldownMs);
+  }
+  breakers.set(url, state);
+}
+
+/** Close every circuit (tests, configuration reload) */
+export function resetTsaCircuitBreakers(): void {
+  breakers.clear();
+}
+
+// ─────────────────── Transport ─────────────────
+
+interface HttpReply {
+  status: number;
+  statusText: string;
+  body: Buffer;
+}
+
+/**
+ * POST a DER TimeStampReq and return the DER TimeStampResp body.
+ * Network errors, timeouts and HTTP 429/5xx are retried with exponential backoff;
+ * `onRetry` is called before each retry.
+ */
+export async function postTimestampQuery(
+  endpoint: TsaEndpoint,
+  requestDer: Buffer,
+  onRetry?: (attempt: number, error: string) => void,
+): Promise<Buffer> {
+  const retries = endpoint.retries ?? envNumber("TSA_RETRIES", DEFAULTS.retries);
+  let delay = endpoint.retryDelayMs ?? envNumber("TSA_RETRY_DELAY_MS", DEFAULTS.retryDelayMs);
+
+  for (let attempt = 0; ; attempt++) {
+    let error: string;
+    try {
+      const reply = await send(endpoint, requestDer);
+      if (reply.status >= 200 && reply.status < 300) return reply.body;
+      error = `TSA HTTP error: ${reply.status} ${reply.statusText}`;
+      if (reply.status !== 429 && reply.status < 500) attempt = retries; // not transient
+    } catch (e) {
+      error = e instanceof Error ? e.message : "Unknown error";
+    }
+
+    if (attempt >= retries) throw new Error(error);
+    onRetry?.(attempt + 1, error);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    delay *= 2;
+  }
+}
+
+function send(endpoint: TsaEndpoint, requestDer: Buffer): Promise<HttpReply> {
+  const timeoutMs = endpoint.timeoutMs ?? envNumber("TSA_TIMEOUT_MS", DEFAULTS.timeoutMs);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/timestamp-query",
+    Accept: "application/timestamp-reply",
+    "Content-Length": String(requestDer.length),
+  };
+  if (endpoint.username !== undefined) {
+    const credentials = `${endpoint.username}:${endpoint.password ?? ""}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  // fetch() cannot present a client certificate: mutual TLS goes through node:https
+  if (endpoint.clientCertFile) {
+    return sendWithClientCertificate(endpoint, requestDer, headers, timeoutMs);
+  }
+
+  return fetch(endpoint.url, {
+    method: "POST",
+    headers,
+    body: new Uint8Array(requestDer),
+    signal: AbortSignal.timeout(timeoutMs),
+  }).then(async (response) => ({
+    status: response.status,
+    statusText: response.statusText,
+    body: Buffer.from(await response.arrayBuffer()),
+  }));
+}
+
+function sendWithClientCertificate(
+  endpoint: TsaEndpoint,
+  requestDer: Buffer,
+  headers: Record<string, string>,
+  timeoutMs: number,
+): Promise<HttpReply> {
+  return new Promise((resolve, reject) => {
+    const req = httpsRequest(
+      endpoint.url,
+      {
+        method: "POST",
+        headers,
+        cert: readFileSync(endpoint.clientCertFile!),
+        key: readFileSync(endpoint.clientKeyFile ?? endpoint.clientCertFile!),
+        passphrase: endpoint.passphrase,
+        ca: endpoint.caFile ? readFileSync(endpoint.caFile) : undefined,
+        timeout: timeoutMs,
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () =>
+          resolve({
+            status: res.statusCode ?? 0,
+            statusText: res.statusMessage ?? "",
+            body: Buffer.concat(chunks),
+          }),
+        );
+        res.on("error", reject);
+      },
+    );
+    req.on("timeout", () => req.destroy(new Error(`TSA request timed out after ${timeoutMs}ms`)));
+    req.on("error", reject);
+    req.end(requestDer);
+  });
+}
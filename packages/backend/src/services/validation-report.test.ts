@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildValidationReport,
+  cryptographicBlock,
+  identificationBlock,
+  pastSignatureBlock,
+  timestampBlock,
+  x509Block,
+} from "./validation-report";
+
+import type {
+  CertificateInfo,
+  ChainValidationResult,
+  RevocationInfo,
+} from "./certificate-chain-validator";
+import type { TimestampValidationResult } from "./timestamp-validator";
+
+const NOW = new Date("2025-06-01T00:00:00Z");
+
+function certInfo(subject: string, overrides: Partial<CertificateInfo> = {}): CertificateInfo {
+  return {
+    subject,
+    issuer: "CN=Issuer",
+    serialNumber: "01",
+    validFrom: new Date("2024-01-01T00:00:00Z"),
+    validTo: new Date("2026-01-01T00:00:00Z"),
+    keyUsage: ["digitalSignature", "nonRepudiation"],
+    isValidNow: true,
+    isValidAtTime: true,
+    isSelfSigned: false,
+    signatureValid: true,
+    revocation: { status: "good" },
+    ...overrides,
+  };
+}
+
+function chain(signer: Partial<CertificateInfo> = {}, trustedChain = true): ChainValidationResult {
+  const certificates = [
+    certInfo("Signer", signer),
+    certInfo("Root", { isSelfSigned: true, revocation: undefined }),
+  ];
+  return {
+    isValid: true,
+    chainLength: certificates.length,
+    certificates,
+    trustedChain,
+    reasons: [],
+    validationTime: NOW,
+  };
+}
+
+const revoked: RevocationInfo = {
+  status: "revoked",
+  revocationTime: new Date("2025-03-01T00:00:00Z"),
+  revocationReason: "keyCompromise",
+};
+
+const validTimestamp: TimestampValidationResult = {
+  isValid: true,
+  timestampTime: "2025-01-15T00:00:00.000Z",
+  tsaName: "Mock TSA",
+  messageImprintMatches: true,
+  tsaSignatureValid: true,
+  signingCertificateMatches: true,
+  hasTimeStampingEku: true,
+  policyAllowed: true,
+  chainValid: true,
+  chainTrusted: true,
+  reasons: [],
+};
+
+/** Report of a signature whose identification and cryptographic checks pass */
+function report(signerChain: ChainValidationResult, poe?: Date) {
+  const x509 = x509Block(signerChain, NOW);
+  const pastSignature = pastSignatureBlock(signerChain, x509, poe);
+  return buildValidationReport(
+    [
+      identificationBlock({ signerInfoCount: 1, signerCertificateFound: true }),
+      x509,
+      cryptographicBlock({ digestMatches: true, signatureVerified: true }),
+      ...(pastSignature ? [pastSignature] : []),
+    ],
+    NOW,
+  );
+}
+
+describe("validation report", () => {
+  it("should pass a trusted, unrevoked and intact signature", () => {
+    const result = report(chain());
+
+    expect(result).toMatchObject({ indication: "TOTAL-PASSED", validationTime: NOW.toISOString() });
+    expect(result.subIndication).toBeUndefined();
+    expect(result.blocks.map((b) => [b.block, b.indication])).toEqual([
+      ["identification", "PASSED"],
+      ["x509Validation", "PASSED"],
+      ["cryptographicVerification", "PASSED"],
+    ]);
+  });
+
+  it("should fail on the first failed block before indeterminate ones", () => {
+    const result = buildValidationReport(
+      [
+        identificationBlock({ signerInfoCount: 1, signerCertificateFound: true }),
+        x509Block(chain({}, false), NOW),
+        cryptographicBlock({ digestMatches: true, signatureVerified: false }),
+      ],
+      NOW,
+    );
+
+    expect(result).toMatchObject({
+      indication: "TOTAL-FAILED",
+      subIndication: "SIG_CRYPTO_FAILURE",
+    });
+    expect(result.blocks[1].subIndication).toBe("NO_CERTIFICATE_CHAIN_FOUND");
+  });
+
+  it("should resolve a revoked signer with a time-stamp taken before the revocation", () => {
+    const signerChain = chain({ revocation: revoked });
+
+    expect(report(signerChain)).toMatchObject({
+      indication: "INDETERMINATE",
+      subIndication: "REVOKED_NO_POE",
+    });
+    expect(report(signerChain, new Date("2025-01-15T00:00:00Z")).indication).toBe("TOTAL-PASSED");
+    expect(report(signerChain, new Date("2025-04-01T00:00:00Z"))).toMatchObject({
+      indication: "TOTAL-FAILED",
+      subIndication: "REVOKED",
+    });
+  });
+
+  it("should need a proof of existence for an expired signer certificate", () => {
+    const expired = chain({
+      validTo: new Date("2025-02-01T00:00:00Z"),
+      isValidNow: false,
+      isValidAtTime: false,
+    });
+
+    expect(report(expired)).toMatchObject({
+      indication: "INDETERMINATE",
+      subIndication: "OUT_OF_BOUNDS_NO_POE",
+    });
+    expect(report(expired, new Date("2025-01-15T00:00:00Z")).indication).toBe("TOTAL-PASSED");
+    expect(report(expired, new Date("2023-06-01T00:00:00Z"))).toMatchObject({
+      indication: "TOTAL-FAILED",
+      subIndication: "NOT_YET_VALID",
+    });
+  });
+
+  it("should ignore a revocation after the validation time", () => {
+    const signerChain = chain({ revocation: revoked });
+
+    expect(x509Block(signerChain, new Date("2025-02-01T00:00:00Z")).indication).toBe("PASSED");
+    expect(x509Block(signerChain, NOW).subIndication).toBe("REVOKED_NO_POE");
+  });
+
+  it("should not pass a chain that fails the certification path checks", () => {
+    const result = report({
+      ...chain(),
+      isValid: false,
+      reasons: ["Certificate Test Sub CA: path length constraint exceeded"],
+    });
+
+    expect(result).toMatchObject({
+      indication: "INDETERMINATE",
+      subIndication: "CHAIN_CONSTRAINTS_FAILURE",
+    });
+    expect(result.blocks[1].details).toEqual([
+      "Certificate Test Sub CA: path length constraint exceeded",
+    ]);
+  });
+
+  it("should ask to try later when the revocation status is unknown", () => {
+    const result = report(chain({ revocation: { status: "unknown", reason: "OCSP timeout" } }));
+
+    expect(result).toMatchObject({ indication: "INDETERMINATE", subIndication: "TRY_LATER" });
+    expect(result.blocks[1].details).toEqual(["Revocation status of Signer unknown: OCSP timeout"]);
+  });
+
+  it("should map time-stamp failures without failing the signature itself", () => {
+    expect(timestampBlock(validTimestamp).indication).toBe("PASSED");
+    expect(timestampBlock({ ...validTimestamp, chainTrusted: false })).toMatchObject({
+      indication: "INDETERMINATE",
+      subIndication: "NO_CERTIFICATE_CHAIN_FOUND",
+    });
+
+    const broken = timestampBlock({
+      ...validTimestamp,
+      isValid: false,
+      messageImprintMatches: false,
+    });
+    const result = buildValidationReport(
+      [
+        identificationBlock({ signerInfoCount: 1, signerCertificateFound: true }),
+        x509Block(chain(), NOW),
+        cryptographicBlock({ digestMatches: true, signatureVerified: true }),
+        broken,
+      ],
+      NOW,
+    );
+
+    expect(broken).toMatchObject({ indication: "FAILED", subIndication: "HASH_FAILURE" });
+    expect(result).toMatchObject({ indication: "INDETERMINATE", subIndication: "NO_POE" });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * ETSI EN 319 102-1 validation report
+ *
+ * Maps what the verifier found onto the ETSI validation model: each building block
+ * (identification of the signing certificate, X.509 certificate validation, cryptographic
+ * verification, time-stamp validation, past signature validation) gives PASSED, FAILED or
+ * INDETERMINATE with a standard sub-indication, and the blocks combine into the main
+ * indication TOTAL-PASSED, TOTAL-FAILED or INDETERMINATE.
+ *
+ * Past signature validation (§5.6.2.4) uses the signature time-stamp as proof of existence
+ * (POE): a signature time-stamped before the signer was revoked or expired stays valid.
+ */
+
+import type { CertificateInfo, ChainValidationResult } from "./certificate-chain-validator";
+import type { TimestampValidationResult } from "./timestamp-validator";
+import type {
+  MainIndication,
+  SubIndication,
+  ValidationBlockResult,
+  ValidationReport,
+} from "@pades-poc/shared";
+
+/** INDETERMINATE X.509 results that a proof of existence can resolve */
+const POE_SUB_INDICATIONS = new Set<SubIndication>([
+  "REVOKED_NO_POE",
+  "REVOKED_CA_NO_POE",
+  "OUT_OF_BOUNDS_NO_POE",
+]);
+
+/**
+ * Identification of the signing certificate (§5.2.3) and signature format
+ */
+export function identificationBlock(facts: {
+  /** Why the CMS could not be parsed */
+  formatError?: string;
+  signerInfoCount: number;
+  signerCertificateFound: boolean;
+}): ValidationBlockResult {
+  if (facts.formatError) {
+    return failed("identification", "FORMAT_FAILURE", [facts.formatError]);
+  }
+  if (facts.signerInfoCount !== 1) {
+    return failed("identification", "FORMAT_FAILURE", [
+      `CMS must contain exactly one SignerInfo (found ${facts.signerInfoCount})`,
+    ]);
+  }
+  if (!facts.signerCertificateFound) {
+    return indeterminate("identification", "NO_SIGNING_CERTIFICATE_FOUND", [
+      "Signer certificate not found in CMS",
+    ]);
+  }
+  return passed("identification");
+}
+
+/**
+ * X.509 certificate validation (§5.2.6) of the signer chain at `validationTime`
+ */
+export function x509Block(
+  chain: ChainValidationResult | undefined,
+  validationTime: Date,
+): ValidationBlockResult {
+  const block = "x509Validation";
+  if (!chain || chain.chainLength === 0) {
+    return indeterminate(block, "NO_CERTIFICATE_CHAIN_FOUND", [
+      ...(chain?.reasons ?? ["No certificate in the CMS"]),
+    ]);
+  }
+
+  const [signer, ...cas] = chain.certificates;
+  const details = chain.reasons;
+  if (!chain.trustedChain) {
+    return indeterminate(block, "NO_CERTIFICATE_CHAIN_FOUND", [
+      ...details,
+      "The chain does not reach a trust anchor",
+    ]);
+  }
+  if (chain.certificates.some((c) => c.signatureValid === false)) {
+    return indeterminate(block, "CERTIFICATE_CHAIN_GENERAL_FAILURE", details);
+  }
+  if (
+    !signer.keyUsage.includes("digitalSignature") &&
+    !signer.keyUsage.includes("nonRepudiation")
+  ) {
+    return indeterminate(block, "CHAIN_CONSTRAINTS_FAILURE", details);
+  }
+  if (validationTime < signer.validFrom) {
+    return failed(block, "NOT_YET_VALID", details);
+  }
+  if (isRevokedAt(signer, validationTime)) {
+    return indeterminate(block, "REVOKED_NO_POE", details);
+  }
+  if (cas.some((c) => isRevokedAt(c, validationTime))) {
+    return indeterminate(block, "REVOKED_CA_NO_POE", details);
+  }
+  if (chain.certificates.some((c) => validationTime > c.validTo || validationTime < c.validFrom)) {
+    return indeterminate(block, "OUT_OF_BOUNDS_NO_POE", details);
+  }
+  // RFC 5280 path checks (basic and name constraints, policies, critical extensions, length)
+  if (!chain.isValid) {
+    return indeterminate(block, "CHAIN_CONSTRAINTS_FAILURE", details);
+  }
+
+  const unknown = chain.certificates.filter((c) => c.revocation?.status === "unknown");
+  if (unknown.length > 0) {
+    return indeterminate(
+      block,
+      "TRY_LATER",
+      unknown.map(
+        (c) => `Revocation status of ${c.subject} unknown: ${c.revocation?.reason ?? "no answer"}`,
+      ),
+    );
+  }
+  return passed(block);
+}
+
+/**
+ * Cryptographic verification (§5.2.7): signed data digest, then signature value
+ */
+export function cryptographicBlock(facts: {
+  /** False when the ByteRange does not fit in the file */
+  signedDataFound?: boolean;
+  digestMatches: boolean;
+  signatureVerified: boolean;
+}): ValidationBlockResult {
+  const block = "cryptographicVerification";
+  if (facts.signedDataFound === false) {
+    return indeterminate(block, "SIGNED_DATA_NOT_FOUND", ["ByteRange is out of the file bounds"]);
+  }
+  if (!facts.digestMatches) {
+    return failed(block, "HASH_FAILURE", ["PDF content has been modified"]);
+  }
+  if (!facts.signatureVerified) {
+    return failed(block, "SIG_CRYPTO_FAILURE", ["Signature value does not verify"]);
+  }
+  return passed(block);
+}
+
+/**
+ * Time-stamp validation (§5.4) of a signature time-stamp or document time-stamp token
+ */
+export function timestampBlock(timestamp: TimestampValidationResult): ValidationBlockResult {
+  const block = "timestampValidation";
+  const details = timestamp.reasons;
+  if (!timestamp.timestampTime) return failed(block, "FORMAT_FAILURE", details);
+  if (!timestamp.messageImprintMatches) return failed(block, "HASH_FAILURE", details);
+  if (!timestamp.tsaName) return indeterminate(block, "NO_SIGNING_CERTIFICATE_FOUND", details);
+  if (!timestamp.tsaSignatureValid) return failed(block, "SIG_CRYPTO_FAILURE", details);
+  if (timestamp.chainTrusted === false) {
+    return indeterminate(block, "NO_CERTIFICATE_CHAIN_FOUND", details);
+  }
+  if (timestamp.chainValid === false) {
+    return indeterminate(block, "CERTIFICATE_CHAIN_GENERAL_FAILURE", details);
+  }
+  if (
+    !timestamp.signingCertificateMatches ||
+    !timestamp.hasTimeStampingEku ||
+    !timestamp.policyAllowed ||
+    timestamp.nonceMatches === false ||
+    !timestamp.isValid
+  ) {
+    return indeterminate(block, "SIG_CONSTRAINTS_FAILURE", details);
+  }
+  return passed(block);
+}
+
+/**
+ * Past signature validation (§5.6.2.4): evaluated when the X.509 validation needs a proof
+ * of existence, i.e. a revoked or expired certificate. `poe` is the generation time of a
+ * valid signature time-stamp.
+ */
+export function pastSignatureBlock(
+  chain: ChainValidationResult | undefined,
+  x509: ValidationBlockResult,
+  poe: Date | undefined,
+): ValidationBlockResult | undefined {
+  if (!chain || x509.indication !== "INDETERMINATE" || !x509.subIndication) return undefined;
+  if (!POE_SUB_INDICATIONS.has(x509.subIndication)) return undefined;
+
+  const block = "pastSignatureValidation";
+  if (!poe) {
+    return indeterminate(block, x509.subIndication, ["No valid signature time-stamp as POE"]);
+  }
+
+  const poeDetail = `POE ${poe.toISOString()}`;
+  for (const [index, cert] of chain.certificates.entries()) {
+    const revokedAt = cert.revocation?.status === "revoked" && cert.revocation.revocationTime;
+    if (revokedAt && poe >= revokedAt) {
+      const detail = `${cert.subject} revoked on ${revokedAt.toISOString()}, not before the ${poeDetail}`;
+      return index === 0
+        ? failed(block, "REVOKED", [detail])
+        : indeterminate(block, "REVOKED_CA_NO_POE", [detail]);
+    }
+    if (index === 0 && poe < cert.validFrom) {
+      return failed(block, "NOT_YET_VALID", [`${cert.subject} not yet valid at the ${poeDetail}`]);
+    }
+    if (poe < cert.validFrom || poe > cert.validTo) {
+      return indeterminate(block, "OUT_OF_BOUNDS_NO_POE", [
+        `${cert.subject} not valid at the ${poeDetail}`,
+      ]);
+    }
+  }
+  return passed(block, [`Signature existed before revocation or expiry (${poeDetail})`]);
+}
+
+/**
+ * Combine the blocks into the main indication: a FAILED block fails the signature, an
+ * INDETERMINATE X.509 result resolved by past signature validation no longer counts, and a
+ * time-stamp that cannot be relied on leaves the signature INDETERMINATE (no POE)
+ */
+export function buildValidationReport(
+  blocks: ValidationBlockResult[],
+  validationTime: Date,
+): ValidationReport {
+  const resolvedByPoe = blocks.some(
+    (b) => b.block === "pastSignatureValidation" && b.indication === "PASSED",
+  );
+  const counted = blocks.filter((b) => !(b.block === "x509Validation" && resolvedByPoe));
+
+  let indication: MainIndication = "TOTAL-PASSED";
+  let subIndication: SubIndication | undefined;
+  const fail = counted.find((b) => b.indication === "FAILED" && b.block !== "timestampValidation");
+  const undecided = counted.find((b) => b.indication !== "PASSED");
+  if (fail) {
+    indication = "TOTAL-FAILED";
+    subIndication = fail.subIndication;
+  } else if (undecided) {
+    indication = "INDETERMINATE";
+    subIndication = undecided.indication === "FAILED" ? "NO_POE" : undecided.subIndication;
+  }
+
+  return { indication, subIndication, validationTime: validationTime.toISOString(), blocks };
+}
+
+/**
+ * Report of a document time-stamp: the token is validated as a whole
+ */
+export function documentTimestampReport(
+  timestamp: TimestampValidationResult,
+  validationTime: Date,
+): ValidationReport {
+  const block = timestampBlock(timestamp);
+  return {
+    indication:
+      block.indication === "PASSED"
+        ? "TOTAL-PASSED"
+        : block.indication === "FAILED"
+          ? "TOTAL-FAILED"
+          : "INDETERMINATE",
+    subIndication: block.subIndication,
+    validationTime: validationTime.toISOString(),
+    blocks: [block],
+  };
+}
+
+/** Revoked at `time` (a revocation without date counts from the start) */
+function isRevokedAt(cert: CertificateInfo, time: Date): boolean {
+  const { revocation } = cert;
+  if (revocation?.status !== "revoked") return false;
+  return !revocation.revocationTime || revocation.revocationTime <= time;
+}
+
+function passed(
+  block: ValidationBlockResult["block"],
+  details: string[] = [],
+): ValidationBlockResult {
+  return { block, indication: "PASSED", details };
+}
+
+function failed(
+  block: ValidationBlockResult["block"],
+  subIndication: SubIndication,
+  details: string[],
+): ValidationBlockResult {
+  return { block, indication: "FAILED", subIndication, details };
+}
+
+function indeterminate(
+  block: ValidationBlockResult["block"],
+  subIndication: SubIndication,
+  details: string[],
+): ValidationBlockResult {
+  return { block, indication: "INDETERMINATE", subIndication, details };
+}
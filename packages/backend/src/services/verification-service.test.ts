@@ -1,10 +1,21 @@
-import { beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { SIGNATURE_ALGORITHMS } from "@pades-poc/shared";
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFRef } from "pdf-lib";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
 
 import { CMSService } from "./cms-service";
 import { MockHSMService } from "./mock-hsm-service";
+import { MockTSAService } from "./mock-tsa-service";
+import { IncrementalPdfWriter } from "./pdf/incremental-writer";
 import { PDFService } from "./pdf-service";
+import { parseCertificates } from "./pki-utils";
+import { ecdsaDerToRaw } from "./signature-algorithms";
 import { SignatureService } from "./signature-service";
 import { requestTimestamp } from "./timestamp-service";
+import { certificateFingerprint, createTrustAnchor, getTrustStore } from "./trust-store";
 import { VerificationService } from "./verification-service";
 
 import type { PDFSigningConfig } from "@pades-poc/shared";
@@ -30,6 +41,37 @@ describe("VerificationService", () => {
     verificationService = new VerificationService();
   });
 
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  /** Beside the default widget of the first signature */
+  const countersignature: PDFSigningConfig = { rectangle: [50, 50, 250, 150] };
+
+  /** Prepare, sign (B-B) and embed a new signature field */
+  const sign = async (pdfBase64: string, config?: PDFSigningConfig) => {
+    const prepareResult = await pdfService.preparePDF(pdfBase64, config);
+    const signerCertPem = mockHSM.getSignerCertificatePem();
+    const { signedAttrsDer } = signatureService.buildSignedAttributes({
+      messageDigest: Buffer.from(prepareResult.messageDigestB64, "base64"),
+      signerCertPem,
+    });
+    const signature = await mockHSM.signData(signedAttrsDer);
+    const cmsResult = await cmsService.assembleCMS({
+      signedAttrsDer,
+      signature,
+      signerCertPem,
+      withTimestamp: false,
+    });
+    return pdfService.embedCmsIntoPdf(
+      new Uint8Array(Buffer.from(prepareResult.preparedPdfBase64, "base64")),
+      new Uint8Array(cmsResult.cmsDer),
+      prepareResult.messageDigestB64,
+      prepareResult.fieldName,
+    );
+  };
+
   describe("verify", () => {
     it("should verify a valid PAdES-B-B signature with detailed compliance", async () => {
       // Create a complete signed PDF
@@ -94,6 +136,191 @@ describe("VerificationService", () => {
       expect(mandatoryChecks?.every((c) => c.satisfied)).toBe(true);
     });
 
+    it.each([
+      ["ECDSA-P256", "1.2.840.10045.4.3.2", 32],
+      ["ECDSA-P384", "1.2.840.10045.4.3.3", 48],
+    ] as const)(
+      "should verify %s signatures, from DER or raw r||s signature values",
+      async (signerKeyAlgorithm, signatureAlgorithmOid, size) => {
+        const certDir = await mkdtemp(join(tmpdir(), "ecdsa-hsm-"));
+        try {
+          const ecHSM = new MockHSMService({ certDir, signerKeyAlgorithm });
+          await ecHSM.ready;
+          const signerCertPem = ecHSM.getSignerCertificatePem();
+          const demoResult = await pdfService.generateDemoPDF({ signerName: "Dr. EC Signer" });
+
+          // Mock HSM: DER Ecdsa-Sig-Value; PKCS#11 CKM_ECDSA and WebCrypto: raw r||s
+          for (const encoding of ["der", "raw"]) {
+            const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64);
+            const { signedAttrsDer } = signatureService.buildSignedAttributes({
+              messageDigest: Buffer.from(prepareResult.messageDigestB64, "base64"),
+              signerCertPem,
+            });
+            const der = await ecHSM.signData(signedAttrsDer);
+            const cmsResult = await cmsService.assembleCMS({
+              signedAttrsDer,
+              signature: encoding === "raw" ? ecdsaDerToRaw(der, size) : der,
+              signerCertPem,
+              certificateChainPem: ecHSM.getCertificateChainPem(),
+              withTimestamp: false,
+            });
+            const signedPdf = pdfService.embedCmsIntoPdf(
+              new Uint8Array(Buffer.from(prepareResult.preparedPdfBase64, "base64")),
+              new Uint8Array(cmsResult.cmsDer),
+            );
+
+            const result = await verificationService.verify(Buffer.from(signedPdf));
+
+            expect(result.isCryptographicallyValid).toBe(true);
+            expect(result.reasons).toEqual([]);
+            expect(
+              result.complianceDetails?.checks.find((c) =>
+                c.requirement.startsWith("Signature algorithm"),
+              ),
+            ).toMatchObject({
+              satisfied: true,
+              details: expect.stringContaining(signatureAlgorithmOid) as string,
+            });
+          }
+        } finally {
+          await rm(certDir, { recursive: true, force: true });
+        }
+      },
+      30000,
+    );
+
+    it("should verify RSASSA-PSS signatures from the parameters of the algorithm", async () => {
+      const demoResult = await pdfService.generateDemoPDF({ signerName: "Dr. PSS Signer" });
+      const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64);
+      const signerCertPem = mockHSM.getSignerCertificatePem();
+      const { signedAttrsDer } = signatureService.buildSignedAttributes({
+        messageDigest: Buffer.from(prepareResult.messageDigestB64, "base64"),
+        signerCertPem,
+      });
+      const signature = await mockHSM.signData(signedAttrsDer, SIGNATURE_ALGORITHMS.RSASSA_PSS);
+      const cmsResult = await cmsService.assembleCMS({
+        signedAttrsDer,
+        signature,
+        signerCertPem,
+        signatureAlgorithmOid: SIGNATURE_ALGORITHMS.RSASSA_PSS,
+        withTimestamp: false,
+      });
+      const signedPdf = pdfService.embedCmsIntoPdf(
+        new Uint8Array(Buffer.from(prepareResult.preparedPdfBase64, "base64")),
+        new Uint8Array(cmsResult.cmsDer),
+      );
+
+      const result = await verificationService.verify(Buffer.from(signedPdf));
+
+      expect(result.isCryptographicallyValid).toBe(true);
+      expect(result.reasons).toEqual([]);
+      // Hash, MGF1 hash and salt length read back from RSASSA-PSS-params
+      expect(
+        result.complianceDetails?.checks.find((c) =>
+          c.requirement.startsWith("Signature algorithm"),
+        )?.details,
+      ).toBe("Signature algorithm: RSA-PSS with SHA-256, salt 32 (1.2.840.113549.1.1.10)");
+    });
+
+    it("should verify SHA-384 digests signed with a matching signature hash", async () => {
+      const demoResult = await pdfService.generateDemoPDF({ signerName: "Dr. SHA-384 Signer" });
+      const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64, {
+        digestAlgorithm: "SHA-384",
+      });
+      const signerCertPem = mockHSM.getSignerCertificatePem();
+      const { signedAttrsDer } = signatureService.buildSignedAttributes({
+        messageDigest: Buffer.from(prepareResult.messageDigestB64, "base64"),
+        signerCertPem,
+        digestAlgorithm: prepareResult.digestAlgorithm,
+      });
+      const signature = await mockHSM.signData(
+        signedAttrsDer,
+        undefined,
+        prepareResult.digestAlgorithm,
+      );
+      const cmsResult = await cmsService.assembleCMS({
+        signedAttrsDer,
+        signature,
+        signerCertPem,
+        digestAlgorithm: prepareResult.digestAlgorithm,
+        withTimestamp: false,
+      });
+      const signedPdf = pdfService.embedCmsIntoPdf(
+        new Uint8Array(Buffer.from(prepareResult.preparedPdfBase64, "base64")),
+        new Uint8Array(cmsResult.cmsDer),
+        prepareResult.messageDigestB64,
+        prepareResult.fieldName,
+        prepareResult.digestAlgorithm,
+      );
+
+      const result = await verificationService.verify(Buffer.from(signedPdf));
+      const check = (prefix: string) =>
+        result.complianceDetails?.checks.find((c) => c.requirement.startsWith(prefix));
+
+      expect(prepareResult.messageDigestB64).toHaveLength(64); // 48 bytes
+      expect(result.isCryptographicallyValid).toBe(true);
+      expect(result.reasons).toEqual([]);
+      expect(check("Digest algorithm")).toMatchObject({
+        satisfied: true,
+        details: "Digest algorithm: SHA-384 (2.16.840.1.101.3.4.2.2)",
+      });
+      expect(check("SignedData digestAlgorithms")?.satisfied).toBe(true);
+      expect(check("messageDigest length")?.satisfied).toBe(true);
+      expect(check("signingCertificateV2 hash")?.details).toBe("Certificate hashed with SHA-384");
+      // sha384WithRSAEncryption over SHA-384 signed attributes
+      expect(check("Signature hash")).toMatchObject({
+        satisfied: true,
+        details: "Signature hash SHA-384, digest algorithm SHA-384",
+      });
+    });
+
+    it("should sign RSASSA-PSS with the hash of a SHA-512 digest", async () => {
+      const demoResult = await pdfService.generateDemoPDF({ signerName: "Dr. PSS-512 Signer" });
+      const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64, {
+        digestAlgorithm: "SHA-512",
+      });
+      const signerCertPem = mockHSM.getSignerCertificatePem();
+      const { signedAttrsDer } = signatureService.buildSignedAttributes({
+        messageDigest: Buffer.from(prepareResult.messageDigestB64, "base64"),
+        signerCertPem,
+        digestAlgorithm: prepareResult.digestAlgorithm,
+      });
+      const signature = await mockHSM.signData(
+        signedAttrsDer,
+        SIGNATURE_ALGORITHMS.RSASSA_PSS,
+        prepareResult.digestAlgorithm,
+      );
+      const cmsResult = await cmsService.assembleCMS({
+        signedAttrsDer,
+        signature,
+        signerCertPem,
+        signatureAlgorithmOid: SIGNATURE_ALGORITHMS.RSASSA_PSS,
+        digestAlgorithm: prepareResult.digestAlgorithm,
+        withTimestamp: false,
+      });
+      const signedPdf = pdfService.embedCmsIntoPdf(
+        new Uint8Array(Buffer.from(prepareResult.preparedPdfBase64, "base64")),
+        new Uint8Array(cmsResult.cmsDer),
+        prepareResult.messageDigestB64,
+        prepareResult.fieldName,
+        prepareResult.digestAlgorithm,
+      );
+
+      const result = await verificationService.verify(Buffer.from(signedPdf));
+      const check = (prefix: string) =>
+        result.complianceDetails?.checks.find((c) => c.requirement.startsWith(prefix));
+
+      expect(result.isCryptographicallyValid).toBe(true);
+      expect(result.reasons).toEqual([]);
+      expect(check("Signature algorithm")?.details).toBe(
+        "Signature algorithm: RSA-PSS with SHA-512, salt 64 (1.2.840.113549.1.1.10)",
+      );
+      expect(check("Signature hash")).toMatchObject({
+        satisfied: true,
+        details: "Signature hash SHA-512, digest algorithm SHA-512",
+      });
+    });
+
     it("should verify a valid PAdES-B-T signature with timestamp", async () => {
       // Create a minimal fake TimeStampToken for testing
       const { Sequence, Integer, OctetString, ObjectIdentifier } = await import("asn1js");
@@ -183,6 +410,426 @@ describe("VerificationService", () => {
       expect(timestampChecks?.length).toBeGreaterThan(0);
     });
 
+    it("should validate a B-T signature timestamped by the mock TSA", async () => {
+      const mockTSA = new MockTSAService(mockHSM);
+      await mockTSA.ready;
+      const actual =
+        await vi.importActual<typeof import("./timestamp-service")>("./timestamp-service");
+      vi.mocked(requestTimestamp).mockImplementationOnce(actual.requestTimestamp);
+      vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+        const responseDer = await mockTSA.respond(init.body as Buffer);
+        return new Response(new Uint8Array(responseDer));
+      });
+
+      const demoResult = await pdfService.generateDemoPDF();
+      const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64);
+      const signerCertPem = mockHSM.getSignerCertificatePem();
+      const { signedAttrsDer } = signatureService.buildSignedAttributes({
+        messageDigest: Buffer.from(prepareResult.messageDigestB64, "base64"),
+        signerCertPem,
+      });
+      const cmsResult = await cmsService.assembleCMS({
+        signedAttrsDer,
+        signature: await mockHSM.signData(signedAttrsDer),
+        signerCertPem,
+        withTimestamp: true,
+      });
+      vi.unstubAllGlobals(); // verification must not reach the mock TSA
+      const signedPdf = pdfService.embedCmsIntoPdf(
+        new Uint8Array(Buffer.from(prepareResult.preparedPdfBase64, "base64")),
+        new Uint8Array(cmsResult.cmsDer),
+      );
+
+      const verificationResult = await verificationService.verify(Buffer.from(signedPdf));
+
+      expect(verificationResult.signatureLevel).toBe("B-T");
+      expect(verificationResult.timestampValidation).toMatchObject({
+        isValid: true,
+        tsaName: "Mock TSA",
+        messageImprintMatches: true,
+        tsaSignatureValid: true,
+        signingCertificateMatches: true,
+        hasTimeStampingEku: true,
+        chainValid: true,
+      });
+      expect(verificationResult.reasons).toEqual([]);
+      // Without a TSA anchor the time-stamp proves nothing: the signer could run that TSA
+      expect(verificationResult.timestampValidation?.chainTrusted).toBe(false);
+      expect(verificationResult.certificateChain?.validationTime).not.toBe(
+        verificationResult.timestampTime,
+      );
+
+      // Trusted TSA: the time-stamp is the proof of existence the signer chain is validated at
+      const [rootCert] = parseCertificates(Buffer.from(mockHSM.getRootCertificatePem()));
+      const tsaRoot = createTrustAnchor(rootCert, "test");
+      const trustStore = getTrustStore();
+      vi.spyOn(trustStore, "getAnchors").mockImplementation((purpose) =>
+        purpose === "tsa" ? [tsaRoot] : [],
+      );
+      vi.spyOn(trustStore, "findAnchor").mockImplementation((cert, purpose) =>
+        purpose === "tsa" && certificateFingerprint(cert) === tsaRoot.fingerprint
+          ? tsaRoot
+          : undefined,
+      );
+      const trusted = await new VerificationService().verify(Buffer.from(signedPdf));
+
+      expect(trusted.timestampValidation?.chainTrusted).toBe(true);
+      expect(trusted.certificateChain?.validationTime).toBe(trusted.timestampTime);
+    });
+
+    it("should validate as of a given date", async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+      const signedPdf = Buffer.from(await sign(demoResult.pdfBase64));
+      const now = await verificationService.verify(signedPdf);
+      const validFrom = new Date(now.certificateChain!.signerCertificate!.validFrom);
+      const beforeIssuance = new Date(validFrom.getTime() - 24 * 60 * 60 * 1000);
+
+      const result = await verificationService.verify(signedPdf, {
+        validationTime: beforeIssuance,
+      });
+
+      expect(result.certificateChain?.isValid).toBe(false);
+      expect(result.certificateChain?.validationTime).toBe(beforeIssuance.toISOString());
+      expect(result.validationReport?.validationTime).toBe(beforeIssuance.toISOString());
+      expect(result.reasons.some((r) => r.includes("not yet valid"))).toBe(true);
+    });
+
+    it("should report B-LT with a DSS and B-LTA once a document timestamp follows it", async () => {
+      const { Sequence, Integer, OctetString, ObjectIdentifier } = await import("asn1js");
+      const fakeToken = new Sequence({
+        value: [
+          new ObjectIdentifier({ value: "1.2.840.113549.1.7.2" }),
+          new Sequence({
+            value: [
+              new Integer({ value: 1 }),
+              new Sequence({ value: [] }),
+              new Sequence({
+                value: [
+                  new ObjectIdentifier({ value: "1.2.840.113549.1.7.1" }),
+                  new OctetString({ valueHex: new ArrayBuffer(0) }),
+                ],
+              }),
+              new Sequence({ value: [] }),
+            ],
+          }),
+        ],
+      });
+      vi.mocked(requestTimestamp).mockResolvedValueOnce({
+        timestampToken: fakeToken,
+        timestampTime: new Date("2024-01-01T00:00:00Z").toISOString(),
+        tsaUrl: "https://test-tsa.example.com",
+      });
+
+      const demoResult = await pdfService.generateDemoPDF();
+      const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64);
+      const signerCertPem = mockHSM.getSignerCertificatePem();
+      const { signedAttrsDer } = signatureService.buildSignedAttributes({
+        messageDigest: Buffer.from(prepareResult.messageDigestB64, "base64"),
+        signerCertPem,
+      });
+      const signature = await mockHSM.signData(signedAttrsDer);
+      const cmsResult = await cmsService.assembleCMS({
+        signedAttrsDer,
+        signature,
+        signerCertPem,
+        withTimestamp: true,
+      });
+      const signedPdf = pdfService.embedCmsIntoPdf(
+        new Uint8Array(Buffer.from(prepareResult.preparedPdfBase64, "base64")),
+        new Uint8Array(cmsResult.cmsDer),
+      );
+
+      const ltPdf = await pdfService.appendDSS(signedPdf, [
+        {
+          signatureContents: pdfService.getSignatureContents(signedPdf),
+          certificates: [Buffer.from(mockHSM.getSignerCertificatePem())],
+          ocspResponses: [],
+          crls: [],
+        },
+      ]);
+
+      const verificationResult = await verificationService.verify(Buffer.from(ltPdf));
+
+      // The DSS revision is outside the ByteRange: the signature stays intact
+      expect(verificationResult.isCryptographicallyValid).toBe(true);
+      expect(verificationResult.signatureLevel).toBe("B-LT");
+
+      const { pdfBytes: ltaPdf } = await pdfService.addDocumentTimestamp(ltPdf, () =>
+        Promise.resolve(Buffer.from(fakeToken.toBER(false))),
+      );
+      const ltaResult = await verificationService.verify(Buffer.from(ltaPdf));
+
+      expect(ltaResult.isCryptographicallyValid).toBe(true);
+      expect(ltaResult.signatureLevel).toBe("B-LTA");
+      expect(ltaResult.signatures?.map((s) => s.type)).toEqual(["signature", "documentTimestamp"]);
+      expect(ltaResult.signatures?.[1].coversWholeDocument).toBe(true);
+      expect(ltaResult.signatures?.[0].modifications?.map((m) => [m.kind, m.allowed])).toEqual([
+        ["dss", true],
+        ["documentTimestamp", true],
+      ]);
+    });
+
+    it("should keep the signature time-stamp valid past its TSA certificate under a document timestamp", async () => {
+      const certDirs = await Promise.all(
+        ["short-tsa-", "long-tsa-"].map((prefix) => mkdtemp(join(tmpdir(), prefix))),
+      );
+      try {
+        const shortHSM = new MockHSMService({ certDir: certDirs[0], validityYears: 1 });
+        const longHSM = new MockHSMService({ certDir: certDirs[1], validityYears: 10 });
+        const shortTSA = new MockTSAService(shortHSM);
+        const longTSA = new MockTSAService(longHSM);
+        await Promise.all([shortTSA.ready, longTSA.ready]);
+        const actual =
+          await vi.importActual<typeof import("./timestamp-service")>("./timestamp-service");
+        let tsa = shortTSA;
+        vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+          const responseDer = await tsa.respond(init.body as Buffer);
+          return new Response(new Uint8Array(responseDer));
+        });
+
+        // Signature time-stamp by a TSA certified for a year
+        vi.mocked(requestTimestamp).mockImplementationOnce(actual.requestTimestamp);
+        const demoResult = await pdfService.generateDemoPDF();
+        const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64);
+        const signerCertPem = mockHSM.getSignerCertificatePem();
+        const { signedAttrsDer } = signatureService.buildSignedAttributes({
+          messageDigest: Buffer.from(prepareResult.messageDigestB64, "base64"),
+          signerCertPem,
+        });
+        const cmsResult = await cmsService.assembleCMS({
+          signedAttrsDer,
+          signature: await mockHSM.signData(signedAttrsDer),
+          signerCertPem,
+          withTimestamp: true,
+        });
+        const signedPdf = pdfService.embedCmsIntoPdf(
+          new Uint8Array(Buffer.from(prepareResult.preparedPdfBase64, "base64")),
+          new Uint8Array(cmsResult.cmsDer),
+        );
+
+        // Document timestamp by a TSA certified for ten years
+        tsa = longTSA;
+        const { pdfBytes: ltaPdf } = await pdfService.addDocumentTimestamp(
+          signedPdf,
+          async (signedBytes) => {
+            const ts = await actual.requestTimestamp({ data: signedBytes });
+            return Buffer.from(ts.timestampToken.toBER(false));
+          },
+        );
+        vi.unstubAllGlobals();
+
+        const tsaRoots = [shortHSM, longHSM].map((hsm) =>
+          createTrustAnchor(parseCertificates(Buffer.from(hsm.getRootCertificatePem()))[0], "test"),
+        );
+        const trustStore = getTrustStore();
+        vi.spyOn(trustStore, "getAnchors").mockImplementation((purpose) =>
+          purpose === "tsa" ? tsaRoots : [],
+        );
+        vi.spyOn(trustStore, "findAnchor").mockImplementation((cert, purpose) =>
+          purpose === "tsa"
+            ? tsaRoots.find((root) => root.fingerprint === certificateFingerprint(cert))
+            : undefined,
+        );
+        const validationTime = new Date(Date.now() + 2 * 365 * 24 * 60 * 60 * 1000);
+
+        // Alone, the signature time-stamp fails with its expired TSA certificate
+        const expired = await new VerificationService().verify(Buffer.from(signedPdf), {
+          validationTime,
+        });
+        expect(expired.timestampValidation?.isValid).toBe(false);
+        expect(expired.certificateChain?.validationTime).toBe(validationTime.toISOString());
+
+        // The document timestamp is its proof of existence
+        const result = await new VerificationService().verify(Buffer.from(ltaPdf), {
+          validationTime,
+        });
+        const [signature, documentTimestamp] = result.signatures!;
+
+        expect(documentTimestamp.isCryptographicallyValid).toBe(true);
+        expect(documentTimestamp.chainTrusted).toBe(true);
+        expect(signature.timestampValidation).toMatchObject({ isValid: true, chainTrusted: true });
+        expect(signature.certificateChain?.validationTime).toBe(signature.timestampTime);
+      } finally {
+        await Promise.all(certDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+      }
+    }, 60000);
+
+    it("should verify every signature against its own revision", async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+      const signedOnce = await sign(demoResult.pdfBase64);
+      const signedTwice = await sign(Buffer.from(signedOnce).toString("base64"), countersignature);
+
+      const verificationResult = await verificationService.verify(Buffer.from(signedTwice));
+
+      expect(verificationResult.isCryptographicallyValid).toBe(true);
+      expect(verificationResult.signatureLevel).toBe("B-B");
+      expect(verificationResult.signatures).toMatchObject([
+        {
+          fieldName: "Signature1",
+          type: "signature",
+          revision: 2, // demo PDF + first placeholder
+          coversWholeDocument: false,
+          isCryptographicallyValid: true,
+        },
+        {
+          fieldName: "Signature2",
+          type: "signature",
+          revision: 3,
+          coversWholeDocument: true,
+          isCryptographicallyValid: true,
+        },
+      ]);
+
+      // Tampering with the countersignature revision leaves the first signature intact
+      const tampered = Buffer.from(signedTwice);
+      tampered[signedOnce.length + 10] ^= 0xff;
+      const tamperedResult = await verificationService.verify(tampered);
+
+      expect(tamperedResult.isCryptographicallyValid).toBe(false);
+      expect(tamperedResult.signatures?.map((s) => s.isCryptographicallyValid)).toEqual([
+        true,
+        false,
+      ]);
+      expect(tamperedResult.reasons).toContain("Signature2: PDF content has been modified");
+      expect(verificationResult.signatures?.[0].modifications).toContainEqual(
+        expect.objectContaining({ kind: "signature", allowed: true }),
+      );
+    });
+
+    it("should enforce the DocMDP permissions of a certified document", async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+
+      // Form filling and signing allowed: the countersignature is a permitted change
+      const certified = await sign(demoResult.pdfBase64, { certificationLevel: "form-filling" });
+      const countersigned = await sign(Buffer.from(certified).toString("base64"), countersignature);
+      const permitted = await verificationService.verify(Buffer.from(countersigned));
+
+      expect(permitted.signatures?.[0]).toMatchObject({
+        certificationLevel: "form-filling",
+        modifications: [expect.objectContaining({ kind: "signature", allowed: true })],
+      });
+      expect(permitted.reasons.some((r) => r.includes("Modified after signing"))).toBe(false);
+
+      // No changes allowed: the same countersignature breaks the certification
+      const locked = await sign(demoResult.pdfBase64, { certificationLevel: "no-changes" });
+      const lockedCountersigned = await sign(
+        Buffer.from(locked).toString("base64"),
+        countersignature,
+      );
+      const rejected = await verificationService.verify(Buffer.from(lockedCountersigned));
+
+      expect(rejected.isCryptographicallyValid).toBe(true);
+      expect(rejected.isPAdESCompliant).toBe(false);
+      expect(rejected.signatures?.[0].certificationLevel).toBe("no-changes");
+      expect(rejected.reasons).toContain(
+        "Signature1: Modified after signing: Signature field Signature2 added",
+      );
+      expect(rejected.signatures?.[0].complianceDetails?.checks).toContainEqual(
+        expect.objectContaining({
+          requirement: "Changes after signing must be permitted by the certification (DocMDP P=1)",
+          satisfied: false,
+        }),
+      );
+    });
+
+    it("should order signatures by revision to find the first one", async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+      const certified = await sign(demoResult.pdfBase64, { certificationLevel: "form-filling" });
+      const countersigned = await sign(Buffer.from(certified).toString("base64"), countersignature);
+
+      // List the countersignature first in the AcroForm: the file order still decides
+      const writer = await IncrementalPdfWriter.load(countersigned);
+      const acroFormRef = writer.doc.catalog.get(PDFName.of("AcroForm"));
+      if (!(acroFormRef instanceof PDFRef)) throw new Error("Expected an indirect AcroForm");
+      const acroForm = writer.doc.context.lookup(acroFormRef, PDFDict);
+      const fieldRefs = acroForm.lookup(PDFName.of("Fields"), PDFArray);
+      acroForm.set(PDFName.of("Fields"), writer.doc.context.obj(fieldRefs.asArray().reverse()));
+      writer.markModified(acroFormRef);
+      const reordered = await verificationService.verify(writer.save());
+
+      expect(reordered.signatures?.map((s) => s.fieldName)).toEqual(["Signature2", "Signature1"]);
+      expect(reordered.signatures?.[1].certificationLevel).toBe("form-filling");
+      expect(
+        reordered.reasons.some((r) => r.includes("Certification signature is not the first")),
+      ).toBe(false);
+    });
+
+    it("should report changes to the fields locked by a signature", async () => {
+      // Prescription form: the prescriber locks the medication, the pharmacist fills the rest
+      const formDoc = await PDFDocument.create();
+      const page = formDoc.addPage([595.28, 841.89]);
+      const form = formDoc.getForm();
+      form.createTextField("medication").addToPage(page, { x: 50, y: 700, width: 300, height: 20 });
+      form.createTextField("dispensing").addToPage(page, { x: 50, y: 650, width: 300, height: 20 });
+      const formPdf = Buffer.from(await formDoc.save({ useObjectStreams: false }));
+
+      const signedPdf = await sign(formPdf.toString("base64"), {
+        fieldLock: { action: "Include", fields: ["medication"] },
+      });
+      const fill = async (fieldName: string, text: string) => {
+        const writer = await IncrementalPdfWriter.load(signedPdf);
+        const field = writer.doc.getForm().getTextField(fieldName);
+        field.acroField.setValue(PDFHexString.fromText(text));
+        writer.markModified(field.ref);
+        return writer.save();
+      };
+
+      const dispensed = await verificationService.verify(await fill("dispensing", "Délivré"));
+      expect(dispensed.signatures?.[0].fieldLock).toEqual({
+        action: "Include",
+        fields: ["medication"],
+      });
+      expect(dispensed.signatures?.[0].modifications).toEqual([
+        expect.objectContaining({ kind: "formFill", allowed: true, fieldName: "dispensing" }),
+      ]);
+      expect(dispensed.reasons.some((r) => r.includes("Modified after signing"))).toBe(false);
+
+      const tampered = await verificationService.verify(await fill("medication", "10 comprimés"));
+      expect(tampered.isCryptographicallyValid).toBe(true);
+      expect(tampered.isPAdESCompliant).toBe(false);
+      expect(tampered.reasons).toContain("Modified after signing: Locked field medication filled");
+    });
+
+    it("should reject page content changed in a revision appended after signing", async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+      const prepareResult = await pdfService.preparePDF(demoResult.pdfBase64);
+      const signerCertPem = mockHSM.getSignerCertificatePem();
+      const { signedAttrsDer } = signatureService.buildSignedAttributes({
+        messageDigest: Buffer.from(prepareResult.messageDigestB64, "base64"),
+        signerCertPem,
+      });
+      const signature = await mockHSM.signData(signedAttrsDer);
+      const cmsResult = await cmsService.assembleCMS({
+        signedAttrsDer,
+        signature,
+        signerCertPem,
+        withTimestamp: false,
+      });
+      const signedPdf = pdfService.embedCmsIntoPdf(
+        new Uint8Array(Buffer.from(prepareResult.preparedPdfBase64, "base64")),
+        new Uint8Array(cmsResult.cmsDer),
+      );
+
+      // Incremental update drawing a new dosage over the signed prescription
+      const writer = await IncrementalPdfWriter.load(signedPdf);
+      const page = writer.doc.getPage(0);
+      page.drawText("Posologie: 10 comprimés par jour", { x: 50, y: 600 });
+      await writer.doc.flush();
+      writer.markModified(page.ref);
+
+      const verificationResult = await verificationService.verify(writer.save());
+
+      // The signed bytes are untouched: only the revision analysis catches the change
+      expect(verificationResult.isCryptographicallyValid).toBe(true);
+      expect(verificationResult.isPAdESCompliant).toBe(false);
+      expect(verificationResult.reasons).toContainEqual(
+        expect.stringMatching(/^Modified after signing: Page 1 \/Contents changed/),
+      );
+      expect(verificationResult.signatures?.[0].modifications).toContainEqual(
+        expect.objectContaining({ kind: "pageContent", allowed: false }),
+      );
+    });
+
     it("should detect modified PDF content with detailed compliance report", async () => {
       // Create a signed PDF
       const demoResult = await pdfService.generateDemoPDF();
@@ -233,6 +880,35 @@ describe("VerificationService", () => {
         c.requirement.includes("Document integrity"),
       );
       expect(integrityCheck?.satisfied).toBe(false);
+
+      // ETSI indication: the cryptographic verification block fails on the digest
+      expect(verificationResult.validationReport).toMatchObject({
+        indication: "TOTAL-FAILED",
+        subIndication: "HASH_FAILURE",
+      });
+      expect(
+        verificationResult.validationReport?.blocks.find(
+          (b) => b.block === "cryptographicVerification",
+        ),
+      ).toMatchObject({ indication: "FAILED", subIndication: "HASH_FAILURE" });
+    });
+
+    it("should reject a ByteRange gap that hides more than /Contents", async () => {
+      const demoResult = await pdfService.generateDemoPDF();
+      const signedPdf = Buffer.from(await sign(demoResult.pdfBase64));
+
+      // Widen the excluded gap backwards: bytes before the /Contents string become unsigned
+      const text = signedPdf.toString("latin1");
+      const m = /\[\s*0\s+(\d+)\s+(\d+)\s+(\d+)\s*\]/.exec(text)!;
+      const widened = `[0 ${parseInt(m[1], 10) - 10} ${m[2]} ${m[3]}]`.padEnd(m[0].length, " ");
+      const wrappedPdf = Buffer.from(text.replace(m[0], widened), "latin1");
+
+      const verificationResult = await verificationService.verify(wrappedPdf);
+
+      expect(verificationResult.isCryptographicallyValid).toBe(false);
+      expect(verificationResult.reasons).toContain(
+        "ByteRange gap is not exactly the signature /Contents",
+      );
     });
 
     it("should handle invalid PDF gracefully", async () => {
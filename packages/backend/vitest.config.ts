@@ -10,7 +10,7 @@ export default defineConfig({
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html"],
-      exclude: ["node_modules/", "dist/", "**/*.test.ts", "**/*.spec.ts"],
+      exclude: ["node_modules/", "dist/", "**/*.test.ts", "**/*.spec.ts", "**/test-pki.ts"],
     },
   },
   resolve: {
@@ -3,7 +3,9 @@ import { Notifications } from "@mantine/notifications";
 import { IconHeartbeat } from "@tabler/icons-react";
 import { useState, useEffect } from "react";
 
+import { DigestAlgorithmToggle } from "./components/DigestAlgorithmToggle";
 import { PDFWorkflow } from "./components/PDFWorkflow";
+import { SignatureSchemeToggle } from "./components/SignatureSchemeToggle";
 import { SigningMethodToggle } from "./components/SigningMethodToggle";
 import { TSAToggle } from "./components/TSAToggle";
 import { ApiClient } from "./services/api";
@@ -46,6 +48,8 @@ function App() {
               <Title order={3}>PAdES POC</Title>
               <SigningMethodToggle />
               <TSAToggle />
+              <SignatureSchemeToggle />
+              <DigestAlgorithmToggle />
             </Group>
             <Badge
               size="lg"
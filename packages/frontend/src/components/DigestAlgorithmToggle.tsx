@@ -0,0 +1,21 @@
+import { SegmentedControl, Tooltip } from "@mantine/core";
+import { useAtom } from "jotai";
+
+import { digestAlgorithmAtom } from "../store/atoms";
+
+import type { DigestAlgorithm } from "@pades-poc/shared";
+
+export function DigestAlgorithmToggle() {
+  const [digestAlgorithm, setDigestAlgorithm] = useAtom(digestAlgorithmAtom);
+
+  return (
+    <Tooltip label="Digest of the signed byte ranges, applied at the next prepare">
+      <SegmentedControl
+        size="xs"
+        value={digestAlgorithm}
+        onChange={(value) => setDigestAlgorithm(value as DigestAlgorithm)}
+        data={["SHA-256", "SHA-384", "SHA-512"]}
+      />
+    </Tooltip>
+  );
+}
@@ -15,11 +15,13 @@ export function PdfSummaryCard({
   stepNumber,
   title = "Current PDF",
   highlightRect,
+  highlightPageNumber = 1,
 }: {
   base64?: string | null;
   stepNumber: number;
   title?: string;
   highlightRect?: Rect; // [x1, y1, x2, y2] in PDF user space (bottom-left origin)
+  highlightPageNumber?: number; // Page shown when highlighting (1-based)
 }) {
   const ref = React.useRef<HTMLDivElement | null>(null);
   const [info, setInfo] = React.useState<{ sizeKB?: string; pageCount?: number } | null>(null);
@@ -37,7 +39,7 @@ export function PdfSummaryCard({
       try {
         const data = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
         const doc = await getDocument({ data }).promise;
-        const page = await doc.getPage(1);
+        const page = await doc.getPage(highlightRect ? highlightPageNumber : 1);
 
         const viewport = page.getViewport({ scale: 1 });
         const maxWidth = 180; // small, consistent thumbnail
@@ -83,7 +85,7 @@ export function PdfSummaryCard({
     };
 
     void render();
-  }, [base64, highlightRect]);
+  }, [base64, highlightRect, highlightPageNumber]);
 
   const filename = stepFilename(stepNumber);
 
@@ -1,12 +1,215 @@
-import { Box, Title } from "@mantine/core";
+import { Alert, Box, Button, Group, Text, Title } from "@mantine/core";
 import { Worker, Viewer, SpecialZoomLevel } from "@react-pdf-viewer/core";
 import { defaultLayoutPlugin } from "@react-pdf-viewer/default-layout";
+import React from "react";
 import "@react-pdf-viewer/core/lib/styles/index.css";
 import "@react-pdf-viewer/default-layout/lib/styles/index.css";
 
-export function PdfViewerPanel({ pdfBase64 }: { pdfBase64: string }) {
+import {
+  MIN_FIELD_SIZE,
+  loadPdfPageFields,
+  overlappingField,
+  toPdfRect,
+  toPixelRect,
+} from "../utils/signature-placement";
+
+import type { PdfPageFields, PixelRect, SignaturePlacement } from "../utils/signature-placement";
+import type { RenderPageProps } from "@react-pdf-viewer/core";
+
+interface Drag {
+  pageIndex: number;
+  mode: "draw" | "move";
+  start: [number, number];
+  origin: PixelRect;
+  rect: PixelRect;
+}
+
+const FIELD_COLOR = "var(--mantine-color-orange-6)";
+const PLACEMENT_COLOR = "var(--mantine-color-blue-6)";
+const CONFLICT_COLOR = "var(--mantine-color-red-6)";
+
+/**
+ * PDF viewer; with onPlacementChange, the next signature field can be drawn (drag on an empty
+ * area) or moved (drag the blue box) on any page without /Rotate, shown unrotated. Existing
+ * signature fields are outlined in orange and a field overlapping one of them is refused.
+ */
+export function PdfViewerPanel({
+  pdfBase64,
+  placement,
+  onPlacementChange,
+}: {
+  pdfBase64: string;
+  placement?: SignaturePlacement;
+  onPlacementChange?: (placement: SignaturePlacement | null) => void;
+}) {
   const defaultLayout = defaultLayoutPlugin();
   const fileUrl = `data:application/pdf;base64,${pdfBase64}`;
+  const [pages, setPages] = React.useState<PdfPageFields[] | null>(null);
+  const [drag, setDrag] = React.useState<Drag | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setPages(null);
+    setError(null);
+    loadPdfPageFields(pdfBase64)
+      .then((loaded) => !cancelled && setPages(loaded))
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        const msg = e instanceof Error ? e.message : String(e);
+        setError(`Could not read the existing signature fields: ${msg}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfBase64]);
+
+  const placementPage = placement ? pages?.[placement.pageNumber - 1] : undefined;
+  const conflict =
+    placement && placementPage
+      ? overlappingField(placementPage.signatureFields, placement.rectangle)
+      : undefined;
+
+  const commit = (current: Drag, page: PdfPageFields, scale: number) => {
+    const { rect } = current;
+    // A plain click on the page draws nothing
+    if (current.mode === "draw" && rect.width < 3 && rect.height < 3) return;
+
+    const rectangle = toPdfRect(rect, page.view, scale);
+    const [x1, y1, x2, y2] = rectangle;
+    if (x2 - x1 < MIN_FIELD_SIZE || y2 - y1 < MIN_FIELD_SIZE) {
+      setError(
+        `The signature field must be at least ${MIN_FIELD_SIZE} × ${MIN_FIELD_SIZE} points.`,
+      );
+      return;
+    }
+    const field = overlappingField(page.signatureFields, rectangle);
+    if (field) {
+      setError(`The signature field would overlap the existing field "${field.name}".`);
+      return;
+    }
+    setError(null);
+    onPlacementChange?.({ pageNumber: current.pageIndex + 1, rectangle });
+  };
+
+  const renderPage = (props: RenderPageProps) => {
+    const page = pages?.[props.pageIndex];
+    const layers = (
+      <>
+        {props.canvasLayer.children}
+        {props.textLayer.children}
+        {props.annotationLayer.children}
+      </>
+    );
+    // Overlays assume the PDF user space maps to the page without rotation: neither the
+    // page's own /Rotate nor a rotation applied in the viewer
+    if (!page || page.rotation !== 0 || props.rotation !== 0) return layers;
+
+    const { scale, pageIndex } = props;
+    const editable = !!onPlacementChange;
+    const current =
+      drag?.pageIndex === pageIndex
+        ? drag.rect
+        : placement?.pageNumber === pageIndex + 1
+          ? toPixelRect(placement.rectangle, page.view, scale)
+          : undefined;
+    const currentConflict =
+      drag?.pageIndex === pageIndex
+        ? overlappingField(page.signatureFields, toPdfRect(drag.rect, page.view, scale))
+        : conflict;
+
+    const pointer = (e: React.PointerEvent<HTMLDivElement>): [number, number] => {
+      const box = e.currentTarget.getBoundingClientRect();
+      return [clamp(e.clientX - box.left, 0, box.width), clamp(e.clientY - box.top, 0, box.height)];
+    };
+
+    const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+      if (e.button !== 0) return;
+      const start = pointer(e);
+      const moving = !!current && contains(current, start);
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrag({
+        pageIndex,
+        mode: moving ? "move" : "draw",
+        start,
+        origin: moving ? current : { left: start[0], top: start[1], width: 0, height: 0 },
+        rect: moving ? current : { left: start[0], top: start[1], width: 0, height: 0 },
+      });
+    };
+
+    const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+      if (drag?.pageIndex !== pageIndex) return;
+      const [x, y] = pointer(e);
+      const box = e.currentTarget.getBoundingClientRect();
+      const rect =
+        drag.mode === "draw"
+          ? {
+              left: Math.min(x, drag.start[0]),
+              top: Math.min(y, drag.start[1]),
+              width: Math.abs(x - drag.start[0]),
+              height: Math.abs(y - drag.start[1]),
+            }
+          : {
+              ...drag.origin,
+              left: clamp(drag.origin.left + x - drag.start[0], 0, box.width - drag.origin.width),
+              top: clamp(drag.origin.top + y - drag.start[1], 0, box.height - drag.origin.height),
+            };
+      setDrag({ ...drag, rect });
+    };
+
+    const onPointerUp = () => {
+      if (drag?.pageIndex !== pageIndex) return;
+      setDrag(null);
+      commit(drag, page, scale);
+    };
+
+    return (
+      <>
+        {layers}
+        <div
+          onPointerDown={editable ? onPointerDown : undefined}
+          onPointerMove={editable ? onPointerMove : undefined}
+          onPointerUp={editable ? onPointerUp : undefined}
+          style={{
+            position: "absolute",
+            inset: 0,
+            zIndex: 2,
+            cursor: editable ? "crosshair" : undefined,
+            pointerEvents: editable ? "auto" : "none",
+            touchAction: "none",
+          }}
+        >
+          {page.signatureFields.map((field) => (
+            <div
+              key={field.name}
+              title={field.name}
+              style={{
+                ...boxStyle(toPixelRect(field.rect, page.view, scale)),
+                border: `2px dashed ${FIELD_COLOR}`,
+                background: "rgba(253, 126, 20, 0.08)",
+              }}
+            >
+              <Text size="xs" c="orange.8" px={2}>
+                {field.name}
+              </Text>
+            </div>
+          ))}
+          {current ? (
+            <div
+              style={{
+                ...boxStyle(current),
+                border: `2px solid ${currentConflict ? CONFLICT_COLOR : PLACEMENT_COLOR}`,
+                background: currentConflict
+                  ? "rgba(250, 82, 82, 0.15)"
+                  : "rgba(34, 139, 230, 0.15)",
+                cursor: editable ? "move" : undefined,
+              }}
+            />
+          ) : null}
+        </div>
+      </>
+    );
+  };
 
   return (
     <Box>
@@ -26,9 +229,63 @@ export function PdfViewerPanel({ pdfBase64 }: { pdfBase64: string }) {
             fileUrl={fileUrl}
             plugins={[defaultLayout]}
             defaultScale={SpecialZoomLevel.PageFit}
+            renderPage={renderPage}
           />
         </Worker>
       </Box>
+
+      {onPlacementChange ? (
+        <Group justify="space-between" mt="sm">
+          <Text size="sm" c="dimmed">
+            {placement
+              ? `Signature field: page ${placement.pageNumber}, [${placement.rectangle
+                  .map((v) => v.toString())
+                  .join(", ")}]`
+              : "Draw the signature field on a page"}
+          </Text>
+          <Button
+            size="xs"
+            variant="subtle"
+            onClick={() => {
+              setError(null);
+              onPlacementChange(null);
+            }}
+          >
+            Default position
+          </Button>
+        </Group>
+      ) : null}
+      {error ? (
+        <Alert color="red" mt="sm">
+          {error}
+        </Alert>
+      ) : conflict ? (
+        <Alert color="red" mt="sm">
+          The signature field overlaps the existing field "{conflict.name}": draw it elsewhere.
+        </Alert>
+      ) : null}
     </Box>
   );
 }
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function contains(rect: PixelRect, [x, y]: [number, number]): boolean {
+  return (
+    x >= rect.left && x <= rect.left + rect.width && y >= rect.top && y <= rect.top + rect.height
+  );
+}
+
+function boxStyle(rect: PixelRect): React.CSSProperties {
+  return {
+    position: "absolute",
+    left: rect.left,
+    top: rect.top,
+    width: rect.width,
+    height: rect.height,
+    boxSizing: "border-box",
+    overflow: "hidden",
+  };
+}
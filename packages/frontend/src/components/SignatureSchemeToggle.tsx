@@ -0,0 +1,32 @@
+import { SegmentedControl, Tooltip } from "@mantine/core";
+import { useAtom, useAtomValue } from "jotai";
+
+import { rsaSignatureSchemeAtom, signingMethodAtom } from "../store/atoms";
+
+import type { RsaSignatureScheme } from "../store/atoms";
+
+export function SignatureSchemeToggle() {
+  const [scheme, setScheme] = useAtom(rsaSignatureSchemeAtom);
+  const signingMethod = useAtomValue(signingMethodAtom);
+  // Icanopee signs with the card algorithm
+  const disabled = signingMethod === "cps";
+
+  return (
+    <Tooltip
+      label={
+        disabled ? "CPS cards sign with PKCS#1 v1.5" : "RSA signature scheme (EC keys sign ECDSA)"
+      }
+    >
+      <SegmentedControl
+        size="xs"
+        value={scheme}
+        disabled={disabled}
+        onChange={(value) => setScheme(value as RsaSignatureScheme)}
+        data={[
+          { label: "RSA PKCS#1 v1.5", value: "pkcs1" },
+          { label: "RSA-PSS", value: "pss" },
+        ]}
+      />
+    </Tooltip>
+  );
+}
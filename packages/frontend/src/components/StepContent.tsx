@@ -2,19 +2,20 @@
 
 import { FileInput, Stack, Text, Alert } from "@mantine/core";
 import { IconUpload } from "@tabler/icons-react";
-import { useAtom, useAtomValue } from "jotai";
+import { useAtom } from "jotai";
 
 import { pdfFileAtom, workflowStateAtom } from "../store/atoms";
+import { DEFAULT_SIGNATURE_PLACEMENT } from "../utils/signature-placement";
 import { getStepIndex } from "../utils/workflow";
 
 import { PdfActionsBar } from "./PDFActionBar";
 import { PdfSummaryCard } from "./PDFSummaryCard";
-
-const DEFAULT_WIDGET_RECT: [number, number, number, number] = [300, 50, 545, 150];
+import { PdfViewerPanel } from "./PDFViewerPanel";
 
 export function StepContent() {
-  const workflowState = useAtomValue(workflowStateAtom);
+  const [workflowState, setWorkflowState] = useAtom(workflowStateAtom);
   const [pdfFile, setPdfFile] = useAtom(pdfFileAtom);
+  const placement = workflowState.signaturePlacement ?? DEFAULT_SIGNATURE_PLACEMENT;
 
   // Content for PDF Generation (upload OR generate)
   if (workflowState.step === "generate") {
@@ -120,7 +121,7 @@ export function StepContent() {
             {workflowState.byteRange
               ? `[${workflowState.byteRange.join(", ")}]`
               : "[start₁, length₁, start₂, length₂]"}
-            <br />• SHA-256 messageDigest:{" "}
+            <br />• {workflowState.digestAlgorithm ?? "SHA-256"} messageDigest:{" "}
             {workflowState.messageDigestB64
               ? `${workflowState.messageDigestB64.length} chars (base64)`
               : "pending calculation"}
@@ -140,7 +141,8 @@ export function StepContent() {
               base64={workflowState.preparedPdfBase64}
               stepNumber={getStepIndex("preSign") + 1}
               title="Prepared PDF (with placeholder)"
-              highlightRect={DEFAULT_WIDGET_RECT}
+              highlightRect={placement.rectangle}
+              highlightPageNumber={placement.pageNumber}
             />
             <PdfActionsBar
               base64={workflowState.preparedPdfBase64}
@@ -152,10 +154,24 @@ export function StepContent() {
             </Text>
           </>
         ) : (
-          <PdfActionsBar
-            base64={workflowState.preparedPdfBase64}
-            stepNumber={getStepIndex("preSign") + 1}
-          />
+          <>
+            {workflowState.pdfBase64 ? (
+              <PdfViewerPanel
+                pdfBase64={workflowState.pdfBase64}
+                placement={placement}
+                onPlacementChange={(signaturePlacement) =>
+                  setWorkflowState({
+                    ...workflowState,
+                    signaturePlacement: signaturePlacement ?? undefined,
+                  })
+                }
+              />
+            ) : null}
+            <PdfActionsBar
+              base64={workflowState.preparedPdfBase64}
+              stepNumber={getStepIndex("preSign") + 1}
+            />
+          </>
         )}
       </Stack>
     );
@@ -216,7 +232,7 @@ export function StepContent() {
             <strong>Input:</strong>
             <br />• Prepared PDF with ByteRange:{" "}
             {workflowState.byteRange ? `[${workflowState.byteRange.join(", ")}]` : "pending"}
-            <br />• SHA-256 messageDigest:{" "}
+            <br />• {workflowState.digestAlgorithm ?? "SHA-256"} messageDigest:{" "}
             {workflowState.messageDigestB64
               ? `${workflowState.messageDigestB64.slice(0, 16)}...`
               : "pending"}
@@ -272,7 +288,8 @@ export function StepContent() {
               base64={workflowState.preparedPdfBase64}
               stepNumber={getStepIndex("sign") + 1}
               title="Ready-to-sign PDF"
-              highlightRect={DEFAULT_WIDGET_RECT}
+              highlightRect={placement.rectangle}
+              highlightPageNumber={placement.pageNumber}
             />
             <PdfActionsBar
               base64={workflowState.preparedPdfBase64}
@@ -1,24 +1,36 @@
 import { SegmentedControl, Group, Badge } from "@mantine/core";
 import { useAtom } from "jotai";
 
-import { includeTimestampAtom } from "../store/atoms";
+import { signatureLevelAtom } from "../store/atoms";
+
+import type { PAdESLevel } from "@pades-poc/shared";
+
+const LEVEL_BADGES: Record<PAdESLevel, { label: string; color: string }> = {
+  "B-B": { label: "No Timestamp", color: "gray" },
+  "B-T": { label: "With Timestamp", color: "blue" },
+  "B-LT": { label: "Timestamp + DSS", color: "teal" },
+  "B-LTA": { label: "DSS + Document Timestamp", color: "grape" },
+};
 
 export function TSAToggle() {
-  const [includeTimestamp, setIncludeTimestamp] = useAtom(includeTimestampAtom);
+  const [signatureLevel, setSignatureLevel] = useAtom(signatureLevelAtom);
+  const badge = LEVEL_BADGES[signatureLevel];
 
   return (
     <Group gap="xs" align="center">
       <SegmentedControl
         size="xs"
-        value={includeTimestamp ? "bt" : "bb"}
-        onChange={(value) => setIncludeTimestamp(value === "bt")}
+        value={signatureLevel}
+        onChange={(value) => setSignatureLevel(value as PAdESLevel)}
         data={[
-          { label: "PAdES B-B", value: "bb" },
-          { label: "PAdES B-T", value: "bt" },
+          { label: "PAdES B-B", value: "B-B" },
+          { label: "PAdES B-T", value: "B-T" },
+          { label: "PAdES B-LT", value: "B-LT" },
+          { label: "PAdES B-LTA", value: "B-LTA" },
         ]}
       />
-      <Badge size="xs" variant="light" color={includeTimestamp ? "blue" : "gray"}>
-        {includeTimestamp ? "With Timestamp" : "No Timestamp"}
+      <Badge size="xs" variant="light" color={badge.color}>
+        {badge.label}
       </Badge>
     </Group>
   );
@@ -12,9 +12,11 @@ import type {
   VerificationResponse,
   GenerateDemoPDFRequest,
   GenerateDemoPDFResponse,
+  MockSignRequest,
   MockSignResponse,
   PAdESError,
   LogEntry,
+  DigestAlgorithm,
   DebugPdfObjectsResponse,
   DebugCmsRequest,
   DebugCmsResponse,
@@ -133,9 +135,14 @@ export class ApiClient {
     return response.data;
   }
 
-  async mockSign(toBeSignedB64: string): Promise<MockSignResponse & { logs?: LogEntry[] }> {
+  async mockSign(
+    toBeSignedB64: string,
+    signatureAlgorithmOid?: string,
+    digestAlgorithm?: DigestAlgorithm,
+  ): Promise<MockSignResponse & { logs?: LogEntry[] }> {
+    const request: MockSignRequest = { toBeSignedB64, signatureAlgorithmOid, digestAlgorithm };
     const response: AxiosResponse<MockSignResponse & { logs?: LogEntry[] }> =
-      await this.client.post("/mock/sign", { toBeSignedB64 });
+      await this.client.post("/mock/sign", request);
     return response.data;
   }
 
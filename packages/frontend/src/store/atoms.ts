@@ -1,6 +1,7 @@
 // packages/frontend/src/store/atoms.ts
 
 import { notifications } from "@mantine/notifications";
+import { SIGNATURE_ALGORITHMS } from "@pades-poc/shared";
 import { atom, useAtomValue, useSetAtom } from "jotai";
 import { atomWithStorage } from "jotai/utils";
 import { useMemo } from "react";
@@ -8,12 +9,15 @@ import { useMemo } from "react";
 import { ApiClient } from "../services/api";
 import { IcanopeeService } from "../services/icanopee";
 
+import type { SignaturePlacement } from "../utils/signature-placement";
 import type {
+  DigestAlgorithm,
   LogEntry,
   PcscReader,
   FinalizeRequest,
   PKCS11SlotInfo,
   PKCS11CertificateInfo,
+  PAdESLevel,
 } from "@pades-poc/shared";
 
 // --- Base State Atoms ---
@@ -25,6 +29,9 @@ export interface WorkflowState {
   preparedPdfBase64?: string;
   byteRange?: [number, number, number, number];
   messageDigestB64?: string;
+  digestAlgorithm?: DigestAlgorithm; // Algorithm of messageDigestB64, chosen at prepare time
+  signaturePlacement?: SignaturePlacement; // Drawn in the viewer, backend default otherwise
+  signatureFieldName?: string; // New placeholder field (Signature2, ... when countersigning)
   signedAttrsDerB64?: string;
   expectedDigestB64?: string; // For CPS digest validation
   signatureB64?: string;
@@ -244,8 +251,18 @@ export const usePKCS11 = () => {
 export const showLogTimestampsAtom = atom<boolean>(true);
 export const indentBackendLogsAtom = atom<boolean>(true);
 
-// Signature-level preference (B-B vs B-T)
-export const includeTimestampAtom = atomWithStorage<boolean>("includeTimestamp", true);
+// Signature-level preference (B-B, B-T or B-LT)
+export const signatureLevelAtom = atomWithStorage<PAdESLevel>("signatureLevel", "B-T");
+
+// RSA signature scheme of the mock HSM and PKCS#11 signatures (CPS cards sign PKCS#1 v1.5)
+export type RsaSignatureScheme = "pkcs1" | "pss";
+export const rsaSignatureSchemeAtom = atomWithStorage<RsaSignatureScheme>(
+  "rsaSignatureScheme",
+  "pkcs1",
+);
+
+// Digest of the signed byte ranges (CMS digestAlgorithm and timestamp imprint)
+export const digestAlgorithmAtom = atomWithStorage<DigestAlgorithm>("digestAlgorithm", "SHA-256");
 
 export const useWorkflowActions = () => {
   const setWorkflowState = useSetAtom(workflowStateAtom);
@@ -258,7 +275,9 @@ export const useWorkflowActions = () => {
   const selectedReader = useAtomValue(selectedReaderAtom);
   const selectedSlot = useAtomValue(selectedSlotAtom);
   const selectedCertificate = useAtomValue(selectedCertificateAtom);
-  const includeTimestamp = useAtomValue(includeTimestampAtom);
+  const signatureLevel = useAtomValue(signatureLevelAtom);
+  const rsaSignatureScheme = useAtomValue(rsaSignatureSchemeAtom);
+  const digestAlgorithm = useAtomValue(digestAlgorithmAtom);
 
   const apiClient = new ApiClient();
   // Use a single shared IcanopeeService instance to maintain session/card state
@@ -318,7 +337,10 @@ export const useWorkflowActions = () => {
 
         case "preSign": {
           if (!state.pdfBase64) throw new Error("Missing PDF content.");
-          const prepRes = await apiClient.preparePDF({ pdfBase64: state.pdfBase64, config: {} });
+          const prepRes = await apiClient.preparePDF({
+            pdfBase64: state.pdfBase64,
+            config: { digestAlgorithm, ...state.signaturePlacement },
+          });
           handleApiResponse(prepRes, "PDF prepared for signing.");
           setWorkflowState({ ...state, ...prepRes, step: "sign" });
           break;
@@ -377,6 +399,7 @@ export const useWorkflowActions = () => {
           // Common presign step for all methods
           const presignRes = await apiClient.presignPDF({
             messageDigestB64: state.messageDigestB64!,
+            digestAlgorithm: state.digestAlgorithm,
             signerCertPem: certRes.signerCertPem,
           });
           handleApiResponse(presignRes, "Pre-sign complete.");
@@ -385,12 +408,22 @@ export const useWorkflowActions = () => {
         }
 
         case "finalize": {
-          let sigRes = { signatureB64: "" };
+          // Without signatureAlgorithmOid the backend derives it from the signer key (CPS)
+          let sigRes: { signatureB64: string; signatureAlgorithmOid?: string } = {
+            signatureB64: "",
+          };
+          // Default (undefined): the algorithm of the signer key
+          const requestedAlgorithmOid =
+            rsaSignatureScheme === "pss" ? SIGNATURE_ALGORITHMS.RSASSA_PSS : undefined;
 
           // STRICT WORKFLOW SEPARATION: Each signing method uses completely different signing paths
           if (signingMethod === "mock") {
             // Mock HSM workflow - sign with mock service
-            sigRes = await apiClient.mockSign(state.signedAttrsDerB64!);
+            sigRes = await apiClient.mockSign(
+              state.signedAttrsDerB64!,
+              requestedAlgorithmOid,
+              state.digestAlgorithm,
+            );
           } else if (signingMethod === "cps") {
             // CPS workflow - ONLY use Icanopee, NO PKCS#11 calls
             if (!selectedReader) throw new Error("No CPS reader selected.");
@@ -465,6 +498,8 @@ export const useWorkflowActions = () => {
               pin,
               dataToSignB64: signedAttrsDerB64, // DER(signedAttributes) in base64
               certificateFilter: { label: selectedCertificate },
+              signatureAlgorithmOid: requestedAlgorithmOid,
+              digestAlgorithm: state.digestAlgorithm,
             });
 
             if (response.logs) addLogs(response.logs);
@@ -472,7 +507,10 @@ export const useWorkflowActions = () => {
               throw new Error(response.error?.message || "PKCS#11 signing failed");
             }
 
-            sigRes = { signatureB64: response.signatureB64 };
+            sigRes = {
+              signatureB64: response.signatureB64,
+              signatureAlgorithmOid: response.signatureAlgorithmOid,
+            };
 
             // IMPORTANT: PKCS#11 workflow ends here - no Icanopee operations
           } else {
@@ -482,11 +520,14 @@ export const useWorkflowActions = () => {
           const finalizeRequest: FinalizeRequest = {
             preparedPdfBase64: state.preparedPdfBase64!,
             byteRange: state.byteRange!,
+            signatureFieldName: state.signatureFieldName,
             signedAttrsDerB64: state.signedAttrsDerB64!,
             signatureB64: sigRes.signatureB64,
+            signatureAlgorithmOid: sigRes.signatureAlgorithmOid,
+            digestAlgorithm: state.digestAlgorithm,
             signerCertPem: state.signerCertPem!,
             certificateChainPem: state.certificateChainPem,
-            withTimestamp: includeTimestamp, // control B-B (false) vs B-T (true)
+            signatureLevel, // B-B (no TSA), B-T (timestamp) or B-LT (timestamp + DSS)
           };
 
           const finalizeRes = await apiClient.finalizePDF(finalizeRequest);
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  normalizeRect,
+  overlappingField,
+  rectsOverlap,
+  toPdfRect,
+  toPixelRect,
+} from "./signature-placement";
+
+import type { SignatureRect } from "@pades-poc/shared";
+
+describe("signature placement", () => {
+  // A4 page whose visible box does not start at the origin
+  const view: SignatureRect = [10, 20, 605, 862];
+
+  it("should normalize rectangles drawn from any corner", () => {
+    expect(normalizeRect([545, 150, 300, 50])).toEqual([300, 50, 545, 150]);
+    expect(normalizeRect([300, 150, 545, 50])).toEqual([300, 50, 545, 150]);
+  });
+
+  it("should only report rectangles sharing some area as overlapping", () => {
+    const field: SignatureRect = [300, 50, 545, 150];
+
+    expect(rectsOverlap(field, [500, 100, 600, 200])).toBe(true);
+    expect(rectsOverlap(field, [600, 200, 500, 100])).toBe(true);
+    expect(rectsOverlap(field, [350, 80, 400, 120])).toBe(true); // Inside
+    expect(rectsOverlap(field, [545, 50, 600, 150])).toBe(false); // Touching edge
+    expect(rectsOverlap(field, [50, 50, 250, 150])).toBe(false);
+  });
+
+  it("should name the first existing field a rectangle overlaps", () => {
+    const fields = [
+      { name: "Signature1", rect: [300, 50, 545, 150] as SignatureRect },
+      { name: "Signature2", rect: [50, 50, 250, 150] as SignatureRect },
+    ];
+
+    expect(overlappingField(fields, [200, 100, 260, 120])?.name).toBe("Signature2");
+    expect(overlappingField(fields, [50, 200, 250, 300])).toBeUndefined();
+  });
+
+  it("should map page pixels to PDF points and back", () => {
+    const scale = 1.5;
+    const rect: SignatureRect = [300, 50, 545, 150];
+
+    const pixels = toPixelRect(rect, view, scale);
+    expect(pixels).toEqual({ left: 435, top: 1068, width: 367.5, height: 150 });
+    expect(toPdfRect(pixels, view, scale)).toEqual(rect);
+  });
+
+  it("should round drawn rectangles to whole points", () => {
+    expect(toPdfRect({ left: 100.4, top: 200.2, width: 50.7, height: 30.3 }, view, 2)).toEqual([
+      60, 747, 86, 762,
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+// packages/frontend/src/utils/signature-placement.ts
+
+import { getDocument } from "pdfjs-dist";
+
+import type { SignatureRect } from "@pades-poc/shared";
+
+/** Where the next signature field goes: 1-based page and [x1, y1, x2, y2] in PDF points */
+export interface SignaturePlacement {
+  pageNumber: number;
+  rectangle: SignatureRect;
+}
+
+export interface ExistingSignatureField {
+  name: string;
+  rect: SignatureRect;
+}
+
+export interface PdfPageFields {
+  /** Visible page box [x1, y1, x2, y2] in PDF points */
+  view: SignatureRect;
+  /** Intrinsic /Rotate of the page, in degrees */
+  rotation: number;
+  signatureFields: ExistingSignatureField[];
+}
+
+/** Page area in CSS pixels, top-left origin */
+export interface PixelRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** Backend default when PDFSigningConfig has no pageNumber and rectangle */
+export const DEFAULT_SIGNATURE_PLACEMENT: SignaturePlacement = {
+  pageNumber: 1,
+  rectangle: [300, 50, 545, 150],
+};
+
+/** Smallest accepted side of a drawn signature field, in PDF points */
+export const MIN_FIELD_SIZE = 20;
+
+interface PdfJsAnnotation {
+  fieldType?: string;
+  fieldName?: string;
+  rect: number[];
+}
+
+/** Page boxes and visible signature fields (widget /Rect) of every page */
+export async function loadPdfPageFields(pdfBase64: string): Promise<PdfPageFields[]> {
+  const data = Uint8Array.from(atob(pdfBase64), (c) => c.charCodeAt(0));
+  const doc = await getDocument({ data }).promise;
+  try {
+    const pages: PdfPageFields[] = [];
+    for (let i = 1; i <= doc.numPages; i++) {
+      const page = await doc.getPage(i);
+      const annotations = (await page.getAnnotations()) as PdfJsAnnotation[];
+      pages.push({
+        view: normalizeRect(page.view as SignatureRect),
+        rotation: page.rotate,
+        signatureFields: annotations
+          .filter((a) => a.fieldType === "Sig")
+          .map((a) => ({ name: a.fieldName ?? "", rect: normalizeRect(a.rect as SignatureRect) }))
+          // Invisible signatures have an empty rectangle
+          .filter((field) => rectArea(field.rect) > 0),
+      });
+    }
+    return pages;
+  } finally {
+    void doc.destroy();
+  }
+}
+
+/** Reorder corners to [left, bottom, right, top] */
+export function normalizeRect([x1, y1, x2, y2]: SignatureRect): SignatureRect {
+  return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+}
+
+export function rectArea([x1, y1, x2, y2]: SignatureRect): number {
+  return Math.abs(x2 - x1) * Math.abs(y2 - y1);
+}
+
+/** Whether two rectangles share some area (touching edges do not overlap) */
+export function rectsOverlap(a: SignatureRect, b: SignatureRect): boolean {
+  const [ax1, ay1, ax2, ay2] = normalizeRect(a);
+  const [bx1, by1, bx2, by2] = normalizeRect(b);
+  return ax1 < bx2 && bx1 < ax2 && ay1 < by2 && by1 < ay2;
+}
+
+/** First existing signature field the rectangle overlaps, if any */
+export function overlappingField(
+  fields: ExistingSignatureField[],
+  rect: SignatureRect,
+): ExistingSignatureField | undefined {
+  return fields.find((field) => rectsOverlap(field.rect, rect));
+}
+
+/** PDF user space (bottom-left origin, points) to page pixels of an unrotated page */
+export function toPixelRect(rect: SignatureRect, view: SignatureRect, scale: number): PixelRect {
+  const [x1, y1, x2, y2] = normalizeRect(rect);
+  return {
+    left: (x1 - view[0]) * scale,
+    top: (view[3] - y2) * scale,
+    width: (x2 - x1) * scale,
+    height: (y2 - y1) * scale,
+  };
+}
+
+/** Page pixels of an unrotated page to PDF user space, rounded to whole points */
+export function toPdfRect(rect: PixelRect, view: SignatureRect, scale: number): SignatureRect {
+  return [
+    Math.round(view[0] + rect.left / scale),
+    Math.round(view[3] - (rect.top + rect.height) / scale),
+    Math.round(view[0] + (rect.left + rect.width) / scale),
+    Math.round(view[3] - rect.top / scale),
+  ];
+}
@@ -7,6 +7,19 @@ export const SIGNATURE_ALGORITHMS = {
   SHA256_WITH_RSA: "1.2.840.113549.1.1.11",
   SHA384_WITH_RSA: "1.2.840.113549.1.1.12",
   SHA512_WITH_RSA: "1.2.840.113549.1.1.13",
+  RSASSA_PSS: "1.2.840.113549.1.1.10", // hash, MGF1 and salt length in the parameters
+  MGF1: "1.2.840.113549.1.1.8", // mask generation function of RSASSA-PSS
+  ECDSA_WITH_SHA256: "1.2.840.10045.4.3.2",
+  ECDSA_WITH_SHA384: "1.2.840.10045.4.3.3",
+  ECDSA_WITH_SHA512: "1.2.840.10045.4.3.4",
+} as const;
+
+// Public key algorithms and named curves (RFC 5480)
+export const KEY_ALGORITHMS = {
+  RSA_ENCRYPTION: "1.2.840.113549.1.1.1",
+  EC_PUBLIC_KEY: "1.2.840.10045.2.1",
+  P256: "1.2.840.10045.3.1.7",
+  P384: "1.3.132.0.34",
 } as const;
 
 // Hash algorithms
@@ -23,19 +36,58 @@ export const CMS_OIDS = {
   ID_CONTENT_TYPE: "1.2.840.113549.1.9.3",
   ID_MESSAGE_DIGEST: "1.2.840.113549.1.9.4",
   ID_SIGNING_TIME: "1.2.840.113549.1.9.5",
+  ID_SIGNING_CERTIFICATE: "1.2.840.113549.1.9.16.2.12",
   ID_SIGNING_CERTIFICATE_V2: "1.2.840.113549.1.9.16.2.47",
   ID_SIGNATURE_TIMESTAMP_TOKEN: "1.2.840.113549.1.9.16.2.14",
+  ID_CT_TST_INFO: "1.2.840.113549.1.9.16.1.4",
+  ID_KP_TIME_STAMPING: "1.3.6.1.5.5.7.3.8",
+} as const;
+
+// PKIX Object Identifiers (RFC 5280, RFC 6960)
+export const PKIX_OIDS = {
+  AUTHORITY_INFO_ACCESS: "1.3.6.1.5.5.7.1.1",
+  EXTENDED_KEY_USAGE: "2.5.29.37",
+  CRL_DISTRIBUTION_POINTS: "2.5.29.31",
+  CRL_REASON: "2.5.29.21",
+  AD_OCSP: "1.3.6.1.5.5.7.48.1",
+  AD_CA_ISSUERS: "1.3.6.1.5.5.7.48.2",
+  ID_PKIX_OCSP_BASIC: "1.3.6.1.5.5.7.48.1.1",
+  ID_PKIX_OCSP_NONCE: "1.3.6.1.5.5.7.48.1.2",
+  ID_KP_OCSP_SIGNING: "1.3.6.1.5.5.7.3.9",
 } as const;
 
+// CRLReason codes (RFC 5280 §5.3.1), shared by CRL entries and OCSP RevokedInfo
+export const CRL_REASONS: Record<number, string> = {
+  0: "unspecified",
+  1: "keyCompromise",
+  2: "cACompromise",
+  3: "affiliationChanged",
+  4: "superseded",
+  5: "cessationOfOperation",
+  6: "certificateHold",
+  8: "removeFromCRL",
+  9: "privilegeWithdrawn",
+  10: "aACompromise",
+};
+
 // PAdES constants
 export const PADES_CONSTANTS = {
   SUBFILTER: "ETSI.CAdES.detached",
+  DOC_TIMESTAMP_SUBFILTER: "ETSI.RFC3161",
   FILTER: "Adobe.PPKLite",
   DEFAULT_PLACEHOLDER_SIZE: 32768, // bytes - larger for B-T with timestamp
+  DOC_TIMESTAMP_PLACEHOLDER_SIZE: 16384, // hex chars - TSA token only
   MIN_PLACEHOLDER_SIZE: 8192,
   MAX_PLACEHOLDER_SIZE: 65536,
 } as const;
 
+// DocMDP transform /P value per certification level (ISO 32000-1 §12.8.2.2)
+export const DOC_MDP_PERMISSIONS = {
+  "no-changes": 1,
+  "form-filling": 2,
+  "form-filling-annotations": 3,
+} as const;
+
 // Default configuration values
 export const DEFAULT_CONFIG = {
   SIGNATURE_REASON: "ePrescription signature",
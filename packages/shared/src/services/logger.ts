@@ -7,7 +7,7 @@ import type { LogEntry, LogLevel } from "../types/common";
 
 export interface PAdESLogContext {
   workflowId?: string;
-  step?: "prepare" | "presign" | "finalize" | "verify" | "timestamp";
+  step?: "prepare" | "presign" | "finalize" | "verify" | "timestamp" | "extend";
   pdfSize?: number;
   signatureAlgorithm?: string;
   certificateSubject?: string;
@@ -3,7 +3,13 @@
  */
 
 import type { BaseApiResponse, LogEntry } from "./common";
-import type { ByteRange, PDFSigningConfig } from "./pdf";
+import type {
+  ByteRange,
+  DigestAlgorithm,
+  PAdESLevel,
+  PDFSigningConfig,
+  TimestampFailurePolicy,
+} from "./pdf";
 
 // Health check
 export interface HealthResponse extends BaseApiResponse {
@@ -24,11 +30,17 @@ export interface PrepareResponse extends BaseApiResponse {
   preparedPdfBase64: string;
   byteRange: ByteRange;
   messageDigestB64: string;
+  /** Algorithm of messageDigestB64, to pass on to presign and finalize */
+  digestAlgorithm: DigestAlgorithm;
+  /** Field holding the new placeholder (Signature2, ... when countersigning) */
+  signatureFieldName?: string;
 }
 
 // Step 2: Pre-sign (build signed attributes)
 export interface PresignRequest {
   messageDigestB64: string;
+  /** Algorithm of messageDigestB64, also used for the ESSCertIDv2 hash. Default "SHA-256". */
+  digestAlgorithm?: DigestAlgorithm;
   signerCertPem?: string;
   signingTime?: Date;
 }
@@ -42,17 +54,64 @@ export interface PresignResponse extends BaseApiResponse {
 export interface FinalizeRequest {
   preparedPdfBase64: string;
   byteRange: ByteRange;
+  /** Placeholder field returned by prepare. Default "Signature1". */
+  signatureFieldName?: string;
   signedAttrsDerB64: string;
   signatureB64: string; // Raw signature from external signer
   signerCertPem: string;
   certificateChainPem?: string[]; // Optional intermediate certificates
-  signatureAlgorithmOid?: string; // Default: SHA256withRSA
+  signatureAlgorithmOid?: string; // Default: from the signer key (SHA256withRSA, ecdsa-with-SHA256/384)
+  /** Digest algorithm given to presign: CMS digestAlgorithm and timestamp imprint. Default "SHA-256". */
+  digestAlgorithm?: DigestAlgorithm;
   /** Whether to request and embed RFC 3161 signature-time-stamp token (B-T). Default true. */
   withTimestamp?: boolean;
+  /**
+   * Target PAdES level. "B-LT" appends a DSS incremental update, "B-LTA" adds a document
+   * timestamp after it. Overrides withTimestamp.
+   */
+  signatureLevel?: PAdESLevel;
+  /** TSA failure handling; defaults to TSA_FAILURE_POLICY, then "fallback" (B-B) */
+  timestampFailurePolicy?: TimestampFailurePolicy;
+  /** Revocation data collected at signing time, embedded in the DSS for B-LT */
+  revocationData?: {
+    ocspResponsesB64?: string[]; // DER-encoded OCSPResponse
+    crlsB64?: string[]; // DER-encoded CertificateList
+  };
 }
 
 export interface FinalizeResponse extends BaseApiResponse {
   signedPdfBase64: string;
+  /** PAdES level actually reached (may be lower than requested if the TSA failed) */
+  signatureLevel?: PAdESLevel;
+  /** Signature timestamp, with the TSA that issued it (failover may pick a backup TSA) */
+  signatureTimestamp?: {
+    tsaUrl: string;
+    timestampTime: string;
+    accuracy?: string;
+  };
+}
+
+// Upgrade an already-signed PDF (B-T → B-LT → B-LTA)
+export interface ExtendRequest {
+  pdfBase64: string;
+  targetLevel: "B-LT" | "B-LTA";
+  /** TSA used for the document timestamp (B-LTA) */
+  timestampUrl?: string;
+  /** Document timestamp failure handling; defaults to TSA_FAILURE_POLICY, then "fallback" (B-LT) */
+  timestampFailurePolicy?: TimestampFailurePolicy;
+  revocationData?: FinalizeRequest["revocationData"];
+}
+
+export interface ExtendResponse extends BaseApiResponse {
+  extendedPdfBase64: string;
+  signatureLevel?: PAdESLevel;
+  /** Number of signatures and document timestamps covered by the DSS */
+  signatureCount?: number;
+  documentTimestamp?: {
+    fieldName: string;
+    tsaUrl: string;
+    timestampTime: string;
+  };
 }
 
 // PDF generation (for demo/testing)
@@ -64,7 +123,15 @@ export interface GenerateDemoPDFResponse extends BaseApiResponse {
   pdfBase64: string;
 }
 
-// Mock HSM responses
+// Mock HSM requests / responses
+export interface MockSignRequest {
+  toBeSignedB64: string; // DER(signedAttributes) in base64
+  /** id-RSASSA-PSS for RSA-PSS (RSA signer key only); default: the signer key algorithm */
+  signatureAlgorithmOid?: string;
+  /** Digest of the signed attributes; a stronger one raises the signature hash. Default "SHA-256". */
+  digestAlgorithm?: DigestAlgorithm;
+}
+
 export interface MockSignResponse extends BaseApiResponse {
   signatureB64: string;
   signerCertPem: string;
@@ -72,6 +139,21 @@ export interface MockSignResponse extends BaseApiResponse {
   signatureAlgorithmOid: string;
 }
 
+export interface MockRevokeRequest {
+  /** Serial number in hex (default: the mock signer certificate) */
+  serialNumber?: string;
+  /** CRLReason name, e.g. "keyCompromise" (default: "unspecified") */
+  reason?: string;
+}
+
+export interface MockRevokeResponse extends BaseApiResponse {
+  serialNumber: string;
+  /** Mock CA whose OCSP responses and CRL now report the certificate as revoked */
+  issuer: "root" | "intermediate";
+  revocationTime: string;
+  reason: string;
+}
+
 // DC Parameter endpoints
 export interface GetDcParameterResponse extends BaseApiResponse {
   dcParameter: string;
@@ -2,15 +2,79 @@
  * PDF-related types and interfaces
  */
 
+/** PAdES baseline levels (ETSI EN 319 142-1) */
+export type PAdESLevel = "B-B" | "B-T" | "B-LT" | "B-LTA";
+
+/** When no TSA issues the signature timestamp: keep a B-B signature, or fail the request */
+export type TimestampFailurePolicy = "fallback" | "fail";
+
+/** Hash of the signed byte ranges, the CMS digestAlgorithm and the timestamp imprint */
+export type DigestAlgorithm = "SHA-256" | "SHA-384" | "SHA-512";
+
 export interface PDFSigningConfig {
   signerName?: string;
   reason?: string;
   location?: string;
   contactInfo?: string;
-  signatureLevel?: "B-B" | "B-T";
+  signatureLevel?: PAdESLevel;
   timestampUrl?: string;
+  /** Certify the document (author signature with DocMDP permissions) instead of approving it */
+  certificationLevel?: CertificationLevel;
+  /** Form fields that must not change once this signature is applied (FieldMDP) */
+  fieldLock?: FieldLock;
+  /** Digest of the signed byte ranges. Default "SHA-256". */
+  digestAlgorithm?: DigestAlgorithm;
+  /** Page of the signature widget (1-based). Default 1. */
+  pageNumber?: number;
+  /**
+   * Widget rectangle in PDF user space, clear of existing signature widgets.
+   * Default [300, 50, 545, 150].
+   */
+  rectangle?: SignatureRect;
+  /** Generated /AP appearance of the widget; without it the widget appearance is empty */
+  appearance?: SignatureAppearance;
+}
+
+/** [x1, y1, x2, y2] in PDF points, origin at the bottom-left corner of the page */
+export type SignatureRect = [number, number, number, number];
+
+/** Visible signature layouts: every detail, name and date only, or the image alone */
+export type AppearanceTemplate = "detailed" | "compact" | "image";
+
+/** PDF standard fonts of the appearance stream (WinAnsi text) */
+export type AppearanceFont = "Helvetica" | "Times-Roman" | "Courier";
+
+export interface SignatureAppearance {
+  /** Invisible signature: empty /Rect on page pageNumber, rectangle ignored */
+  invisible?: boolean;
+  /** Default "detailed" */
+  template?: AppearanceTemplate;
+  /** Default "Helvetica" */
+  font?: AppearanceFont;
+  /** Font size in points. Default: the largest size up to 10 that fits the rectangle. */
+  fontSize?: number;
+  /** Signer certificate (PEM): name and RPPS number unless given below */
+  signerCertPem?: string;
+  /** Default: from signerCertPem, then PDFSigningConfig.signerName */
+  signerName?: string;
+  /** RPPS number of the health professional. Default: from signerCertPem. */
+  rpps?: string;
+  /** Profession from the CPS card (e.g. "Médecin") */
+  profession?: string;
+  /** PNG or JPEG logo or handwritten signature, base64 */
+  imageBase64?: string;
 }
 
+/** Signature field /Lock (ISO 32000-1 §12.7.4.5): All, the listed fields, or all but them */
+export interface FieldLock {
+  action: "All" | "Include" | "Exclude";
+  /** Fully qualified field names (required for Include and Exclude) */
+  fields?: string[];
+}
+
+/** Changes allowed after a certification signature (DocMDP /P 1, 2 and 3) */
+export type CertificationLevel = "no-changes" | "form-filling" | "form-filling-annotations";
+
 export type ByteRange = [number, number, number, number];
 
 export interface PDFMetadata {
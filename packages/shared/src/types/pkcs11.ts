@@ -4,6 +4,8 @@
 
 import { BaseApiResponse } from "./common";
 
+import type { DigestAlgorithm } from "./pdf";
+
 export interface PKCS11SlotInfo {
   slotId: number;
   description: string;
@@ -34,6 +36,10 @@ export interface PKCS11SigningRequest {
     label?: string;
     subject?: string;
   };
+  /** id-RSASSA-PSS for CKM_SHA256_RSA_PKCS_PSS (RSA keys only); default: from the key type */
+  signatureAlgorithmOid?: string;
+  /** Digest of the signed attributes; a stronger one raises the signature hash. Default "SHA-256". */
+  digestAlgorithm?: DigestAlgorithm;
 }
 
 export interface PKCS11SigningResponse extends BaseApiResponse {
@@ -3,16 +3,22 @@
  */
 
 import type { BaseApiResponse } from "./common";
-import type { ByteRange } from "./pdf";
+import type { ByteRange, CertificationLevel, FieldLock, PAdESLevel } from "./pdf";
 
 export interface VerificationRequest {
   pdfBase64: string;
+  /** Validate "as of" this date (ISO 8601) instead of now */
+  validationTime?: string;
 }
 
 export interface CertificateChainInfo {
   isValid: boolean;
   chainLength: number;
+  /** The chain reached an anchor of the trust store */
   trustedChain: boolean;
+  trustAnchor?: TrustAnchorSummary;
+  /** Time the chain was evaluated at: the signature time-stamp when it proves existence */
+  validationTime?: string;
   signerCertificate?: {
     subject: string;
     issuer: string;
@@ -20,10 +26,95 @@ export interface CertificateChainInfo {
     validTo: string;
     isValidNow: boolean;
     keyUsage: string[];
+    /** Revocation status of the signer certificate (OCSP, or CRL as fallback) */
+    revocation?: RevocationSummary;
   };
   reasons: string[];
 }
 
+export interface TrustAnchorSummary {
+  subject: string;
+  /** SHA-256 of the anchor certificate, uppercase hex with colons */
+  fingerprint: string;
+  /** Trust store file the anchor was loaded from */
+  source: string;
+  /** Set when the anchor is the digital identity of a Trusted List service */
+  trustedService?: TrustedServiceSummary;
+}
+
+/** Qualified service of an ETSI TS 119 612 Trusted List */
+export interface TrustedServiceSummary {
+  /** Service type URI (…/Svctype/CA/QC or …/Svctype/TSA/QTST) */
+  type: string;
+  name: string;
+  providerName: string;
+  /** Scheme territory of the Trusted List (e.g. "FR") */
+  territory?: string;
+  /** Status history, newest first */
+  history: { status: string; startingTime: string }[];
+  /** Status URI in effect at signing time (timestamp time when available) */
+  statusAtSigningTime?: string;
+  /** The service was granted at signing time */
+  grantedAtSigningTime?: boolean;
+}
+
+export interface RevocationSummary {
+  status: "good" | "revoked" | "unknown";
+  source?: "ocsp" | "crl";
+  revocationTime?: string;
+  revocationReason?: string;
+  /** Why the status could not be determined */
+  reason?: string;
+}
+
+/** ETSI EN 319 102-1 main status indication of a signature */
+export type MainIndication = "TOTAL-PASSED" | "TOTAL-FAILED" | "INDETERMINATE";
+
+/** Status of one validation building block */
+export type BlockIndication = "PASSED" | "FAILED" | "INDETERMINATE";
+
+/** ETSI EN 319 102-1 sub-indications (the subset this verifier can produce) */
+export type SubIndication =
+  | "FORMAT_FAILURE"
+  | "HASH_FAILURE"
+  | "SIG_CRYPTO_FAILURE"
+  | "REVOKED"
+  | "NOT_YET_VALID"
+  | "SIG_CONSTRAINTS_FAILURE"
+  | "CHAIN_CONSTRAINTS_FAILURE"
+  | "CERTIFICATE_CHAIN_GENERAL_FAILURE"
+  | "NO_SIGNING_CERTIFICATE_FOUND"
+  | "NO_CERTIFICATE_CHAIN_FOUND"
+  | "REVOKED_NO_POE"
+  | "REVOKED_CA_NO_POE"
+  | "OUT_OF_BOUNDS_NO_POE"
+  | "NO_POE"
+  | "TRY_LATER"
+  | "SIGNED_DATA_NOT_FOUND";
+
+/** Building blocks of the signature validation, in evaluation order */
+export type ValidationBlock =
+  | "identification"
+  | "x509Validation"
+  | "cryptographicVerification"
+  | "timestampValidation"
+  | "pastSignatureValidation";
+
+export interface ValidationBlockResult {
+  block: ValidationBlock;
+  indication: BlockIndication;
+  subIndication?: SubIndication;
+  details: string[];
+}
+
+export interface ValidationReport {
+  indication: MainIndication;
+  subIndication?: SubIndication;
+  validationTime: string;
+  /** Blocks that were evaluated (no time-stamp block for B-B signatures, etc.) */
+  blocks: ValidationBlockResult[];
+}
+
 export interface ComplianceCheck {
   requirement: string;
   satisfied: boolean;
@@ -46,22 +137,77 @@ export interface VerificationResult {
   isCryptographicallyValid: boolean;
   isPAdESCompliant: boolean;
   isTimestamped: boolean; // PAdES-B-T specific
-  signatureLevel: "B-B" | "B-T" | "UNKNOWN";
+  signatureLevel: PAdESLevel | "UNKNOWN";
   signerCN?: string;
   signingTime?: string;
   timestampTime?: string; // For PAdES-B-T
   reasons: string[];
+  /** The signer chain (or TSA chain for document timestamps) reached a trust anchor */
   chainTrusted?: boolean;
+  /** Trusted List status of the signer CA at signing time (anchor from a Trusted List) */
+  signerServiceGranted?: boolean;
+  /** Trusted List status of the TSA at the timestamp time (anchor from a Trusted List) */
+  tsaServiceGranted?: boolean;
   certValidNow?: boolean;
   byteRange?: ByteRange;
   certificateChain?: CertificateChainInfo;
   complianceDetails?: ComplianceDetails;
+  /** ETSI EN 319 102-1 indications (of the first approval signature at the top level) */
+  validationReport?: ValidationReport;
+  /** One entry per signed field (signatures and document timestamps), in file order */
+  signatures?: SignatureVerificationResult[];
+}
+
+/** Category of a change made by an incremental update after a signature */
+export type ModificationKind =
+  | "dss"
+  | "documentTimestamp"
+  | "signature"
+  | "formFill"
+  | "annotation"
+  | "pageContent"
+  | "structure"
+  | "shadowObject"
+  | "xref";
+
+export interface DetectedModification {
+  kind: ModificationKind;
+  /** Permitted for a signed document (DSS, document timestamps, form fill under the MDP level) */
+  allowed: boolean;
+  description: string;
+  objectNumber?: number;
+  /** Fully qualified name of the form field involved, if any */
+  fieldName?: string;
+}
+
+export interface SignatureVerificationResult extends Omit<VerificationResult, "signatures"> {
+  fieldName: string;
+  type: "signature" | "documentTimestamp";
+  byteRange: ByteRange;
+  /** 1-based revision covered by the ByteRange */
+  revision: number;
+  /** False when incremental updates were appended after this signature */
+  coversWholeDocument: boolean;
+  /** Changes made by the later incremental updates (empty when coversWholeDocument) */
+  modifications?: DetectedModification[];
+  /** Set on the certification signature (catalog /Perms /DocMDP) */
+  certificationLevel?: CertificationLevel;
+  /** Fields locked by this signature (FieldMDP) */
+  fieldLock?: FieldLock;
 }
 
 export interface VerificationResponse extends BaseApiResponse {
   result: VerificationResult;
 }
 
+/** Formats of /pdf/verify/report: ETSI TS 119 102-2 XML, sealed PDF, or the JSON result */
+export type VerificationReportFormat = "xml" | "pdf" | "json";
+
+export interface VerificationReportResponse extends VerificationResponse {
+  /** SHA-256 of the validated PDF, base64 */
+  documentDigest: string;
+}
+
 export interface DetailedVerificationResult extends VerificationResult {
   complianceChecks: ComplianceCheck[];
   certificateDetails?: {